@@ -36,10 +36,21 @@ export {
 
 // Export du SDK unifié
 export { UnifiedEnterpriseSDK, createEnterprise, enterprise } from './src/unified-sdk';
+export {
+  composeMiddlewares,
+  timingMiddleware,
+  retryMiddleware,
+  cacheMiddleware,
+  validationMiddleware,
+  authTokenMiddleware,
+  type InvokeContext,
+  type InvokeMiddleware,
+} from './src/core/middleware';
 
 // Export des modules avec interfaces simplifiées
 export {
   RustBridge,
+  BridgeArgumentError,
   type BridgeConfig,
   type RustFunction,
   type InvokeOptions,
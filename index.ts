@@ -7,6 +7,53 @@ export { EnterpriseSDK, Enterprise, createEnterprise } from './src/index';
 // Module classes for direct usage
 export { Ai, Storage, UIManager, AuthManager, ProjectManager, SDK } from './src/index';
 
+// Errors raised by WASM calls
+export { WasmCallError, WasmErrorCode, RuntimeError, ResourceLimitError } from './src/index';
+export type { ResourceLimit } from './src/index';
+
+// Recording and replaying runtimes for deterministic tests
+export { createRuntime, RecordingRuntime, ReplayRuntime, ReplayMissError } from './src/index';
+export type { ReplayOptions } from './src/index';
+
+// API description of WASM modules, used by `enterprise api` and `enterprise sdk bindgen`
+export { API_SECTION, describeModuleApi, formatSignature, validateArguments } from './src/index';
+export type { WasmFunctionApi, WasmModuleApi, WasmParam } from './src/index';
+export { generateBindings, parseWit } from './src/index';
+export type { BindgenModule, BindgenOptions } from './src/index';
+
+// Rust bridge; bindings generated by `enterprise sdk bindgen` extend RustFunctionMap
+export { RustBridge, BridgeArgumentError } from './src/core/rust-bridge';
+
+// Middlewares around UnifiedEnterpriseSDK.invoke
+export {
+  composeMiddlewares,
+  timingMiddleware,
+  retryMiddleware,
+  cacheMiddleware,
+  validationMiddleware,
+  authTokenMiddleware,
+} from './src/core/middleware';
+export type {
+  InvokeContext,
+  InvokeMiddleware,
+  InvokeNext,
+  InvokeTiming,
+  RetryOptions,
+  CacheOptions,
+  CacheMiddleware,
+  ParamsValidator,
+  AuthTokenOptions,
+  FunctionFilter,
+} from './src/core/middleware';
+export type {
+  BridgeConfig,
+  InvokeOptions,
+  RustFunction,
+  RustFunctionMap,
+  RustParams,
+  RustResult,
+} from './src/core/rust-bridge';
+
 // Type exports
 export type {
   EnterpriseConfig,
@@ -14,6 +61,18 @@ export type {
   LogoConfig,
   ModuleInterface,
   RuntimeCore,
+  RuntimeStatus,
+  RuntimeCallOptions,
+  RuntimeMethods,
+  RuntimeHandler,
+  RegisterHandlerOptions,
+  WorkerPoolConfig,
+  WorkerRoute,
+  CallLimits,
+  MemoryUsage,
+  RuntimeFixtureConfig,
+  RecordedCall,
+  RuntimeFixture,
   FrameworkType,
 } from './src/types';
 
@@ -40,6 +99,16 @@ export type { Project, Task } from './packages/modules/project/src/index';
 
 export type { SDKMetaInfo, SDKSelfReferenceOptions } from './packages/modules/sdk/src/index';
 
+export type {
+  EmailManager,
+  EmailConfig,
+  EmailMessage,
+  EmailStats,
+  EmailThread,
+  SendEmailOptions,
+  FetchEmailOptions,
+} from './src/index';
+
 // Hook exports
 export * from './src/hooks';
 
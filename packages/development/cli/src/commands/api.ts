@@ -0,0 +1,99 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+
+const DEFAULT_WASM_DIRS = ['wasm', 'public/wasm'];
+
+/**
+ * Affiche l'API des modules WASM : leurs exports, décrits par la section
+ * `euse_api` quand elle est présente
+ */
+export class ApiCommand {
+  private files: string[];
+  private options: any;
+
+  constructor(files: string[], options: any, _globalOptions: any) {
+    this.files = files;
+    this.options = options;
+  }
+
+  async execute(): Promise<void> {
+    const enterpriseModule = await import('@skygenesisenterprise/enterprise-node');
+    const { describeModuleApi, formatSignature } = enterpriseModule as any;
+
+    const files = await this.resolveFiles();
+    if (files.length === 0) {
+      console.error(chalk.red('❌ Aucun module WASM trouvé'));
+      console.log(chalk.yellow('💡 Indiquez des fichiers .wasm ou un répertoire avec --wasm-path'));
+      process.exitCode = 1;
+      return;
+    }
+
+    const modules = [];
+    for (const file of files) {
+      const name = path.basename(file, '.wasm');
+      try {
+        const module = await WebAssembly.compile(await fs.readFile(file));
+        modules.push({ name, file, ...describeModuleApi(module) });
+      } catch (error) {
+        modules.push({ name, file, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (this.options.json) {
+      console.log(JSON.stringify(modules, null, 2));
+      return;
+    }
+
+    for (const module of modules) {
+      const version = module.version ? chalk.gray(` v${module.version}`) : '';
+      console.log(
+        chalk.blue.bold(`\n📦 ${module.name}`) + version + chalk.gray(` (${module.file})`)
+      );
+
+      if (module.error) {
+        console.log(chalk.red(`  ✗ ${module.error}`));
+        process.exitCode = 1;
+        continue;
+      }
+
+      for (const fn of module.functions) {
+        let line = `  ${chalk.cyan(`${module.name}::`)}${formatSignature(fn)}`;
+        if (!fn.params) {
+          line += chalk.gray('  (non décrite)');
+        }
+        if (fn.deprecated) {
+          line += chalk.yellow(
+            `  ⚠️ dépréciée${typeof fn.deprecated === 'string' ? `: ${fn.deprecated}` : ''}`
+          );
+        }
+        console.log(line);
+        if (fn.description) {
+          console.log(chalk.gray(`      ${fn.description}`));
+        }
+      }
+
+      for (const name of module.missing) {
+        console.log(chalk.yellow(`  ⚠️ ${name} est décrite dans euse_api mais n'est pas exportée`));
+      }
+    }
+  }
+
+  private async resolveFiles(): Promise<string[]> {
+    if (this.files.length > 0) {
+      return this.files;
+    }
+
+    const dirs = this.options.wasmPath ? [this.options.wasmPath] : DEFAULT_WASM_DIRS;
+    for (const dir of dirs) {
+      if (await fs.pathExists(dir)) {
+        const entries = await fs.readdir(dir);
+        return entries
+          .filter((entry) => entry.endsWith('.wasm'))
+          .sort()
+          .map((entry) => path.join(dir, entry));
+      }
+    }
+    return [];
+  }
+}
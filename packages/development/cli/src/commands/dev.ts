@@ -4,6 +4,7 @@ import { spawn } from 'child_process';
 
 export class DevCommand {
   private options: any;
+  private mailSandbox: { stop(): Promise<void> } | null = null;
 
   constructor(options: any, _globalOptions: any) {
     this.options = options;
@@ -12,6 +13,10 @@ export class DevCommand {
   async execute(): Promise<void> {
     console.log(chalk.blue.bold('🔥 Démarrage du serveur de développement Enterprise'));
 
+    if (this.options.mail || this.options.mailDir) {
+      await this.startMailSandbox();
+    }
+
     const spinner = ora('Démarrage du serveur...').start();
 
     try {
@@ -51,28 +56,81 @@ export class DevCommand {
         cwd: process.cwd(),
       });
 
-      child.on('error', (error) => {
+      child.on('error', async (error) => {
         console.error(chalk.red('Erreur lors du démarrage du serveur:'), error.message);
+        await this.stopMailSandbox();
         process.exit(1);
       });
 
-      // Gérer les signaux
-      process.on('SIGINT', () => {
+      // Gérer les signaux ; le serveur mail local est arrêté avant de quitter
+      process.on('SIGINT', async () => {
         child.kill('SIGINT');
+        await this.stopMailSandbox();
         process.exit(0);
       });
 
-      process.on('SIGTERM', () => {
+      process.on('SIGTERM', async () => {
         child.kill('SIGTERM');
+        await this.stopMailSandbox();
         process.exit(0);
       });
     } catch (error) {
       spinner.fail('Erreur lors du démarrage');
       console.error(chalk.red('Erreur:'), error instanceof Error ? error.message : error);
+      await this.stopMailSandbox();
       process.exit(1);
     }
   }
 
+  /**
+   * Starts the in-process mail sandbox from the SDK so the app under
+   * development can send and read mail without a real server.
+   */
+  private async startMailSandbox(): Promise<void> {
+    const spinner = ora('Démarrage du serveur mail local...').start();
+
+    try {
+      const sandboxModule = await import('@skygenesisenterprise/enterprise-node/sandbox');
+      const { MailSandbox, FileSandboxStore } = sandboxModule as any;
+      let store: unknown;
+
+      if (this.options.mailDir) {
+        const fs = await import('fs-extra');
+        const path = await import('path');
+        await fs.ensureDir(this.options.mailDir);
+        store = new FileSandboxStore(path.join(this.options.mailDir, 'mail-sandbox.json'));
+      }
+
+      const sandbox = new MailSandbox({ store });
+      const address = await sandbox.start();
+      spinner.succeed('Serveur mail local démarré');
+      console.log(chalk.cyan(`📨 SMTP  ${address.host}:${address.smtpPort}`));
+      console.log(chalk.cyan(`📥 IMAP  ${address.host}:${address.imapPort}`));
+      console.log(chalk.cyan(`📥 POP3  ${address.host}:${address.pop3Port}`));
+      if (address.httpPort) {
+        console.log(chalk.cyan(`🌐 Boîte de réception http://${address.host}:${address.httpPort}`));
+      }
+      this.mailSandbox = sandbox;
+    } catch (error) {
+      spinner.fail('Impossible de démarrer le serveur mail local');
+      console.error(chalk.red('Erreur:'), error instanceof Error ? error.message : error);
+    }
+  }
+
+  /** Arrête le serveur mail local et enregistre ses messages, s'il a été démarré */
+  private async stopMailSandbox(): Promise<void> {
+    const sandbox = this.mailSandbox;
+    this.mailSandbox = null;
+    try {
+      await sandbox?.stop();
+    } catch (error) {
+      console.error(
+        chalk.red("Erreur lors de l'arrêt du serveur mail local:"),
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
   private async detectFramework(): Promise<string> {
     const fs = await import('fs-extra');
 
@@ -108,7 +166,12 @@ export class DevCommand {
 }
 
 // Export function for backward compatibility
-export async function devCommand(options: { port: string; host: string }) {
+export async function devCommand(options: {
+  port: string;
+  host: string;
+  mail?: boolean;
+  mailDir?: string;
+}) {
   const command = new DevCommand(options, {});
   await command.execute();
 }
@@ -8,3 +8,4 @@ export { SDKInitCommand } from './sdk-init';
 export { SDKFmtCommand } from './sdk-fmt';
 export { SDKTestCommand } from './sdk-test';
 export { SDKUpgradeCommand } from './sdk-upgrade';
+export { SDKBindgenCommand } from './sdk-bindgen';
@@ -0,0 +1,111 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import { BaseSDKCommand, SDKCommandOptions } from './base-sdk-command';
+
+export interface BindgenCommandOptions extends SDKCommandOptions {
+  out?: string;
+  wasmPath?: string;
+  bridgeModule?: string;
+}
+
+const DEFAULT_WASM_DIRS = ['wasm', 'public/wasm'];
+const INPUT_EXTENSIONS = ['.wasm', '.wit', '.json'];
+
+/**
+ * Génère les bindings TypeScript des modules Rust/WASM à partir de leurs
+ * exports et de la section `euse_api`, d'un fichier d'interface `.wit` ou
+ * d'une description JSON
+ */
+export class SDKBindgenCommand extends BaseSDKCommand {
+  protected options: BindgenCommandOptions;
+  private files: string[];
+
+  constructor(files: string[], options: BindgenCommandOptions, globalOptions: any) {
+    super(options, globalOptions);
+    this.files = files;
+    this.options = options;
+  }
+
+  async execute(): Promise<void> {
+    console.log(chalk.blue.bold('🦀 Génération des bindings TypeScript'));
+
+    const enterpriseModule = await import('@skygenesisenterprise/enterprise-node');
+    const { describeModuleApi, generateBindings, parseWit } = enterpriseModule as any;
+
+    const files = await this.resolveFiles();
+    if (files.length === 0) {
+      console.error(chalk.red("❌ Aucun module WASM ni fichier d'interface trouvé"));
+      console.log(
+        chalk.yellow(
+          '💡 Indiquez des fichiers .wasm, .wit ou .json, ou un répertoire avec --wasm-path'
+        )
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const modules = [];
+    for (const file of files) {
+      try {
+        const extension = path.extname(file);
+        if (extension === '.wasm') {
+          const module = await WebAssembly.compile(await fs.readFile(file));
+          const api = describeModuleApi(module);
+          modules.push({ name: path.basename(file, extension), source: file, ...api });
+        } else if (extension === '.wit') {
+          for (const module of parseWit(await fs.readFile(file, 'utf-8'))) {
+            modules.push({ ...module, source: file });
+          }
+        } else {
+          const api = await fs.readJson(file);
+          modules.push({ name: path.basename(file, extension), source: file, ...api });
+        }
+      } catch (error) {
+        console.error(chalk.red(`❌ ${file}: ${error instanceof Error ? error.message : error}`));
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    const outDir = this.options.out || 'src/generated/rust';
+    const output: Record<string, string> = generateBindings(modules, {
+      bridgeModule: this.options.bridgeModule,
+    });
+
+    await fs.ensureDir(outDir);
+    for (const [name, content] of Object.entries(output)) {
+      await fs.writeFile(path.join(outDir, name), content);
+    }
+
+    for (const module of modules) {
+      const undescribed = module.functions.filter((fn: any) => !fn.params).length;
+      console.log(
+        `  ${chalk.green('✓')} ${chalk.cyan(module.name)} : ${module.functions.length} fonction(s)` +
+          (undescribed ? chalk.yellow(` dont ${undescribed} non décrite(s), typée(s) unknown`) : '')
+      );
+    }
+    console.log(chalk.green(`\n✅ ${Object.keys(output).length} fichiers écrits dans ${outDir}`));
+    console.log(
+      chalk.gray(`💡 Incluez ${path.join(outDir, 'rust-functions.d.ts')} dans votre tsconfig`)
+    );
+  }
+
+  private async resolveFiles(): Promise<string[]> {
+    if (this.files.length > 0) {
+      return this.files;
+    }
+
+    const dirs = this.options.wasmPath ? [this.options.wasmPath] : DEFAULT_WASM_DIRS;
+    for (const dir of dirs) {
+      if (await fs.pathExists(dir)) {
+        const entries = await fs.readdir(dir);
+        return entries
+          .filter((entry) => INPUT_EXTENSIONS.includes(path.extname(entry)))
+          .sort()
+          .map((entry) => path.join(dir, entry));
+      }
+    }
+    return [];
+  }
+}
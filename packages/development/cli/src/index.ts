@@ -14,6 +14,7 @@ import { NewCommand } from './commands/new';
 import { PluginCommand } from './commands/plugin';
 import { DoctorCommand } from './commands/doctor';
 import { InfoCommand } from './commands/info';
+import { ApiCommand } from './commands/api';
 import { EnterpriseBuilderCommand } from './commands/enterprise-builder';
 import { UniversalDevCommand } from './commands/universal-dev';
 import { UniversalBuildCommand } from './commands/universal-build';
@@ -30,6 +31,7 @@ import {
   SDKFmtCommand,
   SDKTestCommand,
   SDKUpgradeCommand,
+  SDKBindgenCommand,
 } from './commands/sdk';
 
 const program = new Command();
@@ -49,6 +51,8 @@ program
   .option('-h, --host <host>', 'Hôte du serveur', 'localhost')
   .option('--hot', 'Activer le rechargement à chaud')
   .option('--inspect', "Activer l'inspecteur de debug")
+  .option('--mail', 'Démarrer le serveur mail local (SMTP, IMAP, POP3 et boîte de réception web)')
+  .option('--mail-dir <dir>', 'Conserver les messages du serveur mail local dans ce répertoire')
   .action(async (options) => {
     const devCommand = new DevCommand(options, program.opts());
     await devCommand.execute();
@@ -164,6 +168,18 @@ program
     await infoCommand.execute();
   });
 
+// Commande d'API des modules WASM
+program
+  .command('api')
+  .description("Afficher l'API découverte dans les modules WASM (exports et section euse_api)")
+  .argument('[files...]', 'Fichiers .wasm à inspecter')
+  .option('--wasm-path <dir>', 'Répertoire des modules WASM (par défaut wasm ou public/wasm)')
+  .option('--json', 'Afficher en format JSON')
+  .action(async (files, options) => {
+    const apiCommand = new ApiCommand(files, options, program.opts());
+    await apiCommand.execute();
+  });
+
 // Commande .enterprise builder
 program
   .command('enterprise-builder')
@@ -370,6 +386,23 @@ program
     await upgradeCommand.execute();
   });
 
+// Commandes des modules Rust/WASM
+program
+  .command('sdk')
+  .description('Outils des modules Rust/WASM')
+  .addCommand(
+    new Command('bindgen')
+      .description('Générer les bindings TypeScript des modules Rust/WASM')
+      .argument('[files...]', 'Modules .wasm, interfaces .wit ou descriptions .json')
+      .option('-o, --out <dir>', 'Répertoire de sortie', 'src/generated/rust')
+      .option('--wasm-path <dir>', 'Répertoire des modules WASM (par défaut wasm ou public/wasm)')
+      .option('--bridge-module <specifier>', 'Module exportant RustBridge et RustFunctionMap')
+      .action(async (files, options) => {
+        const bindgenCommand = new SDKBindgenCommand(files, options, program.opts());
+        await bindgenCommand.execute();
+      })
+  );
+
 // Gestion des erreurs globales
 program.on('command:*', () => {
   console.error(chalk.red(`❌ Commande invalide: ${program.args.join(' ')}`));
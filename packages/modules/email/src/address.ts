@@ -0,0 +1,57 @@
+export interface ParsedAddress {
+  name?: string;
+  address: string;
+}
+
+/**
+ * Splits a comma separated address list, ignoring commas inside quoted
+ * display names and angle brackets.
+ */
+export function splitAddressList(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => splitAddressList(entry));
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    else if (char === '<' && !quoted) angle = true;
+    else if (char === '>' && !quoted) angle = false;
+
+    if (char === ',' && !quoted && !angle) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+export function parseAddress(value: string): ParsedAddress {
+  const match = value.match(/^\s*(.*?)\s*<([^>]*)>\s*$/);
+  if (!match) {
+    return { address: value.trim() };
+  }
+
+  const name = match[1]
+    .replace(/^"(.*)"$/, '$1')
+    .replace(/\\(.)/g, '$1')
+    .trim();
+  return name ? { name, address: match[2].trim() } : { address: match[2].trim() };
+}
+
+/**
+ * Returns the bare `local@domain` part of each address, as used in an SMTP
+ * envelope.
+ */
+export function extractAddresses(value: string | string[] | undefined): string[] {
+  return splitAddressList(value).map((entry) => parseAddress(entry).address);
+}
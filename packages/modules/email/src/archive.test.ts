@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { openArchiveWriter, readArchive } from './archive';
+import { MailSandbox } from './sandbox';
+import { SmtpClient } from './smtp';
+import { EmailManager } from './index';
+import type { ArchivedMessage, MailboxArchiveFormat } from './types';
+
+function message(subject: string, body: string, flags: string[], date: Date): ArchivedMessage {
+  return {
+    raw: Buffer.from(
+      `From: alice@example.com\r\nTo: bob@example.com\r\nSubject: ${subject}\r\n\r\n${body}\r\n`
+    ),
+    flags,
+    date,
+  };
+}
+
+async function collect(format: MailboxArchiveFormat, source: string) {
+  const messages: ArchivedMessage[] = [];
+  for await (const entry of readArchive(format, source)) {
+    messages.push(entry);
+  }
+  return messages;
+}
+
+describe('mailbox archives', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const messages = [
+    message(
+      'First',
+      'From the start\r\n>From quoted\r\n\r\nFrom here',
+      ['\\Seen', '\\Flagged'],
+      new Date('2026-03-01T10:20:30Z')
+    ),
+    message('Second', 'Plain body', [], new Date('2026-03-02T08:00:00Z')),
+  ];
+
+  it('round-trips messages, flags and dates through mboxrd', async () => {
+    const file = path.join(directory, 'inbox.mbox');
+    const writer = await openArchiveWriter('mbox', file);
+    for (const entry of messages) await writer.write(entry);
+    await writer.close();
+
+    const content = await fs.readFile(file, 'latin1');
+    expect(content).toMatch(/^From alice@example.com Sun Mar {2}1 10:20:30 2026\n/);
+    expect(content).toContain('\n>From the start\n>>From quoted\n\n>From here\n');
+    expect(content).toContain('Status: RO\nX-Status: F\n');
+
+    const read = await collect('mbox', file);
+    expect(read).toEqual(messages);
+  });
+
+  it('keeps flags in Maildir file names', async () => {
+    const writer = await openArchiveWriter('maildir', directory);
+    for (const entry of messages) await writer.write(entry);
+    await writer.close();
+
+    const names = await fs.readdir(path.join(directory, 'cur'));
+    expect(names.map((name) => name.slice(name.indexOf(':'))).sort()).toEqual([':2,', ':2,FS']);
+    expect(await fs.readdir(path.join(directory, 'tmp'))).toEqual([]);
+
+    const read = await collect('maildir', directory);
+    expect(read.map((entry) => entry.flags)).toEqual([['\\Flagged', '\\Seen'], []]);
+    expect(read.map((entry) => entry.date)).toEqual(messages.map((entry) => entry.date));
+    expect(read.map((entry) => entry.raw)).toEqual(messages.map((entry) => entry.raw));
+  });
+
+  it('writes one .eml file per message and reads single files', async () => {
+    const writer = await openArchiveWriter('eml', directory);
+    for (const entry of messages) await writer.write(entry);
+    await writer.close();
+
+    expect(await fs.readdir(directory)).toEqual(['000001.eml', '000002.eml']);
+    const read = await collect('eml', path.join(directory, '000002.eml'));
+    expect(read).toEqual([{ ...messages[1], flags: [] }]);
+    expect(await collect('eml', directory)).toHaveLength(2);
+  });
+});
+
+describe('EmailManager mailbox export and import', () => {
+  let sandbox: MailSandbox;
+  let directory: string;
+
+  beforeEach(async () => {
+    sandbox = new MailSandbox({ smtpPort: 0, imapPort: 0, pop3Port: 0, httpPort: false });
+    await sandbox.start();
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-'));
+  });
+
+  afterEach(async () => {
+    await sandbox.stop();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('exports a mailbox and imports it into a new one', async () => {
+    const smtp = new SmtpClient(sandbox.getEmailConfig().smtp!);
+    await smtp.connect();
+    for (const subject of ['One', 'Two', 'Three']) {
+      await smtp.sendEmail({
+        from: 'alice@example.com',
+        to: 'bob@example.com',
+        subject,
+        text: `From ${subject}`,
+      });
+    }
+    await smtp.disconnect();
+    const inbox = sandbox.getMessages({ mailbox: 'INBOX' });
+    await sandbox.setFlags([inbox[1]], ['\\Seen', '\\Answered'], 'add');
+
+    const manager = new EmailManager({ imap: sandbox.getEmailConfig().imap });
+    await manager.connectAll();
+    try {
+      const file = path.join(directory, 'inbox.mbox');
+      expect(await manager.exportMailbox('INBOX', 'mbox', file)).toBe(3);
+      expect(await manager.importMailbox(file, 'mbox', 'Archive')).toBe(3);
+    } finally {
+      await manager.disconnectAll();
+    }
+
+    const archived = sandbox.getMessages({ mailbox: 'Archive' });
+    expect(archived.map((entry) => Buffer.from(entry.raw).toString())).toEqual(
+      inbox.map((entry) => Buffer.from(entry.raw).toString())
+    );
+    expect(archived[1].flags.sort()).toEqual(['\\Answered', '\\Seen']);
+    expect(archived.map((entry) => Math.floor(entry.date.getTime() / 1000))).toEqual(
+      inbox.map((entry) => Math.floor(entry.date.getTime() / 1000))
+    );
+  });
+});
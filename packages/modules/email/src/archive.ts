@@ -0,0 +1,339 @@
+import { createReadStream, createWriteStream, promises as fs, WriteStream } from 'fs';
+import { once } from 'events';
+import * as os from 'os';
+import * as path from 'path';
+import { extractAddresses } from './address';
+import type { ArchivedMessage, MailboxArchiveFormat } from './types';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** `X-Status` letters used by mutt and Thunderbird; `R` in `Status` means seen. */
+const X_STATUS_FLAGS: Record<string, string> = {
+  A: '\\Answered',
+  F: '\\Flagged',
+  T: '\\Draft',
+  D: '\\Deleted',
+};
+
+/** Maildir info letters (https://cr.yp.to/proto/maildir.html), in ASCII order. */
+const MAILDIR_FLAGS: Record<string, string> = {
+  D: '\\Draft',
+  F: '\\Flagged',
+  R: '\\Answered',
+  S: '\\Seen',
+  T: '\\Deleted',
+};
+
+export interface ArchiveWriter {
+  write(message: ArchivedMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** Opens `destination` for writing: a directory for `eml` and `maildir`, a file for `mbox`. */
+export async function openArchiveWriter(
+  format: MailboxArchiveFormat,
+  destination: string
+): Promise<ArchiveWriter> {
+  switch (format) {
+    case 'eml':
+      return EmlWriter.open(destination);
+    case 'mbox':
+      return MboxWriter.open(destination);
+    case 'maildir':
+      return MaildirWriter.open(destination);
+    default:
+      throw new Error(`Unsupported archive format: ${format}`);
+  }
+}
+
+/**
+ * Reads messages one at a time from an archive, with CRLF line endings.
+ * `eml` accepts a single file or a directory of `.eml` files.
+ */
+export function readArchive(
+  format: MailboxArchiveFormat,
+  source: string
+): AsyncGenerator<ArchivedMessage> {
+  switch (format) {
+    case 'eml':
+      return readEml(source);
+    case 'mbox':
+      return readMbox(source);
+    case 'maildir':
+      return readMaildir(source);
+    default:
+      throw new Error(`Unsupported archive format: ${format}`);
+  }
+}
+
+/** Writes numbered `.eml` files; the file time carries the message date. */
+export class EmlWriter implements ArchiveWriter {
+  private count = 0;
+
+  private constructor(private directory: string) {}
+
+  static async open(directory: string): Promise<EmlWriter> {
+    await fs.mkdir(directory, { recursive: true });
+    return new EmlWriter(directory);
+  }
+
+  async write(message: ArchivedMessage): Promise<void> {
+    const file = path.join(this.directory, `${String(++this.count).padStart(6, '0')}.eml`);
+    await fs.writeFile(file, message.raw);
+    await fs.utimes(file, message.date, message.date);
+  }
+
+  async close(): Promise<void> {
+    // Every message is written to its own file.
+  }
+}
+
+/**
+ * Appends messages to an mboxrd file. The date goes into the `From ` line
+ * and flags into `Status`/`X-Status` headers.
+ */
+export class MboxWriter implements ArchiveWriter {
+  private constructor(private stream: WriteStream) {}
+
+  static async open(file: string): Promise<MboxWriter> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const stream = createWriteStream(file);
+    await once(stream, 'open');
+    return new MboxWriter(stream);
+  }
+
+  async write(message: ArchivedMessage): Promise<void> {
+    const lines = toLines(message.raw);
+    const separator = lines.findIndex((line) => line.length === 0);
+    const headerEnd = separator === -1 ? lines.length : separator;
+    const headers = withoutHeaders(lines.slice(0, headerEnd), ['status', 'x-status']);
+    const xStatus = Object.keys(X_STATUS_FLAGS)
+      .filter((letter) => message.flags.includes(X_STATUS_FLAGS[letter]))
+      .join('');
+
+    headers.push(Buffer.from(`Status: ${message.flags.includes('\\Seen') ? 'RO' : 'O'}`));
+    if (xStatus) headers.push(Buffer.from(`X-Status: ${xStatus}`));
+
+    const body = lines
+      .slice(headerEnd)
+      .map((line) => (isFromLine(line, true) ? Buffer.concat([Buffer.from('>'), line]) : line));
+    const sender = extractAddresses(
+      headerValue(headers, 'return-path') || headerValue(headers, 'from')
+    )[0];
+
+    await this.output([
+      Buffer.from(`From ${sender || 'MAILER-DAEMON'} ${asctime(message.date)}\n`),
+      ...[...headers, ...(separator === -1 ? [Buffer.alloc(0)] : []), ...body].flatMap((line) => [
+        line,
+        Buffer.from('\n'),
+      ]),
+      Buffer.from('\n'),
+    ]);
+  }
+
+  async close(): Promise<void> {
+    this.stream.end();
+    await once(this.stream, 'finish');
+  }
+
+  private async output(chunks: Buffer[]): Promise<void> {
+    if (!this.stream.write(Buffer.concat(chunks))) {
+      await once(this.stream, 'drain');
+    }
+  }
+}
+
+/** Delivers into `cur/` with flags in the file name and the date as file time. */
+export class MaildirWriter implements ArchiveWriter {
+  private count = 0;
+  private host = os.hostname().replace(/\//g, '\\057').replace(/:/g, '\\072');
+
+  private constructor(private directory: string) {}
+
+  static async open(directory: string): Promise<MaildirWriter> {
+    for (const folder of ['tmp', 'new', 'cur']) {
+      await fs.mkdir(path.join(directory, folder), { recursive: true });
+    }
+    return new MaildirWriter(directory);
+  }
+
+  async write(message: ArchivedMessage): Promise<void> {
+    const seconds = Math.floor(message.date.getTime() / 1000);
+    const name = `${seconds}.M${++this.count}P${process.pid}.${this.host}`;
+    const info = Object.keys(MAILDIR_FLAGS)
+      .filter((letter) => message.flags.includes(MAILDIR_FLAGS[letter]))
+      .join('');
+
+    const temporary = path.join(this.directory, 'tmp', name);
+    const target = path.join(this.directory, 'cur', `${name}:2,${info}`);
+    await fs.writeFile(
+      temporary,
+      Buffer.concat(toLines(message.raw).flatMap((line) => [line, Buffer.from('\n')]))
+    );
+    await fs.rename(temporary, target);
+    await fs.utimes(target, message.date, message.date);
+  }
+
+  async close(): Promise<void> {
+    // Messages are moved into place as they are written.
+  }
+}
+
+async function* readEml(source: string): AsyncGenerator<ArchivedMessage> {
+  const files = (await fs.stat(source)).isDirectory()
+    ? (await fs.readdir(source))
+        .filter((name) => name.toLowerCase().endsWith('.eml'))
+        .sort()
+        .map((name) => path.join(source, name))
+    : [source];
+
+  for (const file of files) {
+    const { mtime } = await fs.stat(file);
+    yield { raw: toCrlf(await fs.readFile(file)), flags: [], date: mtime };
+  }
+}
+
+async function* readMbox(file: string): AsyncGenerator<ArchivedMessage> {
+  let envelope: string | null = null;
+  let lines: Buffer[] = [];
+  let previousBlank = true;
+
+  for await (const line of readLines(file)) {
+    if (previousBlank && isFromLine(line, false)) {
+      if (envelope !== null) yield mboxMessage(envelope, lines);
+      envelope = line.toString('latin1');
+      lines = [];
+    } else if (envelope !== null) {
+      lines.push(isFromLine(line, true) && line[0] === 0x3e ? line.subarray(1) : line);
+    }
+    previousBlank = line.length === 0;
+  }
+
+  if (envelope !== null) yield mboxMessage(envelope, lines);
+}
+
+async function* readMaildir(directory: string): AsyncGenerator<ArchivedMessage> {
+  for (const folder of ['new', 'cur']) {
+    let names: string[];
+    try {
+      names = await fs.readdir(path.join(directory, folder));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+
+    for (const name of names.filter((entry) => !entry.startsWith('.')).sort()) {
+      const file = path.join(directory, folder, name);
+      const { mtime } = await fs.stat(file);
+      const info = folder === 'cur' ? name.match(/:2,([A-Za-z]*)$/)?.[1] || '' : '';
+      const flags = Object.keys(MAILDIR_FLAGS)
+        .filter((letter) => info.includes(letter))
+        .map((letter) => MAILDIR_FLAGS[letter]);
+      yield { raw: toCrlf(await fs.readFile(file)), flags, date: mtime };
+    }
+  }
+}
+
+function mboxMessage(envelope: string, lines: Buffer[]): ArchivedMessage {
+  // The writer ends every message with an empty line before the next `From `.
+  if (lines.length > 0 && lines[lines.length - 1].length === 0) {
+    lines = lines.slice(0, -1);
+  }
+
+  const separator = lines.findIndex((line) => line.length === 0);
+  const headerEnd = separator === -1 ? lines.length : separator;
+  const headerLines = lines.slice(0, headerEnd);
+  const status = headerValue(headerLines, 'status') || '';
+  const xStatus = headerValue(headerLines, 'x-status') || '';
+
+  const flags = status.includes('R') ? ['\\Seen'] : [];
+  for (const letter of Object.keys(X_STATUS_FLAGS)) {
+    if (xStatus.includes(letter)) flags.push(X_STATUS_FLAGS[letter]);
+  }
+
+  const kept = [...withoutHeaders(headerLines, ['status', 'x-status']), ...lines.slice(headerEnd)];
+  const date = parseAsctime(envelope) || dateHeader(headerLines) || new Date();
+  return {
+    raw: Buffer.concat(kept.flatMap((line) => [line, Buffer.from('\r\n')])),
+    flags,
+    date,
+  };
+}
+
+/** Yields the lines of a file without their CRLF/LF terminators. */
+async function* readLines(file: string): AsyncGenerator<Buffer> {
+  let rest: Buffer = Buffer.alloc(0);
+
+  for await (const chunk of createReadStream(file)) {
+    const data: Buffer =
+      rest.length > 0 ? Buffer.concat([rest, chunk as Buffer]) : (chunk as Buffer);
+    let start = 0;
+    let index: number;
+    while ((index = data.indexOf(0x0a, start)) !== -1) {
+      const end = index > start && data[index - 1] === 0x0d ? index - 1 : index;
+      yield data.subarray(start, end);
+      start = index + 1;
+    }
+    rest = data.subarray(start);
+  }
+
+  if (rest.length > 0) yield rest;
+}
+
+/** `From ` separator lines; with `quoted`, also mboxrd-escaped `>From ` lines. */
+function isFromLine(line: Buffer, quoted: boolean): boolean {
+  const start = line.subarray(0, 80).toString('latin1');
+  return quoted ? /^>*From /.test(start) : start.startsWith('From ');
+}
+
+function toLines(raw: Uint8Array): Buffer[] {
+  const text = Buffer.from(raw)
+    .toString('latin1')
+    .replace(/\r?\n$/, '');
+  return text.split(/\r?\n/).map((line) => Buffer.from(line, 'latin1'));
+}
+
+function toCrlf(content: Buffer): Buffer {
+  return Buffer.from(content.toString('latin1').replace(/\r?\n/g, '\r\n'), 'latin1');
+}
+
+/** Removes the named headers, including their folded continuation lines. */
+function withoutHeaders(lines: Buffer[], names: string[]): Buffer[] {
+  let skipping = false;
+  return lines.filter((line) => {
+    const text = line.toString('latin1');
+    if (/^[ \t]/.test(text)) return !skipping;
+    skipping = names.includes(text.slice(0, text.indexOf(':')).trim().toLowerCase());
+    return !skipping;
+  });
+}
+
+function headerValue(lines: Buffer[], name: string): string | undefined {
+  const text = lines
+    .map((line) => line.toString('latin1'))
+    .join('\n')
+    .replace(/\n[ \t]+/g, ' ');
+  const match = text.match(new RegExp(`^${name}:[ \\t]*(.*)$`, 'im'));
+  return match ? match[1].trim() : undefined;
+}
+
+function dateHeader(lines: Buffer[]): Date | null {
+  const value = headerValue(lines, 'date');
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+/** `Mon Oct 19 09:05:00 2026` in UTC, as used in mbox `From ` lines. */
+function asctime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, ' ')} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ${date.getUTCFullYear()}`;
+}
+
+function parseAsctime(envelope: string): Date | null {
+  const match = envelope.match(/(\w{3}) +(\d{1,2}) (\d{2}):(\d{2}):(\d{2}) (\d{4})\s*$/);
+  const month = match ? MONTHS.indexOf(match[1]) : -1;
+  if (!match || month === -1) return null;
+  const [, , day, hours, minutes, seconds, year] = match.map(Number);
+  return new Date(Date.UTC(year, month, day, hours, minutes, seconds));
+}
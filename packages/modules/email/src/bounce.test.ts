@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { classifyStatus, parseBounce, parseDeliveryStatus } from './bounce';
+
+const lines = (...parts: string[]) => parts.join('\r\n');
+
+function dsn(status: string, action: string, diagnostic: string): string {
+  return lines(
+    'From: Mail Delivery System <MAILER-DAEMON@mx.example.net>',
+    'To: noreply@example.com',
+    'Subject: Undelivered Mail Returned to Sender',
+    'Date: Tue, 02 Jan 2024 10:00:00 +0000',
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/report; report-type=delivery-status; boundary="b1"',
+    '',
+    '--b1',
+    'Content-Type: text/plain',
+    '',
+    'Your message could not be delivered.',
+    '--b1',
+    'Content-Type: message/delivery-status',
+    '',
+    'Reporting-MTA: dns; mx.example.net',
+    'Arrival-Date: Tue, 02 Jan 2024 09:59:58 +0000',
+    '',
+    'Final-Recipient: rfc822; gone@example.org',
+    `Action: ${action}`,
+    `Status: ${status}`,
+    'Remote-MTA: dns; mx.example.org',
+    `Diagnostic-Code: smtp; ${diagnostic}`,
+    '',
+    '--b1',
+    'Content-Type: text/rfc822-headers',
+    '',
+    'From: noreply@example.com',
+    'To: gone@example.org',
+    'Subject: Welcome',
+    'Message-ID: <welcome-1@example.com>',
+    '',
+    '--b1--',
+    ''
+  );
+}
+
+describe('parseBounce', () => {
+  it('reads RFC 3464 delivery status reports', () => {
+    const bounce = parseBounce(
+      dsn('5.1.1', 'failed', '550 5.1.1 <gone@example.org>: no such user')
+    );
+
+    expect(bounce).toEqual({
+      type: 'hard',
+      recipients: [
+        {
+          address: 'gone@example.org',
+          action: 'failed',
+          status: '5.1.1',
+          diagnosticCode: '550 5.1.1 <gone@example.org>: no such user',
+          remoteMta: 'mx.example.org',
+        },
+      ],
+      originalMessageId: '<welcome-1@example.com>',
+      reportingMta: 'mx.example.net',
+      subject: 'Undelivered Mail Returned to Sender',
+      date: new Date('2024-01-02T10:00:00Z'),
+    });
+  });
+
+  it('treats delays and full mailboxes as soft bounces', () => {
+    expect(parseBounce(dsn('4.4.1', 'delayed', '421 try again later'))?.type).toBe('soft');
+    expect(parseBounce(dsn('5.2.2', 'failed', '552 mailbox full'))?.type).toBe('soft');
+  });
+
+  it('ignores reports of successful delivery', () => {
+    expect(parseBounce(dsn('2.0.0', 'delivered', '250 OK'))).toBeNull();
+  });
+
+  it('recognises qmail failure notices', () => {
+    const bounce = parseBounce(
+      lines(
+        'From: MAILER-DAEMON@mail.example.net',
+        'To: noreply@example.com',
+        'Subject: failure notice',
+        '',
+        'Hi. This is the qmail-send program at mail.example.net.',
+        "I'm afraid I wasn't able to deliver your message to the following addresses.",
+        '',
+        '<nobody@example.org>:',
+        'Sorry, no mailbox here by that name. (#5.1.1)',
+        '',
+        '--- Below this line is a copy of the message.',
+        '',
+        'Message-ID: <news-7@example.com>',
+        'To: nobody@example.org',
+        ''
+      )
+    );
+
+    expect(bounce).toMatchObject({
+      type: 'hard',
+      recipients: [{ address: 'nobody@example.org', status: '5.1.1' }],
+      originalMessageId: '<news-7@example.com>',
+    });
+  });
+
+  it('recognises Exchange non-delivery reports', () => {
+    const bounce = parseBounce(
+      lines(
+        'From: postmaster@outlook.example.com',
+        'Subject: Undeliverable: Invoice 42',
+        'Content-Type: text/html',
+        '',
+        '<p>Delivery has failed to these recipients or groups:</p>',
+        '<p><a href="mailto:full@example.org">full@example.org</a></p>',
+        '<p>Remote server returned 452 4.2.2 Mailbox full</p>'
+      )
+    );
+
+    expect(bounce).toMatchObject({
+      type: 'soft',
+      recipients: [{ address: 'full@example.org', status: '4.2.2' }],
+    });
+  });
+
+  it('links auto-replies to the message they answer', () => {
+    const bounce = parseBounce(
+      lines(
+        'From: Jane Doe <jane@example.org>',
+        'Subject: Out of office: Welcome',
+        'Auto-Submitted: auto-replied',
+        'In-Reply-To: <welcome-1@example.com>',
+        '',
+        'I am away until Monday.'
+      )
+    );
+
+    expect(bounce).toMatchObject({
+      type: 'auto-reply',
+      recipients: [{ address: 'jane@example.org' }],
+      originalMessageId: '<welcome-1@example.com>',
+    });
+  });
+
+  it('returns null for ordinary messages', () => {
+    const message = lines(
+      'From: Jane Doe <jane@example.org>',
+      'Subject: Re: Welcome',
+      'In-Reply-To: <welcome-1@example.com>',
+      '',
+      'Thanks, see you at 550 Main St.'
+    );
+    expect(parseBounce(message)).toBeNull();
+  });
+});
+
+describe('parseDeliveryStatus', () => {
+  it('unfolds fields and splits recipient groups', () => {
+    const status = parseDeliveryStatus(
+      'Reporting-MTA: dns; mx\r\n\r\nFinal-Recipient: rfc822; a@x.org\r\nDiagnostic-Code: smtp; 550\r\n  user unknown\r\n\r\nFinal-Recipient: rfc822; b@x.org\r\n'
+    );
+    expect(status.message).toEqual({ 'reporting-mta': 'dns; mx' });
+    expect(status.recipients).toEqual([
+      { 'final-recipient': 'rfc822; a@x.org', 'diagnostic-code': 'smtp; 550 user unknown' },
+      { 'final-recipient': 'rfc822; b@x.org' },
+    ]);
+  });
+});
+
+describe('classifyStatus', () => {
+  it('separates permanent from transient failures', () => {
+    expect(classifyStatus('5.1.1')).toBe('hard');
+    expect(classifyStatus('4.7.0')).toBe('soft');
+    expect(classifyStatus('5.2.2')).toBe('soft');
+    expect(classifyStatus('5.0.0', 'delayed')).toBe('soft');
+    expect(classifyStatus(undefined)).toBe('hard');
+  });
+});
@@ -0,0 +1,233 @@
+import { parseAddress } from './address';
+import { parseMessage } from './mime-parser';
+import { htmlToText } from './templates';
+import { parseMessageIds } from './threading';
+import type { BounceRecipient, EmailBounce } from './types';
+
+/**
+ * The parts of a parsed message the bounce parser looks at; satisfied by
+ * `ImapMessage`, `Pop3Message` and `ParsedMessage`.
+ */
+export interface BounceSource {
+  /** Lower-cased header names. */
+  headers: Record<string, string>;
+  text?: string;
+  html?: string;
+  attachments: Array<{ contentType: string; content: Uint8Array }>;
+  date?: Date;
+}
+
+export interface DeliveryStatus {
+  /** Per-message fields such as `reporting-mta`. */
+  message: Record<string, string>;
+  /** One field group per recipient. */
+  recipients: Array<Record<string, string>>;
+}
+
+const DELIVERY_STATUS_TYPES = ['message/delivery-status', 'message/global-delivery-status'];
+const ORIGINAL_MESSAGE_TYPES = ['message/rfc822', 'message/global'];
+const ORIGINAL_HEADER_TYPES = ['text/rfc822-headers', 'message/global-headers'];
+
+const DAEMON_SENDER = /mailer-daemon|postmaster|mail delivery (subsystem|system)/i;
+const BOUNCE_SUBJECT =
+  /undeliver|returned mail|delivery (status notification|failure|has failed|failed)|failure notice|mail delivery failed|non-?delivery|could not be delivered/i;
+const AUTO_REPLY_SUBJECT =
+  /^\s*(auto(matic)?[ -]?(reply|response)|autoreply|out of (the )?office|abwesenheit|auto:)/i;
+const TRANSIENT_TEXT =
+  /temporar|delayed|will (be )?retr|deferred|mailbox (is )?full|quota|try again later/i;
+const ENHANCED_STATUS = /\b([245])\.(\d{1,3})\.(\d{1,3})\b/;
+const SMTP_REPLY = /\b([45])\d\d(?=[ -])/;
+
+/**
+ * Recognises delivery failure reports and auto-replies. RFC 3464
+ * `multipart/report` DSNs are read field by field; other bounce formats
+ * (qmail, Exchange, ...) are detected heuristically from the sender,
+ * subject and status codes in the text. Returns `null` for anything else,
+ * including DSNs that only report successful delivery.
+ */
+export function parseBounce(message: string | Uint8Array | BounceSource): EmailBounce | null {
+  const source =
+    typeof message === 'string' || message instanceof Uint8Array ? parseMessage(message) : message;
+
+  return parseReport(source) || parseNonStandard(source) || parseAutoReply(source);
+}
+
+/** Splits a `message/delivery-status` body into its per-message and per-recipient groups. */
+export function parseDeliveryStatus(content: string): DeliveryStatus {
+  const groups = content
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]+/g, ' ')
+    .split(/\n\s*\n/)
+    .map((block) => {
+      const fields: Record<string, string> = {};
+      for (const line of block.split('\n')) {
+        const index = line.indexOf(':');
+        if (index > 0) {
+          fields[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+        }
+      }
+      return fields;
+    })
+    .filter((fields) => Object.keys(fields).length > 0);
+
+  const [message = {}, ...recipients] = groups;
+  return { message, recipients };
+}
+
+/**
+ * Classifies a status code: 4.x.x is transient, 5.x.x permanent except for
+ * a full mailbox (x.2.2), which usually clears up by itself.
+ */
+export function classifyStatus(status: string | undefined, action?: string): 'hard' | 'soft' {
+  if (action?.toLowerCase() === 'delayed') return 'soft';
+  const match = status?.match(ENHANCED_STATUS);
+  if (!match) return 'hard';
+  if (match[1] === '4') return 'soft';
+  return match[2] === '2' && match[3] === '2' ? 'soft' : 'hard';
+}
+
+function parseReport(source: BounceSource): EmailBounce | null {
+  const report = source.attachments.find((part) =>
+    DELIVERY_STATUS_TYPES.includes(part.contentType)
+  );
+  if (!report) return null;
+
+  const status = parseDeliveryStatus(Buffer.from(report.content).toString('utf8'));
+  const recipients: BounceRecipient[] = [];
+
+  for (const fields of status.recipients) {
+    const action = fields.action?.toLowerCase();
+    const code = fields.status || fields['diagnostic-code']?.match(ENHANCED_STATUS)?.[0];
+    const failed = action ? action === 'failed' || action === 'delayed' : /^[45]/.test(code || '');
+    const address = stripType(fields['final-recipient'] || fields['original-recipient'] || '');
+    if (!failed || !address) continue;
+
+    recipients.push(
+      compact<BounceRecipient>({
+        address,
+        action,
+        status: code,
+        diagnosticCode: fields['diagnostic-code'] && stripType(fields['diagnostic-code']),
+        remoteMta: fields['remote-mta'] && stripType(fields['remote-mta']),
+      })
+    );
+  }
+
+  if (recipients.length === 0) return null;
+
+  const hard = recipients.some(
+    (recipient) => classifyStatus(recipient.status, recipient.action) === 'hard'
+  );
+  return compact<EmailBounce>({
+    type: hard ? 'hard' : 'soft',
+    recipients,
+    originalMessageId: originalMessageId(source),
+    reportingMta: status.message['reporting-mta'] && stripType(status.message['reporting-mta']),
+    subject: source.headers.subject || '',
+    date: dateOf(source),
+  });
+}
+
+function parseNonStandard(source: BounceSource): EmailBounce | null {
+  const from = source.headers.from || '';
+  const subject = source.headers.subject || '';
+  if (!DAEMON_SENDER.test(from) && !BOUNCE_SUBJECT.test(subject)) return null;
+
+  const body = source.text || (source.html ? htmlToText(source.html) : '');
+  // Only the explanation before the quoted original is searched for
+  // recipients and codes; the original headers would add false matches.
+  const cut = body.search(
+    /^(-+\s*(original message|below this line|this is a copy)|received: |return-path: |message-id: )/im
+  );
+  const diagnostic = cut === -1 ? body : body.slice(0, cut);
+
+  const sender = parseAddress(from).address.toLowerCase();
+  const addresses = new Set<string>();
+  for (const match of diagnostic.matchAll(/<?([^\s<>@"(),;:]+@[a-z0-9.-]+\.[a-z]{2,})>?/gi)) {
+    const address = match[1].toLowerCase();
+    if (address !== sender && !DAEMON_SENDER.test(address)) addresses.add(address);
+  }
+  if (addresses.size === 0) return null;
+
+  const status = diagnostic.match(ENHANCED_STATUS)?.[0];
+  const reply = diagnostic.match(SMTP_REPLY);
+  const diagnosticLine = reply
+    ? diagnostic
+        .slice(diagnostic.lastIndexOf('\n', reply.index!) + 1)
+        .split('\n')[0]
+        .trim()
+    : undefined;
+
+  let type: 'hard' | 'soft';
+  if (status) type = classifyStatus(status);
+  else if (reply) type = reply[1] === '4' ? 'soft' : 'hard';
+  else type = TRANSIENT_TEXT.test(`${subject}\n${diagnostic}`) ? 'soft' : 'hard';
+
+  return compact<EmailBounce>({
+    type,
+    recipients: Array.from(addresses).map((address) =>
+      compact<BounceRecipient>({ address, status, diagnosticCode: diagnosticLine })
+    ),
+    originalMessageId: originalMessageId(source, body),
+    subject,
+    date: dateOf(source),
+  });
+}
+
+/** Auto-replies per RFC 3834 plus the common vendor headers and subjects. */
+function parseAutoReply(source: BounceSource): EmailBounce | null {
+  const { headers } = source;
+  const autoSubmitted = (headers['auto-submitted'] || '').toLowerCase();
+  if (autoSubmitted === 'no') return null;
+
+  const isAutoReply =
+    autoSubmitted.startsWith('auto-replied') ||
+    'x-autoreply' in headers ||
+    'x-autorespond' in headers ||
+    'x-autoresponder' in headers ||
+    /^auto[_-]reply$/i.test(headers.precedence || '') ||
+    AUTO_REPLY_SUBJECT.test(headers.subject || '');
+  if (!isAutoReply || !headers.from) return null;
+
+  const references = parseMessageIds(headers.references);
+  return compact<EmailBounce>({
+    type: 'auto-reply',
+    recipients: [{ address: parseAddress(headers.from).address }],
+    originalMessageId: parseMessageIds(headers['in-reply-to'])[0] || references.pop(),
+    subject: headers.subject || '',
+    date: dateOf(source),
+  });
+}
+
+function originalMessageId(source: BounceSource, body?: string): string | undefined {
+  for (const part of source.attachments) {
+    if (
+      ORIGINAL_MESSAGE_TYPES.includes(part.contentType) ||
+      ORIGINAL_HEADER_TYPES.includes(part.contentType)
+    ) {
+      const id = parseMessageIds(parseMessage(part.content).headers['message-id'])[0];
+      if (id) return id;
+    }
+  }
+
+  const quoted = body?.match(/^\s*message-id:\s*(<[^>\s]+>)/im);
+  return quoted?.[1];
+}
+
+/** Removes the `rfc822;`, `smtp;` or `dns;` type prefix of a DSN field. */
+function stripType(value: string): string {
+  return value.replace(/^[a-z0-9-]+\s*;\s*/i, '').trim();
+}
+
+function dateOf(source: BounceSource): Date | undefined {
+  if (source.date) return source.date;
+  const date = source.headers.date ? new Date(source.headers.date) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
+function compact<T extends object>(value: T): T {
+  for (const key of Object.keys(value) as Array<keyof T>) {
+    if (value[key] === undefined) delete value[key];
+  }
+  return value;
+}
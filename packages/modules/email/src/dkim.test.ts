@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { DkimSigner, dkimDnsRecord, verifyDkim } from './dkim';
+import { MimeComposer } from './mime-builder';
+import type { DkimCanonicalization } from './types';
+
+const rsaKey = generateKeyPairSync('rsa', { modulusLength: 1024 })
+  .privateKey.export({ format: 'pem', type: 'pkcs8' })
+  .toString();
+const ed25519Key = generateKeyPairSync('ed25519')
+  .privateKey.export({ format: 'pem', type: 'pkcs8' })
+  .toString();
+
+const { raw: message } = new MimeComposer('mailer.test').compose({
+  from: 'Alice <alice@example.com>',
+  to: 'bob@example.com',
+  subject: 'Quarterly report with a subject long enough to be folded across lines',
+  text: 'Numbers  are   up.\r\n\r\n\r\n',
+  date: new Date('2024-05-01T10:00:00Z'),
+});
+
+function resolverFor(privateKey: string) {
+  return async (domain: string, selector: string) => {
+    expect([domain, selector]).toEqual(['example.com', 'mail']);
+    return dkimDnsRecord(privateKey);
+  };
+}
+
+function signer(privateKey: string, canonicalization?: DkimCanonicalization) {
+  return new DkimSigner({
+    domainName: 'example.com',
+    keySelector: 'mail',
+    privateKey,
+    canonicalization,
+  });
+}
+
+describe('DKIM', () => {
+  it.each<DkimCanonicalization>([
+    'relaxed/relaxed',
+    'relaxed/simple',
+    'simple/relaxed',
+    'simple/simple',
+  ])('round-trips rsa-sha256 with %s canonicalisation', async (canonicalization) => {
+    const signed = signer(rsaKey, canonicalization).sign(message);
+
+    expect(signed).toMatch(/^DKIM-Signature: v=1;\r\n a=rsa-sha256;/);
+    expect(signed).toContain(`c=${canonicalization}`);
+    expect(await verifyDkim(signed, { resolveKey: resolverFor(rsaKey) })).toEqual([
+      { domain: 'example.com', selector: 'mail', algorithm: 'rsa-sha256', status: 'pass' },
+    ]);
+  });
+
+  it('infers ed25519-sha256 from the key and publishes the raw key', async () => {
+    const signed = signer(ed25519Key).sign(message);
+
+    expect(signed).toContain('a=ed25519-sha256');
+    expect(dkimDnsRecord(ed25519Key)).toMatch(/^v=DKIM1; k=ed25519; p=[A-Za-z0-9+/]{43}=$/);
+    const [result] = await verifyDkim(signed, { resolveKey: resolverFor(ed25519Key) });
+    expect(result.status).toBe('pass');
+  });
+
+  it('signs only headers present in the message, in h= order', () => {
+    const signed = signer(rsaKey).sign(message);
+    const tags = signed.slice(0, signed.indexOf('\r\nFrom:'));
+
+    expect(tags).toContain('h=from:subject:date:message-id:to:mime-version:content-type');
+  });
+
+  it('detects body and header tampering', async () => {
+    const signed = signer(rsaKey).sign(message);
+    const resolveKey = resolverFor(rsaKey);
+
+    const [body] = await verifyDkim(signed.replace('Numbers', 'Profits'), { resolveKey });
+    expect(body).toMatchObject({ status: 'fail', reason: 'body hash did not verify' });
+
+    const [header] = await verifyDkim(signed.replace('Quarterly', 'Annual'), { resolveKey });
+    expect(header).toMatchObject({ status: 'fail', reason: 'signature did not verify' });
+  });
+
+  it('tolerates whitespace changes only under relaxed canonicalisation', async () => {
+    const reformat = (signed: string) =>
+      signed.replace('Subject: Quarterly', 'Subject:   Quarterly').replace('are   up.', 'are up. ');
+
+    const relaxed = reformat(signer(rsaKey, 'relaxed/relaxed').sign(message));
+    const simple = reformat(signer(rsaKey, 'simple/simple').sign(message));
+
+    expect((await verifyDkim(relaxed, { resolveKey: resolverFor(rsaKey) }))[0].status).toBe('pass');
+    expect((await verifyDkim(simple, { resolveKey: resolverFor(rsaKey) }))[0].status).toBe('fail');
+  });
+
+  it('reports key lookup failures and unsigned messages', async () => {
+    const signed = signer(rsaKey).sign(message);
+
+    const [result] = await verifyDkim(signed, {
+      resolveKey: async () => {
+        throw new Error('SERVFAIL');
+      },
+    });
+    expect(result).toMatchObject({ status: 'temperror', reason: 'key lookup failed: SERVFAIL' });
+    expect(await verifyDkim(message)).toEqual([]);
+  });
+});
@@ -0,0 +1,340 @@
+import { createHash, createPrivateKey, createPublicKey, sign, verify, KeyObject } from 'crypto';
+import { promises as dns } from 'dns';
+import type { DkimConfig } from './types';
+
+/** Headers signed by default, per the recommendations in RFC 6376 §5.4.1. */
+const DEFAULT_HEADERS = [
+  'from',
+  'sender',
+  'reply-to',
+  'subject',
+  'date',
+  'message-id',
+  'to',
+  'cc',
+  'mime-version',
+  'content-type',
+  'content-transfer-encoding',
+  'content-id',
+  'content-description',
+  'in-reply-to',
+  'references',
+  'list-id',
+  'list-unsubscribe',
+];
+
+/** SubjectPublicKeyInfo prefix for a raw 32-byte Ed25519 key (RFC 8410). */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export interface DkimVerificationResult {
+  domain: string;
+  selector: string;
+  algorithm: string;
+  status: 'pass' | 'fail' | 'permerror' | 'temperror';
+  reason?: string;
+}
+
+export interface DkimVerifyOptions {
+  /**
+   * Returns the DNS TXT record for `<selector>._domainkey.<domain>`.
+   * Defaults to a live DNS lookup.
+   */
+  resolveKey?: (domain: string, selector: string) => Promise<string>;
+}
+
+interface HeaderField {
+  name: string;
+  /** The complete field as it appears in the message, without the final CRLF. */
+  raw: string;
+}
+
+/**
+ * Adds a DKIM-Signature header (RFC 6376) to composed messages. Supports
+ * `rsa-sha256` and `ed25519-sha256` (RFC 8463) with simple or relaxed
+ * canonicalisation.
+ */
+export class DkimSigner {
+  private key: KeyObject;
+  private algorithm: 'rsa-sha256' | 'ed25519-sha256';
+  private headerCanonicalization: string;
+  private bodyCanonicalization: string;
+
+  constructor(private config: DkimConfig) {
+    this.key = createPrivateKey(config.privateKey);
+    this.algorithm =
+      config.algorithm ||
+      (this.key.asymmetricKeyType === 'ed25519' ? 'ed25519-sha256' : 'rsa-sha256');
+    [this.headerCanonicalization, this.bodyCanonicalization] = (
+      config.canonicalization || 'relaxed/relaxed'
+    ).split('/');
+  }
+
+  /** Returns the message with the DKIM-Signature header prepended. */
+  sign(message: string, timestamp = new Date()): string {
+    const { headers, body } = splitMessage(message);
+    const wanted = (this.config.headerFieldNames || DEFAULT_HEADERS).map((name) =>
+      name.toLowerCase()
+    );
+    const signed = selectHeaders(
+      headers,
+      wanted.flatMap((name) => headers.filter((header) => header.name === name).map(() => name))
+    );
+
+    const bodyHash = createHash('sha256')
+      .update(canonicalizeBody(body, this.bodyCanonicalization))
+      .digest('base64');
+
+    const tags = [
+      'v=1',
+      `a=${this.algorithm}`,
+      `c=${this.headerCanonicalization}/${this.bodyCanonicalization}`,
+      `d=${this.config.domainName}`,
+      `s=${this.config.keySelector}`,
+      `t=${Math.floor(timestamp.getTime() / 1000)}`,
+      `h=${signed.map((header) => header.name).join(':')}`,
+      `bh=${bodyHash}`,
+      'b=',
+    ];
+    const unsigned = `DKIM-Signature: ${tags.join(';\r\n ')}`;
+
+    const signature = createSignature(
+      this.algorithm,
+      this.key,
+      signingInput(signed, unsigned, this.headerCanonicalization)
+    );
+    const folded = signature.match(/.{1,72}/g)!.join('\r\n ');
+
+    return `${unsigned}${folded}\r\n${message}`;
+  }
+}
+
+/**
+ * Verifies every DKIM-Signature header in a message. Each signature yields
+ * one result; an unsigned message yields an empty array.
+ */
+export async function verifyDkim(
+  message: string,
+  options: DkimVerifyOptions = {}
+): Promise<DkimVerificationResult[]> {
+  const { headers, body } = splitMessage(message);
+  const resolveKey = options.resolveKey || lookupKey;
+  const results: DkimVerificationResult[] = [];
+
+  for (const field of headers.filter((header) => header.name === 'dkim-signature')) {
+    const tags = parseTags(field.raw.slice(field.raw.indexOf(':') + 1));
+    const result: DkimVerificationResult = {
+      domain: tags.d || '',
+      selector: tags.s || '',
+      algorithm: tags.a || '',
+      status: 'pass',
+    };
+    results.push(result);
+
+    if (tags.v !== '1' || !tags.d || !tags.s || !tags.h || !tags.bh || !tags.b) {
+      Object.assign(result, { status: 'permerror', reason: 'missing required tag' });
+      continue;
+    }
+    if (tags.a !== 'rsa-sha256' && tags.a !== 'ed25519-sha256') {
+      Object.assign(result, { status: 'permerror', reason: `unsupported algorithm ${tags.a}` });
+      continue;
+    }
+
+    const [headerCanonicalization, bodyCanonicalization = 'simple'] = (
+      tags.c || 'simple/simple'
+    ).split('/');
+
+    let canonicalBody = canonicalizeBody(body, bodyCanonicalization);
+    if (tags.l !== undefined) {
+      canonicalBody = canonicalBody.subarray(0, parseInt(tags.l, 10));
+    }
+    const bodyHash = createHash('sha256').update(canonicalBody).digest('base64');
+    if (bodyHash !== tags.bh.replace(/\s+/g, '')) {
+      Object.assign(result, { status: 'fail', reason: 'body hash did not verify' });
+      continue;
+    }
+
+    let record: string;
+    try {
+      record = await resolveKey(tags.d, tags.s);
+    } catch (error) {
+      Object.assign(result, {
+        status: 'temperror',
+        reason: `key lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+      continue;
+    }
+
+    const keyTags = parseTags(record);
+    if (!keyTags.p) {
+      Object.assign(result, { status: 'permerror', reason: 'key revoked or missing' });
+      continue;
+    }
+
+    const key = Buffer.from(keyTags.p.replace(/\s+/g, ''), 'base64');
+    let publicKey: KeyObject;
+    try {
+      publicKey = createPublicKey({
+        key: tags.a === 'ed25519-sha256' ? Buffer.concat([ED25519_SPKI_PREFIX, key]) : key,
+        format: 'der',
+        type: 'spki',
+      });
+    } catch {
+      Object.assign(result, { status: 'permerror', reason: 'malformed public key' });
+      continue;
+    }
+
+    const names = tags.h.split(':').map((name) => name.trim().toLowerCase());
+    const unsigned = field.raw.replace(/(^|;)(\s*b\s*=)[^;]*/, '$1$2');
+    const data = signingInput(selectHeaders(headers, names), unsigned, headerCanonicalization);
+
+    if (
+      !verifySignature(tags.a, publicKey, data, Buffer.from(tags.b.replace(/\s+/g, ''), 'base64'))
+    ) {
+      Object.assign(result, { status: 'fail', reason: 'signature did not verify' });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Formats the public half of a signing key as the TXT record to publish at
+ * `<selector>._domainkey.<domain>`.
+ */
+export function dkimDnsRecord(privateKey: string): string {
+  const key = createPublicKey(createPrivateKey(privateKey));
+  const der = key.export({ format: 'der', type: 'spki' });
+
+  if (key.asymmetricKeyType === 'ed25519') {
+    return `v=DKIM1; k=ed25519; p=${der.subarray(ED25519_SPKI_PREFIX.length).toString('base64')}`;
+  }
+  return `v=DKIM1; k=rsa; p=${der.toString('base64')}`;
+}
+
+async function lookupKey(domain: string, selector: string): Promise<string> {
+  const records = await dns.resolveTxt(`${selector}._domainkey.${domain}`);
+  const record = records.map((chunks) => chunks.join('')).find((entry) => /(^|;)\s*p=/.test(entry));
+  if (!record) {
+    throw new Error(`No DKIM key published for ${selector}._domainkey.${domain}`);
+  }
+  return record;
+}
+
+function createSignature(algorithm: string, key: KeyObject, data: Buffer): string {
+  if (algorithm === 'ed25519-sha256') {
+    // RFC 8463 §3: Ed25519 signs the SHA-256 digest of the canonicalised data.
+    return sign(null, createHash('sha256').update(data).digest(), key).toString('base64');
+  }
+  return sign('sha256', data, key).toString('base64');
+}
+
+function verifySignature(
+  algorithm: string,
+  key: KeyObject,
+  data: Buffer,
+  signature: Buffer
+): boolean {
+  try {
+    if (algorithm === 'ed25519-sha256') {
+      return verify(null, createHash('sha256').update(data).digest(), key, signature);
+    }
+    return verify('sha256', data, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Builds the data that is hashed and signed: the selected header fields
+ * followed by the DKIM-Signature field itself (with an empty `b=` and no
+ * trailing CRLF), RFC 6376 §3.7.
+ */
+function signingInput(signed: HeaderField[], unsigned: string, canonicalization: string): Buffer {
+  const lines = signed.map((header) => canonicalizeHeader(header.raw, canonicalization) + '\r\n');
+  lines.push(canonicalizeHeader(unsigned, canonicalization));
+  return Buffer.from(lines.join(''), 'utf8');
+}
+
+/**
+ * Picks header instances for the `h=` list. Repeated names consume
+ * instances from the bottom of the header block upwards (RFC 6376 §5.4.2);
+ * names without a remaining instance sign as the empty string.
+ */
+function selectHeaders(headers: HeaderField[], names: string[]): HeaderField[] {
+  const used = new Map<string, number>();
+  const selected: HeaderField[] = [];
+
+  for (const name of names) {
+    const instances = headers.filter((header) => header.name === name);
+    const count = used.get(name) || 0;
+    used.set(name, count + 1);
+    const instance = instances[instances.length - 1 - count];
+    if (instance) {
+      selected.push(instance);
+    }
+  }
+
+  return selected;
+}
+
+function canonicalizeHeader(raw: string, canonicalization: string): string {
+  if (canonicalization === 'simple') {
+    return raw;
+  }
+
+  const colon = raw.indexOf(':');
+  const name = raw.slice(0, colon).trim().toLowerCase();
+  const value = raw
+    .slice(colon + 1)
+    .replace(/\r\n/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+  return `${name}:${value}`;
+}
+
+function canonicalizeBody(body: string, canonicalization: string): Buffer {
+  let lines = body.split('\r\n');
+
+  if (canonicalization === 'relaxed') {
+    lines = lines.map((line) => line.replace(/[ \t]+/g, ' ').replace(/ $/, ''));
+  }
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  if (lines.length === 0) {
+    return Buffer.from(canonicalization === 'relaxed' ? '' : '\r\n');
+  }
+  return Buffer.from(lines.join('\r\n') + '\r\n', 'utf8');
+}
+
+function splitMessage(message: string): { headers: HeaderField[]; body: string } {
+  const normalized = message.replace(/\r?\n/g, '\r\n');
+  const separator = normalized.indexOf('\r\n\r\n');
+  const head = separator === -1 ? normalized : normalized.slice(0, separator);
+  const body = separator === -1 ? '' : normalized.slice(separator + 4);
+
+  const headers: HeaderField[] = [];
+  for (const line of head.split('\r\n')) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].raw += `\r\n${line}`;
+    } else if (line.includes(':')) {
+      headers.push({ name: line.slice(0, line.indexOf(':')).trim().toLowerCase(), raw: line });
+    }
+  }
+
+  return { headers, body };
+}
+
+function parseTags(value: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const pair of value.split(';')) {
+    const equals = pair.indexOf('=');
+    if (equals === -1) continue;
+    tags[pair.slice(0, equals).trim()] = pair
+      .slice(equals + 1)
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+  return tags;
+}
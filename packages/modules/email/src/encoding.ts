@@ -0,0 +1,304 @@
+const MAX_LINE_LENGTH = 76;
+
+export function toBuffer(content: string | Uint8Array, encoding?: string): Buffer {
+  if (typeof content !== 'string') {
+    return Buffer.from(content);
+  }
+  if (encoding === 'base64' || encoding === 'hex') {
+    return Buffer.from(content, encoding);
+  }
+  return Buffer.from(content, 'utf8');
+}
+
+export function isPlainAscii(value: string): boolean {
+  return !/[^\t\r\n\x20-\x7e]/.test(value);
+}
+
+/**
+ * Base64 with CRLF line breaks every 76 characters (RFC 2045 §6.8).
+ */
+export function encodeBase64(content: Uint8Array): string {
+  const encoded = Buffer.from(content).toString('base64');
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += MAX_LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + MAX_LINE_LENGTH));
+  }
+  return lines.join('\r\n');
+}
+
+/**
+ * Quoted-printable (RFC 2045 §6.7) over the UTF-8 bytes of `value`, with soft
+ * line breaks so no encoded line exceeds 76 characters.
+ */
+export function encodeQuotedPrintable(value: string): string {
+  const lines = value.replace(/\r?\n/g, '\n').split('\n');
+
+  return lines
+    .map((line) => {
+      const bytes = Buffer.from(line, 'utf8');
+      let output = '';
+      let current = '';
+
+      for (let i = 0; i < bytes.length; i++) {
+        const byte = bytes[i];
+        const isLast = i === bytes.length - 1;
+        let token: string;
+
+        if (
+          (byte >= 33 && byte <= 126 && byte !== 61) ||
+          ((byte === 32 || byte === 9) && !isLast)
+        ) {
+          token = String.fromCharCode(byte);
+        } else {
+          token = `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+        }
+
+        if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+          output += `${current}=\r\n`;
+          current = '';
+        }
+        current += token;
+      }
+
+      return output + current;
+    })
+    .join('\r\n');
+}
+
+/**
+ * RFC 2047 encoded-word(s) for a header value. ASCII values are returned
+ * unchanged; others are split into `=?UTF-8?B?...?=` words of at most 75
+ * characters without breaking multi-byte characters.
+ */
+export function encodeWord(value: string): string {
+  if (!/[^\x20-\x7e]/.test(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char, 'utf8') > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf8').toString('base64')}?=`)
+    .join(' ');
+}
+
+/**
+ * RFC 2231 extended parameter value, e.g. `filename*=utf-8''r%C3%A9sum%C3%A9.pdf`.
+ */
+export function encodeParameter(name: string, value: string): string {
+  if (isPlainAscii(value) && !/[\r\n"\\]/.test(value)) {
+    return `${name}="${value}"`;
+  }
+  const encoded = encodeURIComponent(value).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${name}*=utf-8''${encoded}`;
+}
+
+/**
+ * Folds a structured header line at whitespace so each line stays within 78
+ * characters where possible (RFC 5322 §2.2.3).
+ */
+export function foldHeader(name: string, value: string): string {
+  const line = `${name}: ${value}`;
+  if (line.length <= 78) {
+    return line;
+  }
+
+  const parts = line.split(/(?<=\S)(?=\s)/);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const part of parts) {
+    if (current && current.length + part.length > 78) {
+      lines.push(current);
+      current = part.startsWith(' ') || part.startsWith('\t') ? part : ` ${part}`;
+    } else {
+      current += part;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines.join('\r\n');
+}
+
+export function decodeBase64(value: string): Buffer {
+  return Buffer.from(value.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+}
+
+/**
+ * Decodes quoted-printable text. `value` is expected to be a binary (latin1)
+ * string so 8-bit bytes that slipped through unencoded are preserved.
+ */
+export function decodeQuotedPrintable(value: string): Buffer {
+  const input = value.replace(/[\t ]+(?=\r?\n)/g, '').replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charAt(i);
+    const hex = input.substr(i + 1, 2);
+    if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(input.charCodeAt(i) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function decodeCharset(content: Uint8Array, charset = 'utf-8'): string {
+  const label = charset.trim().toLowerCase().replace(/^"|"$/g, '') || 'utf-8';
+  if (label === 'us-ascii' || label === 'ascii') {
+    return Buffer.from(content).toString('latin1');
+  }
+
+  try {
+    return new TextDecoder(label).decode(content);
+  } catch {
+    return new TextDecoder('utf-8').decode(content);
+  }
+}
+
+const ENCODED_WORD = /=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/;
+const ENCODED_WORD_RUN = new RegExp(`${ENCODED_WORD.source}(?:\\s*${ENCODED_WORD.source})*`, 'g');
+
+/**
+ * Decodes RFC 2047 encoded-words in a header value. Adjacent words sharing a
+ * charset are joined before decoding so split multi-byte characters survive.
+ */
+export function decodeWords(value: string): string {
+  return value.replace(ENCODED_WORD_RUN, (run) => {
+    const words = run.match(new RegExp(ENCODED_WORD.source, 'g')) || [];
+    let output = '';
+    let charset = '';
+    let bytes: Buffer[] = [];
+
+    const flush = () => {
+      if (bytes.length) output += decodeCharset(Buffer.concat(bytes), charset);
+      bytes = [];
+    };
+
+    for (const word of words) {
+      const [, wordCharset, encoding, text] = word.match(ENCODED_WORD)!;
+      if (wordCharset.toLowerCase() !== charset) {
+        flush();
+        charset = wordCharset.toLowerCase();
+      }
+      bytes.push(
+        encoding.toUpperCase() === 'B'
+          ? decodeBase64(text)
+          : decodeQuotedPrintable(text.replace(/_/g, ' '))
+      );
+    }
+    flush();
+
+    return output;
+  });
+}
+
+export interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Parses a structured header such as Content-Type or Content-Disposition into
+ * its value and parameters, including RFC 2231 continuations and charsets.
+ */
+export function parseHeaderValue(header: string): HeaderValue {
+  const segments: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < header.length; i++) {
+    const char = header.charAt(i);
+    if (char === '\\' && quoted) {
+      current += header.charAt(++i);
+      continue;
+    }
+    if (char === '"') {
+      quoted = !quoted;
+      continue;
+    }
+    if (char === ';' && !quoted) {
+      segments.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  segments.push(current);
+
+  const value = (segments.shift() || '').trim().toLowerCase();
+  const plain: Record<string, string> = {};
+  const extended: Record<string, Array<{ index: number; value: string; encoded: boolean }>> = {};
+
+  for (const segment of segments) {
+    const eq = segment.indexOf('=');
+    if (eq === -1) continue;
+
+    const key = segment.slice(0, eq).trim().toLowerCase();
+    const raw = segment.slice(eq + 1).trim();
+    const match = key.match(/^([^*]+)\*(?:(\d+)\*?)?$/);
+
+    if (!match) {
+      plain[key] = raw;
+      continue;
+    }
+
+    const [, name, index] = match;
+    (extended[name] ||= []).push({
+      index: index === undefined ? 0 : parseInt(index, 10),
+      value: raw,
+      encoded: key.endsWith('*'),
+    });
+  }
+
+  const params: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(plain)) {
+    params[key] = decodeWords(raw);
+  }
+
+  for (const [name, parts] of Object.entries(extended)) {
+    parts.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes: Buffer[] = [];
+
+    parts.forEach((part, position) => {
+      let text = part.value;
+      if (part.encoded && position === 0) {
+        const pieces = text.split("'");
+        if (pieces.length >= 3) {
+          charset = pieces[0] || charset;
+          text = pieces.slice(2).join("'");
+        }
+      }
+      bytes.push(
+        part.encoded
+          ? Buffer.from(
+              text.replace(/%([0-9A-Fa-f]{2})/g, (_m, hex) =>
+                String.fromCharCode(parseInt(hex, 16))
+              ),
+              'latin1'
+            )
+          : Buffer.from(text, 'utf8')
+      );
+    });
+
+    params[name] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+
+  return { value, params };
+}
@@ -0,0 +1,436 @@
+/**
+ * Low-level IMAP4rev1 (RFC 3501) syntax helpers used by `ImapClient`:
+ * response tokenizing, BODYSTRUCTURE decoding, SEARCH compilation and
+ * modified UTF-7 mailbox names.
+ */
+
+import type { SearchCriteria } from './types';
+
+export type ImapValue = string | number | Buffer | null | ImapValue[];
+
+export interface ImapResponse {
+  tag: string;
+  /** Upper-cased status or data keyword, e.g. `OK`, `FETCH`, `EXISTS`. */
+  type: string;
+  /** Message sequence number for `EXISTS`, `EXPUNGE`, `FETCH` responses. */
+  seqno?: number;
+  values: ImapValue[];
+  /** Response code inside brackets, e.g. `UIDVALIDITY 3857529045`. */
+  code?: string;
+  text: string;
+}
+
+export interface ImapBodyStructure {
+  part: string;
+  type: string;
+  subtype: string;
+  params: Record<string, string>;
+  id?: string;
+  description?: string;
+  encoding?: string;
+  size?: number;
+  lines?: number;
+  disposition?: { type: string; params: Record<string, string> };
+  children?: ImapBodyStructure[];
+}
+
+/** Marks a literal inside an assembled response line: `\0<index>\0`. */
+export const LITERAL_MARKER = '\u0000';
+
+export interface ImapThreadNode {
+  /** Missing for the placeholder root of a thread whose top message is absent. */
+  uid?: number;
+  children: ImapThreadNode[];
+}
+
+const STATUS_TYPES = ['OK', 'NO', 'BAD', 'BYE', 'PREAUTH'];
+
+export function parseResponse(line: string, literals: Buffer[]): ImapResponse {
+  const firstSpace = line.indexOf(' ');
+  const tag = firstSpace === -1 ? line : line.slice(0, firstSpace);
+  let rest = firstSpace === -1 ? '' : line.slice(firstSpace + 1);
+
+  if (tag === '+') {
+    return { tag, type: 'CONTINUE', values: [], text: rest };
+  }
+
+  let seqno: number | undefined;
+  const numeric = rest.match(/^(\d+) /);
+  if (tag === '*' && numeric) {
+    seqno = parseInt(numeric[1], 10);
+    rest = rest.slice(numeric[0].length);
+  }
+
+  const keywordEnd = rest.indexOf(' ');
+  const type = (keywordEnd === -1 ? rest : rest.slice(0, keywordEnd)).toUpperCase();
+  rest = keywordEnd === -1 ? '' : rest.slice(keywordEnd + 1);
+
+  if (STATUS_TYPES.includes(type)) {
+    let code: string | undefined;
+    if (rest.startsWith('[')) {
+      const close = findClosingBracket(rest, 0);
+      code = rest.slice(1, close);
+      rest = rest.slice(close + 1).trimStart();
+    }
+    return { tag, type, seqno, values: [], code, text: rest };
+  }
+
+  return { tag, type, seqno, values: tokenize(rest, literals), text: rest };
+}
+
+export function tokenize(input: string, literals: Buffer[] = []): ImapValue[] {
+  let position = 0;
+
+  const parseList = (closing: string | null): ImapValue[] => {
+    const values: ImapValue[] = [];
+
+    while (position < input.length) {
+      const char = input.charAt(position);
+
+      if (char === ' ') {
+        position++;
+      } else if (closing && char === closing) {
+        position++;
+        return values;
+      } else if (char === '(') {
+        position++;
+        values.push(parseList(')'));
+      } else if (char === '"') {
+        let value = '';
+        position++;
+        while (position < input.length && input.charAt(position) !== '"') {
+          if (input.charAt(position) === '\\') position++;
+          value += input.charAt(position++);
+        }
+        position++;
+        values.push(value);
+      } else if (char === LITERAL_MARKER) {
+        const end = input.indexOf(LITERAL_MARKER, position + 1);
+        values.push(literals[parseInt(input.slice(position + 1, end), 10)]);
+        position = end + 1;
+      } else {
+        let value = '';
+        while (position < input.length) {
+          const current = input.charAt(position);
+          if (current === ' ' || current === '(' || current === ')') break;
+          if (current === '[') {
+            const close = findClosingBracket(input, position);
+            value += input.slice(position, close + 1);
+            position = close + 1;
+            continue;
+          }
+          value += current;
+          position++;
+        }
+
+        if (value.toUpperCase() === 'NIL') {
+          values.push(null);
+        } else if (/^\d+$/.test(value) && value.length < 16) {
+          values.push(parseInt(value, 10));
+        } else {
+          values.push(value);
+        }
+      }
+    }
+
+    return values;
+  };
+
+  return parseList(null);
+}
+
+function findClosingBracket(input: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < input.length; i++) {
+    if (input.charAt(i) === '[') depth++;
+    if (input.charAt(i) === ']' && --depth === 0) return i;
+  }
+  return input.length - 1;
+}
+
+export function valueToString(value: ImapValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (Buffer.isBuffer(value)) return value.toString('utf8');
+  if (Array.isArray(value)) return value.map(valueToString).join(' ');
+  return String(value);
+}
+
+function paramsFromList(value: ImapValue | undefined): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (!Array.isArray(value)) return params;
+  for (let i = 0; i + 1 < value.length; i += 2) {
+    params[valueToString(value[i]).toLowerCase()] = valueToString(value[i + 1]);
+  }
+  return params;
+}
+
+/**
+ * Converts a BODYSTRUCTURE list into a tree with IMAP part numbers suitable
+ * for `BODY[<part>]` fetches.
+ */
+export function parseBodyStructure(value: ImapValue, part = ''): ImapBodyStructure {
+  const list = Array.isArray(value) ? value : [];
+
+  if (Array.isArray(list[0])) {
+    const children: ImapBodyStructure[] = [];
+    let index = 0;
+    while (Array.isArray(list[index])) {
+      const childPart = part === '' ? `${index + 1}` : `${part}.${index + 1}`;
+      children.push(parseBodyStructure(list[index], childPart));
+      index++;
+    }
+    const extension = list.slice(index + 1);
+    const disposition = Array.isArray(extension[1]) ? extension[1] : null;
+
+    return {
+      part,
+      type: 'multipart',
+      subtype: valueToString(list[index]).toLowerCase(),
+      params: paramsFromList(extension[0]),
+      disposition: disposition
+        ? {
+            type: valueToString(disposition[0]).toLowerCase(),
+            params: paramsFromList(disposition[1]),
+          }
+        : undefined,
+      children,
+    };
+  }
+
+  const type = valueToString(list[0]).toLowerCase();
+  const subtype = valueToString(list[1]).toLowerCase();
+  const structure: ImapBodyStructure = {
+    part: part || '1',
+    type,
+    subtype,
+    params: paramsFromList(list[2]),
+    id: list[3] === null ? undefined : valueToString(list[3]),
+    description: list[4] === null ? undefined : valueToString(list[4]),
+    encoding: valueToString(list[5]).toLowerCase() || undefined,
+    size: typeof list[6] === 'number' ? list[6] : undefined,
+  };
+
+  let extensionStart = 7;
+  if (type === 'text') {
+    structure.lines = typeof list[7] === 'number' ? list[7] : undefined;
+    extensionStart = 8;
+  } else if (type === 'message' && subtype === 'rfc822') {
+    structure.lines = typeof list[9] === 'number' ? list[9] : undefined;
+    extensionStart = 10;
+  }
+
+  const disposition = list[extensionStart + 1];
+  if (Array.isArray(disposition)) {
+    structure.disposition = {
+      type: valueToString(disposition[0]).toLowerCase(),
+      params: paramsFromList(disposition[1]),
+    };
+  }
+
+  return structure;
+}
+
+/**
+ * Decodes a `THREAD` response (RFC 5256 §4): within a list, consecutive
+ * numbers form a parent/child chain and nested lists branch off the last one.
+ */
+export function parseThreadList(values: ImapValue[]): ImapThreadNode[] {
+  return values.filter(Array.isArray).map((list) => parseThreadBranch(list as ImapValue[]));
+}
+
+function parseThreadBranch(list: ImapValue[]): ImapThreadNode {
+  let root: ImapThreadNode | null = null;
+  let tail: ImapThreadNode | null = null;
+
+  for (const item of list) {
+    if (typeof item === 'number') {
+      const node: ImapThreadNode = { uid: item, children: [] };
+      if (tail) tail.children.push(node);
+      else root = node;
+      tail = node;
+    } else if (Array.isArray(item)) {
+      if (!tail) {
+        root = tail = { children: [] };
+      }
+      tail.children.push(parseThreadBranch(item));
+    }
+  }
+
+  return root || { children: [] };
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export function formatSearchDate(date: Date): string {
+  return `${date.getUTCDate()}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+}
+
+/** `date-time` as used by INTERNALDATE and APPEND, always in UTC. */
+export function formatInternalDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getUTCDate())}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/**
+ * Quotes a string argument, or returns `null` when it must be sent as a
+ * literal (non-ASCII or containing CR/LF).
+ */
+export function quoteString(value: string): string | null {
+  if (/[^\x20-\x7e]/.test(value)) {
+    return null;
+  }
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+export type CommandPart = string | { literal: Buffer };
+
+/**
+ * Compiles node-imap style criteria (`'UNSEEN'`, `['SINCE', date]`,
+ * `['OR', a, b]`, `['!', criterion]`) into SEARCH command parts. Criteria are
+ * ANDed together as in RFC 3501 §6.4.4.
+ */
+export function compileSearch(criteria: SearchCriteria): CommandPart[] {
+  const parts: CommandPart[] = [];
+
+  const pushString = (value: string) => {
+    const quoted = quoteString(value);
+    parts.push(quoted === null ? { literal: Buffer.from(value, 'utf8') } : quoted);
+  };
+
+  const compile = (criterion: unknown): void => {
+    if (typeof criterion === 'string') {
+      const keyword = criterion.toUpperCase();
+      parts.push(keyword.startsWith('!') ? `NOT ${keyword.slice(1)}` : keyword);
+      return;
+    }
+    if (!Array.isArray(criterion) || criterion.length === 0) {
+      throw new Error(`Invalid search criterion: ${JSON.stringify(criterion)}`);
+    }
+
+    const [name, ...args] = criterion;
+    const keyword = String(name).toUpperCase();
+
+    if (keyword === 'OR') {
+      parts.push('OR');
+      compileGroup(args[0]);
+      compileGroup(args[1]);
+      return;
+    }
+    if (keyword === '!' || keyword === 'NOT') {
+      parts.push('NOT');
+      compileGroup(args[0]);
+      return;
+    }
+
+    parts.push(keyword);
+    for (const arg of args) {
+      if (arg instanceof Date) {
+        parts.push(formatSearchDate(arg));
+      } else if (typeof arg === 'number') {
+        parts.push(String(arg));
+      } else if (keyword === 'UID' || keyword === 'MODSEQ') {
+        parts.push(String(arg));
+      } else {
+        pushString(String(arg));
+      }
+    }
+  };
+
+  const compileGroup = (group: unknown) => {
+    if (Array.isArray(group) && Array.isArray(group[0])) {
+      parts.push('(');
+      group.forEach(compile);
+      parts.push(')');
+    } else {
+      compile(group);
+    }
+  };
+
+  for (const criterion of criteria) {
+    compile(criterion);
+  }
+  if (parts.length === 0) {
+    parts.push('ALL');
+  }
+
+  return parts;
+}
+
+/**
+ * Compacts UIDs into an IMAP sequence set, e.g. `[1, 2, 3, 7]` -> `1:3,7`.
+ */
+export function toSequenceSet(uids: number[]): string {
+  const sorted = Array.from(new Set(uids)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let previous = sorted[0];
+
+  for (const uid of sorted.slice(1).concat([NaN])) {
+    if (uid === previous + 1) {
+      previous = uid;
+      continue;
+    }
+    ranges.push(start === previous ? `${start}` : `${start}:${previous}`);
+    start = uid;
+    previous = uid;
+  }
+
+  return ranges.join(',');
+}
+
+/** Expands a UID set such as `1:3,7` (as sent in `VANISHED`) into numbers. */
+export function parseSequenceSet(set: string): number[] {
+  const uids: number[] = [];
+  for (const range of set.split(',')) {
+    const [start, end = start] = range.split(':').map((value) => parseInt(value, 10));
+    if (isNaN(start) || isNaN(end)) continue;
+    for (let uid = Math.min(start, end); uid <= Math.max(start, end); uid++) {
+      uids.push(uid);
+    }
+  }
+  return uids;
+}
+
+/** Modified UTF-7 mailbox name encoding (RFC 3501 §5.1.3). */
+export function encodeMailboxName(name: string): string {
+  return name.replace(/&/g, '&-').replace(/[^\x20-\x7e]+/g, (chunk) => {
+    const utf16 = Buffer.alloc(chunk.length * 2);
+    for (let i = 0; i < chunk.length; i++) {
+      utf16.writeUInt16BE(chunk.charCodeAt(i), i * 2);
+    }
+    return `&${utf16.toString('base64').replace(/=+$/, '').replace(/\//g, ',')}-`;
+  });
+}
+
+export function decodeMailboxName(name: string): string {
+  return name.replace(/&([^-]*)-/g, (_match, encoded: string) => {
+    if (encoded === '') return '&';
+    const utf16 = Buffer.from(encoded.replace(/,/g, '/'), 'base64');
+    let output = '';
+    for (let i = 0; i + 1 < utf16.length; i += 2) {
+      output += String.fromCharCode(utf16.readUInt16BE(i));
+    }
+    return output;
+  });
+}
+
+/**
+ * Builds node-imap style search criteria from the manager-level
+ * `FetchEmailOptions`.
+ */
+export function searchCriteriaFromOptions(options: {
+  unseen?: boolean;
+  since?: Date;
+  search?: { from?: string; to?: string; subject?: string; body?: string };
+}): SearchCriteria {
+  const criteria: SearchCriteria = [];
+
+  if (options.unseen) criteria.push('UNSEEN');
+  if (options.since) criteria.push(['SINCE', options.since]);
+  if (options.search?.from) criteria.push(['FROM', options.search.from]);
+  if (options.search?.to) criteria.push(['TO', options.search.to]);
+  if (options.search?.subject) criteria.push(['SUBJECT', options.search.subject]);
+  if (options.search?.body) criteria.push(['BODY', options.search.body]);
+
+  return criteria.length > 0 ? criteria : ['ALL'];
+}
@@ -0,0 +1,411 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as net from 'net';
+import { ImapClient } from './imap';
+import {
+  compileSearch,
+  decodeMailboxName,
+  encodeMailboxName,
+  parseThreadList,
+  tokenize,
+  toSequenceSet,
+} from './imap-protocol';
+
+const MESSAGE = [
+  'From: Alice <alice@example.com>',
+  'To: bob@example.com',
+  'Subject: Quarterly report',
+  'Message-ID: <report@example.com>',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Numbers attached.',
+].join('\r\n');
+
+interface ScriptedServer {
+  server: net.Server;
+  port: number;
+  commands: string[];
+  push: (data: string) => void;
+}
+
+/**
+ * Minimal scripted IMAP4rev1 server: replies to each tagged command from a
+ * fixed script and records what the client sent.
+ */
+function startServer(capabilities: string[]): Promise<ScriptedServer> {
+  const commands: string[] = [];
+  let client: net.Socket | null = null;
+
+  const server = net.createServer((socket) => {
+    client = socket;
+    let buffer = '';
+    let literal = 0;
+    let pendingLine = '';
+    let idleTag: string | null = null;
+
+    socket.write(`* OK [CAPABILITY IMAP4rev1 ${capabilities.join(' ')}] scripted ready\r\n`);
+
+    const handle = (line: string) => {
+      commands.push(line);
+
+      if (idleTag && line === 'DONE') {
+        socket.write(`${idleTag} OK IDLE terminated\r\n`);
+        idleTag = null;
+        return;
+      }
+
+      const [tag, verb, ...args] = line.split(' ');
+      const command = `${verb} ${args[0] || ''}`.toUpperCase();
+      const ok = (text = 'done') => socket.write(`${tag} OK ${text}\r\n`);
+
+      if (verb === 'LOGIN') {
+        if (args[1] === '"wrong"') socket.write(`${tag} NO [AUTHENTICATIONFAILED] bad\r\n`);
+        else ok('[CAPABILITY IMAP4rev1 ' + capabilities.join(' ') + '] logged in');
+      } else if (verb === 'CAPABILITY') {
+        socket.write(`* CAPABILITY IMAP4rev1 ${capabilities.join(' ')}\r\n`);
+        ok();
+      } else if (verb === 'LIST') {
+        socket.write('* LIST (\\HasChildren) "/" "INBOX"\r\n');
+        socket.write('* LIST (\\HasNoChildren) "/" "INBOX/Projects"\r\n');
+        socket.write('* LIST (\\HasNoChildren \\Sent) "/" "&AMk-l&AOk-ments envoy&AOk-s"\r\n');
+        ok();
+      } else if (verb === 'SELECT' || verb === 'EXAMINE') {
+        socket.write('* FLAGS (\\Answered \\Flagged \\Deleted \\Seen \\Draft)\r\n');
+        socket.write('* 3 EXISTS\r\n* 1 RECENT\r\n');
+        socket.write('* OK [UIDVALIDITY 3857529045] UIDs valid\r\n');
+        socket.write('* OK [UIDNEXT 4392] Predicted next UID\r\n');
+        socket.write('* OK [PERMANENTFLAGS (\\Deleted \\Seen \\*)] Limited\r\n');
+        if (line.endsWith('(CONDSTORE)')) {
+          socket.write('* OK [HIGHESTMODSEQ 90060115205545359] Highest\r\n');
+        }
+        ok(verb === 'EXAMINE' ? '[READ-ONLY] done' : '[READ-WRITE] done');
+      } else if (command.startsWith('UID SEARCH')) {
+        socket.write('* SEARCH 12 7 9\r\n');
+        ok();
+      } else if (command.startsWith('UID THREAD')) {
+        socket.write('* THREAD (2)(3 6 (4 23)(44 7 96))\r\n');
+        ok();
+      } else if (verb === 'ENABLE') {
+        socket.write(`* ENABLED ${args.filter((arg) => arg === 'QRESYNC').join(' ')}\r\n`);
+        ok();
+      } else if (command.startsWith('UID FETCH') && line.includes('CHANGEDSINCE')) {
+        if (line.includes('VANISHED')) socket.write('* VANISHED (EARLIER) 41,43:45\r\n');
+        socket.write('* 1 FETCH (UID 50 FLAGS (\\Seen $Work) MODSEQ (90060115205545360))\r\n');
+        ok();
+      } else if (command.startsWith('UID FETCH')) {
+        socket.write(
+          `* 2 FETCH (UID 7 FLAGS (\\Seen) INTERNALDATE "17-Jul-2024 02:44:25 +0000" ` +
+            `RFC822.SIZE ${MESSAGE.length} BODYSTRUCTURE ("TEXT" "PLAIN" ("CHARSET" "utf-8") NIL NIL "7BIT" 17 1 NIL NIL NIL) ` +
+            `BODY[] {${Buffer.byteLength(MESSAGE)}}\r\n${MESSAGE})\r\n`
+        );
+        socket.write('* 3 FETCH (FLAGS (\\Seen))\r\n');
+        ok();
+      } else if (verb === 'IDLE') {
+        idleTag = tag;
+        socket.write('+ idling\r\n');
+      } else if (verb === 'LOGOUT') {
+        socket.write('* BYE logging out\r\n');
+        ok();
+        socket.end();
+      } else {
+        ok();
+      }
+    };
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('latin1');
+      for (;;) {
+        if (literal > 0) {
+          if (buffer.length < literal) return;
+          pendingLine += buffer.slice(0, literal);
+          buffer = buffer.slice(literal);
+          literal = 0;
+        }
+        const index = buffer.indexOf('\r\n');
+        if (index === -1) return;
+        const line = pendingLine + buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        const match = line.match(/\{(\d+)\}$/);
+        if (match) {
+          pendingLine = line;
+          literal = parseInt(match[1], 10);
+          socket.write('+ go ahead\r\n');
+          continue;
+        }
+        pendingLine = '';
+        handle(Buffer.from(line, 'latin1').toString('utf8'));
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        server,
+        port: (server.address() as net.AddressInfo).port,
+        commands,
+        push: (data) => client?.write(data),
+      });
+    });
+  });
+}
+
+describe('ImapClient', () => {
+  let scripted: ScriptedServer;
+  let client: ImapClient;
+
+  const connect = async (capabilities: string[], password = 'secret') => {
+    scripted = await startServer(capabilities);
+    client = new ImapClient({
+      host: '127.0.0.1',
+      port: scripted.port,
+      secure: false,
+      auth: { user: 'bob', password },
+    });
+    await client.connect();
+  };
+
+  const sent = (pattern: RegExp) => scripted.commands.filter((command) => pattern.test(command));
+
+  afterEach(async () => {
+    await client?.disconnect();
+    await new Promise((resolve) => scripted.server.close(resolve));
+  });
+
+  describe('session', () => {
+    beforeEach(() => connect(['IDLE', 'UIDPLUS']));
+
+    it('logs in and uses the capabilities from the tagged response', () => {
+      expect(client.isConnected()).toBe(true);
+      expect(sent(/LOGIN/)).toEqual(['A1 LOGIN "bob" "secret"']);
+      expect(client.getCapabilities()).toContain('IDLE');
+    });
+
+    it('lists mailboxes as a tree and decodes modified UTF-7 names', async () => {
+      const boxes = await client.getMailboxes();
+
+      expect(boxes.INBOX.children?.Projects.name).toBe('INBOX/Projects');
+      expect(boxes['Éléments envoyés'].attribs).toContain('\\Sent');
+    });
+
+    it('selects a mailbox and reports its status', async () => {
+      const box = await client.openBox('INBOX', true);
+
+      expect(sent(/EXAMINE/)).toEqual(['A2 EXAMINE "INBOX"']);
+      expect(box).toMatchObject({
+        readOnly: true,
+        uidvalidity: 3857529045,
+        uidnext: 4392,
+        messages: { total: 3, new: 1 },
+      });
+      expect(box.permFlags).toContain('\\Deleted');
+    });
+
+    it('builds UID SEARCH commands and sends non-ASCII terms as literals', async () => {
+      await client.openBox('INBOX');
+      const uids = await client.searchMessages([
+        'UNSEEN',
+        ['SINCE', new Date('2024-02-05T00:00:00Z')],
+        ['FROM', 'alice@example.com'],
+      ]);
+      await client.searchMessages([['SUBJECT', 'Résumé']]);
+
+      expect(uids).toEqual([7, 9, 12]);
+      expect(sent(/UID SEARCH/)[0]).toBe(
+        'A3 UID SEARCH UNSEEN SINCE 5-Feb-2024 FROM "alice@example.com"'
+      );
+      expect(sent(/UID SEARCH/)[1]).toBe('A4 UID SEARCH CHARSET UTF-8 SUBJECT {8}Résumé');
+    });
+
+    it('fetches and parses messages delivered as literals', async () => {
+      await client.openBox('INBOX');
+      const [message, ...rest] = await client.fetchMessages([7], { bodies: '' });
+
+      expect(rest).toEqual([]);
+      expect(sent(/UID FETCH/)[0]).toBe(
+        'A3 UID FETCH 7 (UID FLAGS INTERNALDATE RFC822.SIZE BODYSTRUCTURE ENVELOPE BODY.PEEK[])'
+      );
+      expect(message.uid).toBe(7);
+      expect(message.flags).toEqual(['\\Seen']);
+      expect(message.date.toISOString()).toBe('2024-07-17T02:44:25.000Z');
+      expect(message.headers.subject).toBe('Quarterly report');
+      expect(message.text).toBe('Numbers attached.');
+      expect(message.structure).toMatchObject({ part: '1', type: 'text', subtype: 'plain' });
+    });
+
+    it('requests partial body sections', async () => {
+      await client.openBox('INBOX');
+      await client.fetchMessages([1, 2, 3, 8], {
+        bodies: ['HEADER', 'TEXT'],
+        struct: false,
+        envelope: false,
+        partial: { start: 0, length: 512 },
+      });
+
+      expect(sent(/UID FETCH/)[0]).toBe(
+        'A3 UID FETCH 1:3,8 (UID FLAGS INTERNALDATE RFC822.SIZE BODY.PEEK[HEADER]<0.512> BODY.PEEK[TEXT]<0.512>)'
+      );
+    });
+
+    it('stores flags and falls back to COPY and UID EXPUNGE without MOVE', async () => {
+      await client.openBox('INBOX');
+      await client.addFlags([7], ['\\Flagged']);
+      await client.removeFlags([7], ['\\Seen']);
+      await client.moveMessages([7, 9], 'Archive');
+
+      expect(sent(/UID (STORE|COPY|EXPUNGE|MOVE)/).map((c) => c.replace(/^A\d+ /, ''))).toEqual([
+        'UID STORE 7 +FLAGS.SILENT (\\Flagged)',
+        'UID STORE 7 -FLAGS.SILENT (\\Seen)',
+        'UID COPY 7,9 "Archive"',
+        'UID STORE 7,9 +FLAGS.SILENT (\\Deleted)',
+        'UID EXPUNGE 7,9',
+      ]);
+    });
+
+    it('emits mail and expunge events while idling and resumes after commands', async () => {
+      await client.openBox('INBOX');
+      const events: Array<[string, number]> = [];
+      client.on('mail', (count) => events.push(['mail', count]));
+      client.on('expunge', (seqno) => events.push(['expunge', seqno]));
+
+      await client.idle();
+      expect(client.isIdling()).toBe(true);
+
+      scripted.push('* 5 EXISTS\r\n');
+      scripted.push('* 2 EXPUNGE\r\n');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(events).toEqual([
+        ['mail', 2],
+        ['expunge', 2],
+      ]);
+
+      await client.addFlags([7], ['\\Seen']);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(sent(/IDLE|DONE|STORE/).map((c) => c.replace(/^A\d+ /, ''))).toEqual([
+        'IDLE',
+        'DONE',
+        'UID STORE 7 +FLAGS.SILENT (\\Seen)',
+        'IDLE',
+      ]);
+
+      await client.stopIdle();
+      expect(client.isIdling()).toBe(false);
+    });
+  });
+
+  it('refuses to expunge other deleted messages without UIDPLUS', async () => {
+    await connect([]);
+    await client.openBox('INBOX');
+
+    await expect(client.moveMessages([7, 9], 'Archive')).rejects.toThrow(
+      'Server does not support UIDPLUS and 1 other message(s) are marked \\Deleted'
+    );
+    expect(sent(/UID (COPY|STORE)|EXPUNGE/)).toEqual([]);
+
+    await client.deleteMessages([7, 9, 12]);
+    expect(sent(/UID (SEARCH|STORE)|EXPUNGE/).map((c) => c.replace(/^A\d+ /, ''))).toEqual([
+      'UID SEARCH DELETED',
+      'UID SEARCH DELETED',
+      'UID STORE 7,9,12 +FLAGS.SILENT (\\Deleted)',
+      'EXPUNGE',
+    ]);
+  });
+
+  it('uses UID MOVE when the server supports it', async () => {
+    await connect(['MOVE']);
+    await client.openBox('INBOX');
+    await client.moveMessages([4], 'Archive');
+
+    expect(sent(/UID (MOVE|COPY)/).map((c) => c.replace(/^A\d+ /, ''))).toEqual([
+      'UID MOVE 4 "Archive"',
+    ]);
+  });
+
+  it('runs UID THREAD when the algorithm is advertised', async () => {
+    await connect(['THREAD=REFERENCES']);
+    await client.openBox('INBOX');
+    const threads = await client.thread('REFERENCES', ['UNSEEN']);
+
+    expect(sent(/UID THREAD/)).toEqual(['A3 UID THREAD REFERENCES UTF-8 UNSEEN']);
+    expect(threads).toHaveLength(2);
+    expect(threads[1].uid).toBe(3);
+    expect(threads[1].children[0].children.map((child) => child.uid)).toEqual([4, 44]);
+    await expect(client.thread('ORDEREDSUBJECT')).rejects.toThrow(
+      'Server does not support THREAD=ORDEREDSUBJECT'
+    );
+  });
+
+  it('fetches CONDSTORE changes and QRESYNC vanished UIDs', async () => {
+    await connect(['CONDSTORE', 'QRESYNC', 'ENABLE']);
+    expect(await client.enable(['QRESYNC', 'UTF8=ACCEPT'])).toEqual(['QRESYNC']);
+    expect(client.isEnabled('qresync')).toBe(true);
+
+    const box = await client.openBox('INBOX', true, { condstore: true });
+    expect(box.highestModseq).toBe('90060115205545359');
+
+    const changes = await client.fetchChanges(box.highestModseq!);
+    expect(sent(/CHANGEDSINCE/)).toEqual([
+      'A4 UID FETCH 1:* (UID FLAGS) (CHANGEDSINCE 90060115205545359 VANISHED)',
+    ]);
+    expect(changes.vanished).toEqual([41, 43, 44, 45]);
+    expect(changes.messages).toMatchObject([
+      { uid: 50, flags: ['\\Seen', '$Work'], modseq: '90060115205545360' },
+    ]);
+  });
+
+  it('reports authentication failures', async () => {
+    await expect(connect([], 'wrong')).rejects.toThrow('AUTHENTICATIONFAILED');
+    expect(client.isConnected()).toBe(false);
+  });
+});
+
+describe('IMAP protocol helpers', () => {
+  it('compiles OR and NOT groups', () => {
+    expect(
+      compileSearch([
+        ['OR', ['FROM', 'a@example.com'], [['TO', 'b@example.com'], 'FLAGGED']],
+        ['!', 'SEEN'],
+      ])
+    ).toEqual([
+      'OR',
+      'FROM',
+      '"a@example.com"',
+      '(',
+      'TO',
+      '"b@example.com"',
+      'FLAGGED',
+      ')',
+      'NOT',
+      'SEEN',
+    ]);
+  });
+
+  it('decodes THREAD responses with placeholder roots', () => {
+    expect(parseThreadList(tokenize('(3 6 (4 23)(44 7 96)) ((11)(12 13))'))).toEqual([
+      {
+        uid: 3,
+        children: [
+          {
+            uid: 6,
+            children: [
+              { uid: 4, children: [{ uid: 23, children: [] }] },
+              { uid: 44, children: [{ uid: 7, children: [{ uid: 96, children: [] }] }] },
+            ],
+          },
+        ],
+      },
+      {
+        children: [
+          { uid: 11, children: [] },
+          { uid: 12, children: [{ uid: 13, children: [] }] },
+        ],
+      },
+    ]);
+  });
+
+  it('compacts sequence sets and round-trips mailbox names', () => {
+    expect(toSequenceSet([5, 1, 2, 3, 9, 10])).toBe('1:3,5,9:10');
+    expect(encodeMailboxName('Entwürfe & Co')).toBe('Entw&APw-rfe &- Co');
+    expect(decodeMailboxName('Entw&APw-rfe &- Co')).toBe('Entwürfe & Co');
+  });
+});
@@ -1,219 +1,355 @@
 import { EventEmitter } from 'events';
+import { MailSocket } from './transport';
+import { parseMessage } from './mime-parser';
+import {
+  CommandPart,
+  ImapResponse,
+  ImapThreadNode,
+  ImapValue,
+  LITERAL_MARKER,
+  compileSearch,
+  decodeMailboxName,
+  encodeMailboxName,
+  formatInternalDate,
+  parseBodyStructure,
+  parseResponse,
+  parseSequenceSet,
+  parseThreadList,
+  quoteString,
+  toSequenceSet,
+  valueToString,
+} from './imap-protocol';
+import { authenticateOAuth2, selectOAuth2Mechanism, usesOAuth2 } from './oauth';
+import type { ImapConfig, ImapMessage, OAuth2Mechanism, SearchCriteria } from './types';
 
-export interface ImapConfig {
-  host: string;
-  port: number;
-  secure: boolean;
-  auth: {
-    user: string;
-    password: string;
-  };
-  connTimeout?: number;
-  authTimeout?: number;
+export interface ImapMailbox {
+  name: string;
+  delimiter: string;
+  attribs: string[];
+  children: Record<string, ImapMailbox> | null;
 }
 
-export interface ImapMessage {
-  uid: number;
+export interface ImapBoxInfo {
+  name: string;
+  readOnly: boolean;
+  uidvalidity: number;
+  uidnext: number;
   flags: string[];
-  date: Date;
-  structure: unknown;
-  headers: Record<string, string>;
-  text?: string;
-  html?: string;
-  attachments: Array<{
-    filename: string;
-    contentType: string;
-    size: number;
-    content: Uint8Array;
-  }>;
+  permFlags: string[];
+  messages: {
+    total: number;
+    new: number;
+  };
+  highestModseq?: string;
+}
+
+export interface ImapFetchOptions {
+  /** Body sections to fetch, e.g. `''` (whole message), `'HEADER'`, `'TEXT'`, `'1.2'`. */
+  bodies?: string | string[];
+  struct?: boolean;
+  envelope?: boolean;
+  size?: boolean;
+  /** Fetch with `BODY[...]` instead of `BODY.PEEK[...]`, setting `\Seen`. */
+  markSeen?: boolean;
+  /** Partial fetch of each body section (`BODY[...]<start.length>`). */
+  partial?: { start: number; length: number };
+  /** Keep the undecoded message in `raw`; requires the `''` body section. */
+  raw?: boolean;
+}
+
+export interface ImapAppendOptions {
+  flags?: string[];
+  /** Internal date of the stored message; the server uses the current time otherwise. */
+  date?: Date;
+}
+
+export interface ImapOpenBoxOptions {
+  /** Request MODSEQ tracking (RFC 7162) when the server supports CONDSTORE. */
+  condstore?: boolean;
+}
+
+/** Result of a `CHANGEDSINCE` fetch: updated messages plus expunged UIDs. */
+export interface ImapChanges {
+  messages: ImapMessage[];
+  /** Only reported once QRESYNC has been enabled. */
+  vanished: number[];
 }
 
+export class ImapError extends Error {
+  constructor(
+    message: string,
+    public status?: string,
+    public responseCode?: string
+  ) {
+    super(message);
+    this.name = 'ImapError';
+  }
+}
+
+interface PendingCommand {
+  tag: string;
+  untagged: ImapResponse[];
+  resolve: (result: { tagged: ImapResponse; untagged: ImapResponse[] }) => void;
+  reject: (error: Error) => void;
+  onContinue?: (text: string) => string | Buffer;
+}
+
+/** Servers may drop IDLE after 30 minutes (RFC 2177), so it is re-issued earlier. */
+const IDLE_REFRESH_MS = 29 * 60 * 1000;
+
 export class ImapClient extends EventEmitter {
-  private client: any = null;
+  private connection: MailSocket | null = null;
   private connected = false;
+  private capabilities = new Set<string>();
+  private enabled = new Set<string>();
+  private tagCounter = 0;
+  private current: PendingCommand | null = null;
+  private continuationWaiter: {
+    resolve: (text: string) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending = 0;
+  private box: ImapBoxInfo | null = null;
+  private idleRequested = false;
+  private idleCommand: { done: Promise<unknown>; refresh: ReturnType<typeof setTimeout> } | null =
+    null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(private config: ImapConfig) {
     super();
   }
 
   async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.connected) {
-        resolve();
-        return;
+    if (this.connected) {
+      return;
+    }
+
+    try {
+      this.connection = await MailSocket.connect({
+        host: this.config.host,
+        port: this.config.port,
+        secure: this.config.secure,
+        timeout: this.config.connTimeout || 60000,
+        tlsOptions: this.config.tlsOptions,
+      });
+      const connection = this.connection;
+
+      const greeting = await this.readResponse(connection);
+      if (greeting.type === 'BYE') {
+        throw new Error(greeting.text || 'Server rejected connection');
       }
+      this.applyCapabilityCode(greeting.code);
 
-      const timeout = setTimeout(() => {
-        reject(new Error('IMAP connection timeout'));
-      }, this.config.connTimeout || 60000);
-
-      this.client = {
-        once: (event: string, callback: (data?: any) => void) => {
-          if (event === 'ready') {
-            setTimeout(() => {
-              this.connected = true;
-              this.emit('connected');
-              clearTimeout(timeout);
-              callback();
-            }, 100);
-          }
-        },
-        on: (event: string, callback: (data?: any) => void) => {
-          if (event === 'error') {
-            setTimeout(() => {
-              this.connected = false;
-              this.emit('error', new Error('Connection failed'));
-              clearTimeout(timeout);
-              callback(new Error('Connection failed'));
-            }, 100);
-          }
-        },
-        getBoxes: (callback: (error: Error | null, boxes?: any) => void) => {
-          setTimeout(() => {
-            callback(null, { INBOX: {}, Sent: {}, Drafts: {}, Trash: {} });
-          }, 50);
-        },
-        openBox: (
-          mailbox: string,
-          readOnly: boolean,
-          callback: (error: Error | null, box?: any) => void
-        ) => {
-          setTimeout(() => {
-            callback(null, { name: mailbox, readonly: readOnly });
-          }, 50);
-        },
-        search: (_criteria: any[], callback: (error: Error | null, uids?: number[]) => void) => {
-          setTimeout(() => {
-            callback(null, [1, 2, 3]);
-          }, 50);
-        },
-        fetch: (_uids: number[], _options: any) => {
-          return {
-            on: (event: string, callback: (data?: any) => void) => {
-              if (event === 'message') {
-                setTimeout(() => {
-                  callback({
-                    on: (evt: string, cb: (data?: any) => void) => {
-                      if (evt === 'body') {
-                        setTimeout(() => {
-                          cb({
-                            on: (e: string, c: (data?: any) => void) => {
-                              if (e === 'data') {
-                                setTimeout(() => c('test data'), 10);
-                              } else if (e === 'end') {
-                                setTimeout(() => c(), 10);
-                              }
-                            },
-                          });
-                        }, 10);
-                      } else if (evt === 'attributes') {
-                        setTimeout(() => {
-                          cb({ uid: 1, flags: ['\\Seen'], date: new Date() });
-                        }, 10);
-                      } else if (evt === 'end') {
-                        setTimeout(() => cb(), 10);
-                      }
-                    },
-                  });
-                }, 50);
-              } else if (event === 'end') {
-                setTimeout(() => callback(), 100);
-              }
-            },
-          };
-        },
-        addFlags: (_uids: number[], _flags: string[], callback: (error: Error | null) => void) => {
-          setTimeout(() => callback(null), 50);
-        },
-        delFlags: (_uids: number[], _flags: string[], callback: (error: Error | null) => void) => {
-          setTimeout(() => callback(null), 50);
-        },
-        move: (_uids: number[], _mailbox: string, callback: (error: Error | null) => void) => {
-          setTimeout(() => callback(null), 50);
-        },
-        expunge: (callback: (error: Error | null) => void) => {
-          setTimeout(() => callback(null), 50);
-        },
-        end: () => {
-          this.connected = false;
-          this.emit('disconnected');
-        },
-      };
-
-      setTimeout(() => {
-        this.client.once('ready', () => {
-          clearTimeout(timeout);
-          resolve();
-        });
-      }, 100);
-    });
-  }
+      connection.onClose((error) => this.handleClose(error));
+      this.readLoop(connection);
 
-  async disconnect(): Promise<void> {
-    return new Promise((resolve) => {
-      if (!this.connected) {
-        resolve();
-        return;
+      if (this.capabilities.size === 0) {
+        await this.refreshCapabilities();
       }
 
-      if (this.client) {
-        this.client.end();
+      if (!connection.isSecure && !this.config.ignoreTLS && this.capabilities.has('STARTTLS')) {
+        await this.run(['STARTTLS']);
+        await connection.upgrade();
+        await this.refreshCapabilities();
+      } else if (!connection.isSecure && this.config.requireTLS) {
+        throw new Error('Server does not support STARTTLS');
       }
-      resolve();
-    });
+
+      if (greeting.type !== 'PREAUTH') {
+        await this.withTimeout(
+          this.authenticate(),
+          this.config.authTimeout || 30000,
+          'IMAP authentication timeout'
+        );
+      }
+
+      connection.setTimeout(0);
+      this.connected = true;
+      this.emit('connected');
+    } catch (error) {
+      this.connection?.close();
+      this.connection = null;
+      this.connected = false;
+      throw new Error(
+        `Failed to connect to IMAP server: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
   }
 
-  async getMailboxes(): Promise<Record<string, any>> {
-    if (!this.connected) {
-      throw new Error('Not connected to IMAP server');
+  async disconnect(): Promise<void> {
+    if (!this.connected || !this.connection) {
+      return;
     }
 
-    return new Promise((resolve, reject) => {
-      this.client.getBoxes((error: Error | null, boxes?: any) => {
-        if (error) {
-          reject(error);
+    const connection = this.connection;
+    this.stopPolling();
+    this.idleRequested = false;
+
+    try {
+      await this.withTimeout(
+        this.enqueue(() => this.run(['LOGOUT'])),
+        5000,
+        'LOGOUT timeout'
+      );
+    } catch {
+      // Closing the socket below is enough if the server does not answer.
+    }
+    connection.close();
+    this.connected = false;
+  }
+
+  getCapabilities(): string[] {
+    return Array.from(this.capabilities);
+  }
+
+  getBox(): ImapBoxInfo | null {
+    return this.box;
+  }
+
+  async getMailboxes(): Promise<Record<string, ImapMailbox>> {
+    this.assertConnected();
+
+    const { untagged } = await this.command(['LIST', '""', '"*"']);
+    const boxes: Record<string, ImapMailbox> = {};
+
+    for (const response of untagged) {
+      if (response.type !== 'LIST') continue;
+
+      const [attribs, delimiter, rawName] = response.values;
+      const name = decodeMailboxName(valueToString(rawName));
+      const separator = valueToString(delimiter);
+      const path = separator ? name.split(separator) : [name];
+
+      let level = boxes;
+      path.forEach((segment, index) => {
+        if (!level[segment]) {
+          level[segment] = {
+            name: path.slice(0, index + 1).join(separator),
+            delimiter: separator,
+            attribs: [],
+            children: null,
+          };
+        }
+        if (index === path.length - 1) {
+          level[segment].attribs = Array.isArray(attribs) ? attribs.map(valueToString) : [];
         } else {
-          resolve(boxes || {});
+          level = level[segment].children ||= {};
         }
       });
-    });
+    }
+
+    return boxes;
   }
 
-  async openBox(mailbox: string, readOnly = false): Promise<any> {
-    if (!this.connected) {
-      throw new Error('Not connected to IMAP server');
+  async openBox(
+    mailbox: string,
+    readOnly = false,
+    options: ImapOpenBoxOptions = {}
+  ): Promise<ImapBoxInfo> {
+    this.assertConnected();
+
+    this.box = null;
+    const { tagged, untagged } = await this.command([
+      readOnly ? 'EXAMINE' : 'SELECT',
+      this.mailboxArgument(mailbox),
+      ...(options.condstore && this.supportsCondstore() ? ['(CONDSTORE)'] : []),
+    ]);
+
+    const box: ImapBoxInfo = {
+      name: mailbox,
+      readOnly: readOnly || /READ-ONLY/i.test(tagged.code || ''),
+      uidvalidity: 0,
+      uidnext: 0,
+      flags: [],
+      permFlags: [],
+      messages: { total: 0, new: 0 },
+    };
+
+    for (const response of untagged) {
+      if (response.type === 'EXISTS') box.messages.total = response.seqno || 0;
+      else if (response.type === 'RECENT') box.messages.new = response.seqno || 0;
+      else if (response.type === 'FLAGS') box.flags = this.flagList(response.values[0]);
+      else if (response.type === 'OK' && response.code) {
+        const [key, ...rest] = response.code.split(' ');
+        const value = rest.join(' ');
+        switch (key.toUpperCase()) {
+          case 'UIDVALIDITY':
+            box.uidvalidity = parseInt(value, 10);
+            break;
+          case 'UIDNEXT':
+            box.uidnext = parseInt(value, 10);
+            break;
+          case 'HIGHESTMODSEQ':
+            box.highestModseq = value;
+            break;
+          case 'PERMANENTFLAGS':
+            box.permFlags = this.flagList(
+              (value.match(/\((.*)\)/)?.[1] || '').split(' ').filter(Boolean)
+            );
+            break;
+        }
+      }
     }
 
-    return new Promise((resolve, reject) => {
-      this.client.openBox(mailbox, readOnly, (error: Error | null, box?: any) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve(box);
+    this.box = box;
+    return box;
+  }
+
+  async searchMessages(criteria: SearchCriteria): Promise<number[]> {
+    this.assertConnected();
+
+    const compiled = compileSearch(criteria);
+    const needsCharset = compiled.some((part) => typeof part !== 'string');
+    const { untagged } = await this.command([
+      'UID SEARCH',
+      ...(needsCharset ? ['CHARSET', 'UTF-8'] : []),
+      ...compiled,
+    ]);
+
+    const uids: number[] = [];
+    for (const response of untagged) {
+      if (response.type === 'SEARCH') {
+        for (const value of response.values) {
+          if (typeof value === 'number') uids.push(value);
         }
-      });
-    });
+      }
+    }
+
+    return uids.sort((a, b) => a - b);
   }
 
-  async searchMessages(criteria: any[]): Promise<number[]> {
-    if (!this.connected) {
-      throw new Error('Not connected to IMAP server');
+  /**
+   * Runs `UID THREAD` (RFC 5256) over the messages matching `criteria`.
+   * Only available when the server advertises `THREAD=<algorithm>`.
+   */
+  async thread(
+    algorithm: 'REFERENCES' | 'ORDEREDSUBJECT' = 'REFERENCES',
+    criteria: SearchCriteria = ['ALL']
+  ): Promise<ImapThreadNode[]> {
+    this.assertConnected();
+
+    if (!this.capabilities.has(`THREAD=${algorithm}`)) {
+      throw new ImapError(`Server does not support THREAD=${algorithm}`);
     }
 
-    return new Promise((resolve, reject) => {
-      this.client.search(criteria, (error: Error | null, uids?: number[]) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve(uids || []);
-        }
-      });
-    });
+    const { untagged } = await this.command([
+      'UID THREAD',
+      algorithm,
+      'UTF-8',
+      ...compileSearch(criteria),
+    ]);
+
+    return untagged
+      .filter((response) => response.type === 'THREAD')
+      .flatMap((response) => parseThreadList(response.values));
   }
 
-  async fetchMessages(uids: number[], options: any = {}): Promise<ImapMessage[]> {
-    if (!this.connected) {
-      throw new Error('Not connected to IMAP server');
+  async fetchMessages(uids: number[], options: ImapFetchOptions = {}): Promise<ImapMessage[]> {
+    this.assertConnected();
+
+    if (uids.length === 0) {
+      return [];
     }
 
     const {
@@ -223,148 +359,704 @@ export class ImapClient extends EventEmitter {
       size = true,
     } = options;
 
-    return new Promise((resolve, reject) => {
-      const messages: ImapMessage[] = [];
-      const fetch = this.client.fetch(uids, {
-        bodies,
-        struct,
-        envelope,
-        size,
-      });
+    const items = ['UID', 'FLAGS', 'INTERNALDATE'];
+    if (size) items.push('RFC822.SIZE');
+    if (struct) items.push('BODYSTRUCTURE');
+    if (envelope) items.push('ENVELOPE');
 
-      fetch.on('message', (msg: any, _seqno: number) => {
-        const message: Partial<ImapMessage> = {
-          uid: 0,
-          flags: [],
-          date: new Date(),
-          attachments: [],
-        };
-
-        msg.on('body', (stream: any, info: any) => {
-          let buffer = '';
-          stream.on('data', (chunk: any) => {
-            buffer += chunk.toString('utf8');
-          });
-          stream.once('end', () => {
-            if (info.which === 'HEADER') {
-              message.headers = this.parseHeaders(buffer);
-            } else if (info.which === 'TEXT') {
-              message.text = buffer;
-            } else if (info.which === '1') {
-              message.html = buffer;
-            }
-          });
-        });
-
-        msg.once('attributes', (attrs: any) => {
-          message.uid = attrs.uid;
-          message.flags = attrs.flags || [];
-          message.date = attrs.date || new Date();
-          message.structure = attrs.struct;
-        });
-
-        msg.once('end', () => {
-          messages.push(message as ImapMessage);
-        });
-      });
+    const partial = options.partial ? `<${options.partial.start}.${options.partial.length}>` : '';
+    for (const section of Array.isArray(bodies) ? bodies : [bodies]) {
+      items.push(`${options.markSeen ? 'BODY' : 'BODY.PEEK'}[${section}]${partial}`);
+    }
 
-      fetch.once('error', (error: Error) => {
-        reject(error);
-      });
+    const { untagged } = await this.command([
+      `UID FETCH ${toSequenceSet(uids)} (${items.join(' ')})`,
+    ]);
 
-      fetch.once('end', () => {
-        resolve(messages);
-      });
-    });
+    const messages: ImapMessage[] = [];
+    for (const response of untagged) {
+      if (response.type !== 'FETCH' || !Array.isArray(response.values[0])) continue;
+      const message = this.parseFetch(response.values[0], options.raw);
+      if (message) {
+        messages.push(message);
+      }
+    }
+
+    return messages;
   }
 
-  async addFlags(uids: number[], flags: string[]): Promise<void> {
-    if (!this.connected) {
-      throw new Error('Not connected to IMAP server');
+  /**
+   * Fetches flags of messages whose MODSEQ is greater than `changedSince`
+   * (RFC 7162). With QRESYNC enabled, UIDs expunged since then are returned
+   * as well.
+   */
+  async fetchChanges(changedSince: string): Promise<ImapChanges> {
+    this.assertConnected();
+
+    if (!this.supportsCondstore()) {
+      throw new ImapError('Server does not support CONDSTORE');
     }
 
-    return new Promise((resolve, reject) => {
-      this.client.addFlags(uids, flags, (error: Error | null) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve();
-        }
-      });
-    });
+    const qresync = this.enabled.has('QRESYNC');
+    const { untagged } = await this.command([
+      `UID FETCH 1:* (UID FLAGS) (CHANGEDSINCE ${changedSince}${qresync ? ' VANISHED' : ''})`,
+    ]);
+
+    const changes: ImapChanges = { messages: [], vanished: [] };
+    for (const response of untagged) {
+      if (response.type === 'VANISHED') {
+        changes.vanished.push(...this.vanishedUids(response.values));
+      } else if (response.type === 'FETCH' && Array.isArray(response.values[0])) {
+        const message = this.parseFetch(response.values[0]);
+        if (message) changes.messages.push(message);
+      }
+    }
+
+    return changes;
+  }
+
+  /** Enables server extensions such as `QRESYNC` (RFC 5161) and returns those accepted. */
+  async enable(extensions: string[]): Promise<string[]> {
+    this.assertConnected();
+
+    if (!this.capabilities.has('ENABLE')) {
+      throw new ImapError('Server does not support ENABLE');
+    }
+
+    const { untagged } = await this.command([`ENABLE ${extensions.join(' ')}`]);
+    const accepted = untagged
+      .filter((response) => response.type === 'ENABLED')
+      .flatMap((response) => response.values.map((value) => valueToString(value).toUpperCase()));
+    accepted.forEach((extension) => this.enabled.add(extension));
+    return accepted;
+  }
+
+  isEnabled(extension: string): boolean {
+    return this.enabled.has(extension.toUpperCase());
+  }
+
+  /** Creates a mailbox; the hierarchy delimiter in `name` creates parents as needed. */
+  async createMailbox(name: string): Promise<void> {
+    this.assertConnected();
+    await this.command(['CREATE', this.mailboxArgument(name)]);
+  }
+
+  /**
+   * Stores a message in `mailbox` (RFC 3501 APPEND). Resolves with the new
+   * UID when the server supports UIDPLUS, `null` otherwise.
+   */
+  async append(
+    mailbox: string,
+    content: string | Uint8Array,
+    options: ImapAppendOptions = {}
+  ): Promise<number | null> {
+    this.assertConnected();
+
+    const flags = (options.flags || []).filter((flag) => flag.toLowerCase() !== '\\recent');
+    const { tagged } = await this.command([
+      'APPEND',
+      this.mailboxArgument(mailbox),
+      ...(flags.length > 0 ? [`(${flags.join(' ')})`] : []),
+      ...(options.date ? [`"${formatInternalDate(options.date)}"`] : []),
+      { literal: Buffer.from(content) },
+    ]);
+
+    const match = (tagged.code || '').match(/^APPENDUID \d+ (\d+)$/i);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  async addFlags(uids: number[], flags: string[]): Promise<void> {
+    this.assertConnected();
+    await this.command([`UID STORE ${toSequenceSet(uids)} +FLAGS.SILENT (${flags.join(' ')})`]);
   }
 
   async removeFlags(uids: number[], flags: string[]): Promise<void> {
-    if (!this.connected) {
-      throw new Error('Not connected to IMAP server');
+    this.assertConnected();
+    await this.command([`UID STORE ${toSequenceSet(uids)} -FLAGS.SILENT (${flags.join(' ')})`]);
+  }
+
+  async moveMessages(uids: number[], mailbox: string): Promise<void> {
+    this.assertConnected();
+
+    const set = toSequenceSet(uids);
+    if (this.capabilities.has('MOVE')) {
+      await this.command([`UID MOVE ${set}`, this.mailboxArgument(mailbox)]);
+      return;
     }
 
-    return new Promise((resolve, reject) => {
-      this.client.delFlags(uids, flags, (error: Error | null) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve();
+    await this.assertExpungeable(uids);
+    await this.command([`UID COPY ${set}`, this.mailboxArgument(mailbox)]);
+    await this.command([`UID STORE ${set} +FLAGS.SILENT (\\Deleted)`]);
+    await this.expunge(set);
+  }
+
+  async deleteMessages(uids: number[]): Promise<void> {
+    this.assertConnected();
+
+    const set = toSequenceSet(uids);
+    await this.assertExpungeable(uids);
+    await this.command([`UID STORE ${set} +FLAGS.SILENT (\\Deleted)`]);
+    await this.expunge(set);
+  }
+
+  /**
+   * Starts listening for mailbox changes on the selected mailbox. New mail
+   * emits `'mail'` with the number of new messages and removals emit
+   * `'expunge'` with the sequence number (or `'vanished'` with UIDs once
+   * QRESYNC is enabled). Uses IDLE when the server supports
+   * it and NOOP polling otherwise; other commands transparently suspend IDLE.
+   */
+  async idle(): Promise<void> {
+    this.assertConnected();
+    if (!this.box) {
+      throw new Error('No mailbox selected');
+    }
+
+    this.idleRequested = true;
+    await this.enqueue(async () => undefined);
+    await this.queue;
+  }
+
+  async stopIdle(): Promise<void> {
+    this.idleRequested = false;
+    this.stopPolling();
+    if (this.connected) {
+      await this.enqueue(async () => undefined);
+    }
+  }
+
+  isIdling(): boolean {
+    return this.idleCommand !== null || this.pollTimer !== null;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  private async authenticate(): Promise<void> {
+    const { user, password = '' } = this.config.auth;
+    let tagged: ImapResponse;
+
+    const method = this.config.authMethod;
+    if (
+      method === 'XOAUTH2' ||
+      method === 'OAUTHBEARER' ||
+      (!method && usesOAuth2(this.config.auth))
+    ) {
+      tagged = await this.authenticateOAuth2(method);
+    } else if (method === 'PLAIN' || this.capabilities.has('LOGINDISABLED')) {
+      const token = Buffer.from(`\u0000${user}\u0000${password}`, 'utf8').toString('base64');
+      tagged = this.capabilities.has('SASL-IR')
+        ? (await this.run(['AUTHENTICATE PLAIN', token])).tagged
+        : (await this.run(['AUTHENTICATE PLAIN'], () => token)).tagged;
+    } else {
+      tagged = (await this.run(['LOGIN', this.astring(user), this.astring(password)])).tagged;
+    }
+
+    if (!this.applyCapabilityCode(tagged.code)) {
+      await this.refreshCapabilities();
+    }
+  }
+
+  private async authenticateOAuth2(method?: OAuth2Mechanism): Promise<ImapResponse> {
+    const advertised = Array.from(this.capabilities)
+      .filter((capability) => capability.startsWith('AUTH='))
+      .map((capability) => capability.slice(5));
+    const mechanism = method || selectOAuth2Mechanism(advertised);
+    if (!mechanism) {
+      throw new ImapError('Server does not support OAuth2 authentication');
+    }
+
+    let tagged: ImapResponse | null = null;
+    await authenticateOAuth2(
+      this.config.auth,
+      mechanism,
+      this.config,
+      async (token, onChallenge) => {
+        let sent = this.capabilities.has('SASL-IR');
+        const result = sent
+          ? await this.run([`AUTHENTICATE ${mechanism}`, token], onChallenge)
+          : await this.run([`AUTHENTICATE ${mechanism}`], (text) => {
+              if (sent) return onChallenge(text);
+              sent = true;
+              return token;
+            });
+        tagged = result.tagged;
+      }
+    );
+    return tagged!;
+  }
+
+  private async refreshCapabilities(): Promise<void> {
+    await this.run(['CAPABILITY']);
+  }
+
+  private applyCapabilityCode(code?: string): boolean {
+    if (!code || !/^CAPABILITY /i.test(code)) {
+      return false;
+    }
+    this.setCapabilities(code.split(' ').slice(1));
+    return true;
+  }
+
+  private setCapabilities(values: string[]): void {
+    this.capabilities = new Set(values.map((value) => value.toUpperCase()));
+  }
+
+  private supportsCondstore(): boolean {
+    return this.capabilities.has('CONDSTORE') || this.capabilities.has('QRESYNC');
+  }
+
+  /** Decodes `VANISHED [(EARLIER)] <uid-set>`. */
+  private vanishedUids(values: ImapValue[]): number[] {
+    const set = values.find((value) => !Array.isArray(value));
+    return parseSequenceSet(valueToString(set));
+  }
+
+  /**
+   * Without UIDPLUS, EXPUNGE removes every \\Deleted message of the mailbox;
+   * refuses when messages other than `uids` are already marked deleted.
+   */
+  private async assertExpungeable(uids: number[]): Promise<void> {
+    if (this.capabilities.has('UIDPLUS')) {
+      return;
+    }
+    const selected = new Set(uids);
+    const others = (await this.searchMessages(['DELETED'])).filter((uid) => !selected.has(uid));
+    if (others.length > 0) {
+      throw new ImapError(
+        `Server does not support UIDPLUS and ${others.length} other message(s) are marked \\Deleted; expunging would remove them`
+      );
+    }
+  }
+
+  private async expunge(set: string): Promise<void> {
+    if (this.capabilities.has('UIDPLUS')) {
+      await this.command([`UID EXPUNGE ${set}`]);
+    } else {
+      await this.command(['EXPUNGE']);
+    }
+  }
+
+  private parseFetch(list: ImapValue[], includeRaw = false): ImapMessage | null {
+    const message: Partial<ImapMessage> = {
+      flags: [],
+      date: new Date(),
+      headers: {},
+      attachments: [],
+    };
+    const sections: Record<string, Buffer[]> = {};
+    let envelope: ImapValue[] | null = null;
+
+    for (let i = 0; i + 1 < list.length; i += 2) {
+      const key = valueToString(list[i]).toUpperCase();
+      const value = list[i + 1];
+
+      if (key === 'UID') {
+        message.uid = Number(value);
+      } else if (key === 'FLAGS') {
+        message.flags = this.flagList(value);
+      } else if (key === 'MODSEQ') {
+        message.modseq = valueToString(value);
+      } else if (key === 'INTERNALDATE') {
+        message.date = this.parseInternalDate(valueToString(value));
+      } else if (key === 'BODYSTRUCTURE') {
+        message.structure = parseBodyStructure(value);
+      } else if (key === 'ENVELOPE' && Array.isArray(value)) {
+        envelope = value;
+      } else if (key.startsWith('BODY[')) {
+        const section = key.slice(5, key.lastIndexOf(']'));
+        const content = Buffer.isBuffer(value) ? value : Buffer.from(valueToString(value), 'utf8');
+        sections[section] = [content];
+      }
+    }
+
+    if (message.uid === undefined) {
+      return null;
+    }
+
+    this.applySections(message, sections);
+    if (includeRaw && sections['']) {
+      message.raw = Buffer.concat(sections['']);
+    }
+    if (envelope && Object.keys(message.headers || {}).length === 0) {
+      message.headers = this.envelopeHeaders(envelope);
+    }
+
+    return message as ImapMessage;
+  }
+
+  /**
+   * Reassembles the fetched body sections into a message and runs it through
+   * the MIME parser. A full `''` section is preferred; otherwise header and
+   * `TEXT` sections are joined.
+   */
+  private applySections(message: Partial<ImapMessage>, sections: Record<string, Buffer[]>): void {
+    const full = sections[''];
+    const headerKey = Object.keys(sections).find((key) => key.toUpperCase().startsWith('HEADER'));
+    const header = headerKey ? Buffer.concat(sections[headerKey]) : null;
+    const text = sections.TEXT ? Buffer.concat(sections.TEXT) : null;
+
+    let raw: Buffer | null = null;
+    if (full) {
+      raw = Buffer.concat(full);
+    } else if (header) {
+      const separator = /\r?\n\r?\n$/.test(header.toString('latin1')) ? '' : '\r\n\r\n';
+      raw = Buffer.concat([header, Buffer.from(separator), text || Buffer.alloc(0)]);
+    } else if (text) {
+      raw = Buffer.concat([Buffer.from('\r\n'), text]);
+    }
+
+    if (!raw) {
+      return;
+    }
+
+    const parsed = parseMessage(raw);
+    message.headers = parsed.headers;
+    message.text = parsed.text;
+    message.html = parsed.html;
+    message.attachments = parsed.attachments.map((attachment) => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      content: attachment.content,
+      contentId: attachment.contentId,
+    }));
+  }
+
+  private envelopeHeaders(envelope: ImapValue[]): Record<string, string> {
+    const [date, subject, from, , replyTo, to, cc, , inReplyTo, messageId] = envelope;
+    const addresses = (value: ImapValue) =>
+      Array.isArray(value)
+        ? value
+            .filter(Array.isArray)
+            .map((address) => {
+              const [name, , mailbox, host] = address as ImapValue[];
+              const email = `${valueToString(mailbox)}@${valueToString(host)}`;
+              return name ? `${valueToString(name)} <${email}>` : email;
+            })
+            .join(', ')
+        : '';
+
+    const headers: Record<string, string> = {
+      date: valueToString(date),
+      subject: valueToString(subject),
+      from: addresses(from),
+      to: addresses(to),
+      cc: addresses(cc),
+      'reply-to': addresses(replyTo),
+      'in-reply-to': valueToString(inReplyTo),
+      'message-id': valueToString(messageId),
+    };
+
+    for (const key of Object.keys(headers)) {
+      if (!headers[key]) delete headers[key];
+    }
+    return headers;
+  }
+
+  private parseInternalDate(value: string): Date {
+    const date = new Date(value.replace(/^(\s?\d+)-(\w+)-(\d+)/, '$1 $2 $3'));
+    return isNaN(date.getTime()) ? new Date() : date;
+  }
+
+  private flagList(value: ImapValue): string[] {
+    return Array.isArray(value) ? value.map(valueToString) : [];
+  }
+
+  private mailboxArgument(mailbox: string): CommandPart {
+    return quoteString(encodeMailboxName(mailbox)) || { literal: Buffer.from(mailbox, 'utf8') };
+  }
+
+  private astring(value: string): CommandPart {
+    return quoteString(value) || { literal: Buffer.from(value, 'utf8') };
+  }
+
+  private command(
+    parts: CommandPart[]
+  ): Promise<{ tagged: ImapResponse; untagged: ImapResponse[] }> {
+    return this.enqueue(() => this.run(parts));
+  }
+
+  /**
+   * Serialises commands. Before each command an active IDLE is ended with
+   * DONE; once the queue drains IDLE is resumed if it was requested.
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    this.pending++;
+    const result = this.queue.then(async () => {
+      await this.leaveIdle();
+      return task();
+    });
+
+    this.queue = result
+      .catch(() => undefined)
+      .then(async () => {
+        this.pending--;
+        if (this.pending === 0 && this.idleRequested && this.connected) {
+          try {
+            await this.enterIdle();
+          } catch (error) {
+            this.emitError(error);
+          }
         }
       });
+
+    return result;
+  }
+
+  private async enterIdle(): Promise<void> {
+    if (this.idleCommand || this.pollTimer || !this.connection) {
+      return;
+    }
+
+    if (!this.capabilities.has('IDLE')) {
+      this.pollTimer = setInterval(() => {
+        this.command(['NOOP']).catch((error) => this.emitError(error));
+      }, this.config.idleInterval || 30000);
+      return;
+    }
+
+    const tag = `A${++this.tagCounter}`;
+    const done = new Promise((resolve, reject) => {
+      this.current = { tag, untagged: [], resolve, reject };
     });
+    done.catch(() => undefined);
+
+    const continuation = this.waitContinuation();
+    await this.connection.write(`${tag} IDLE\r\n`);
+    await Promise.race([continuation, done]);
+
+    const refresh = setTimeout(() => {
+      this.enqueue(async () => undefined).catch(() => undefined);
+    }, IDLE_REFRESH_MS);
+    this.idleCommand = { done, refresh };
   }
 
-  async moveMessages(uids: number[], mailbox: string): Promise<void> {
-    if (!this.connected) {
+  private async leaveIdle(): Promise<void> {
+    const idle = this.idleCommand;
+    if (!idle || !this.connection) {
+      return;
+    }
+
+    this.idleCommand = null;
+    clearTimeout(idle.refresh);
+    await this.connection.write('DONE\r\n');
+    await idle.done;
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async run(
+    parts: CommandPart[],
+    onContinue?: (text: string) => string | Buffer
+  ): Promise<{ tagged: ImapResponse; untagged: ImapResponse[] }> {
+    const connection = this.connection;
+    if (!connection) {
       throw new Error('Not connected to IMAP server');
     }
 
+    const tag = `A${++this.tagCounter}`;
+    const result = new Promise<{ tagged: ImapResponse; untagged: ImapResponse[] }>(
+      (resolve, reject) => {
+        this.current = { tag, untagged: [], resolve, reject, onContinue };
+      }
+    );
+    result.catch(() => undefined);
+
+    let buffer = `${tag}`;
+    let previous = '';
+    for (const part of parts) {
+      const separator = previous === '(' || part === ')' ? '' : ' ';
+      if (typeof part === 'string') {
+        buffer += separator + part;
+        previous = part;
+        continue;
+      }
+
+      const continuation = this.waitContinuation();
+      await connection.write(`${buffer}${separator}{${part.literal.length}}\r\n`);
+      await Promise.race([continuation, result]);
+      await connection.write(part.literal);
+      buffer = '';
+      previous = '';
+    }
+    await connection.write(`${buffer}\r\n`);
+
+    return result;
+  }
+
+  private waitContinuation(): Promise<string> {
     return new Promise((resolve, reject) => {
-      this.client.move(uids, mailbox, (error: Error | null) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve();
-        }
-      });
+      this.continuationWaiter = { resolve, reject };
     });
   }
 
-  async deleteMessages(uids: number[]): Promise<void> {
-    if (!this.connected) {
-      throw new Error('Not connected to IMAP server');
+  private async readLoop(connection: MailSocket): Promise<void> {
+    try {
+      for (;;) {
+        this.dispatch(await this.readResponse(connection));
+      }
+    } catch {
+      // The close handler reports the failure and rejects pending commands.
     }
+  }
 
-    return new Promise((resolve, reject) => {
-      this.client.addFlags(uids, ['\\Deleted'], (error: Error | null) => {
-        if (error) {
-          reject(error);
-        } else {
-          this.client.expunge((expungeError: Error | null) => {
-            if (expungeError) {
-              reject(expungeError);
-            } else {
-              resolve();
-            }
-          });
+  private async readResponse(connection: MailSocket): Promise<ImapResponse> {
+    const literals: Buffer[] = [];
+    let line = await connection.readLine();
+    let text = '';
+
+    for (;;) {
+      const match = line.match(/\{(\d+)\+?\}$/);
+      if (!match) {
+        text += line;
+        break;
+      }
+      text += `${line.slice(0, match.index)}${LITERAL_MARKER}${literals.length}${LITERAL_MARKER}`;
+      literals.push(await connection.readBytes(parseInt(match[1], 10)));
+      line = await connection.readLine();
+    }
+
+    return parseResponse(text, literals);
+  }
+
+  private dispatch(response: ImapResponse): void {
+    if (response.tag === '+') {
+      const waiter = this.continuationWaiter;
+      this.continuationWaiter = null;
+      if (waiter) {
+        waiter.resolve(response.text);
+      } else if (this.current?.onContinue && this.connection) {
+        const reply = this.current.onContinue(response.text);
+        this.connection
+          .write(Buffer.concat([Buffer.from(reply), Buffer.from('\r\n')]))
+          .catch(() => undefined);
+      }
+      return;
+    }
+
+    if (response.tag === '*') {
+      this.handleUntagged(response);
+      this.current?.untagged.push(response);
+      return;
+    }
+
+    const command = this.current;
+    if (!command || command.tag !== response.tag) {
+      return;
+    }
+
+    this.current = null;
+    if (this.continuationWaiter) {
+      this.continuationWaiter.reject(new ImapError(response.text, response.type, response.code));
+      this.continuationWaiter = null;
+    }
+
+    if (response.type === 'OK') {
+      command.resolve({ tagged: response, untagged: command.untagged });
+    } else {
+      command.reject(
+        new ImapError(
+          `IMAP command failed: ${response.type} ${response.code ? `[${response.code}] ` : ''}${response.text}`,
+          response.type,
+          response.code
+        )
+      );
+    }
+  }
+
+  private handleUntagged(response: ImapResponse): void {
+    switch (response.type) {
+      case 'CAPABILITY':
+        this.setCapabilities(response.values.map(valueToString));
+        break;
+      case 'OK':
+        this.applyCapabilityCode(response.code);
+        break;
+      case 'EXISTS':
+        if (this.box) {
+          const previous = this.box.messages.total;
+          this.box.messages.total = response.seqno || 0;
+          if (this.box.messages.total > previous) {
+            this.emit('mail', this.box.messages.total - previous);
+          }
         }
-      });
-    });
+        break;
+      case 'EXPUNGE':
+        if (this.box) {
+          this.box.messages.total = Math.max(0, this.box.messages.total - 1);
+          this.emit('expunge', response.seqno);
+        }
+        break;
+      case 'VANISHED':
+        if (this.box && !Array.isArray(response.values[0])) {
+          const uids = this.vanishedUids(response.values);
+          this.box.messages.total = Math.max(0, this.box.messages.total - uids.length);
+          this.emit('vanished', uids);
+        }
+        break;
+      case 'FETCH':
+        if (this.box && this.idleCommand) {
+          const list = Array.isArray(response.values[0]) ? response.values[0] : [];
+          const flagsIndex = list.findIndex(
+            (value) => valueToString(value).toUpperCase() === 'FLAGS'
+          );
+          if (flagsIndex !== -1) {
+            this.emit('update', response.seqno, { flags: this.flagList(list[flagsIndex + 1]) });
+          }
+        }
+        break;
+    }
   }
 
-  private parseHeaders(headerString: string): Record<string, string> {
-    const headers: Record<string, string> = {};
-    const lines = headerString.split('\r\n');
+  private handleClose(error: Error | null): void {
+    const wasConnected = this.connected;
+    this.connected = false;
+    this.connection = null;
+    this.box = null;
+    this.enabled.clear();
+    this.idleCommand = null;
+    this.stopPolling();
 
-    for (const line of lines) {
-      const colonIndex = line.indexOf(':');
-      if (colonIndex > 0) {
-        const key = line.substring(0, colonIndex).trim();
-        const value = line.substring(colonIndex + 1).trim();
-        headers[key.toLowerCase()] = value;
+    const failure = error || new Error('IMAP connection closed');
+    this.continuationWaiter?.reject(failure);
+    this.continuationWaiter = null;
+    this.current?.reject(failure);
+    this.current = null;
+
+    if (wasConnected) {
+      this.emit('disconnected');
+      if (error) {
+        this.emitError(error);
       }
     }
+  }
+
+  private emitError(error: unknown): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
 
-    return headers;
+  private assertConnected(): void {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
   }
 
-  isConnected(): boolean {
-    return this.connected;
+  private withTimeout<T>(promise: Promise<T>, timeout: number, message: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    return Promise.race([
+      promise,
+      new Promise<T>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), timeout);
+      }),
+    ]).finally(() => clearTimeout(timer));
   }
 }
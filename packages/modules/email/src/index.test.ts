@@ -5,6 +5,7 @@ import { EmailManager } from './index';
 vi.mock('./smtp', () => ({
   SmtpClient: vi.fn().mockImplementation(() => ({
     connect: vi.fn().mockResolvedValue(true),
+    isConnected: vi.fn().mockReturnValue(false),
     sendEmail: vi.fn().mockResolvedValue({ messageId: 'test-id' }),
     disconnect: vi.fn().mockResolvedValue(true),
   })),
@@ -13,9 +14,12 @@ vi.mock('./smtp', () => ({
 vi.mock('./imap', () => ({
   ImapClient: vi.fn().mockImplementation(() => ({
     connect: vi.fn().mockResolvedValue(true),
+    getCapabilities: vi.fn().mockReturnValue([]),
     openBox: vi.fn().mockResolvedValue({}),
     searchMessages: vi.fn().mockResolvedValue([1, 2, 3]),
     fetchMessages: vi.fn().mockResolvedValue([]),
+    addFlags: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(false),
     disconnect: vi.fn().mockResolvedValue(true),
   })),
 }));
@@ -81,6 +85,38 @@ describe('Email Module', () => {
       text: 'Test message',
     });
     expect(result.messageId).toBe('test-id');
+    expect(email.getStats().sentMessages).toBe(1);
+  });
+
+  it('should send a rendered template', async () => {
+    const email = new EmailManager({
+      smtp: {
+        host: 'smtp.test.com',
+        port: 587,
+        secure: false,
+        auth: { user: 'test', password: 'test' },
+      },
+    });
+    email.getTemplates().register('reset', {
+      subject: 'Reset your password, {{name}}',
+      html: '<p>Use code <b>{{code}}</b></p>',
+    });
+
+    const result = await email.sendTemplate(
+      'reset',
+      { name: 'Ann', code: '1234' },
+      { to: 'ann@example.com' }
+    );
+    expect(result.messageId).toBe('test-id');
+
+    expect(email.getSmtpClient()!.sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'ann@example.com',
+        subject: 'Reset your password, Ann',
+        text: 'Use code 1234',
+        html: '<p>Use code <b>1234</b></p>',
+      })
+    );
   });
 
   it('should fetch emails via IMAP', async () => {
@@ -96,4 +132,113 @@ describe('Email Module', () => {
     const emails = await email.fetchEmails({ limit: 10 });
     expect(Array.isArray(emails)).toBe(true);
   });
+
+  it('should record the last IMAP sync in stats', async () => {
+    const email = new EmailManager({
+      imap: {
+        host: 'imap.test.com',
+        port: 993,
+        secure: true,
+        auth: { user: 'test', password: 'test' },
+      },
+    });
+
+    expect(email.getStats().lastSync).toBeUndefined();
+    await email.syncMailbox();
+    expect(email.getStats().lastSync).toBeInstanceOf(Date);
+  });
+
+  it('should sync a mailbox before changing flags in it', async () => {
+    const email = new EmailManager({
+      imap: {
+        host: 'imap.test.com',
+        port: 993,
+        secure: true,
+        auth: { user: 'test', password: 'test' },
+      },
+    });
+    const imap = email.getImapClient()!;
+    vi.mocked(imap.fetchMessages).mockImplementation(async (uids) =>
+      uids.map((uid) => ({
+        uid,
+        flags: [],
+        date: new Date(),
+        structure: null,
+        headers: {},
+        attachments: [],
+      }))
+    );
+
+    await email.updateFlags([2], { add: ['\\Seen'] });
+    expect(imap.addFlags).toHaveBeenCalledWith([2], ['\\Seen']);
+  });
+
+  it('should connect one protocol at a time and reconnect dropped clients', async () => {
+    const email = new EmailManager({
+      smtp: {
+        host: 'smtp.test.com',
+        port: 587,
+        secure: false,
+        auth: { user: 'test', password: 'test' },
+      },
+      imap: {
+        host: 'imap.test.com',
+        port: 993,
+        secure: true,
+        auth: { user: 'test', password: 'test' },
+      },
+    });
+    const smtp = email.getSmtpClient()!;
+
+    await Promise.all([email.connect('smtp'), email.connect('smtp')]);
+    expect(smtp.connect).toHaveBeenCalledTimes(1);
+    expect(email.getImapClient()!.connect).not.toHaveBeenCalled();
+
+    vi.mocked(smtp.isConnected).mockReturnValue(true);
+    await email.connect('smtp');
+    expect(smtp.connect).toHaveBeenCalledTimes(1);
+
+    vi.mocked(smtp.isConnected).mockReturnValue(false);
+    await email.connect('smtp');
+    expect(smtp.connect).toHaveBeenCalledTimes(2);
+  });
+
+  it('should emit bounces found in the mailbox', async () => {
+    const email = new EmailManager({
+      imap: {
+        host: 'imap.test.com',
+        port: 993,
+        secure: true,
+        auth: { user: 'test', password: 'test' },
+      },
+    });
+    const report = {
+      uid: 2,
+      flags: [],
+      date: new Date(),
+      structure: null,
+      headers: {
+        from: 'MAILER-DAEMON@mx.test.com',
+        subject: 'Undelivered Mail Returned to Sender',
+      },
+      text: '<gone@example.com>: 550 5.1.1 user unknown\n\nMessage-ID: <sent-1@test.com>',
+      attachments: [],
+    };
+    vi.mocked(email.getImapClient()!.fetchMessages).mockImplementation(async (uids) =>
+      uids.includes(2) ? [report] : []
+    );
+    const onBounce = vi.fn();
+    email.on('bounce', onBounce);
+
+    const bounces = await email.processBounces();
+    expect(bounces).toHaveLength(1);
+    expect(onBounce).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'hard',
+        id: '2',
+        originalMessageId: '<sent-1@test.com>',
+        recipients: [expect.objectContaining({ address: 'gone@example.com' })],
+      })
+    );
+  });
 });
@@ -1,20 +1,104 @@
 export * from './types';
-export { ImapClient } from './imap';
-export { SmtpClient } from './smtp';
-export { Pop3Client } from './pop3';
-
-import { EmailConfig, EmailMessage, SendEmailOptions, FetchEmailOptions } from './types';
+export { ImapClient, ImapError } from './imap';
+export type {
+  ImapMailbox,
+  ImapBoxInfo,
+  ImapFetchOptions,
+  ImapOpenBoxOptions,
+  ImapChanges,
+} from './imap';
+export type { ImapBodyStructure, ImapThreadNode } from './imap-protocol';
+export { SmtpClient, SmtpError } from './smtp';
+export type { SmtpResponse } from './smtp';
+export { Pop3Client, Pop3Error, MemoryUidStore } from './pop3';
+export type { Pop3UidStore, Pop3SyncOptions } from './pop3';
+export { EmailQueue, MemoryQueueStore, FileQueueStore } from './queue';
+export type { EmailQueueOptions, QueueTransport } from './queue';
+export { DkimSigner, verifyDkim, dkimDnsRecord } from './dkim';
+export type { DkimVerificationResult, DkimVerifyOptions } from './dkim';
+export { TemplateRegistry, TemplateError, htmlToText } from './templates';
+export type { RenderedTemplate } from './templates';
+export { threadMessages, createThread, normalizeSubject } from './threading';
+export { MailboxSync, MemorySyncCache, FileSyncCache } from './sync';
+export type { SyncClient, SyncResult, FlagChanges, SelectedMailbox } from './sync';
+export { MimeComposer } from './mime-builder';
+export type { ComposedMessage } from './mime-builder';
+export { MimeParser, parseMessage } from './mime-parser';
+export type { MimePartNode, ParsedMessage, ParsedAttachment } from './mime-parser';
+export { parseBounce, parseDeliveryStatus, classifyStatus } from './bounce';
+export type { BounceSource, DeliveryStatus } from './bounce';
+export { MailSandbox, MemorySandboxStore, FileSandboxStore } from './sandbox';
+export { RefreshingTokenProvider, OAuth2Error } from './oauth';
+export type { RefreshTokenGrant } from './oauth';
+export { openArchiveWriter, readArchive, EmlWriter, MboxWriter, MaildirWriter } from './archive';
+export type { ArchiveWriter } from './archive';
+export { MailRulesEngine, RuleError } from './rules';
+export type {
+  RuleClient,
+  RuleMailer,
+  MailRulesOptions,
+  ApplyRulesOptions,
+  RuleResult,
+} from './rules';
+export { parseSieve, SieveError } from './sieve';
+
+import { EventEmitter } from 'events';
+import {
+  BounceScanOptions,
+  EmailBounce,
+  EmailConfig,
+  EmailProtocol,
+  EmailMessage,
+  EmailStats,
+  EmailThread,
+  EmailThreadNode,
+  MailboxArchiveFormat,
+  MailRule,
+  ThreadOptions,
+  ImapMessage,
+  SendEmailOptions,
+  SendTemplateOptions,
+  FetchEmailOptions,
+  Pop3Message,
+} from './types';
 import { ImapClient } from './imap';
+import type { ImapError } from './imap';
+import { ImapThreadNode, searchCriteriaFromOptions } from './imap-protocol';
 import { SmtpClient } from './smtp';
 import { Pop3Client } from './pop3';
-
-export class EmailManager {
+import { EmailQueue } from './queue';
+import { TemplateRegistry } from './templates';
+import { createThread, parseMessageIds, threadMessages } from './threading';
+import { FlagChanges, MailboxSync, SyncResult } from './sync';
+import { parseBounce } from './bounce';
+import { openArchiveWriter, readArchive } from './archive';
+import { ApplyRulesOptions, MailRulesEngine, RuleResult } from './rules';
+
+/** Messages fetched per `UID FETCH` while exporting a mailbox. */
+const EXPORT_BATCH_SIZE = 50;
+
+/**
+ * Emits `bounce` and `autoReply` with an `EmailBounce` for every report found
+ * by `processBounces`.
+ */
+export class EmailManager extends EventEmitter {
   private imapClient: ImapClient | null = null;
   private smtpClient: SmtpClient | null = null;
   private pop3Client: Pop3Client | null = null;
+  private queue: EmailQueue | null = null;
+  private mailboxSync: MailboxSync | null = null;
+  private templates = new TemplateRegistry();
   private config: EmailConfig | null = null;
+  private connecting = new Map<EmailProtocol, Promise<void>>();
+  private stats: EmailStats = {
+    totalMessages: 0,
+    unreadMessages: 0,
+    sentMessages: 0,
+    failedMessages: 0,
+  };
 
   constructor(config?: EmailConfig) {
+    super();
     if (config) {
       this.configure(config);
     }
@@ -25,10 +109,23 @@ export class EmailManager {
 
     if (config.imap) {
       this.imapClient = new ImapClient(config.imap);
+      this.mailboxSync = new MailboxSync(this.imapClient, config.sync);
     }
 
     if (config.smtp) {
-      this.smtpClient = new SmtpClient(config.smtp);
+      const smtp = config.smtp;
+      this.smtpClient = new SmtpClient(smtp);
+      this.queue = new EmailQueue({
+        pool: smtp.pool,
+        maxConnections: smtp.maxConnections,
+        maxMessages: smtp.maxMessages,
+        rateDelta: smtp.rateDelta,
+        rateLimit: smtp.rateLimit,
+        ...config.queue,
+        createTransport: () => new SmtpClient(smtp),
+      });
+      this.queue.on('sent', () => this.stats.sentMessages++);
+      this.queue.on('failed', () => this.stats.failedMessages++);
     }
 
     if (config.pop3) {
@@ -40,24 +137,57 @@ export class EmailManager {
     const connections: Promise<void>[] = [];
 
     if (this.imapClient) {
-      connections.push(this.imapClient.connect());
+      connections.push(this.connect('imap'));
     }
 
     if (this.smtpClient) {
-      connections.push(this.smtpClient.connect());
+      connections.push(this.connect('smtp'));
     }
 
     if (this.pop3Client) {
-      connections.push(this.pop3Client.connect());
-      connections.push(this.pop3Client.login());
+      connections.push(this.connect('pop3'));
     }
 
     await Promise.all(connections);
   }
 
+  /**
+   * Connects the client of one protocol unless it is already connected, so
+   * a connection the server dropped is opened again. Concurrent calls share
+   * the same attempt.
+   */
+  connect(protocol: EmailProtocol): Promise<void> {
+    let connecting = this.connecting.get(protocol);
+    if (!connecting) {
+      connecting = this.openConnection(protocol).finally(() => this.connecting.delete(protocol));
+      this.connecting.set(protocol, connecting);
+    }
+    return connecting;
+  }
+
+  private async openConnection(protocol: EmailProtocol): Promise<void> {
+    if (protocol === 'imap') {
+      if (!this.imapClient) throw new Error('IMAP client not configured');
+      if (!this.imapClient.isConnected()) await this.imapClient.connect();
+    } else if (protocol === 'smtp') {
+      if (!this.smtpClient) throw new Error('SMTP client not configured');
+      if (!this.smtpClient.isConnected()) await this.smtpClient.connect();
+    } else {
+      if (!this.pop3Client) throw new Error('POP3 client not configured');
+      if (!this.pop3Client.isAuthenticated()) {
+        await this.pop3Client.connect();
+        await this.pop3Client.login();
+      }
+    }
+  }
+
   async disconnectAll(): Promise<void> {
     const disconnections: Promise<void>[] = [];
 
+    if (this.queue) {
+      disconnections.push(this.queue.stop());
+    }
+
     if (this.imapClient) {
       disconnections.push(this.imapClient.disconnect());
     }
@@ -88,7 +218,14 @@ export class EmailManager {
       ...options,
     };
 
-    const result = await this.smtpClient.sendEmail(emailOptions);
+    let result;
+    try {
+      result = await this.smtpClient.sendEmail(emailOptions);
+    } catch (error) {
+      this.stats.failedMessages++;
+      throw error;
+    }
+    this.stats.sentMessages++;
 
     return {
       messageId: result.messageId,
@@ -98,6 +235,47 @@ export class EmailManager {
     };
   }
 
+  /**
+   * Renders a registered template in the requested locale (see
+   * `getTemplates()`) and sends it like `sendEmail`.
+   */
+  async sendTemplate(
+    name: string,
+    data: Record<string, unknown>,
+    options: SendTemplateOptions
+  ): Promise<{
+    messageId: string;
+    accepted: string[];
+    rejected: string[];
+    pending: string[];
+  }> {
+    const { locale, ...sendOptions } = options;
+    const rendered = this.templates.render(name, data, locale);
+
+    return this.sendEmail({
+      ...sendOptions,
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html,
+    });
+  }
+
+  /**
+   * Hands the message to the outbound queue and returns its queue id.
+   * Delivery, retries and dead-lettering happen in the background.
+   */
+  async queueEmail(options: SendEmailOptions): Promise<string> {
+    if (!this.queue) {
+      throw new Error('SMTP client not configured');
+    }
+
+    await this.queue.start();
+    return this.queue.enqueue({
+      from: this.config!.smtp!.auth.user,
+      ...options,
+    });
+  }
+
   async fetchEmails(options: FetchEmailOptions = {}): Promise<EmailMessage[]> {
     if (this.imapClient) {
       return this.fetchWithImap(options);
@@ -109,104 +287,292 @@ export class EmailManager {
   }
 
   private async fetchWithImap(options: FetchEmailOptions): Promise<EmailMessage[]> {
+    const imapMessages = await this.fetchImapMessages(options);
+    return imapMessages.map((message) => this.convertImapToEmailMessage(message));
+  }
+
+  private async fetchImapMessages(options: FetchEmailOptions): Promise<ImapMessage[]> {
     if (!this.imapClient) {
       throw new Error('IMAP client not configured');
     }
 
+    // Syncing only downloads headers and flags that changed since the last
+    // call; the search then runs on the server against fresh state, and only
+    // the messages it returns that are not cached yet are downloaded whole.
     const mailbox = options.mailbox || 'INBOX';
-    await this.imapClient.openBox(mailbox, true);
+    await this.syncMailbox(mailbox);
 
-    let criteria: any[] = ['ALL'];
+    const imap = this.imapClient;
+    const uids = await this.mailboxSync!.withMailbox(mailbox, () =>
+      imap.searchMessages(searchCriteriaFromOptions(options))
+    );
 
-    if (options.unseen) {
-      criteria = ['UNSEEN'];
+    if (options.limit && uids.length > options.limit) {
+      uids.splice(options.limit);
     }
 
-    if (options.since) {
-      criteria.push(['SINCE', options.since]);
-    }
+    return this.mailboxSync!.fetchMessages(mailbox, uids);
+  }
 
-    if (options.search) {
-      if (options.search.from) {
-        criteria.push(['FROM', options.search.from]);
-      }
-      if (options.search.to) {
-        criteria.push(['TO', options.search.to]);
-      }
-      if (options.search.subject) {
-        criteria.push(['SUBJECT', options.search.subject]);
-      }
-      if (options.search.body) {
-        criteria.push(['BODY', options.search.body]);
+  /**
+   * Scans a mailbox for delivery failure reports and auto-replies. Each one
+   * is emitted as `bounce` (hard/soft) or `autoReply`; `originalMessageId`
+   * matches the `messageId` returned by `sendEmail` so callers can suppress
+   * the failing addresses.
+   */
+  async processBounces(options: BounceScanOptions = {}): Promise<EmailBounce[]> {
+    const { markSeen, ...fetchOptions } = options;
+    const bounces: EmailBounce[] = [];
+    const seen: number[] = [];
+
+    if (this.imapClient) {
+      for (const message of await this.fetchImapMessages(fetchOptions)) {
+        const bounce = parseBounce(message);
+        if (bounce) {
+          bounces.push({ ...bounce, id: String(message.uid) });
+          seen.push(message.uid);
+        }
       }
+    } else if (this.pop3Client) {
+      // Other messages stay unseen, for fetchEmails to return.
+      const found = new Map<Pop3Message, EmailBounce>();
+      await this.pop3Client.fetchNewMessages({
+        limit: fetchOptions.limit,
+        since: fetchOptions.since,
+        filter: (message) => {
+          const bounce = parseBounce(message);
+          if (bounce) found.set(message, { ...bounce, id: String(message.id) });
+          return bounce !== null;
+        },
+      });
+      bounces.push(...found.values());
+    } else {
+      throw new Error('Neither IMAP nor POP3 client configured');
     }
 
-    const uids = await this.imapClient.searchMessages(criteria);
+    if (markSeen && seen.length > 0) {
+      await this.updateFlags(seen, { add: ['\\Seen'] }, fetchOptions.mailbox || 'INBOX');
+    }
 
-    if (options.limit && uids.length > options.limit) {
-      uids.splice(options.limit);
+    for (const bounce of bounces) {
+      this.emit(bounce.type === 'auto-reply' ? 'autoReply' : 'bounce', bounce);
     }
+    return bounces;
+  }
 
-    const imapMessages = await this.imapClient.fetchMessages(uids, {
-      bodies: 'HEADER.FIELDS (FROM TO SUBJECT DATE MESSAGE-ID) TEXT',
-      struct: true,
-      envelope: true,
-    });
+  /**
+   * Brings the local cache of an IMAP mailbox up to date, pushing pending
+   * local flag changes first. Updates `lastSync` and the message counts in
+   * `getStats()`.
+   */
+  async syncMailbox(mailbox = 'INBOX'): Promise<SyncResult> {
+    if (!this.mailboxSync) {
+      throw new Error('IMAP client not configured');
+    }
 
-    return imapMessages.map(this.convertImapToEmailMessage);
+    const result = await this.mailboxSync.sync(mailbox);
+    const state = await this.mailboxSync.getState(mailbox);
+    if (state) {
+      this.stats.lastSync = state.lastSync;
+      this.stats.totalMessages = state.messages.length;
+      this.stats.unreadMessages = state.messages.filter(
+        (message) => !message.flags.includes('\\Seen')
+      ).length;
+    }
+    return result;
   }
 
-  private async fetchWithPop3(options: FetchEmailOptions): Promise<EmailMessage[]> {
-    if (!this.pop3Client) {
-      throw new Error('POP3 client not configured');
+  /**
+   * Changes flags in the local cache and reconciles them with the server.
+   * A mailbox that was never synced is synced first.
+   */
+  async updateFlags(uids: number[], changes: FlagChanges, mailbox = 'INBOX'): Promise<void> {
+    if (!this.mailboxSync) {
+      throw new Error('IMAP client not configured');
     }
 
-    const messages = await this.pop3Client.retrieveAllMessages();
-
-    let filteredMessages = messages;
+    if (!(await this.mailboxSync.getState(mailbox))) {
+      await this.syncMailbox(mailbox);
+    }
+    await this.mailboxSync.updateFlags(mailbox, uids, changes);
+    await this.syncMailbox(mailbox);
+  }
 
-    if (options.unseen) {
-      filteredMessages = filteredMessages.filter((msg) => !msg.headers['x-seen']);
+  /**
+   * Runs filtering rules over a mailbox, by default the configured `rules`
+   * against unseen messages in INBOX. `forward` actions send through the
+   * SMTP client, which is connected when the first one runs.
+   */
+  async applyRules(
+    options: ApplyRulesOptions & { mailbox?: string; rules?: MailRule[] } = {}
+  ): Promise<RuleResult[]> {
+    if (!this.imapClient) {
+      throw new Error('IMAP client not configured');
     }
 
-    if (options.since) {
-      filteredMessages = filteredMessages.filter((msg) => msg.date >= options.since!);
+    const { mailbox = 'INBOX', rules = this.config?.rules || [], ...applyOptions } = options;
+    const smtp = this.smtpClient;
+    const engine = new MailRulesEngine(rules, {
+      mailer: smtp
+        ? {
+            sendEmail: async (message) => {
+              await this.connect('smtp');
+              return smtp.sendEmail(message);
+            },
+          }
+        : undefined,
+      from: this.config?.smtp?.auth.user,
+    });
+    const imap = this.imapClient;
+    return this.mailboxSync!.withMailbox(
+      mailbox,
+      () => engine.apply(imap, mailbox, applyOptions),
+      false
+    );
+  }
+
+  /**
+   * Writes every message of an IMAP mailbox to `destination`: a directory
+   * of `.eml` files, an mboxrd file or a Maildir. Messages are fetched in
+   * batches and written one at a time; flags are kept for `mbox` and
+   * `maildir`. Resolves with the number of messages exported.
+   */
+  async exportMailbox(
+    mailbox: string,
+    format: MailboxArchiveFormat,
+    destination: string
+  ): Promise<number> {
+    if (!this.imapClient) {
+      throw new Error('IMAP client not configured');
     }
 
-    const search = options.search;
-    if (search) {
-      if (search.from) {
-        filteredMessages = filteredMessages.filter((msg) =>
-          msg.from.toLowerCase().includes(search.from!.toLowerCase())
-        );
-      }
-      if (search.to) {
-        filteredMessages = filteredMessages.filter((msg) =>
-          msg.to.some((to) => to.toLowerCase().includes(search.to!.toLowerCase()))
+    // Each batch is queued on its own so syncs are not held up by an export.
+    const imap = this.imapClient;
+    const sync = this.mailboxSync!;
+    const uids = await sync.withMailbox(mailbox, () => imap.searchMessages(['ALL']));
+    const writer = await openArchiveWriter(format, destination);
+    let count = 0;
+
+    try {
+      for (let start = 0; start < uids.length; start += EXPORT_BATCH_SIZE) {
+        const messages = await sync.withMailbox(mailbox, () =>
+          imap.fetchMessages(uids.slice(start, start + EXPORT_BATCH_SIZE), {
+            bodies: '',
+            struct: false,
+            envelope: false,
+            size: false,
+            raw: true,
+          })
         );
+        for (const message of messages) {
+          if (!message.raw) continue;
+          await writer.write({ raw: message.raw, flags: message.flags, date: message.date });
+          count++;
+        }
       }
-      if (search.subject) {
-        filteredMessages = filteredMessages.filter((msg) =>
-          msg.subject.toLowerCase().includes(search.subject!.toLowerCase())
-        );
-      }
-      if (search.body) {
-        filteredMessages = filteredMessages.filter(
-          (msg) =>
-            (msg.text && msg.text.toLowerCase().includes(search.body!.toLowerCase())) ||
-            (msg.html && msg.html.toLowerCase().includes(search.body!.toLowerCase()))
-        );
+    } finally {
+      await writer.close();
+    }
+
+    return count;
+  }
+
+  /**
+   * Appends the messages of an archive to an IMAP mailbox, creating it when
+   * the server asks for it. Flags and dates are kept where the format has
+   * them. Resolves with the number of messages imported.
+   */
+  async importMailbox(
+    source: string,
+    format: MailboxArchiveFormat,
+    mailbox = 'INBOX'
+  ): Promise<number> {
+    if (!this.imapClient) {
+      throw new Error('IMAP client not configured');
+    }
+
+    let count = 0;
+    let created = false;
+    for await (const message of readArchive(format, source)) {
+      const options = { flags: message.flags, date: message.date };
+      try {
+        await this.imapClient.append(mailbox, message.raw, options);
+      } catch (error) {
+        if (created || (error as ImapError).responseCode?.toUpperCase() !== 'TRYCREATE') {
+          throw error;
+        }
+        created = true;
+        await this.imapClient.createMailbox(mailbox);
+        await this.imapClient.append(mailbox, message.raw, options);
       }
+      count++;
     }
 
-    if (options.limit && filteredMessages.length > options.limit) {
-      filteredMessages = filteredMessages.slice(0, options.limit);
+    return count;
+  }
+
+  /**
+   * Groups messages into conversations, newest first. Uses IMAP `THREAD`
+   * when the server advertises the algorithm and falls back to client-side
+   * JWZ threading otherwise. `limit` applies to the number of threads.
+   */
+  async getThreads(options: ThreadOptions = {}): Promise<EmailThread[]> {
+    const { limit, algorithm = 'REFERENCES', ...fetchOptions } = options;
+    let threads: EmailThread[];
+
+    if (this.imapClient && this.imapClient.getCapabilities().includes(`THREAD=${algorithm}`)) {
+      const mailbox = fetchOptions.mailbox || 'INBOX';
+      await this.syncMailbox(mailbox);
+      const imap = this.imapClient;
+      const tree = await this.mailboxSync!.withMailbox(mailbox, () =>
+        imap.thread(algorithm, searchCriteriaFromOptions(fetchOptions))
+      );
+
+      const uids: number[] = [];
+      const collect = (node: ImapThreadNode) => {
+        if (node.uid !== undefined) uids.push(node.uid);
+        node.children.forEach(collect);
+      };
+      tree.forEach(collect);
+
+      const fetched = await this.mailboxSync!.fetchMessages(mailbox, uids);
+      const byUid = new Map(
+        fetched.map((message) => [message.uid, this.convertImapToEmailMessage(message)])
+      );
+      const toNode = (node: ImapThreadNode): EmailThreadNode => ({
+        message: node.uid !== undefined ? byUid.get(node.uid) : undefined,
+        children: node.children.map(toNode),
+      });
+
+      threads = tree
+        .map((node) => createThread(toNode(node)))
+        .sort((a, b) => (b.lastDate?.getTime() || 0) - (a.lastDate?.getTime() || 0));
+    } else {
+      threads = threadMessages(await this.fetchEmails(fetchOptions));
     }
 
-    return filteredMessages.map(this.convertPop3ToEmailMessage);
+    return limit ? threads.slice(0, limit) : threads;
   }
 
-  private convertImapToEmailMessage(imapMessage: any): EmailMessage {
+  private async fetchWithPop3(options: FetchEmailOptions): Promise<EmailMessage[]> {
+    if (!this.pop3Client) {
+      throw new Error('POP3 client not configured');
+    }
+
+    // POP3 has no flags or server-side search: only messages whose UIDL has
+    // not been downloaded before are fetched, so every result is unseen.
+    // Messages the search leaves out are not marked as seen.
+    const search = options.search;
+    const messages = await this.pop3Client.fetchNewMessages({
+      limit: options.limit,
+      since: options.since,
+      filter: search ? (message) => matchesSearch(message, search) : undefined,
+    });
+
+    return messages.map((message) => this.convertPop3ToEmailMessage(message));
+  }
+
+  private convertImapToEmailMessage(imapMessage: ImapMessage): EmailMessage {
     return {
       id: imapMessage.uid.toString(),
       from: imapMessage.headers.from || '',
@@ -223,6 +589,9 @@ export class EmailManager {
       date: imapMessage.date,
       flags: imapMessage.flags,
       uid: imapMessage.uid,
+      messageId: imapMessage.headers['message-id'],
+      inReplyTo: imapMessage.headers['in-reply-to'],
+      references: parseMessageIds(imapMessage.headers.references),
     };
   }
 
@@ -241,6 +610,9 @@ export class EmailManager {
       })),
       date: pop3Message.date,
       uid: pop3Message.id,
+      messageId: pop3Message.headers['message-id'],
+      inReplyTo: pop3Message.headers['in-reply-to'],
+      references: parseMessageIds(pop3Message.headers.references),
     };
   }
 
@@ -265,6 +637,22 @@ export class EmailManager {
     return this.pop3Client;
   }
 
+  getTemplates(): TemplateRegistry {
+    return this.templates;
+  }
+
+  getQueue(): EmailQueue | null {
+    return this.queue;
+  }
+
+  getMailboxSync(): MailboxSync | null {
+    return this.mailboxSync;
+  }
+
+  getStats(): EmailStats {
+    return { ...this.stats };
+  }
+
   getConnectionStatus(): {
     imap: boolean;
     smtp: boolean;
@@ -272,8 +660,24 @@ export class EmailManager {
   } {
     return {
       imap: this.imapClient?.isConnected() || false,
-      smtp: this.smtpClient !== null,
+      smtp: this.smtpClient?.isConnected() || false,
       pop3: this.pop3Client?.isConnected() || false,
     };
   }
 }
+
+/** Case-insensitive match of the POP3 message against every given field. */
+function matchesSearch(
+  message: Pop3Message,
+  search: NonNullable<FetchEmailOptions['search']>
+): boolean {
+  const contains = (value: string | undefined, term: string) =>
+    !!value && value.toLowerCase().includes(term.toLowerCase());
+
+  return (
+    (!search.from || contains(message.from, search.from)) &&
+    (!search.to || message.to.some((to) => contains(to, search.to!))) &&
+    (!search.subject || contains(message.subject, search.subject)) &&
+    (!search.body || contains(message.text, search.body) || contains(message.html, search.body))
+  );
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { MimeComposer } from './mime-builder';
+import { encodeQuotedPrintable, encodeWord } from './encoding';
+
+const date = new Date('2024-03-01T10:00:00Z');
+
+describe('MimeComposer', () => {
+  const composer = new MimeComposer('mailer.test');
+
+  it('produces a single text/plain part for plain text mail', () => {
+    const { raw, messageId } = composer.compose({
+      from: 'Alice <alice@example.com>',
+      to: 'bob@example.com',
+      bcc: 'secret@example.com',
+      subject: 'Hello',
+      text: 'Hi Bob',
+      date,
+    });
+
+    expect(raw).toContain('From: Alice <alice@example.com>\r\n');
+    expect(raw).toContain('Date: Fri, 01 Mar 2024 10:00:00 +0000\r\n');
+    expect(raw).toContain(`Message-ID: ${messageId}\r\n`);
+    expect(raw).toContain('Content-Type: text/plain; charset=utf-8\r\n');
+    expect(raw).toContain('Content-Transfer-Encoding: 7bit\r\n\r\nHi Bob');
+    expect(raw).not.toContain('secret@example.com');
+  });
+
+  it('derives a deterministic Message-ID from the content', () => {
+    const options = { from: 'alice@example.com', to: 'bob@example.com', subject: 'x', date };
+
+    const first = composer.compose({ ...options, text: 'one' });
+    const again = composer.compose({ ...options, text: 'one' });
+    const other = composer.compose({ ...options, text: 'two' });
+
+    expect(first.messageId).toMatch(/^<[0-9a-f]{32}@example\.com>$/);
+    expect(again.raw).toBe(first.raw);
+    expect(other.messageId).not.toBe(first.messageId);
+    expect(composer.compose({ ...options, messageId: '<fixed@id>' }).messageId).toBe('<fixed@id>');
+  });
+
+  it('nests alternative, related and mixed parts', () => {
+    const { raw } = composer.compose({
+      from: 'alice@example.com',
+      to: 'bob@example.com',
+      subject: 'Report',
+      text: 'See attached',
+      html: '<p>See <img src="cid:logo"></p>',
+      attachments: [
+        {
+          filename: 'logo.png',
+          content: new Uint8Array([1, 2, 3]),
+          contentType: 'image/png',
+          cid: 'logo',
+        },
+        { filename: 'report.csv', content: 'a,b\n1,2', contentType: 'text/csv' },
+      ],
+      date,
+    });
+
+    const mixed = raw.indexOf('multipart/mixed');
+    const alternative = raw.indexOf('multipart/alternative');
+    const related = raw.indexOf('multipart/related');
+    expect(mixed).toBeGreaterThan(-1);
+    expect(alternative).toBeGreaterThan(mixed);
+    expect(related).toBeGreaterThan(alternative);
+    expect(raw).toContain('Content-ID: <logo>');
+    expect(raw).toContain('Content-Disposition: inline; filename="logo.png"');
+    expect(raw).toContain('Content-Disposition: attachment; filename="report.csv"');
+    expect(raw).toContain(Buffer.from('a,b\n1,2').toString('base64'));
+    expect(raw.trimEnd().endsWith('--')).toBe(true);
+  });
+
+  it('encodes non-ASCII headers, names and filenames', () => {
+    const { raw } = composer.compose({
+      from: 'Zoë Café <zoe@example.com>',
+      to: '"Doe, John" <john@example.com>',
+      subject: 'Réunion de l’équipe',
+      text: 'Bonjour à tous',
+      attachments: [{ filename: 'résumé.pdf', content: 'x' }],
+      date,
+    });
+
+    expect(raw).toContain(`From: ${encodeWord('Zoë Café')} <zoe@example.com>`);
+    expect(raw).toContain('To: "Doe, John" <john@example.com>');
+    expect(raw).toContain(`Subject: ${encodeWord('Réunion de l’équipe')}`);
+    expect(raw).toContain("filename*=utf-8''r%C3%A9sum%C3%A9.pdf");
+    expect(raw).toContain('Content-Transfer-Encoding: quoted-printable\r\n\r\nBonjour =C3=A0 tous');
+  });
+
+  it('adds threading and priority headers', () => {
+    const { raw } = composer.compose({
+      from: 'alice@example.com',
+      to: 'bob@example.com',
+      subject: 'Re: Plan',
+      text: 'Agreed',
+      inReplyTo: '<a@example.com>',
+      references: ['<root@example.com>', '<a@example.com>'],
+      priority: 'high',
+      headers: { 'X-Campaign': 'spring' },
+      date,
+    });
+
+    expect(raw).toContain('In-Reply-To: <a@example.com>\r\n');
+    expect(raw).toContain('References: <root@example.com> <a@example.com>\r\n');
+    expect(raw).toContain('X-Priority: 1 (Highest)\r\n');
+    expect(raw).toContain('X-Campaign: spring\r\n');
+  });
+});
+
+describe('encoding helpers', () => {
+  it('keeps quoted-printable lines within 76 characters', () => {
+    const encoded = encodeQuotedPrintable('é'.repeat(60));
+
+    for (const line of encoded.split('\r\n')) {
+      expect(line.length).toBeLessThanOrEqual(76);
+    }
+    expect(encoded.replace(/=\r\n/g, '')).toBe('=C3=A9'.repeat(60));
+  });
+
+  it('splits long encoded-words without breaking characters', () => {
+    const words = encodeWord('ü'.repeat(40)).split(' ');
+
+    expect(words.length).toBeGreaterThan(1);
+    for (const word of words) {
+      expect(word.length).toBeLessThanOrEqual(75);
+    }
+  });
+});
@@ -0,0 +1,244 @@
+import { createHash } from 'crypto';
+import * as os from 'os';
+import { parseAddress, splitAddressList } from './address';
+import {
+  encodeBase64,
+  encodeParameter,
+  encodeQuotedPrintable,
+  encodeWord,
+  foldHeader,
+  isPlainAscii,
+  toBuffer,
+} from './encoding';
+import type { EmailAttachment, EmailOptions } from './types';
+
+export interface ComposedMessage {
+  messageId: string;
+  headers: Array<[string, string]>;
+  raw: string;
+}
+
+interface MimePart {
+  headers: Array<[string, string]>;
+  body?: string;
+  children?: MimePart[];
+  boundary?: string;
+}
+
+const PRIORITY_HEADERS: Record<'high' | 'low', Array<[string, string]>> = {
+  high: [
+    ['X-Priority', '1 (Highest)'],
+    ['X-MSMail-Priority', 'High'],
+    ['Importance', 'High'],
+  ],
+  low: [
+    ['X-Priority', '5 (Lowest)'],
+    ['X-MSMail-Priority', 'Low'],
+    ['Importance', 'Low'],
+  ],
+};
+
+/**
+ * Serialises `EmailOptions` into an RFC 5322 / RFC 2045 message.
+ *
+ * Output is deterministic for a given input (including `date`): the
+ * Message-ID and multipart boundaries are derived from a hash of the content,
+ * so re-composing a queued message yields byte-identical output.
+ */
+export class MimeComposer {
+  constructor(private hostname: string = os.hostname() || 'localhost') {}
+
+  compose(options: EmailOptions): ComposedMessage {
+    const date = options.date || new Date();
+    const fingerprint = this.fingerprint(options, date);
+    const messageId = options.messageId || this.createMessageId(options.from, fingerprint);
+
+    const headers: Array<[string, string]> = [
+      ['From', this.formatAddressList(options.from)],
+      ['To', this.formatAddressList(options.to)],
+    ];
+    if (options.cc) headers.push(['Cc', this.formatAddressList(options.cc)]);
+    if (options.replyTo) headers.push(['Reply-To', this.formatAddressList(options.replyTo)]);
+    headers.push(['Subject', encodeWord(options.subject)]);
+    headers.push(['Date', this.formatDate(date)]);
+    headers.push(['Message-ID', messageId]);
+    if (options.inReplyTo) headers.push(['In-Reply-To', options.inReplyTo]);
+    if (options.references) {
+      const references = Array.isArray(options.references)
+        ? options.references
+        : options.references.split(/\s+/);
+      headers.push(['References', references.filter(Boolean).join(' ')]);
+    }
+    if (options.priority && options.priority !== 'normal') {
+      headers.push(...PRIORITY_HEADERS[options.priority]);
+    }
+    for (const [name, value] of Object.entries(options.headers || {})) {
+      headers.push([name, encodeWord(value)]);
+    }
+    headers.push(['MIME-Version', '1.0']);
+
+    let boundaryIndex = 0;
+    const nextBoundary = () => `----=_Part_${boundaryIndex++}_${fingerprint.slice(0, 24)}`;
+    const root = this.buildTree(options, nextBoundary);
+
+    const raw = [
+      ...headers.map(([name, value]) => foldHeader(name, value)),
+      this.renderPart(root),
+    ].join('\r\n');
+
+    return { messageId, headers, raw };
+  }
+
+  private buildTree(options: EmailOptions, nextBoundary: () => string): MimePart {
+    const attachments = options.attachments || [];
+    const inline = attachments.filter((attachment) => attachment.cid);
+    const regular = attachments.filter((attachment) => !attachment.cid);
+
+    let htmlPart: MimePart | undefined;
+    if (options.html !== undefined) {
+      htmlPart = this.textPart('html', options.html, options.encoding);
+      if (inline.length > 0) {
+        htmlPart = this.multipart(
+          'related',
+          [htmlPart, ...inline.map((attachment) => this.attachmentPart(attachment, true))],
+          nextBoundary()
+        );
+      }
+    }
+
+    const textPart =
+      options.text !== undefined || !htmlPart
+        ? this.textPart('plain', options.text || '', options.encoding)
+        : undefined;
+
+    let body: MimePart;
+    if (textPart && htmlPart) {
+      body = this.multipart('alternative', [textPart, htmlPart], nextBoundary());
+    } else {
+      body = (htmlPart || textPart)!;
+    }
+
+    if (regular.length === 0) {
+      return body;
+    }
+
+    return this.multipart(
+      'mixed',
+      [body, ...regular.map((attachment) => this.attachmentPart(attachment, false))],
+      nextBoundary()
+    );
+  }
+
+  private textPart(subtype: 'plain' | 'html', content: string, preferred?: string): MimePart {
+    const normalized = content.replace(/\r?\n/g, '\r\n');
+    const longLines = normalized.split('\r\n').some((line) => line.length > 998);
+    let encoding = preferred === 'base64' ? 'base64' : 'quoted-printable';
+    if (!preferred && isPlainAscii(normalized) && !longLines) {
+      encoding = '7bit';
+    }
+
+    const body =
+      encoding === 'base64'
+        ? encodeBase64(Buffer.from(content, 'utf8'))
+        : encoding === 'quoted-printable'
+          ? encodeQuotedPrintable(content)
+          : normalized;
+
+    return {
+      headers: [
+        ['Content-Type', `text/${subtype}; charset=utf-8`],
+        ['Content-Transfer-Encoding', encoding],
+      ],
+      body,
+    };
+  }
+
+  private attachmentPart(attachment: EmailAttachment, inline: boolean): MimePart {
+    const contentType = attachment.contentType || 'application/octet-stream';
+    const headers: Array<[string, string]> = [
+      ['Content-Type', `${contentType}; ${encodeParameter('name', attachment.filename)}`],
+      ['Content-Transfer-Encoding', 'base64'],
+      [
+        'Content-Disposition',
+        `${inline ? 'inline' : 'attachment'}; ${encodeParameter('filename', attachment.filename)}`,
+      ],
+    ];
+    if (attachment.cid) {
+      headers.push(['Content-ID', `<${attachment.cid.replace(/^<|>$/g, '')}>`]);
+    }
+    for (const [name, value] of Object.entries(attachment.headers || {})) {
+      headers.push([name, encodeWord(value)]);
+    }
+
+    return {
+      headers,
+      body: encodeBase64(toBuffer(attachment.content, attachment.encoding)),
+    };
+  }
+
+  private multipart(subtype: string, children: MimePart[], boundary: string): MimePart {
+    return {
+      headers: [['Content-Type', `multipart/${subtype}; boundary="${boundary}"`]],
+      children,
+      boundary,
+    };
+  }
+
+  private renderPart(part: MimePart): string {
+    const headers = part.headers.map(([name, value]) => foldHeader(name, value)).join('\r\n');
+
+    if (!part.children) {
+      return `${headers}\r\n\r\n${part.body || ''}`;
+    }
+
+    const children = part.children
+      .map((child) => `--${part.boundary}\r\n${this.renderPart(child)}`)
+      .join('\r\n');
+    return `${headers}\r\n\r\n${children}\r\n--${part.boundary}--`;
+  }
+
+  private formatAddressList(value: string | string[]): string {
+    return splitAddressList(value)
+      .map((entry) => {
+        const { name, address } = parseAddress(entry);
+        if (!name) return address;
+        const display = isPlainAscii(name)
+          ? /[^\w !#$%&'*+\-/=?^`{|}~]/.test(name)
+            ? `"${name.replace(/(["\\])/g, '\\$1')}"`
+            : name
+          : encodeWord(name);
+        return `${display} <${address}>`;
+      })
+      .join(', ');
+  }
+
+  private formatDate(date: Date): string {
+    return date.toUTCString().replace('GMT', '+0000');
+  }
+
+  private fingerprint(options: EmailOptions, date: Date): string {
+    const hash = createHash('sha256');
+    hash.update(
+      JSON.stringify([
+        options.from,
+        options.to,
+        options.cc,
+        options.subject,
+        options.text,
+        options.html,
+        date.toISOString(),
+      ])
+    );
+    for (const attachment of options.attachments || []) {
+      hash.update(attachment.filename);
+      hash.update(toBuffer(attachment.content, attachment.encoding));
+    }
+    return hash.digest('hex');
+  }
+
+  private createMessageId(from: string, fingerprint: string): string {
+    const address = parseAddress(splitAddressList(from)[0] || '').address;
+    const domain = address.includes('@') ? address.split('@').pop() : this.hostname;
+    return `<${fingerprint.slice(0, 32)}@${domain}>`;
+  }
+}
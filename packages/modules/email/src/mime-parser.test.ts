@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { MimeParser, parseMessage } from './mime-parser';
+import { MimeComposer } from './mime-builder';
+import { decodeWords, parseHeaderValue } from './encoding';
+
+const nested = [
+  'From: =?UTF-8?B?Wm/Dqw==?= <zoe@example.com>',
+  'To: bob@example.com',
+  'Subject: =?ISO-8859-1?Q?Caf=E9?= =?ISO-8859-1?Q?_cr=E8me?=',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  'This is the preamble.',
+  '--outer',
+  'Content-Type: multipart/alternative;',
+  '  boundary="inner"',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=iso-8859-1',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Caf=E9 cr=E8me, line one =',
+  'continued',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('<p>Café crème</p>').toString('base64'),
+  '--inner--',
+  '--outer',
+  'Content-Type: application/pdf',
+  'Content-Transfer-Encoding: base64',
+  "Content-Disposition: attachment; filename*0*=utf-8''r%C3%A9sum;",
+  ' filename*1=".pdf"',
+  '',
+  Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0xff]).toString('base64'),
+  '--outer',
+  'Content-Type: image/png; name="logo.png"',
+  'Content-ID: <logo@example.com>',
+  'Content-Disposition: inline',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from([1, 2, 3, 4]).toString('base64'),
+  '--outer--',
+  'Epilogue text',
+].join('\r\n');
+
+describe('MimeParser', () => {
+  it('parses nested multiparts with transfer and charset decoding', () => {
+    const parsed = parseMessage(nested);
+
+    expect(parsed.headers.from).toBe('Zoë <zoe@example.com>');
+    expect(parsed.headers.subject).toBe('Café crème');
+    expect(parsed.text).toBe('Café crème, line one continued');
+    expect(parsed.html).toBe('<p>Café crème</p>');
+    expect(parsed.root.children).toHaveLength(3);
+    expect(parsed.root.children[0].children).toHaveLength(2);
+  });
+
+  it('returns binary attachments with RFC 2231 filenames and content-ids', () => {
+    const { attachments } = parseMessage(nested);
+
+    expect(attachments).toHaveLength(2);
+    expect(attachments[0]).toMatchObject({
+      filename: 'résum.pdf',
+      contentType: 'application/pdf',
+      size: 6,
+      disposition: 'attachment',
+    });
+    expect(Array.from(attachments[0].content)).toEqual([0x25, 0x50, 0x44, 0x46, 0x00, 0xff]);
+    expect(attachments[1]).toMatchObject({
+      filename: 'logo.png',
+      contentId: 'logo@example.com',
+      disposition: 'inline',
+    });
+  });
+
+  it('produces the same tree when fed in small chunks', () => {
+    const parser = new MimeParser();
+    const bytes = Buffer.from(nested, 'utf8');
+    for (let i = 0; i < bytes.length; i += 7) {
+      parser.write(bytes.subarray(i, i + 7));
+    }
+    const root = parser.end();
+
+    expect(root).toEqual(parseMessage(nested).root);
+  });
+
+  it('treats a message without Content-Type as plain text', () => {
+    const parsed = parseMessage('Subject: Hi\r\n\r\nHello\r\nWorld\r\n');
+
+    expect(parsed.text).toBe('Hello\r\nWorld');
+    expect(parsed.attachments).toEqual([]);
+  });
+
+  it('round-trips messages produced by MimeComposer', () => {
+    const { raw } = new MimeComposer('mailer.test').compose({
+      from: 'Zoë <zoe@example.com>',
+      to: 'bob@example.com',
+      subject: 'Ünïcödé subject that is long enough to need several encoded words',
+      text: 'Plain é',
+      html: '<b>Bold é</b><img src="cid:pic">',
+      attachments: [
+        { filename: 'pic.png', content: new Uint8Array([9, 8, 7]), cid: 'pic' },
+        { filename: 'données.txt', content: 'a=b' },
+      ],
+    });
+
+    const parsed = parseMessage(raw);
+
+    expect(parsed.headers.subject).toBe(
+      'Ünïcödé subject that is long enough to need several encoded words'
+    );
+    expect(parsed.text).toBe('Plain é');
+    expect(parsed.html).toBe('<b>Bold é</b><img src="cid:pic">');
+    expect(parsed.attachments.map((a) => a.filename)).toEqual(['pic.png', 'données.txt']);
+    expect(parsed.attachments[0].contentId).toBe('pic');
+    expect(Buffer.from(parsed.attachments[1].content).toString()).toBe('a=b');
+  });
+});
+
+describe('header decoding', () => {
+  it('leaves plain text around encoded-words intact', () => {
+    expect(decodeWords('Re: =?utf-8?q?caf=C3=A9?= today')).toBe('Re: café today');
+  });
+
+  it('parses quoted parameters with escaped characters', () => {
+    expect(parseHeaderValue('attachment; filename="a \\"b\\";c.txt"')).toEqual({
+      value: 'attachment',
+      params: { filename: 'a "b";c.txt' },
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import {
+  decodeBase64,
+  decodeCharset,
+  decodeQuotedPrintable,
+  decodeWords,
+  parseHeaderValue,
+} from './encoding';
+
+export interface MimePartNode {
+  /** Header names are lower-cased; values are unfolded and RFC 2047 decoded. */
+  headers: Record<string, string>;
+  headerLines: Array<[string, string]>;
+  contentType: string;
+  parameters: Record<string, string>;
+  disposition?: string;
+  filename?: string;
+  contentId?: string;
+  /** Transfer-decoded body; empty for multipart containers. */
+  content: Buffer;
+  children: MimePartNode[];
+}
+
+export interface ParsedAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  content: Uint8Array;
+  contentId?: string;
+  disposition?: string;
+}
+
+export interface ParsedMessage {
+  headers: Record<string, string>;
+  text?: string;
+  html?: string;
+  attachments: ParsedAttachment[];
+  root: MimePartNode;
+  size: number;
+}
+
+interface PartState {
+  node: MimePartNode;
+  phase: 'headers' | 'body' | 'preamble' | 'epilogue';
+  boundary?: string;
+  parent?: PartState;
+  rawHeaders: string[];
+  body: Buffer[];
+}
+
+/**
+ * Incremental MIME parser. Feed raw message bytes with `write()` as they
+ * arrive and call `end()` to obtain the part tree; nested multiparts are
+ * tracked with a boundary stack so arbitrarily deep structures are handled.
+ */
+export class MimeParser {
+  private root: PartState = this.createState();
+  private current: PartState = this.root;
+  private pending: Buffer = Buffer.alloc(0);
+  private size = 0;
+
+  write(chunk: string | Uint8Array): this {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : Buffer.from(chunk);
+    this.size += buffer.length;
+    let data = this.pending.length ? Buffer.concat([this.pending, buffer]) : buffer;
+
+    let index: number;
+    while ((index = data.indexOf(0x0a)) !== -1) {
+      const end = index > 0 && data[index - 1] === 0x0d ? index - 1 : index;
+      this.processLine(data.subarray(0, end));
+      data = data.subarray(index + 1);
+    }
+    this.pending = Buffer.from(data);
+
+    return this;
+  }
+
+  end(): MimePartNode {
+    if (this.pending.length) {
+      this.processLine(this.pending);
+      this.pending = Buffer.alloc(0);
+    }
+
+    let state: PartState | undefined = this.current;
+    while (state) {
+      this.finishHeaders(state);
+      this.finishBody(state);
+      state = state.parent;
+    }
+
+    return this.root.node;
+  }
+
+  get bytesWritten(): number {
+    return this.size;
+  }
+
+  private processLine(line: Buffer): void {
+    if (line.length >= 2 && line[0] === 0x2d && line[1] === 0x2d) {
+      const text = line.toString('latin1').trimEnd();
+      for (let state: PartState | undefined = this.current; state; state = state.parent) {
+        if (!state.boundary) continue;
+        if (text === `--${state.boundary}`) {
+          this.closeUntil(state);
+          const child = this.createState(state);
+          state.node.children.push(child.node);
+          state.phase = 'body';
+          this.current = child;
+          return;
+        }
+        if (text === `--${state.boundary}--`) {
+          this.closeUntil(state);
+          state.phase = 'epilogue';
+          this.current = state;
+          return;
+        }
+      }
+    }
+
+    const state = this.current;
+    switch (state.phase) {
+      case 'headers':
+        if (line.length === 0) {
+          this.finishHeaders(state);
+        } else {
+          const text = line.toString('utf8');
+          if (/^[ \t]/.test(text) && state.rawHeaders.length) {
+            state.rawHeaders[state.rawHeaders.length - 1] += ` ${text.trim()}`;
+          } else {
+            state.rawHeaders.push(text);
+          }
+        }
+        break;
+      case 'body':
+        state.body.push(Buffer.from(line));
+        break;
+      default:
+        // Preamble and epilogue text is ignored (RFC 2046 §5.1.1).
+        break;
+    }
+  }
+
+  private closeUntil(target: PartState): void {
+    while (this.current !== target) {
+      this.finishHeaders(this.current);
+      this.finishBody(this.current);
+      this.current = this.current.parent!;
+    }
+  }
+
+  private finishHeaders(state: PartState): void {
+    if (state.phase !== 'headers') return;
+
+    const node = state.node;
+    for (const raw of state.rawHeaders) {
+      const colon = raw.indexOf(':');
+      if (colon <= 0) continue;
+      const name = raw.slice(0, colon).trim();
+      const value = raw.slice(colon + 1).trim();
+      node.headerLines.push([name, value]);
+      const key = name.toLowerCase();
+      if (!(key in node.headers)) {
+        node.headers[key] = decodeWords(value);
+      }
+    }
+
+    const defaultType =
+      state.parent?.node.contentType === 'multipart/digest' ? 'message/rfc822' : 'text/plain';
+    const contentType = parseHeaderValue(this.rawHeader(node, 'content-type') || defaultType);
+    node.contentType = contentType.value || defaultType;
+    node.parameters = contentType.params;
+
+    const dispositionHeader = this.rawHeader(node, 'content-disposition');
+    if (dispositionHeader) {
+      const disposition = parseHeaderValue(dispositionHeader);
+      node.disposition = disposition.value;
+      node.filename = disposition.params.filename;
+    }
+    node.filename = node.filename || contentType.params.name;
+    if (node.headers['content-id']) {
+      node.contentId = node.headers['content-id'].replace(/^\s*<|>\s*$/g, '');
+    }
+
+    if (node.contentType.startsWith('multipart/') && contentType.params.boundary) {
+      state.boundary = contentType.params.boundary;
+      state.phase = 'preamble';
+    } else {
+      state.phase = 'body';
+    }
+  }
+
+  private finishBody(state: PartState): void {
+    if (state.phase !== 'body' || state.boundary) {
+      state.body = [];
+      return;
+    }
+
+    const joined = Buffer.concat(
+      state.body.flatMap((line, index) => (index === 0 ? [line] : [Buffer.from('\r\n'), line]))
+    );
+    const encoding = (state.node.headers['content-transfer-encoding'] || '').trim().toLowerCase();
+
+    if (encoding === 'base64') {
+      state.node.content = decodeBase64(joined.toString('latin1'));
+    } else if (encoding === 'quoted-printable') {
+      state.node.content = decodeQuotedPrintable(joined.toString('latin1'));
+    } else {
+      state.node.content = joined;
+    }
+    state.body = [];
+    state.phase = 'epilogue';
+  }
+
+  private rawHeader(node: MimePartNode, name: string): string | undefined {
+    return node.headerLines.find(([key]) => key.toLowerCase() === name)?.[1];
+  }
+
+  private createState(parent?: PartState): PartState {
+    return {
+      node: {
+        headers: {},
+        headerLines: [],
+        contentType: 'text/plain',
+        parameters: {},
+        content: Buffer.alloc(0),
+        children: [],
+      },
+      phase: 'headers',
+      parent,
+      rawHeaders: [],
+      body: [],
+    };
+  }
+}
+
+/**
+ * Parses a complete message and flattens the part tree into the text body,
+ * HTML body and attachments, the shape used by `ImapMessage` and
+ * `Pop3Message`.
+ */
+export function parseMessage(raw: string | Uint8Array): ParsedMessage {
+  const parser = new MimeParser();
+  const root = parser.write(raw).end();
+  const result: ParsedMessage = {
+    headers: root.headers,
+    attachments: [],
+    root,
+    size: parser.bytesWritten,
+  };
+
+  collectParts(root, result);
+  return result;
+}
+
+export function decodeTextPart(part: MimePartNode): string {
+  return decodeCharset(part.content, part.parameters.charset || 'utf-8');
+}
+
+function collectParts(part: MimePartNode, result: ParsedMessage): void {
+  if (part.contentType.startsWith('multipart/')) {
+    for (const child of part.children) {
+      collectParts(child, result);
+    }
+    return;
+  }
+
+  // Returned headers in delivery reports are text but not part of the body.
+  const isAttachment =
+    part.disposition === 'attachment' ||
+    (!!part.filename && part.disposition !== 'inline') ||
+    !part.contentType.startsWith('text/') ||
+    part.contentType === 'text/rfc822-headers';
+
+  if (!isAttachment && part.contentType === 'text/plain' && result.text === undefined) {
+    result.text = decodeTextPart(part);
+    return;
+  }
+  if (!isAttachment && part.contentType === 'text/html' && result.html === undefined) {
+    result.html = decodeTextPart(part);
+    return;
+  }
+  if (!isAttachment && !part.filename) {
+    return;
+  }
+
+  result.attachments.push({
+    filename: part.filename || defaultFilename(part, result.attachments.length + 1),
+    contentType: part.contentType,
+    size: part.content.length,
+    content: new Uint8Array(part.content),
+    contentId: part.contentId,
+    disposition: part.disposition,
+  });
+}
+
+function defaultFilename(part: MimePartNode, index: number): string {
+  const extension = part.contentType === 'message/rfc822' ? 'eml' : 'bin';
+  return `attachment-${index}.${extension}`;
+}
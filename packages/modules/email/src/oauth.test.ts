@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import {
+  RefreshingTokenProvider,
+  authenticateOAuth2,
+  oauth2Response,
+  parseOAuth2Response,
+  parseOAuth2Challenge,
+  formatOAuth2Challenge,
+  INVALID_TOKEN_CHALLENGE,
+} from './oauth';
+import { MailSandbox } from './sandbox';
+import { SmtpClient, SmtpError } from './smtp';
+import { ImapClient } from './imap';
+import { Pop3Client } from './pop3';
+import type { OAuth2TokenProvider } from './types';
+
+describe('OAuth2 SASL encoding', () => {
+  it('builds XOAUTH2 and OAUTHBEARER client responses', () => {
+    const server = { host: 'mail.example.com', port: 993 };
+    const decode = (value: string) => Buffer.from(value, 'base64').toString('utf8');
+
+    expect(decode(oauth2Response('XOAUTH2', 'ann@example.com', 'tok', server))).toBe(
+      'user=ann@example.com\u0001auth=Bearer tok\u0001\u0001'
+    );
+    expect(decode(oauth2Response('OAUTHBEARER', 'a,b=c@example.com', 'tok', server))).toBe(
+      'n,a=a=2Cb=3Dc@example.com,\u0001host=mail.example.com\u0001port=993\u0001auth=Bearer tok\u0001\u0001'
+    );
+  });
+
+  it('round-trips responses and error challenges', () => {
+    const server = { host: 'localhost', port: 25 };
+    for (const mechanism of ['XOAUTH2', 'OAUTHBEARER'] as const) {
+      expect(
+        parseOAuth2Response(oauth2Response(mechanism, 'a,b@example.com', 'secret', server))
+      ).toEqual({ user: 'a,b@example.com', accessToken: 'secret' });
+    }
+
+    expect(parseOAuth2Challenge(formatOAuth2Challenge(INVALID_TOKEN_CHALLENGE))).toEqual({
+      status: '401',
+      schemes: 'bearer',
+      scope: undefined,
+    });
+    expect(parseOAuth2Challenge('')).toBeNull();
+  });
+});
+
+describe('RefreshingTokenProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reuses tokens until they are about to expire', async () => {
+    vi.useFakeTimers();
+    let count = 0;
+    const provider = new RefreshingTokenProvider(async () => ({
+      accessToken: `token-${++count}`,
+      expiresAt: new Date(Date.now() + 120000),
+    }));
+
+    expect(await provider.getAccessToken()).toBe('token-1');
+    vi.advanceTimersByTime(30000);
+    expect(await provider.getAccessToken()).toBe('token-1');
+    vi.advanceTimersByTime(31000);
+    expect(await provider.getAccessToken()).toBe('token-2');
+    expect(await provider.getAccessToken(true)).toBe('token-3');
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    const refresh = vi.fn(async () => ({ accessToken: 'shared' }));
+    const provider = new RefreshingTokenProvider(refresh);
+
+    const tokens = await Promise.all([provider.getAccessToken(), provider.getAccessToken()]);
+    expect(tokens).toEqual(['shared', 'shared']);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('redeems and rotates refresh tokens at a token endpoint', async () => {
+    const requests: URLSearchParams[] = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        requests.push(params);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            access_token: `access-${requests.length}`,
+            refresh_token: `refresh-${requests.length}`,
+            expires_in: 3600,
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+
+    try {
+      const provider = RefreshingTokenProvider.fromRefreshToken({
+        tokenUrl: `http://127.0.0.1:${port}/token`,
+        clientId: 'client',
+        clientSecret: 'shh',
+        refreshToken: 'refresh-0',
+      });
+
+      expect(await provider.getAccessToken()).toBe('access-1');
+      expect(await provider.getAccessToken()).toBe('access-1');
+      expect(await provider.getAccessToken(true)).toBe('access-2');
+
+      expect(requests.map((params) => params.get('refresh_token'))).toEqual([
+        'refresh-0',
+        'refresh-1',
+      ]);
+      expect(requests[0].get('grant_type')).toBe('refresh_token');
+      expect(requests[0].get('client_secret')).toBe('shh');
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('gives up on a token endpoint that does not answer', async () => {
+    const server = http.createServer(() => undefined);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+
+    try {
+      const provider = RefreshingTokenProvider.fromRefreshToken({
+        tokenUrl: `http://127.0.0.1:${port}/token`,
+        clientId: 'client',
+        refreshToken: 'refresh-0',
+        timeout: 50,
+      });
+      await expect(provider.getAccessToken()).rejects.toThrow(
+        'Token refresh failed: request timed out'
+      );
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe('authenticateOAuth2', () => {
+  const server = { host: 'mail.example.com', port: 587 };
+
+  it('refreshes the token after a plain 535 without a challenge', async () => {
+    const tokens: string[] = [];
+    const tokenProvider = {
+      getAccessToken: async (forceRefresh = false) => (forceRefresh ? 'fresh' : 'stale'),
+    };
+    await authenticateOAuth2(
+      { user: 'dev@example.com', tokenProvider },
+      'XOAUTH2',
+      server,
+      async (response) => {
+        const token = parseOAuth2Response(response)!.accessToken;
+        tokens.push(token);
+        if (token === 'stale') throw new SmtpError('AUTH failed', 535);
+      }
+    );
+    expect(tokens).toEqual(['stale', 'fresh']);
+  });
+
+  it('does not retry when the challenge blames something other than the token', async () => {
+    const getAccessToken = vi.fn().mockResolvedValue('token');
+    const failure = authenticateOAuth2(
+      { user: 'dev@example.com', tokenProvider: { getAccessToken } },
+      'OAUTHBEARER',
+      server,
+      async (_response, onChallenge) => {
+        onChallenge(formatOAuth2Challenge({ status: 'insufficient_scope' }));
+        throw new SmtpError('AUTH failed', 535);
+      }
+    );
+    await expect(failure).rejects.toThrow('AUTH failed');
+    expect(getAccessToken).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('OAuth2 authentication against the mail sandbox', () => {
+  let sandbox: MailSandbox;
+
+  beforeEach(async () => {
+    sandbox = new MailSandbox({
+      smtpPort: 0,
+      imapPort: 0,
+      pop3Port: 0,
+      httpPort: false,
+      users: { 'dev@example.com': 'valid-token' },
+    });
+    await sandbox.start();
+  });
+
+  afterEach(async () => {
+    await sandbox.stop();
+  });
+
+  /** Hands out an expired token first, then the valid one. */
+  function staleProvider(): OAuth2TokenProvider & { calls: boolean[] } {
+    const calls: boolean[] = [];
+    return {
+      calls,
+      async getAccessToken(forceRefresh = false) {
+        calls.push(forceRefresh);
+        return forceRefresh ? 'valid-token' : 'expired-token';
+      },
+    };
+  }
+
+  function config(protocol: 'smtp' | 'imap' | 'pop3', auth: Record<string, unknown>) {
+    return { ...sandbox.getEmailConfig()[protocol]!, auth: { user: 'dev@example.com', ...auth } };
+  }
+
+  it('retries SMTP authentication once with a refreshed token', async () => {
+    for (const authMethod of ['XOAUTH2', 'OAUTHBEARER'] as const) {
+      const tokenProvider = staleProvider();
+      const smtp = new SmtpClient({ ...config('smtp', { tokenProvider }), authMethod });
+      await smtp.connect();
+      await smtp.sendEmail({ from: 'dev@example.com', to: 'a@example.com', subject: authMethod });
+      await smtp.disconnect();
+      expect(tokenProvider.calls).toEqual([false, true]);
+    }
+    expect(sandbox.getMessages()).toHaveLength(2);
+  });
+
+  it('retries IMAP authentication once with a refreshed token', async () => {
+    const tokenProvider = staleProvider();
+    const imap = new ImapClient(config('imap', { tokenProvider }));
+    await imap.connect();
+    expect((await imap.openBox('INBOX')).uidnext).toBe(1);
+    await imap.disconnect();
+    expect(tokenProvider.calls).toEqual([false, true]);
+  });
+
+  it('retries POP3 authentication once with a refreshed token', async () => {
+    const tokenProvider = staleProvider();
+    const pop3 = new Pop3Client(config('pop3', { tokenProvider }));
+    await pop3.connect();
+    await pop3.login();
+    expect(await pop3.getMessageCount()).toBe(0);
+    await pop3.disconnect();
+    expect(tokenProvider.calls).toEqual([false, true]);
+  });
+
+  it('does not retry a fixed access token', async () => {
+    const imap = new ImapClient(config('imap', { accessToken: 'expired-token' }));
+    await expect(imap.connect()).rejects.toThrow(/AUTHENTICATIONFAILED/);
+
+    const pop3 = new Pop3Client(config('pop3', { accessToken: 'expired-token' }));
+    await pop3.connect();
+    await expect(pop3.login()).rejects.toThrow(/Login failed/);
+    await pop3.disconnect();
+  });
+});
@@ -0,0 +1,252 @@
+import * as http from 'http';
+import * as https from 'https';
+import type { MailAuth, OAuth2Mechanism, OAuth2Token, OAuth2TokenProvider } from './types';
+
+/** Milliseconds to wait for a token endpoint unless the grant sets `timeout`. */
+const TOKEN_REQUEST_TIMEOUT = 30000;
+
+export class OAuth2Error extends Error {
+  constructor(
+    message: string,
+    public status?: string
+  ) {
+    super(message);
+    this.name = 'OAuth2Error';
+  }
+}
+
+/** Error details a server sends as a SASL challenge after rejecting a token (RFC 7628 §3.2.2). */
+export interface OAuth2Challenge {
+  status: string;
+  scope?: string;
+  schemes?: string;
+}
+
+export interface RefreshTokenGrant {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  refreshToken: string;
+  scope?: string;
+  /** Milliseconds to wait for the token endpoint; 30 seconds by default. */
+  timeout?: number;
+}
+
+/**
+ * Caches the token returned by `refresh` and fetches a new one shortly
+ * before it expires, or when the server rejected it. Concurrent callers
+ * share a single refresh.
+ */
+export class RefreshingTokenProvider implements OAuth2TokenProvider {
+  private token: OAuth2Token | null = null;
+  private pending: Promise<OAuth2Token> | null = null;
+
+  /** @param refreshMargin milliseconds before expiry at which a token counts as expired */
+  constructor(
+    private refresh: () => Promise<OAuth2Token>,
+    private refreshMargin = 60000
+  ) {}
+
+  /** A provider that redeems a refresh token at an OAuth2 token endpoint (RFC 6749 §6). */
+  static fromRefreshToken(grant: RefreshTokenGrant): RefreshingTokenProvider {
+    const current = { ...grant };
+    return new RefreshingTokenProvider(async () => {
+      const response = await requestToken(current);
+      // Providers may rotate the refresh token with every use.
+      if (typeof response.refresh_token === 'string') {
+        current.refreshToken = response.refresh_token;
+      }
+      return {
+        accessToken: String(response.access_token),
+        expiresAt:
+          typeof response.expires_in === 'number'
+            ? new Date(Date.now() + response.expires_in * 1000)
+            : undefined,
+      };
+    });
+  }
+
+  async getAccessToken(forceRefresh = false): Promise<string> {
+    const token = this.token;
+    if (token && !forceRefresh && !this.isExpiring(token)) {
+      return token.accessToken;
+    }
+
+    if (!this.pending) {
+      this.pending = this.refresh().finally(() => {
+        this.pending = null;
+      });
+    }
+    this.token = await this.pending;
+    return this.token.accessToken;
+  }
+
+  private isExpiring(token: OAuth2Token): boolean {
+    return (
+      token.expiresAt !== undefined && token.expiresAt.getTime() - this.refreshMargin <= Date.now()
+    );
+  }
+}
+
+export function usesOAuth2(auth: MailAuth | undefined): boolean {
+  return Boolean(auth && (auth.tokenProvider || auth.accessToken));
+}
+
+/** Prefers OAUTHBEARER (RFC 7628) over the older XOAUTH2 when both are advertised. */
+export function selectOAuth2Mechanism(advertised: string[]): OAuth2Mechanism | null {
+  const mechanisms = advertised.map((mechanism) => mechanism.toUpperCase());
+  if (mechanisms.includes('OAUTHBEARER')) return 'OAUTHBEARER';
+  if (mechanisms.includes('XOAUTH2')) return 'XOAUTH2';
+  return null;
+}
+
+/** Base64 initial client response for XOAUTH2 or OAUTHBEARER. */
+export function oauth2Response(
+  mechanism: OAuth2Mechanism,
+  user: string,
+  accessToken: string,
+  server: { host: string; port: number }
+): string {
+  const message =
+    mechanism === 'XOAUTH2'
+      ? `user=${user}\u0001auth=Bearer ${accessToken}\u0001\u0001`
+      : `n,a=${user.replace(/=/g, '=3D').replace(/,/g, '=2C')},\u0001host=${server.host}\u0001port=${server.port}\u0001auth=Bearer ${accessToken}\u0001\u0001`;
+  return Buffer.from(message, 'utf8').toString('base64');
+}
+
+/** Server side of `oauth2Response`: extracts the user and bearer token, or `null` if malformed. */
+export function parseOAuth2Response(
+  response: string
+): { user: string; accessToken: string } | null {
+  const fields = Buffer.from(response.trim(), 'base64').toString('utf8').split('\u0001');
+  const bearer = fields.find((field) => /^auth=Bearer /i.test(field));
+  const header = fields[0];
+  const user = header.startsWith('user=')
+    ? header.slice(5)
+    : (header.match(/^n,a=([^,]*),/)?.[1] || '').replace(/=2C/g, ',').replace(/=3D/g, '=');
+  return bearer && user ? { user, accessToken: bearer.slice(12) } : null;
+}
+
+/** Decodes a base64 JSON error challenge; `null` if the text is not one. */
+export function parseOAuth2Challenge(text: string): OAuth2Challenge | null {
+  try {
+    const value = JSON.parse(Buffer.from(text.trim(), 'base64').toString('utf8'));
+    return value && typeof value === 'object' && value.status !== undefined
+      ? { status: String(value.status), scope: value.scope, schemes: value.schemes }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** What a server answers for an expired or revoked bearer token. */
+export const INVALID_TOKEN_CHALLENGE: OAuth2Challenge = { status: '401', schemes: 'bearer' };
+
+/** Server side of `parseOAuth2Challenge`. */
+export function formatOAuth2Challenge(challenge: OAuth2Challenge): string {
+  return Buffer.from(JSON.stringify(challenge), 'utf8').toString('base64');
+}
+
+/** True when the server rejected the token itself rather than the account or scope. */
+export function isTokenRejected(challenge: OAuth2Challenge): boolean {
+  return challenge.status === '401' || challenge.status === 'invalid_token';
+}
+
+/**
+ * Runs an OAuth2 SASL exchange. `exchange` sends the initial response and
+ * must pass any further server challenge to `onChallenge`, sending back the
+ * returned reply. When the server reports an expired or invalid token, or
+ * an SMTP server answers a plain 535 without an error challenge, and a
+ * `tokenProvider` is configured, the token is refreshed and the exchange is
+ * retried once.
+ */
+export async function authenticateOAuth2(
+  auth: MailAuth,
+  mechanism: OAuth2Mechanism,
+  server: { host: string; port: number },
+  exchange: (response: string, onChallenge: (text: string) => string) => Promise<void>
+): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    const accessToken = auth.tokenProvider
+      ? await auth.tokenProvider.getAccessToken(attempt > 0)
+      : auth.accessToken;
+    if (!accessToken) {
+      throw new OAuth2Error('No OAuth2 access token configured');
+    }
+
+    let challenge = null as OAuth2Challenge | null;
+    try {
+      await exchange(oauth2Response(mechanism, auth.user, accessToken, server), (text) => {
+        challenge = parseOAuth2Challenge(text);
+        // The client must answer the error challenge before the server fails the exchange.
+        return mechanism === 'OAUTHBEARER' ? 'AQ==' : '';
+      });
+      return;
+    } catch (error) {
+      // Without a challenge a 535 is all some servers say about an expired token.
+      const expired = challenge
+        ? isTokenRejected(challenge)
+        : (error as { responseCode?: unknown }).responseCode === 535;
+      if (attempt === 0 && auth.tokenProvider && expired) {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+function requestToken(grant: RefreshTokenGrant): Promise<Record<string, unknown>> {
+  const body = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: grant.refreshToken,
+    client_id: grant.clientId,
+    ...(grant.clientSecret ? { client_secret: grant.clientSecret } : {}),
+    ...(grant.scope ? { scope: grant.scope } : {}),
+  }).toString();
+  const url = new URL(grant.tokenUrl);
+  const transport = url.protocol === 'http:' ? http : https;
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Content-Length': Buffer.byteLength(body),
+          Accept: 'application/json',
+        },
+      },
+      (response) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('error', reject);
+        response.on('end', () => {
+          let data: Record<string, unknown> = {};
+          try {
+            data = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+          } catch {
+            // Reported below as a missing access token.
+          }
+          if (response.statusCode !== 200 || typeof data.access_token !== 'string') {
+            const reason = data.error_description || data.error || `HTTP ${response.statusCode}`;
+            reject(
+              new OAuth2Error(
+                `Token refresh failed: ${reason}`,
+                typeof data.error === 'string' ? data.error : String(response.statusCode)
+              )
+            );
+            return;
+          }
+          resolve(data);
+        });
+      }
+    );
+    request.setTimeout(grant.timeout ?? TOKEN_REQUEST_TIMEOUT, () => {
+      request.destroy();
+      reject(new OAuth2Error('Token refresh failed: request timed out'));
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
@@ -0,0 +1,290 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as net from 'net';
+import { createHash } from 'crypto';
+import { Pop3Client, MemoryUidStore } from './pop3';
+
+interface StoredMessage {
+  uid: string;
+  raw: string;
+}
+
+interface StandIn {
+  server: net.Server;
+  port: number;
+  commands: string[];
+  maildrop: StoredMessage[];
+}
+
+const TIMESTAMP = '<1896.697170952@standin.test>';
+
+function message(uid: string, subject: string, date: string, body = 'Hello'): StoredMessage {
+  return {
+    uid,
+    raw: [
+      'From: Alice <alice@example.com>',
+      'To: bob@example.com',
+      `Subject: ${subject}`,
+      `Date: ${date}`,
+      '',
+      body,
+    ].join('\r\n'),
+  };
+}
+
+function startStandIn(maildrop: StoredMessage[], capabilities = ['TOP', 'UIDL', 'USER']) {
+  const commands: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let user = '';
+    const deleted = new Set<number>();
+
+    const multiline = (status: string, lines: string[]) => {
+      const stuffed = lines.map((line) => (line.startsWith('.') ? `.${line}` : line));
+      socket.write([`+OK ${status}`, ...stuffed, '.'].join('\r\n') + '\r\n');
+    };
+    const live = () =>
+      maildrop
+        .map((entry, index) => ({ ...entry, id: index + 1 }))
+        .filter((e) => !deleted.has(e.id));
+    const find = (arg: string) => live().find((entry) => entry.id === parseInt(arg, 10));
+
+    socket.write(`+OK POP3 standin ready ${TIMESTAMP}\r\n`);
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        commands.push(line);
+
+        const [verb, ...args] = line.split(' ');
+        switch (verb.toUpperCase()) {
+          case 'CAPA':
+            multiline('Capability list follows', capabilities);
+            break;
+          case 'USER':
+            user = args[0];
+            socket.write('+OK\r\n');
+            break;
+          case 'PASS':
+            socket.write(
+              user === 'bob' && args[0] === 'secret'
+                ? '+OK maildrop locked\r\n'
+                : '-ERR invalid password\r\n'
+            );
+            break;
+          case 'APOP': {
+            const digest = createHash('md5').update(`${TIMESTAMP}secret`).digest('hex');
+            socket.write(
+              args[1] === digest ? '+OK maildrop locked\r\n' : '-ERR permission denied\r\n'
+            );
+            break;
+          }
+          case 'STAT': {
+            const size = live().reduce((total, entry) => total + entry.raw.length, 0);
+            socket.write(`+OK ${live().length} ${size}\r\n`);
+            break;
+          }
+          case 'LIST':
+            multiline(
+              'scan listing follows',
+              live().map((entry) => `${entry.id} ${entry.raw.length}`)
+            );
+            break;
+          case 'UIDL':
+            multiline(
+              'unique-id listing follows',
+              live().map((entry) => `${entry.id} ${entry.uid}`)
+            );
+            break;
+          case 'RETR': {
+            const entry = find(args[0]);
+            if (entry) multiline('message follows', entry.raw.split('\r\n'));
+            else socket.write('-ERR no such message\r\n');
+            break;
+          }
+          case 'TOP': {
+            const entry = find(args[0]);
+            if (entry) multiline('top follows', entry.raw.split('\r\n\r\n')[0].split('\r\n'));
+            else socket.write('-ERR no such message\r\n');
+            break;
+          }
+          case 'DELE':
+            deleted.add(parseInt(args[0], 10));
+            socket.write('+OK message deleted\r\n');
+            break;
+          case 'RSET':
+            deleted.clear();
+            socket.write('+OK\r\n');
+            break;
+          case 'QUIT':
+            for (const id of Array.from(deleted).sort((a, b) => b - a)) {
+              maildrop.splice(id - 1, 1);
+            }
+            socket.end('+OK bye\r\n');
+            break;
+          default:
+            socket.write('-ERR unknown command\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<StandIn>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address() as net.AddressInfo;
+      resolve({ server, port: address.port, commands, maildrop });
+    });
+  });
+}
+
+describe('Pop3Client', () => {
+  let standIn: StandIn;
+  let client: Pop3Client;
+
+  const createClient = (overrides: Record<string, unknown> = {}, store = new MemoryUidStore()) =>
+    new Pop3Client(
+      {
+        host: '127.0.0.1',
+        port: standIn.port,
+        secure: false,
+        auth: { user: 'bob', password: 'secret' },
+        ...overrides,
+      },
+      store
+    );
+
+  beforeEach(async () => {
+    standIn = await startStandIn([
+      message('uid-1', 'First', 'Mon, 01 Jan 2024 10:00:00 +0000'),
+      message('uid-2', 'Second', 'Mon, 01 Apr 2024 10:00:00 +0000', 'Line one\r\n.hidden dot'),
+      message('uid-3', 'Third', 'Wed, 01 May 2024 10:00:00 +0000'),
+    ]);
+  });
+
+  afterEach(async () => {
+    await client?.disconnect();
+    await new Promise((resolve) => standIn.server.close(resolve));
+  });
+
+  it('logs in with USER/PASS and reads the maildrop listing', async () => {
+    client = createClient();
+    await client.connect();
+    await client.login();
+
+    expect(standIn.commands).toContain('USER bob');
+    expect(standIn.commands).toContain('PASS secret');
+    expect(client.getCapabilities()).toContain('UIDL');
+    expect(await client.getMessageCount()).toBe(3);
+    expect((await client.listMessages()).map((entry) => entry.id)).toEqual([1, 2, 3]);
+    expect(await client.listUids()).toEqual([
+      { id: 1, uid: 'uid-1' },
+      { id: 2, uid: 'uid-2' },
+      { id: 3, uid: 'uid-3' },
+    ]);
+  });
+
+  it('authenticates with APOP using the greeting timestamp', async () => {
+    client = createClient({ authMethod: 'APOP' });
+    await client.connect();
+    await client.login();
+
+    const digest = createHash('md5').update(`${TIMESTAMP}secret`).digest('hex');
+    expect(standIn.commands).toContain(`APOP bob ${digest}`);
+    expect(standIn.commands).not.toContain('PASS secret');
+  });
+
+  it('reports authentication failures', async () => {
+    client = createClient({ auth: { user: 'bob', password: 'wrong' } });
+    await client.connect();
+
+    await expect(client.login()).rejects.toThrow('Login failed: invalid password');
+  });
+
+  it('retrieves and dot-unstuffs messages, and reads headers with TOP', async () => {
+    client = createClient();
+    await client.connect();
+    await client.login();
+
+    const retrieved = await client.retrieveMessage(2);
+    expect(retrieved.subject).toBe('Second');
+    expect(retrieved.from).toBe('Alice <alice@example.com>');
+    expect(retrieved.to).toEqual(['bob@example.com']);
+    expect(retrieved.text).toContain('\r\n.hidden dot');
+
+    const headers = await client.retrieveHeaders(3);
+    expect(headers.subject).toBe('Third');
+    expect(standIn.commands).toContain('TOP 3 0');
+  });
+
+  it('commits deletions on QUIT and discards them on RSET', async () => {
+    client = createClient();
+    await client.connect();
+    await client.login();
+
+    await client.deleteMessage(1);
+    await client.reset();
+    await client.deleteMessage(2);
+    await client.disconnect();
+
+    expect(standIn.maildrop.map((entry) => entry.uid)).toEqual(['uid-1', 'uid-3']);
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it('downloads only unseen UIDLs across sessions', async () => {
+    const store = new MemoryUidStore();
+    client = createClient({}, store);
+    await client.connect();
+    await client.login();
+
+    const first = await client.fetchNewMessages({ limit: 2 });
+    expect(first.map((msg) => msg.uid)).toEqual(['uid-1', 'uid-2']);
+    await client.disconnect();
+
+    standIn.maildrop.push(message('uid-4', 'Fourth', 'Sat, 01 Jun 2024 10:00:00 +0000'));
+    standIn.commands.length = 0;
+
+    client = createClient({}, store);
+    await client.connect();
+    await client.login();
+
+    const second = await client.fetchNewMessages();
+    expect(second.map((msg) => msg.subject)).toEqual(['Third', 'Fourth']);
+    expect(standIn.commands.filter((command) => command.startsWith('RETR'))).toEqual([
+      'RETR 3',
+      'RETR 4',
+    ]);
+    expect(await client.fetchNewMessages()).toEqual([]);
+  });
+
+  it('skips messages older than since without marking them seen', async () => {
+    const store = new MemoryUidStore();
+    client = createClient({}, store);
+    await client.connect();
+    await client.login();
+
+    const recent = await client.fetchNewMessages({ since: new Date('2024-03-01T00:00:00Z') });
+    expect(recent.map((msg) => msg.uid)).toEqual(['uid-2', 'uid-3']);
+    expect(standIn.commands).not.toContain('RETR 1');
+    expect(await store.load()).toEqual(['uid-2', 'uid-3']);
+
+    const rest = await client.fetchNewMessages();
+    expect(rest.map((msg) => msg.uid)).toEqual(['uid-1']);
+  });
+
+  it('leaves messages the filter rejects for a later sync', async () => {
+    const store = new MemoryUidStore();
+    client = createClient({}, store);
+    await client.connect();
+    await client.login();
+
+    const matching = await client.fetchNewMessages({ filter: (msg) => msg.uid === 'uid-2' });
+    expect(matching.map((msg) => msg.uid)).toEqual(['uid-2']);
+    expect(await store.load()).toEqual(['uid-2']);
+
+    const rest = await client.fetchNewMessages();
+    expect(rest.map((msg) => msg.uid)).toEqual(['uid-1', 'uid-3']);
+  });
+});
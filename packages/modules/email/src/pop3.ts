@@ -1,338 +1,235 @@
 import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import { MailSocket } from './transport';
+import { splitAddressList } from './address';
+import { parseMessage } from './mime-parser';
+import { authenticateOAuth2, selectOAuth2Mechanism, usesOAuth2 } from './oauth';
+import type { Pop3Config, Pop3Message } from './types';
+
+export class Pop3Error extends Error {
+  constructor(
+    message: string,
+    public response?: string
+  ) {
+    super(message);
+    this.name = 'Pop3Error';
+  }
+}
+
+/**
+ * Persists the UIDLs that have already been downloaded so incremental syncs
+ * survive reconnects. The default store keeps them in memory.
+ */
+export interface Pop3UidStore {
+  load(): Promise<string[]>;
+  save(uids: string[]): Promise<void>;
+}
 
-export interface Pop3Config {
-  host: string;
-  port: number;
-  secure: boolean;
-  auth: {
-    user: string;
-    password: string;
-  };
-  timeout?: number;
-  tlsOptions?: Record<string, unknown>;
+export class MemoryUidStore implements Pop3UidStore {
+  private uids: string[] = [];
+
+  async load(): Promise<string[]> {
+    return [...this.uids];
+  }
+
+  async save(uids: string[]): Promise<void> {
+    this.uids = [...uids];
+  }
 }
 
-export interface Pop3Message {
-  id: number;
-  uid: string;
-  size: number;
-  headers: Record<string, string>;
-  from: string;
-  to: string[];
-  subject: string;
-  date: Date;
-  text?: string;
-  html?: string;
-  attachments: Array<{
-    filename: string;
-    contentType: string;
-    size: number;
-    content: Uint8Array;
-  }>;
-  deleted: boolean;
+export interface Pop3SyncOptions {
+  /** Maximum number of new messages to download in this sync. */
+  limit?: number;
+  /** Skip (without marking as seen) messages whose Date header is older. */
+  since?: Date;
+  /**
+   * Only messages it accepts are returned and marked as seen; the others are
+   * left for a later sync.
+   */
+  filter?: (message: Pop3Message) => boolean;
 }
 
 export class Pop3Client extends EventEmitter {
-  private client: any = null;
+  private connection: MailSocket | null = null;
   private connected = false;
+  private authenticated = false;
+  private capabilities = new Map<string, string[]>();
+  private timestamp: string | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
   private config: Pop3Config;
+  private uidStore: Pop3UidStore;
 
-  constructor(config: Pop3Config) {
+  constructor(config: Pop3Config, uidStore: Pop3UidStore = new MemoryUidStore()) {
     super();
     this.config = {
       timeout: 30000,
-      tlsOptions: { rejectUnauthorized: false },
       ...config,
     };
+    this.uidStore = uidStore;
   }
 
   async connect(): Promise<void> {
-    return new Promise((_resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('POP3 connection timeout'));
-      }, this.config.timeout || 30000);
-
-      this.client = {
-        on: (event: string, callback: (data?: any) => void) => {
-          if (event === 'connect') {
-            setTimeout(() => {
-              this.connected = true;
-              this.emit('connected');
-              clearTimeout(timeout);
-              callback();
-            }, 100);
-          } else if (event === 'error') {
-            setTimeout(() => {
-              this.connected = false;
-              this.emit('error', new Error('Connection failed'));
-              clearTimeout(timeout);
-              callback(new Error('Connection failed'));
-            }, 100);
-          } else if (event === 'close') {
-            setTimeout(() => {
-              this.connected = false;
-              this.emit('disconnected');
-            }, 100);
-          } else if (event === 'login') {
-            setTimeout(() => callback('OK'), 50);
-          } else if (event === 'stat') {
-            setTimeout(() => callback('3 1024'), 50);
-          } else if (event === 'list') {
-            setTimeout(() => callback('1 512\r\n2 256\r\n3 256\r\n.'), 50);
-          } else if (event === 'retr') {
-            setTimeout(
-              () =>
-                callback(
-                  'From: test@example.com\r\nTo: user@example.com\r\nSubject: Test\r\n\r\nTest message'
-                ),
-              50
-            );
-          } else if (event === 'top') {
-            setTimeout(
-              () => callback('From: test@example.com\r\nTo: user@example.com\r\nSubject: Test'),
-              50
-            );
-          } else if (event === 'dele') {
-            setTimeout(() => callback('OK'), 50);
-          } else if (event === 'rset') {
-            setTimeout(() => callback('OK'), 50);
-          } else if (event === 'quit') {
-            setTimeout(() => callback('OK'), 50);
-          }
-        },
-        connect: () => {
-          setTimeout(() => {
-            this.emit('connected');
-          }, 50);
-        },
-        login: (_user: string, _password: string) => {
-          setTimeout(() => {
-            this.emit('login', true);
-          }, 50);
-        },
-        stat: () => {
-          setTimeout(() => {
-            this.emit('stat', true, '3 1024');
-          }, 50);
-        },
-        list: () => {
-          setTimeout(() => {
-            this.emit('list', true, '1 512\r\n2 256\r\n3 256\r\n.');
-          }, 50);
-        },
-        retr: (_id: number) => {
-          setTimeout(() => {
-            this.emit(
-              'retr',
-              true,
-              'From: test@example.com\r\nTo: user@example.com\r\nSubject: Test\r\n\r\nTest message'
-            );
-          }, 50);
-        },
-        top: (_id: number, _lines: number) => {
-          setTimeout(() => {
-            this.emit(
-              'top',
-              true,
-              'From: test@example.com\r\nTo: user@example.com\r\nSubject: Test'
-            );
-          }, 50);
-        },
-        dele: (_id: number) => {
-          setTimeout(() => {
-            this.emit('dele', true, 'OK');
-          }, 50);
-        },
-        rset: () => {
-          setTimeout(() => {
-            this.emit('rset', true, 'OK');
-          }, 50);
-        },
-        quit: () => {
-          setTimeout(() => {
-            this.emit('quit', true, 'OK');
-          }, 50);
-        },
-      };
-
-      setTimeout(() => {
-        this.client.connect();
-      }, 100);
-    });
-  }
-
-  async login(): Promise<void> {
-    if (!this.client || !this.connected) {
-      throw new Error('Not connected to POP3 server');
+    if (this.connection) {
+      return;
     }
 
-    return new Promise((resolve, reject) => {
-      this.client.on('login', (status: boolean, rawData: any) => {
-        if (status) {
-          resolve();
-        } else {
-          reject(new Error(`Login failed: ${rawData}`));
-        }
+    try {
+      this.connection = await MailSocket.connect({
+        host: this.config.host,
+        port: this.config.port,
+        secure: this.config.secure,
+        timeout: this.config.timeout,
+        tlsOptions: this.config.tlsOptions,
       });
+      this.connection.onClose(() => this.handleClose());
 
-      this.client.login(this.config.auth.user, this.config.auth.password);
-    });
+      const greeting = await this.readStatus();
+      const timestamp = greeting.match(/<[^<>]+@[^<>]+>/);
+      this.timestamp = timestamp ? timestamp[0] : null;
+
+      await this.loadCapabilities();
+
+      if (!this.connection.isSecure && !this.config.ignoreTLS && this.capabilities.has('STLS')) {
+        await this.command('STLS');
+        await this.connection.upgrade();
+        await this.loadCapabilities();
+      } else if (!this.connection.isSecure && this.config.requireTLS) {
+        throw new Pop3Error('Server does not support STLS');
+      }
+
+      this.connected = true;
+      this.emit('connected');
+    } catch (error) {
+      this.connection?.close();
+      this.connection = null;
+      throw error instanceof Pop3Error
+        ? error
+        : new Pop3Error(
+            `POP3 connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+    }
+  }
+
+  async login(): Promise<void> {
+    this.assertConnected();
+
+    const { user, password = '' } = this.config.auth;
+    const method = this.config.authMethod;
+    try {
+      if (
+        method === 'XOAUTH2' ||
+        method === 'OAUTHBEARER' ||
+        (!method && usesOAuth2(this.config.auth))
+      ) {
+        const mechanism = method || selectOAuth2Mechanism(this.capabilities.get('SASL') || []);
+        if (!mechanism) {
+          throw new Pop3Error('Server does not support OAuth2 authentication');
+        }
+        await authenticateOAuth2(this.config.auth, mechanism, this.config, (token, onChallenge) =>
+          this.saslCommand(`AUTH ${mechanism} ${token}`, onChallenge)
+        );
+      } else if (method === 'APOP') {
+        if (!this.timestamp) {
+          throw new Pop3Error('Server does not support APOP');
+        }
+        const digest = createHash('md5')
+          .update(this.timestamp + password)
+          .digest('hex');
+        await this.command(`APOP ${user} ${digest}`);
+      } else {
+        await this.command(`USER ${user}`);
+        await this.command(`PASS ${password}`);
+      }
+      this.authenticated = true;
+    } catch (error) {
+      const response = error instanceof Pop3Error ? error.response : undefined;
+      throw new Pop3Error(
+        `Login failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        response
+      );
+    }
   }
 
   async disconnect(): Promise<void> {
-    if (!this.client) {
+    if (!this.connection) {
       return;
     }
 
-    return new Promise((resolve) => {
-      this.client.on('quit', () => {
-        this.connected = false;
-        this.client = null;
-        resolve();
-      });
-
-      this.client.quit();
-    });
+    const connection = this.connection;
+    try {
+      // QUIT commits DELE marks (UPDATE state, RFC 1939 §6).
+      await this.command('QUIT');
+    } catch {
+      // The server may drop the connection before replying.
+    } finally {
+      connection.close();
+      this.handleClose();
+    }
   }
 
   async getMessageCount(): Promise<number> {
-    if (!this.client || !this.connected) {
-      throw new Error('Not connected to POP3 server');
-    }
-
-    return new Promise((resolve, reject) => {
-      this.client.on('stat', (status: boolean, rawData: any) => {
-        if (status && rawData) {
-          const count = parseInt(rawData.split(' ')[0], 10);
-          resolve(count);
-        } else {
-          reject(new Error('Failed to get message count'));
-        }
-      });
+    this.assertConnected();
 
-      this.client.stat();
-    });
+    const status = await this.command('STAT');
+    const count = parseInt(status.split(' ')[0], 10);
+    if (isNaN(count)) {
+      throw new Pop3Error('Failed to get message count', status);
+    }
+    return count;
   }
 
   async listMessages(): Promise<Array<{ id: number; size: number }>> {
-    if (!this.client || !this.connected) {
-      throw new Error('Not connected to POP3 server');
-    }
-
-    return new Promise((resolve, reject) => {
-      this.client.on('list', (status: boolean, rawData: any) => {
-        if (status && rawData) {
-          const messages: Array<{ id: number; size: number }> = [];
-          const lines = rawData.split('\r\n');
-
-          for (const line of lines) {
-            if (line && line.includes(' ') && line !== '.') {
-              const [id, size] = line.split(' ');
-              messages.push({
-                id: parseInt(id, 10),
-                size: parseInt(size, 10),
-              });
-            }
-          }
-
-          resolve(messages);
-        } else {
-          reject(new Error('Failed to list messages'));
-        }
-      });
+    this.assertConnected();
 
-      this.client.list();
+    const { lines } = await this.multiline('LIST');
+    return lines.map((line) => {
+      const [id, size] = line.toString('latin1').split(' ');
+      return { id: parseInt(id, 10), size: parseInt(size, 10) };
     });
   }
 
-  async retrieveMessage(messageId: number): Promise<Pop3Message> {
-    if (!this.client || !this.connected) {
-      throw new Error('Not connected to POP3 server');
-    }
-
-    return new Promise((resolve, reject) => {
-      this.client.on('retr', (status: boolean, rawData: any) => {
-        if (status && rawData) {
-          try {
-            const message = this.parseMessage(rawData, messageId);
-            resolve(message);
-          } catch (error) {
-            reject(
-              new Error(
-                `Failed to parse message: ${error instanceof Error ? error.message : 'Unknown error'}`
-              )
-            );
-          }
-        } else {
-          reject(new Error('Failed to retrieve message'));
-        }
-      });
-
-      this.client.retr(messageId);
+  /**
+   * Returns the unique-id listing (UIDL), which stays stable across
+   * sessions unlike message numbers.
+   */
+  async listUids(): Promise<Array<{ id: number; uid: string }>> {
+    this.assertConnected();
+
+    const { lines } = await this.multiline('UIDL');
+    return lines.map((line) => {
+      const [id, uid] = line.toString('latin1').split(' ');
+      return { id: parseInt(id, 10), uid };
     });
   }
 
-  async retrieveHeaders(messageId: number): Promise<Record<string, string>> {
-    if (!this.client || !this.connected) {
-      throw new Error('Not connected to POP3 server');
+  async retrieveMessage(messageId: number, uid?: string): Promise<Pop3Message> {
+    this.assertConnected();
+
+    const { raw } = await this.multiline(`RETR ${messageId}`);
+    try {
+      return this.parseMessage(raw, messageId, uid);
+    } catch (error) {
+      throw new Pop3Error(
+        `Failed to parse message: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
+  }
 
-    return new Promise((resolve, reject) => {
-      this.client.on('top', (status: boolean, rawData: any) => {
-        if (status && rawData) {
-          try {
-            const headers = this.parseHeaders(rawData);
-            resolve(headers);
-          } catch (error) {
-            reject(
-              new Error(
-                `Failed to parse headers: ${error instanceof Error ? error.message : 'Unknown error'}`
-              )
-            );
-          }
-        } else {
-          reject(new Error('Failed to retrieve headers'));
-        }
-      });
+  async retrieveHeaders(messageId: number): Promise<Record<string, string>> {
+    this.assertConnected();
 
-      this.client.top(messageId, 0);
-    });
+    const { raw } = await this.multiline(`TOP ${messageId} 0`);
+    return this.parseHeaders(raw);
   }
 
   async deleteMessage(messageId: number): Promise<void> {
-    if (!this.client || !this.connected) {
-      throw new Error('Not connected to POP3 server');
-    }
-
-    return new Promise((resolve, reject) => {
-      this.client.on('dele', (status: boolean, rawData: any) => {
-        if (status) {
-          resolve();
-        } else {
-          reject(new Error(`Failed to delete message: ${rawData}`));
-        }
-      });
-
-      this.client.dele(messageId);
-    });
+    this.assertConnected();
+    await this.command(`DELE ${messageId}`);
   }
 
   async reset(): Promise<void> {
-    if (!this.client || !this.connected) {
-      throw new Error('Not connected to POP3 server');
-    }
-
-    return new Promise((resolve, reject) => {
-      this.client.on('rset', (status: boolean, rawData: any) => {
-        if (status) {
-          resolve();
-        } else {
-          reject(new Error(`Failed to reset: ${rawData}`));
-        }
-      });
-
-      this.client.rset();
-    });
+    this.assertConnected();
+    await this.command('RSET');
   }
 
   async retrieveMultipleMessages(messageIds: number[]): Promise<Pop3Message[]> {
@@ -356,132 +253,178 @@ export class Pop3Client extends EventEmitter {
     return this.retrieveMultipleMessages(messageIds);
   }
 
-  private parseMessage(rawData: string, messageId: number): Pop3Message {
-    const lines = rawData.split('\r\n');
-    const headers: Record<string, string> = {};
-    let bodyStart = 0;
-    let inHeaders = true;
+  /**
+   * Downloads only messages whose UIDL has not been seen before, oldest
+   * first, and records the returned ones in the UID store. UIDs that have
+   * disappeared from the server are pruned from the store.
+   */
+  async fetchNewMessages(options: Pop3SyncOptions = {}): Promise<Pop3Message[]> {
+    const listing = await this.listUids();
+    const seen = new Set(await this.uidStore.load());
+    const present = new Set(listing.map((entry) => entry.uid));
+    const messages: Pop3Message[] = [];
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
+    for (const { id, uid } of listing) {
+      if (seen.has(uid)) continue;
+      if (options.limit && messages.length >= options.limit) break;
 
-      if (inHeaders && line === '') {
-        bodyStart = i + 1;
-        inHeaders = false;
-        break;
+      if (options.since) {
+        const headers = await this.retrieveHeaders(id);
+        const date = headers.date ? new Date(headers.date) : null;
+        if (date && !isNaN(date.getTime()) && date < options.since) continue;
       }
 
-      if (inHeaders && line.includes(':')) {
-        const colonIndex = line.indexOf(':');
-        const key = line.substring(0, colonIndex).trim();
-        const value = line.substring(colonIndex + 1).trim();
-        headers[key.toLowerCase()] = value;
-      }
-    }
+      const message = await this.retrieveMessage(id, uid);
+      if (options.filter && !options.filter(message)) continue;
 
-    const body = lines.slice(bodyStart).join('\r\n');
+      messages.push(message);
+      seen.add(uid);
+    }
 
-    return {
-      id: messageId,
-      uid: headers['message-id'] || `${messageId}`,
-      size: rawData.length,
-      headers,
-      from: headers.from || '',
-      to: this.parseAddressField(headers.to || ''),
-      subject: headers.subject || '',
-      date: this.parseDate(headers.date || new Date().toString()),
-      text: this.extractTextBody(body),
-      html: this.extractHtmlBody(body),
-      attachments: this.extractAttachments(body),
-      deleted: false,
-    };
+    await this.uidStore.save(Array.from(seen).filter((uid) => present.has(uid)));
+    return messages;
   }
 
-  private parseHeaders(rawData: string): Record<string, string> {
-    const headers: Record<string, string> = {};
-    const lines = rawData.split('\r\n');
+  getCapabilities(): string[] {
+    return Array.from(this.capabilities.keys());
+  }
 
-    for (const line of lines) {
-      if (line.includes(':')) {
-        const colonIndex = line.indexOf(':');
-        const key = line.substring(0, colonIndex).trim();
-        const value = line.substring(colonIndex + 1).trim();
-        headers[key.toLowerCase()] = value;
+  private async loadCapabilities(): Promise<void> {
+    this.capabilities.clear();
+    try {
+      const { lines } = await this.multiline('CAPA');
+      for (const line of lines) {
+        const [name, ...args] = line.toString('latin1').trim().split(/\s+/);
+        if (name) this.capabilities.set(name.toUpperCase(), args);
       }
+    } catch (error) {
+      // CAPA (RFC 2449) is optional; older servers answer -ERR.
+      if (!(error instanceof Pop3Error) || error.response === undefined) throw error;
     }
+  }
 
-    return headers;
+  private command(line: string): Promise<string> {
+    return this.enqueue(async () => {
+      await this.connection!.write(`${line}\r\n`);
+      return this.readStatus();
+    });
   }
 
-  private parseAddressField(field: string): string[] {
-    if (!field) return [];
+  /**
+   * Sends a command with a multi-line response and returns the
+   * dot-unstuffed lines plus the reassembled raw payload.
+   */
+  private multiline(line: string): Promise<{ lines: Buffer[]; raw: Buffer }> {
+    return this.enqueue(async () => {
+      await this.connection!.write(`${line}\r\n`);
+      await this.readStatus();
+
+      const lines: Buffer[] = [];
+      for (;;) {
+        const data = await this.connection!.readLineBuffer();
+        if (data.length === 1 && data[0] === 0x2e) break;
+        lines.push(data[0] === 0x2e ? data.subarray(1) : data);
+      }
 
-    const addresses: string[] = [];
-    const parts = field.split(',');
+      const raw = Buffer.concat(lines.flatMap((data) => [data, Buffer.from('\r\n')]));
+      return { lines, raw };
+    });
+  }
 
-    for (const part of parts) {
-      const address = part.trim();
-      if (address) {
-        addresses.push(address);
+  /** Sends a SASL `AUTH` command (RFC 5034), answering challenges with `onChallenge`. */
+  private saslCommand(line: string, onChallenge: (text: string) => string): Promise<void> {
+    return this.enqueue(async () => {
+      await this.connection!.write(`${line}\r\n`);
+      for (;;) {
+        const response = await this.connection!.readLine();
+        if (response.startsWith('+OK')) {
+          return;
+        }
+        if (!response.startsWith('+')) {
+          const text = response.startsWith('-ERR') ? response.slice(4).trim() : response;
+          throw new Pop3Error(text || 'Authentication failed', response);
+        }
+        await this.connection!.write(`${onChallenge(response.slice(1).trim())}\r\n`);
       }
-    }
-
-    return addresses;
+    });
   }
 
-  private parseDate(dateString: string): Date {
-    const date = new Date(dateString);
-    return isNaN(date.getTime()) ? new Date() : date;
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(() => {
+      if (!this.connection) {
+        throw new Pop3Error('Not connected to POP3 server');
+      }
+      return task();
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
   }
 
-  private extractTextBody(body: string): string {
-    const textMatch = body.match(
-      /Content-Type: text\/plain[\s\S]*?\r\n\r\n([\s\S]*?)(?=\r\n--|\r\nContent-Type:|$)/i
-    );
-    return textMatch ? textMatch[1].trim() : body;
+  private async readStatus(): Promise<string> {
+    const line = await this.connection!.readLine();
+    if (line.startsWith('+OK')) {
+      return line.slice(3).trim();
+    }
+    const text = line.startsWith('-ERR') ? line.slice(4).trim() : line;
+    throw new Pop3Error(text || 'Command failed', line);
   }
 
-  private extractHtmlBody(body: string): string {
-    const htmlMatch = body.match(
-      /Content-Type: text\/html[\s\S]*?\r\n\r\n([\s\S]*?)(?=\r\n--|\r\nContent-Type:|$)/i
-    );
-    return htmlMatch ? htmlMatch[1].trim() : '';
+  private handleClose(): void {
+    const wasConnected = this.connected;
+    this.connection = null;
+    this.connected = false;
+    this.authenticated = false;
+    if (wasConnected) {
+      this.emit('disconnected');
+    }
   }
 
-  private extractAttachments(body: string): Array<{
-    filename: string;
-    contentType: string;
-    size: number;
-    content: Uint8Array;
-  }> {
-    const attachments: Array<{
-      filename: string;
-      contentType: string;
-      size: number;
-      content: Uint8Array;
-    }> = [];
-
-    const attachmentRegex =
-      /Content-Type: ([\s\S]*?);[\s\S]*?filename="([^"]*)"[\s\S]*?\r\n\r\n([\s\S]*?)(?=\r\n--|\r\nContent-Type:|$)/gi;
-    let match;
-
-    while ((match = attachmentRegex.exec(body)) !== null) {
-      const contentType = match[1].trim();
-      const filename = match[2].trim();
-      const content = match[3].trim();
-
-      attachments.push({
-        filename,
-        contentType,
-        size: content.length,
-        content: new TextEncoder().encode(content),
-      });
+  private assertConnected(): void {
+    if (!this.connection || !this.connected) {
+      throw new Pop3Error('Not connected to POP3 server');
     }
+  }
+
+  private parseMessage(rawData: string | Uint8Array, messageId: number, uid?: string): Pop3Message {
+    const parsed = parseMessage(rawData);
+    const headers = parsed.headers;
 
-    return attachments;
+    return {
+      id: messageId,
+      uid: uid || headers['message-id'] || `${messageId}`,
+      size: parsed.size,
+      headers,
+      from: headers.from || '',
+      to: splitAddressList(headers.to),
+      subject: headers.subject || '',
+      date: this.parseDate(headers.date || new Date().toString()),
+      text: parsed.text,
+      html: parsed.html,
+      attachments: parsed.attachments.map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        content: attachment.content,
+        contentId: attachment.contentId,
+      })),
+      deleted: false,
+    };
+  }
+
+  private parseHeaders(rawData: string | Uint8Array): Record<string, string> {
+    return parseMessage(rawData).headers;
+  }
+
+  private parseDate(dateString: string): Date {
+    const date = new Date(dateString);
+    return isNaN(date.getTime()) ? new Date() : date;
   }
 
   isConnected(): boolean {
     return this.connected;
   }
+
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
 }
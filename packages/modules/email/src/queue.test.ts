@@ -0,0 +1,254 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EmailQueue, FileQueueStore, MemoryQueueStore, QueueTransport } from './queue';
+import { SmtpError } from './smtp';
+import type { EmailOptions, SendResult } from './types';
+
+interface FakeServer {
+  sent: EmailOptions[];
+  connects: number;
+  active: number;
+  maxActive: number;
+  /** Errors returned for successive attempts; `null` means deliver. */
+  script: Array<Error | null>;
+}
+
+function fakeServer(script: Array<Error | null> = []): FakeServer {
+  return { sent: [], connects: 0, active: 0, maxActive: 0, script };
+}
+
+function transportFor(server: FakeServer): () => QueueTransport {
+  return () => ({
+    connect: async () => {
+      server.connects++;
+    },
+    disconnect: async () => undefined,
+    sendEmail: async (options: EmailOptions): Promise<SendResult> => {
+      server.active++;
+      server.maxActive = Math.max(server.maxActive, server.active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      server.active--;
+
+      const failure = server.script.shift();
+      if (failure) throw failure;
+
+      server.sent.push(options);
+      return {
+        messageId: `<${server.sent.length}@test>`,
+        accepted: [String(options.to)],
+        rejected: [],
+        pending: [],
+        response: '250 OK',
+        envelope: { from: options.from, to: [String(options.to)] },
+      };
+    },
+  });
+}
+
+const mail = (n: number): EmailOptions => ({
+  from: 'alice@example.com',
+  to: `bob${n}@example.com`,
+  subject: `Message ${n}`,
+  text: 'Hello',
+});
+
+describe('EmailQueue', () => {
+  let queue: EmailQueue;
+
+  afterEach(async () => {
+    await queue?.stop();
+  });
+
+  it('delivers through at most maxConnections pooled connections', async () => {
+    const server = fakeServer();
+    queue = new EmailQueue({ createTransport: transportFor(server), maxConnections: 2 });
+    await queue.start();
+
+    await Promise.all([1, 2, 3, 4, 5].map((n) => queue.enqueue(mail(n))));
+    await queue.flush();
+
+    expect(server.sent.map((options) => options.subject)).toHaveLength(5);
+    expect(server.maxActive).toBe(2);
+    expect(server.connects).toBe(2);
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it('rejects flush while the queue is not running', async () => {
+    const server = fakeServer();
+    queue = new EmailQueue({ createTransport: transportFor(server) });
+    await queue.flush();
+
+    await queue.enqueue(mail(1));
+    await expect(queue.flush()).rejects.toThrow('Email queue is not running');
+
+    await queue.start();
+    await queue.flush();
+    expect(server.sent).toHaveLength(1);
+  });
+
+  it('reconnects after maxMessages deliveries', async () => {
+    const server = fakeServer();
+    queue = new EmailQueue({ createTransport: transportFor(server), pool: false, maxMessages: 2 });
+    await queue.start();
+
+    for (const n of [1, 2, 3, 4, 5]) await queue.enqueue(mail(n));
+    await queue.flush();
+
+    expect(server.maxActive).toBe(1);
+    expect(server.connects).toBe(3);
+  });
+
+  it('spreads deliveries to respect rateLimit per rateDelta', async () => {
+    const server = fakeServer();
+    queue = new EmailQueue({
+      createTransport: transportFor(server),
+      rateLimit: 2,
+      rateDelta: 100,
+    });
+    await queue.start();
+
+    const started = Date.now();
+    for (const n of [1, 2, 3, 4, 5]) await queue.enqueue(mail(n));
+    await queue.flush();
+
+    expect(server.sent).toHaveLength(5);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(195);
+  });
+
+  it('retries transient failures with exponential backoff', async () => {
+    const server = fakeServer([
+      new SmtpError('Mailbox busy', 451),
+      new Error('Connection reset'),
+      null,
+    ]);
+    queue = new EmailQueue({ createTransport: transportFor(server), retryDelay: 20 });
+    const retries: number[] = [];
+    queue.on('retry', (entry) => retries.push(entry.nextAttemptAt.getTime() - Date.now()));
+    await queue.start();
+
+    await queue.enqueue(mail(1));
+    await queue.flush();
+
+    expect(server.sent).toHaveLength(1);
+    expect(retries).toHaveLength(2);
+    expect(retries[0]).toBeLessThanOrEqual(20);
+    expect(retries[1]).toBeGreaterThan(20);
+    expect(server.sent[0].date).toBeInstanceOf(Date);
+  });
+
+  it('retries only the recipients deferred with a 4xx reply', async () => {
+    const sent: EmailOptions[] = [];
+    queue = new EmailQueue({
+      createTransport: () => ({
+        connect: async () => undefined,
+        disconnect: async () => undefined,
+        sendEmail: async (options: EmailOptions): Promise<SendResult> => {
+          sent.push(options);
+          const to = options.envelope?.to ?? (options.to as string[]);
+          const pending = sent.length === 1 ? ['carol@example.com'] : [];
+          return {
+            messageId: `<${sent.length}@test>`,
+            accepted: to.filter((address) => !pending.includes(address)),
+            rejected: [],
+            pending,
+            response: '250 OK',
+            envelope: { from: options.from, to },
+          };
+        },
+      }),
+      retryDelay: 1,
+    });
+    const retries: Array<number | undefined> = [];
+    queue.on('retry', (entry) => retries.push(entry.responseCode));
+    await queue.start();
+
+    await queue.enqueue({ ...mail(1), to: ['bob@example.com', 'carol@example.com'] });
+    await queue.flush();
+
+    expect(sent).toHaveLength(2);
+    expect(sent[0].envelope).toBeUndefined();
+    expect(sent[1].envelope).toEqual({ to: ['carol@example.com'] });
+    expect(sent[1].to).toEqual(['bob@example.com', 'carol@example.com']);
+    expect(retries).toEqual([450]);
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it('dead-letters permanent failures and exhausted retries', async () => {
+    const server = fakeServer([
+      new SmtpError('User unknown', 550),
+      new SmtpError('Try later', 421),
+      new SmtpError('Try later', 421),
+    ]);
+    queue = new EmailQueue({
+      createTransport: transportFor(server),
+      pool: false,
+      retryDelay: 1,
+      maxAttempts: 2,
+    });
+    const failed: string[] = [];
+    queue.on('failed', (entry) => failed.push(entry.options.subject));
+    await queue.start();
+
+    await queue.enqueue(mail(1));
+    await queue.enqueue(mail(2));
+    await queue.flush();
+
+    expect(failed).toEqual(['Message 1', 'Message 2']);
+    const deadLetters = queue.getDeadLetters();
+    expect(deadLetters.map((entry) => [entry.attempts, entry.responseCode])).toEqual([
+      [1, 550],
+      [2, 421],
+    ]);
+
+    expect(await queue.retryDeadLetter(deadLetters[0].id)).toBe(true);
+    await queue.flush();
+    expect(server.sent.map((options) => options.subject)).toEqual(['Message 1']);
+  });
+
+  it('keeps pending mail in the store across restarts', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'email-queue-'));
+    const file = path.join(directory, 'queue.json');
+
+    try {
+      const server = fakeServer();
+      queue = new EmailQueue({
+        createTransport: transportFor(server),
+        store: new FileQueueStore(file),
+      });
+      await queue.enqueue({
+        ...mail(1),
+        attachments: [{ filename: 'data.bin', content: new Uint8Array([0, 1, 254, 255]) }],
+      });
+      await queue.stop();
+      expect(server.sent).toEqual([]);
+
+      queue = new EmailQueue({
+        createTransport: transportFor(server),
+        store: new FileQueueStore(file),
+      });
+      await queue.start();
+      await queue.flush();
+
+      expect(server.sent).toHaveLength(1);
+      expect(server.sent[0].date).toBeInstanceOf(Date);
+      expect(Array.from(server.sent[0].attachments![0].content as Uint8Array)).toEqual([
+        0, 1, 254, 255,
+      ]);
+      expect(await new FileQueueStore(file).load()).toEqual({ pending: [], deadLetters: [] });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('persists messages as soon as they are enqueued', async () => {
+    const store = new MemoryQueueStore();
+    queue = new EmailQueue({ createTransport: transportFor(fakeServer()), store });
+    await queue.enqueue(mail(1));
+
+    expect((await store.load())?.pending.map((entry) => entry.options.subject)).toEqual([
+      'Message 1',
+    ]);
+  });
+});
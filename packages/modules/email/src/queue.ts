@@ -0,0 +1,402 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { SmtpError } from './smtp';
+import type {
+  EmailOptions,
+  EmailQueueConfig,
+  EmailQueueState,
+  EmailQueueStore,
+  QueuedEmail,
+  SendResult,
+  SmtpConfig,
+} from './types';
+
+/** The part of `SmtpClient` the queue drives; one instance per pooled connection. */
+export interface QueueTransport {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  sendEmail(options: EmailOptions): Promise<SendResult>;
+}
+
+export interface EmailQueueOptions
+  extends EmailQueueConfig,
+    Pick<SmtpConfig, 'pool' | 'maxConnections' | 'maxMessages' | 'rateDelta' | 'rateLimit'> {
+  createTransport: () => QueueTransport;
+}
+
+export class MemoryQueueStore implements EmailQueueStore {
+  private state: EmailQueueState | null = null;
+
+  async load(): Promise<EmailQueueState | null> {
+    return this.state;
+  }
+
+  async save(state: EmailQueueState): Promise<void> {
+    this.state = state;
+  }
+}
+
+/**
+ * Stores the queue as a JSON file, replaced atomically on every save.
+ * Binary attachment content is kept as base64.
+ */
+export class FileQueueStore implements EmailQueueStore {
+  constructor(private path: string) {}
+
+  async load(): Promise<EmailQueueState | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const state = JSON.parse(data, (_key, value) =>
+      value && typeof value.$base64 === 'string'
+        ? new Uint8Array(Buffer.from(value.$base64, 'base64'))
+        : value
+    );
+    return {
+      pending: state.pending.map(reviveEntry),
+      deadLetters: state.deadLetters.map(reviveEntry),
+    };
+  }
+
+  async save(state: EmailQueueState): Promise<void> {
+    const data = JSON.stringify(state, (_key, value) => {
+      if (value instanceof Uint8Array) {
+        return { $base64: Buffer.from(value).toString('base64') };
+      }
+      if (value && value.type === 'Buffer' && Array.isArray(value.data)) {
+        return { $base64: Buffer.from(value.data).toString('base64') };
+      }
+      return value;
+    });
+    const temporary = `${this.path}.tmp`;
+    await fs.writeFile(temporary, data, 'utf8');
+    await fs.rename(temporary, this.path);
+  }
+}
+
+function reviveEntry(entry: QueuedEmail): QueuedEmail {
+  return {
+    ...entry,
+    createdAt: new Date(entry.createdAt),
+    nextAttemptAt: new Date(entry.nextAttemptAt),
+    options: {
+      ...entry.options,
+      date: entry.options.date ? new Date(entry.options.date) : undefined,
+    },
+  };
+}
+
+interface PooledConnection {
+  transport: QueueTransport;
+  connected: boolean;
+  busy: boolean;
+  messages: number;
+}
+
+/**
+ * Outbound queue on top of pooled SMTP connections. Honours the
+ * `maxConnections`, `maxMessages`, `rateDelta` and `rateLimit` SMTP
+ * settings, retries transient (4xx and network) failures with exponential
+ * backoff and dead-letters permanent (5xx) ones. Recipients deferred with a
+ * 4xx reply while others accepted the message are retried on their own.
+ *
+ * Events: `sent` (entry, result), `retry` (entry, error),
+ * `failed` (entry, error), `idle` once nothing is left to deliver and
+ * `stopped`.
+ */
+export class EmailQueue extends EventEmitter {
+  private pending: QueuedEmail[] = [];
+  private deadLetters: QueuedEmail[] = [];
+  private inFlight = new Set<string>();
+  private connections: PooledConnection[] = [];
+  private sendTimes: number[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private loaded: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private options: EmailQueueOptions;
+  private store: EmailQueueStore;
+
+  constructor(options: EmailQueueOptions) {
+    super();
+    this.options = {
+      ...options,
+      maxAttempts: options.maxAttempts ?? 5,
+      retryDelay: options.retryDelay ?? 30000,
+      maxRetryDelay: options.maxRetryDelay ?? 3600000,
+      maxConnections: options.maxConnections ?? 5,
+    };
+    this.store = options.store || new MemoryQueueStore();
+  }
+
+  /**
+   * Restores persisted entries and starts delivering. Safe to call more
+   * than once.
+   */
+  async start(): Promise<void> {
+    await this.load();
+    this.running = true;
+    this.pump();
+  }
+
+  /**
+   * Stops scheduling new deliveries, waits for in-flight ones and closes
+   * pooled connections. Undelivered mail stays in the store.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.clearTimer();
+    this.emit('stopped');
+    while (this.inFlight.size > 0) {
+      await new Promise((resolve) => this.once('settled', resolve));
+    }
+    await Promise.all(
+      this.connections
+        .filter((connection) => connection.connected)
+        .map((connection) => connection.transport.disconnect().catch(() => undefined))
+    );
+    this.connections = [];
+    await this.saving;
+  }
+
+  /**
+   * Persists a message for delivery and returns its queue id. The `date`
+   * is pinned so retries produce the same Message-ID.
+   */
+  async enqueue(options: EmailOptions): Promise<string> {
+    await this.load();
+
+    const now = new Date();
+    const entry: QueuedEmail = {
+      id: randomUUID(),
+      options: { ...options, date: options.date || now },
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now,
+    };
+    this.pending.push(entry);
+    await this.persist();
+    this.pump();
+
+    return entry.id;
+  }
+
+  /**
+   * Resolves once every pending message is delivered or dead-lettered.
+   * Rejects when the queue is not running, or stops, with mail still pending.
+   */
+  async flush(): Promise<void> {
+    while (this.pending.length > 0) {
+      if (!this.running) {
+        throw new Error('Email queue is not running; call start() before flush()');
+      }
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          this.off('settled', done);
+          this.off('stopped', done);
+          resolve();
+        };
+        this.once('settled', done);
+        this.once('stopped', done);
+      });
+    }
+  }
+
+  getPending(): QueuedEmail[] {
+    return [...this.pending];
+  }
+
+  getDeadLetters(): QueuedEmail[] {
+    return [...this.deadLetters];
+  }
+
+  /** Moves a dead-lettered message back to the queue with a fresh budget. */
+  async retryDeadLetter(id: string): Promise<boolean> {
+    const index = this.deadLetters.findIndex((entry) => entry.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    const [entry] = this.deadLetters.splice(index, 1);
+    this.pending.push({ ...entry, attempts: 0, nextAttemptAt: new Date() });
+    await this.persist();
+    this.pump();
+    return true;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.load().then((state) => {
+        if (state) {
+          this.pending = [...state.pending, ...this.pending];
+          this.deadLetters = [...state.deadLetters, ...this.deadLetters];
+        }
+      });
+    }
+    return this.loaded;
+  }
+
+  private pump(): void {
+    if (!this.running) {
+      return;
+    }
+    this.clearTimer();
+
+    const now = Date.now();
+    const limit = this.options.pool === false ? 1 : this.options.maxConnections!;
+
+    while (this.inFlight.size < limit) {
+      const entry = this.pending.find(
+        (candidate) => !this.inFlight.has(candidate.id) && candidate.nextAttemptAt.getTime() <= now
+      );
+      if (!entry) break;
+
+      const wait = this.rateLimitWait(now);
+      if (wait > 0) {
+        this.schedule(wait);
+        return;
+      }
+
+      this.sendTimes.push(now);
+      this.inFlight.add(entry.id);
+      void this.deliver(entry);
+    }
+
+    const waiting = this.pending
+      .filter((entry) => !this.inFlight.has(entry.id))
+      .map((entry) => entry.nextAttemptAt.getTime());
+    if (waiting.length > 0 && this.inFlight.size < limit) {
+      this.schedule(Math.max(0, Math.min(...waiting) - now));
+    }
+  }
+
+  /** Milliseconds until another message fits in the `rateLimit` window. */
+  private rateLimitWait(now: number): number {
+    const { rateLimit, rateDelta = 1000 } = this.options;
+    if (!rateLimit) {
+      return 0;
+    }
+
+    this.sendTimes = this.sendTimes.filter((time) => time > now - rateDelta);
+    if (this.sendTimes.length < rateLimit) {
+      return 0;
+    }
+    return this.sendTimes[0] + rateDelta - now;
+  }
+
+  private async deliver(entry: QueuedEmail): Promise<void> {
+    const connection = this.acquire();
+    entry.attempts++;
+
+    try {
+      if (!connection.connected) {
+        await connection.transport.connect();
+        connection.connected = true;
+        connection.messages = 0;
+      }
+
+      const result = await connection.transport.sendEmail(entry.options);
+      connection.messages++;
+      if (this.options.maxMessages && connection.messages >= this.options.maxMessages) {
+        connection.connected = false;
+        await connection.transport.disconnect().catch(() => undefined);
+      }
+
+      this.emit('sent', entry, result);
+      if (result.pending.length > 0) {
+        entry.options = { ...entry.options, envelope: { to: result.pending } };
+        this.retryOrFail(
+          entry,
+          new SmtpError(`Delivery deferred for ${result.pending.join(', ')}`, 450)
+        );
+      } else {
+        this.pending = this.pending.filter((candidate) => candidate.id !== entry.id);
+      }
+    } catch (error) {
+      if ((error as { responseCode?: number }).responseCode === undefined && connection.connected) {
+        // Network-level failure: start over with a fresh connection.
+        connection.connected = false;
+        await connection.transport.disconnect().catch(() => undefined);
+      }
+      this.retryOrFail(entry, error);
+    } finally {
+      connection.busy = false;
+      this.inFlight.delete(entry.id);
+      await this.persist().catch((error) => console.error('Failed to persist email queue:', error));
+      this.emit('settled');
+      if (this.pending.length === 0 && this.inFlight.size === 0) {
+        this.emit('idle');
+      }
+      this.pump();
+    }
+  }
+
+  /** Schedules another attempt with backoff, or dead-letters permanent and exhausted failures. */
+  private retryOrFail(entry: QueuedEmail, error: unknown): void {
+    const responseCode = (error as { responseCode?: number }).responseCode;
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    entry.responseCode = responseCode;
+
+    const permanent = responseCode !== undefined && responseCode >= 500;
+    if (permanent || entry.attempts >= this.options.maxAttempts!) {
+      this.pending = this.pending.filter((candidate) => candidate.id !== entry.id);
+      this.deadLetters.push(entry);
+      this.emit('failed', entry, error);
+    } else {
+      const delay = Math.min(
+        this.options.retryDelay! * 2 ** (entry.attempts - 1),
+        this.options.maxRetryDelay!
+      );
+      entry.nextAttemptAt = new Date(Date.now() + delay);
+      this.emit('retry', entry, error);
+    }
+  }
+
+  private acquire(): PooledConnection {
+    let connection = this.connections.find((candidate) => !candidate.busy);
+    if (!connection) {
+      connection = {
+        transport: this.options.createTransport(),
+        connected: false,
+        busy: false,
+        messages: 0,
+      };
+      this.connections.push(connection);
+    }
+    connection.busy = true;
+    return connection;
+  }
+
+  private persist(): Promise<void> {
+    const state: EmailQueueState = {
+      pending: this.pending.map((entry) => ({ ...entry })),
+      deadLetters: this.deadLetters.map((entry) => ({ ...entry })),
+    };
+    const save = this.saving.then(() => this.store.save(state));
+    this.saving = save.catch(() => undefined);
+    return save;
+  }
+
+  private schedule(delay: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, delay);
+    // A scheduled retry alone does not keep the process running.
+    this.timer.unref?.();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
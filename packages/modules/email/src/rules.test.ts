@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import { MailRulesEngine, RuleError } from './rules';
+import { MailSandbox } from './sandbox';
+import { SmtpClient } from './smtp';
+import { EmailManager } from './index';
+import type { ImapMessage, MailRule } from './types';
+
+function message(overrides: Partial<ImapMessage> = {}): ImapMessage {
+  return {
+    uid: 1,
+    flags: [],
+    date: new Date('2026-05-01T12:00:00Z'),
+    structure: null,
+    headers: {
+      from: 'Alice <alice@example.com>',
+      to: 'bob@example.com',
+      subject: 'Quarterly report',
+      'list-id': '<team.lists.example.com>',
+    },
+    text: 'Numbers attached.',
+    attachments: [
+      {
+        filename: 'report.pdf',
+        contentType: 'application/pdf',
+        size: 2048,
+        content: new Uint8Array(),
+      },
+    ],
+    raw: new Uint8Array(4096),
+    ...overrides,
+  };
+}
+
+const names = (rules: MailRule[]) => rules.map((rule) => rule.name);
+
+describe('MailRulesEngine.match', () => {
+  it('matches fields with every operator', () => {
+    const rules: MailRule[] = [
+      {
+        name: 'from',
+        conditions: [{ field: 'from', operator: 'is', value: 'ALICE@example.com' }],
+        actions: [],
+      },
+      {
+        name: 'subject',
+        conditions: [{ field: 'subject', operator: 'matches', value: 'quarterly *' }],
+        actions: [],
+      },
+      {
+        name: 'list',
+        conditions: [{ field: 'header', header: 'List-Id', operator: 'exists' }],
+        actions: [],
+      },
+      {
+        name: 'body',
+        conditions: [{ field: 'body', operator: 'regex', value: '^numbers' }],
+        actions: [],
+      },
+      {
+        name: 'pdf',
+        conditions: [{ field: 'attachment', operator: 'matches', value: '*.pdf' }],
+        actions: [],
+      },
+      { name: 'large', conditions: [{ field: 'size', value: 1024 }], actions: [] },
+      {
+        name: 'small',
+        conditions: [{ field: 'size', operator: 'under', value: 1024 }],
+        actions: [],
+      },
+      { name: 'to', conditions: [{ field: 'to', value: 'carol' }], actions: [] },
+    ];
+
+    expect(names(new MailRulesEngine(rules).match(message()))).toEqual([
+      'from',
+      'subject',
+      'list',
+      'body',
+      'pdf',
+      'large',
+    ]);
+  });
+
+  it('combines conditions and honours stop and enabled', () => {
+    const rules: MailRule[] = [
+      { name: 'disabled', enabled: false, actions: [] },
+      {
+        name: 'any',
+        match: 'any',
+        conditions: [
+          { field: 'subject', value: 'invoice' },
+          {
+            all: [
+              { field: 'from', value: 'example.com' },
+              { not: { field: 'to', value: 'carol' } },
+            ],
+          },
+        ],
+        actions: [],
+        stop: true,
+      },
+      { name: 'after stop', actions: [] },
+    ];
+
+    expect(names(new MailRulesEngine(rules).match(message()))).toEqual(['any']);
+    expect(names(new MailRulesEngine(rules).match(message({ headers: {} })))).toEqual([
+      'after stop',
+    ]);
+  });
+
+  it('rejects invalid regex patterns when the rules are loaded', () => {
+    const rules: MailRule[] = [
+      {
+        name: 'broken',
+        conditions: [{ not: { field: 'subject', operator: 'regex', value: '(unclosed' } }],
+        actions: [],
+      },
+    ];
+
+    expect(() => new MailRulesEngine(rules)).toThrow(RuleError);
+    expect(() => new MailRulesEngine(rules)).toThrow(/Rule "broken" has an invalid regex/);
+  });
+});
+
+describe('EmailManager.applyRules', () => {
+  let sandbox: MailSandbox;
+  let webhook: http.Server;
+  let payloads: Array<Record<string, unknown>>;
+  let webhookUrl: string;
+
+  beforeEach(async () => {
+    sandbox = new MailSandbox({ smtpPort: 0, imapPort: 0, pop3Port: 0, httpPort: false });
+    await sandbox.start();
+    await sandbox.createMailbox('Reports');
+
+    payloads = [];
+    webhook = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        payloads.push({ ...JSON.parse(body), token: req.headers['x-token'] });
+        res.writeHead(req.url === '/fail' ? 500 : 204);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => webhook.listen(0, '127.0.0.1', resolve));
+    webhookUrl = `http://127.0.0.1:${(webhook.address() as { port: number }).port}`;
+
+    const smtp = new SmtpClient(sandbox.getEmailConfig().smtp!);
+    await smtp.connect();
+    await smtp.sendEmail({
+      from: 'alice@example.com',
+      to: 'bob@example.com',
+      subject: 'Report',
+      text: 'Q2',
+    });
+    await smtp.sendEmail({
+      from: 'carol@example.com',
+      to: 'bob@example.com',
+      subject: 'Lunch?',
+      text: 'Noon',
+    });
+    await smtp.disconnect();
+  });
+
+  afterEach(async () => {
+    await sandbox.stop();
+    await new Promise((resolve) => webhook.close(resolve));
+  });
+
+  it('applies flag, seen, webhook, forward and move actions', async () => {
+    const manager = new EmailManager({
+      ...sandbox.getEmailConfig(),
+      rules: [
+        {
+          name: 'reports',
+          conditions: [{ field: 'subject', operator: 'is', value: 'report' }],
+          actions: [
+            { type: 'flag', flags: ['\\Flagged'] },
+            { type: 'webhook', url: `${webhookUrl}/hook`, headers: { 'X-Token': 'abc' } },
+            { type: 'forward', to: 'archive@example.com' },
+            { type: 'move', mailbox: 'Reports' },
+          ],
+        },
+        { name: 'read all', actions: [{ type: 'seen' }] },
+      ],
+    });
+    // SMTP is connected by the first forward.
+    await manager.connect('imap');
+    try {
+      const results = await manager.applyRules();
+      expect(results).toEqual([
+        { uid: 1, rules: ['reports', 'read all'], movedTo: 'Reports' },
+        { uid: 2, rules: ['read all'] },
+      ]);
+      // Only the forwarded copy, delivered back into the sandbox INBOX, is still unseen.
+      expect(await manager.applyRules()).toEqual([{ uid: 3, rules: ['read all'] }]);
+    } finally {
+      await manager.disconnectAll();
+    }
+
+    const [moved] = sandbox.getMessages({ mailbox: 'Reports' });
+    expect(moved.flags.sort()).toEqual(['\\Flagged', '\\Seen']);
+    expect(sandbox.getMessages({ mailbox: 'INBOX', subject: 'Lunch?' })[0].flags).toEqual([
+      '\\Seen',
+    ]);
+    expect(payloads).toEqual([
+      expect.objectContaining({
+        rule: 'reports',
+        mailbox: 'INBOX',
+        uid: 1,
+        subject: 'Report',
+        token: 'abc',
+      }),
+    ]);
+
+    const forwarded = sandbox.getMessages({ to: 'archive@example.com' });
+    expect(forwarded).toHaveLength(1);
+    expect(Buffer.from(forwarded[0].raw).toString()).toMatch(/Subject: Fwd: Report/);
+    expect(Buffer.from(forwarded[0].raw).toString()).toMatch(/message\/rfc822/);
+  });
+
+  it('reports failing actions per message and still moves the messages', async () => {
+    const manager = new EmailManager({ imap: sandbox.getEmailConfig().imap });
+    await manager.connectAll();
+    try {
+      const results = await manager.applyRules({
+        rules: [
+          {
+            name: 'notify',
+            actions: [
+              { type: 'webhook', url: `${webhookUrl}/fail` },
+              { type: 'forward', to: 'archive@example.com' },
+              { type: 'move', mailbox: 'Reports' },
+            ],
+          },
+        ],
+      });
+
+      expect(results.map((result) => result.movedTo)).toEqual(['Reports', 'Reports']);
+      for (const result of results) {
+        expect(result.errors).toHaveLength(2);
+        expect(result.errors![0]).toBeInstanceOf(RuleError);
+        expect(result.errors![0]).toMatchObject({
+          rule: 'notify',
+          message: expect.stringMatching(/HTTP 500/),
+        });
+        expect(result.errors![1].message).toMatch(/no mailer is set/);
+      }
+    } finally {
+      await manager.disconnectAll();
+    }
+    expect(sandbox.getMessages({ mailbox: 'Reports' })).toHaveLength(2);
+    expect(sandbox.getMessages({ mailbox: 'INBOX' })).toHaveLength(0);
+  });
+});
@@ -0,0 +1,231 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { parseMessage } from './mime-parser';
+import type { MailSandbox } from './sandbox';
+import type { SandboxMessage, SandboxMessageFilter } from './types';
+
+/**
+ * HTTP handler for the sandbox inbox viewer (`/`, `/messages/:id`) and its
+ * JSON API under `/api`:
+ *
+ * - `GET /api/mailboxes`
+ * - `GET /api/messages?mailbox=&from=&to=&subject=` and `DELETE /api/messages`
+ * - `GET /api/messages/:id` and `DELETE /api/messages/:id`
+ * - `GET /api/messages/:id/raw`
+ * - `GET /api/messages/:id/attachments/:index`
+ */
+export function createSandboxHandler(
+  sandbox: MailSandbox
+): (request: IncomingMessage, response: ServerResponse) => void {
+  return (request, response) => {
+    handle(sandbox, request, response).catch((error) => {
+      if (!response.headersSent) {
+        sendJson(response, 500, {
+          error: error instanceof Error ? error.message : 'Internal error',
+        });
+      } else {
+        response.end();
+      }
+    });
+  };
+}
+
+async function handle(
+  sandbox: MailSandbox,
+  request: IncomingMessage,
+  response: ServerResponse
+): Promise<void> {
+  const url = new URL(request.url || '/', 'http://sandbox');
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const method = request.method || 'GET';
+  const filter: SandboxMessageFilter = {};
+  for (const key of ['mailbox', 'from', 'to', 'subject'] as const) {
+    const value = url.searchParams.get(key);
+    if (value) filter[key] = value;
+  }
+
+  if (segments[0] !== 'api') {
+    if (method === 'GET' && segments.length === 0) {
+      return sendHtml(response, 200, renderInbox(sandbox, filter));
+    }
+    const message = segments[0] === 'messages' ? sandbox.getMessage(segments[1]) : undefined;
+    if (method === 'GET' && segments.length === 2 && message) {
+      return sendHtml(response, 200, renderMessage(message));
+    }
+    return sendHtml(response, 404, page('Not found', '<p>Not found.</p>'));
+  }
+
+  const [, resource, id, child, index] = segments;
+  if (resource === 'mailboxes' && !id && method === 'GET') {
+    return sendJson(
+      response,
+      200,
+      sandbox.getMailboxes().map((mailbox) => ({
+        name: mailbox.name,
+        messages: mailbox.messages.length,
+        unseen: mailbox.messages.filter((message) => !message.flags.includes('\\Seen')).length,
+        uidnext: mailbox.uidnext,
+      }))
+    );
+  }
+
+  if (resource === 'messages' && !id) {
+    if (method === 'GET') {
+      return sendJson(response, 200, sandbox.getMessages(filter).map(summarize));
+    }
+    if (method === 'DELETE') {
+      await sandbox.clear();
+      return sendEmpty(response);
+    }
+  }
+
+  const message = resource === 'messages' && id ? sandbox.getMessage(id) : undefined;
+  if (message) {
+    if (!child && method === 'GET') {
+      return sendJson(response, 200, describe(message));
+    }
+    if (!child && method === 'DELETE') {
+      await sandbox.deleteMessage(message.id);
+      return sendEmpty(response);
+    }
+    if (child === 'raw' && method === 'GET') {
+      response.writeHead(200, { 'Content-Type': 'message/rfc822' });
+      response.end(Buffer.from(message.raw));
+      return;
+    }
+    const attachment =
+      child === 'attachments' && method === 'GET'
+        ? parseMessage(message.raw).attachments[Number(index)]
+        : undefined;
+    if (attachment) {
+      response.writeHead(200, {
+        'Content-Type': attachment.contentType,
+        'Content-Disposition': `attachment; filename="${attachment.filename.replace(/["\\\r\n]/g, '_')}"`,
+      });
+      response.end(Buffer.from(attachment.content));
+      return;
+    }
+  }
+
+  sendJson(response, 404, { error: 'Not found' });
+}
+
+function summarize(message: SandboxMessage) {
+  const { headers } = parseMessage(message.raw);
+  return {
+    id: message.id,
+    mailbox: message.mailbox,
+    uid: message.uid,
+    messageId: headers['message-id'],
+    from: headers.from,
+    to: headers.to,
+    cc: headers.cc,
+    subject: headers.subject,
+    date: headers.date,
+    receivedAt: message.date.toISOString(),
+    flags: message.flags,
+    size: message.raw.length,
+    envelope: message.envelope,
+  };
+}
+
+function describe(message: SandboxMessage) {
+  const parsed = parseMessage(message.raw);
+  return {
+    ...summarize(message),
+    headers: parsed.headers,
+    text: parsed.text,
+    html: parsed.html,
+    attachments: parsed.attachments.map((attachment, index) => ({
+      index,
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      contentId: attachment.contentId,
+      disposition: attachment.disposition,
+    })),
+  };
+}
+
+function renderInbox(sandbox: MailSandbox, filter: SandboxMessageFilter): string {
+  const tabs = sandbox
+    .getMailboxes()
+    .map(
+      (mailbox) =>
+        `<a href="/?mailbox=${encodeURIComponent(mailbox.name)}">${escapeHtml(mailbox.name)} (${mailbox.messages.length})</a>`
+    )
+    .join(' | ');
+  const rows = sandbox
+    .getMessages(filter)
+    .slice()
+    .reverse()
+    .map(summarize)
+    .map(
+      (message) =>
+        `<tr><td>${escapeHtml(message.receivedAt)}</td><td>${escapeHtml(message.from || '')}</td>` +
+        `<td>${escapeHtml(message.to || '')}</td>` +
+        `<td><a href="/messages/${encodeURIComponent(message.id)}">${escapeHtml(message.subject || '(no subject)')}</a></td></tr>`
+    )
+    .join('');
+
+  return page(
+    'Mail sandbox',
+    `<p>${tabs}</p><table><tr><th>Received</th><th>From</th><th>To</th><th>Subject</th></tr>${rows}</table>`
+  );
+}
+
+function renderMessage(message: SandboxMessage): string {
+  const details = describe(message);
+  const fields = (['from', 'to', 'cc', 'subject', 'date'] as const)
+    .filter((key) => details[key])
+    .map((key) => `<tr><th>${key}</th><td>${escapeHtml(details[key] || '')}</td></tr>`)
+    .join('');
+  const attachments = details.attachments
+    .map(
+      (attachment) =>
+        `<li><a href="/api/messages/${encodeURIComponent(message.id)}/attachments/${attachment.index}">${escapeHtml(attachment.filename)}</a> (${attachment.size} bytes)</li>`
+    )
+    .join('');
+  const body = details.html
+    ? `<iframe sandbox srcdoc="${escapeHtml(details.html)}"></iframe>`
+    : `<pre>${escapeHtml(details.text || '')}</pre>`;
+
+  return page(
+    details.subject || '(no subject)',
+    `<p><a href="/">&larr; Inbox</a> | <a href="/api/messages/${encodeURIComponent(message.id)}/raw">Raw</a></p>` +
+      `<table>${fields}</table>${attachments ? `<ul>${attachments}</ul>` : ''}${body}`
+  );
+}
+
+function page(title: string, content: string): string {
+  return (
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+    '<style>body{font-family:sans-serif;margin:2em}table{border-collapse:collapse}' +
+    'th,td{text-align:left;padding:4px 8px;border-bottom:1px solid #ddd}' +
+    'iframe{width:100%;height:70vh;border:1px solid #ddd}</style></head>' +
+    `<body><h1>${escapeHtml(title)}</h1>${content}</body></html>`
+  );
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function sendHtml(response: ServerResponse, status: number, html: string): void {
+  response.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  response.end(html);
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+}
+
+function sendEmpty(response: ServerResponse): void {
+  response.writeHead(204);
+  response.end();
+}
@@ -0,0 +1,978 @@
+import {
+  ImapValue,
+  LITERAL_MARKER,
+  decodeMailboxName,
+  encodeMailboxName,
+  formatInternalDate,
+  quoteString,
+  tokenize,
+  valueToString,
+} from './imap-protocol';
+import { parseAddress, splitAddressList } from './address';
+import { parseHeaderValue } from './encoding';
+import { ParsedMessage, parseMessage } from './mime-parser';
+import type { MailSocket } from './transport';
+import { INVALID_TOKEN_CHALLENGE, formatOAuth2Challenge } from './oauth';
+import type { MailSandbox } from './sandbox';
+import type { SandboxMailbox, SandboxMessage } from './types';
+
+const CAPABILITIES = [
+  'IMAP4rev1',
+  'LITERAL+',
+  'SASL-IR',
+  'AUTH=PLAIN',
+  'AUTH=XOAUTH2',
+  'AUTH=OAUTHBEARER',
+  'IDLE',
+  'UIDPLUS',
+  'MOVE',
+];
+const SYSTEM_FLAGS = ['\\Answered', '\\Flagged', '\\Deleted', '\\Seen', '\\Draft'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface Entry {
+  seq: number;
+  message: SandboxMessage;
+}
+
+class CommandError extends Error {
+  constructor(
+    public status: 'NO' | 'BAD',
+    message: string,
+    public code?: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * One IMAP4rev1 connection to the sandbox. Supports the commands issued by
+ * `ImapClient` (LOGIN/AUTHENTICATE PLAIN, LIST, SELECT, SEARCH, FETCH,
+ * STORE, COPY, MOVE, EXPUNGE, IDLE) plus APPEND, CREATE, DELETE and STATUS.
+ * Changes made through other connections are reported as untagged
+ * EXISTS/EXPUNGE responses at the end of the next command, or at once
+ * while idling.
+ */
+export class ImapSession {
+  private authenticated = false;
+  private selected: { mailbox: SandboxMailbox; readOnly: boolean; uids: number[] } | null = null;
+  private expunged: number[] = [];
+  private arrived = false;
+  private idling = false;
+  private loggedOut = false;
+
+  constructor(
+    private socket: MailSocket,
+    private sandbox: MailSandbox
+  ) {}
+
+  async run(): Promise<void> {
+    this.sandbox.on('message', this.onMessage);
+    this.sandbox.on('expunge', this.onExpunge);
+
+    try {
+      await this.send(`* OK [CAPABILITY ${CAPABILITIES.join(' ')}] Enterprise mail sandbox ready`);
+      while (!this.loggedOut) {
+        const { text, literals } = await this.readCommand();
+        if (text.trim()) {
+          await this.execute(text, literals);
+        }
+      }
+    } finally {
+      this.sandbox.removeListener('message', this.onMessage);
+      this.sandbox.removeListener('expunge', this.onExpunge);
+    }
+  }
+
+  private onMessage = (message: SandboxMessage): void => {
+    if (this.selected && message.mailbox === this.selected.mailbox.name) {
+      this.selected.uids.push(message.uid);
+      this.arrived = true;
+      if (this.idling) this.flush().catch(() => undefined);
+    }
+  };
+
+  private onExpunge = (message: SandboxMessage): void => {
+    if (this.selected && message.mailbox === this.selected.mailbox.name) {
+      this.expunged.push(message.uid);
+      if (this.idling) this.flush().catch(() => undefined);
+    }
+  };
+
+  private async execute(text: string, literals: Buffer[]): Promise<void> {
+    const values = tokenize(text, literals);
+    const tag = valueToString(values[0]);
+    let command = valueToString(values[1]).toUpperCase();
+    let args = values.slice(2);
+    const uid = command === 'UID';
+    if (uid) {
+      command = valueToString(args[0]).toUpperCase();
+      args = args.slice(1);
+    }
+
+    try {
+      const completion = await this.dispatch(command, args, uid);
+      // EXPUNGE must not be sent while answering FETCH, STORE or SEARCH (RFC 3501 §7.4.1).
+      if (uid || !['FETCH', 'STORE', 'SEARCH'].includes(command)) {
+        await this.flush();
+      }
+      await this.send(`${tag} OK ${completion}`);
+    } catch (error) {
+      if (error instanceof CommandError) {
+        const code = error.code ? `[${error.code}] ` : '';
+        await this.send(`${tag} ${error.status} ${code}${error.message}`);
+      } else {
+        await this.send(`${tag} BAD ${error instanceof Error ? error.message : 'Command failed'}`);
+      }
+    }
+  }
+
+  private async dispatch(command: string, args: ImapValue[], uid: boolean): Promise<string> {
+    switch (command) {
+      case 'CAPABILITY':
+        await this.send(`* CAPABILITY ${CAPABILITIES.join(' ')}`);
+        return 'CAPABILITY completed';
+      case 'NOOP':
+        return 'NOOP completed';
+      case 'LOGOUT':
+        await this.send('* BYE Logging out');
+        this.loggedOut = true;
+        return 'LOGOUT completed';
+      case 'LOGIN':
+        return this.login(valueToString(args[0]), valueToString(args[1]));
+      case 'AUTHENTICATE':
+        return this.authenticate(args);
+    }
+
+    if (!this.authenticated) {
+      throw new CommandError('NO', 'Not authenticated');
+    }
+
+    switch (command) {
+      case 'LIST':
+      case 'LSUB':
+        return this.list(command, valueToString(args[0]), valueToString(args[1]));
+      case 'CREATE':
+        await this.wrap(() => this.sandbox.createMailbox(this.mailboxName(args[0])));
+        return 'CREATE completed';
+      case 'DELETE':
+        await this.wrap(() => this.sandbox.deleteMailbox(this.mailboxName(args[0])));
+        return 'DELETE completed';
+      case 'STATUS':
+        return this.status(args);
+      case 'APPEND':
+        return this.append(args);
+      case 'SELECT':
+      case 'EXAMINE':
+        return this.select(command, this.mailboxName(args[0]));
+      case 'IDLE':
+        await this.idle();
+        return 'IDLE terminated';
+    }
+
+    const selected = this.selected;
+    if (!selected) {
+      throw new CommandError('BAD', 'No mailbox selected');
+    }
+
+    switch (command) {
+      case 'CLOSE':
+      case 'UNSELECT':
+        if (command === 'CLOSE' && !selected.readOnly) {
+          await this.sandbox.expunge(this.deletedMessages(this.entries()));
+        }
+        this.selected = null;
+        return `${command} completed`;
+      case 'EXPUNGE': {
+        const entries = uid ? this.resolve(valueToString(args[0]), true) : this.entries();
+        await this.sandbox.expunge(this.deletedMessages(entries));
+        return 'EXPUNGE completed';
+      }
+      case 'SEARCH':
+        return this.search(args, uid);
+      case 'FETCH':
+        return this.fetch(args, uid);
+      case 'STORE':
+        return this.store(args, uid);
+      case 'COPY':
+      case 'MOVE':
+        return this.copy(command, args, uid);
+      default:
+        throw new CommandError('BAD', `Unknown command ${command}`);
+    }
+  }
+
+  private async login(user: string, password: string): Promise<string> {
+    if (!this.sandbox.authenticate(user, (expected) => expected === password)) {
+      throw new CommandError('NO', 'Invalid credentials', 'AUTHENTICATIONFAILED');
+    }
+    this.authenticated = true;
+    return `[CAPABILITY ${CAPABILITIES.join(' ')}] LOGIN completed`;
+  }
+
+  private async authenticate(args: ImapValue[]): Promise<string> {
+    const mechanism = valueToString(args[0]).toUpperCase();
+    if (!['PLAIN', 'XOAUTH2', 'OAUTHBEARER'].includes(mechanism)) {
+      throw new CommandError('NO', 'Unsupported mechanism');
+    }
+
+    let token = args[1] === undefined ? '' : valueToString(args[1]);
+    if (!token) {
+      await this.send('+ ');
+      token = await this.socket.readLine();
+    }
+
+    if (mechanism !== 'PLAIN') {
+      if (!this.sandbox.authenticateOAuth2(token)) {
+        await this.send(`+ ${formatOAuth2Challenge(INVALID_TOKEN_CHALLENGE)}`);
+        await this.socket.readLine();
+        throw new CommandError('NO', 'Invalid credentials', 'AUTHENTICATIONFAILED');
+      }
+      this.authenticated = true;
+      return `[CAPABILITY ${CAPABILITIES.join(' ')}] AUTHENTICATE completed`;
+    }
+    const [, user = '', password = ''] = Buffer.from(token, 'base64')
+      .toString('utf8')
+      .split('\u0000');
+    return this.login(user, password);
+  }
+
+  private async list(command: string, reference: string, pattern: string): Promise<string> {
+    if (pattern === '') {
+      await this.send(`* ${command} (\\Noselect) "/" ""`);
+      return `${command} completed`;
+    }
+
+    const source = decodeMailboxName(reference + pattern)
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/%/g, '[^/]*');
+    const matcher = new RegExp(`^${source}$`, 'i');
+
+    for (const mailbox of this.sandbox.getMailboxes()) {
+      if (!matcher.test(mailbox.name)) continue;
+      const parent = this.sandbox
+        .getMailboxes()
+        .some((other) => other.name.startsWith(`${mailbox.name}/`));
+      await this.send(
+        `* ${command} (${parent ? '\\HasChildren' : '\\HasNoChildren'}) "/" ${this.mailboxString(mailbox.name)}`
+      );
+    }
+    return `${command} completed`;
+  }
+
+  private async status(args: ImapValue[]): Promise<string> {
+    const name = this.mailboxName(args[0]);
+    const mailbox = this.requireMailbox(name);
+    const items = Array.isArray(args[1]) ? args[1].map(valueToString) : [];
+
+    const values = items.map((item) => {
+      switch (item.toUpperCase()) {
+        case 'MESSAGES':
+          return `MESSAGES ${mailbox.messages.length}`;
+        case 'RECENT':
+          return 'RECENT 0';
+        case 'UIDNEXT':
+          return `UIDNEXT ${mailbox.uidnext}`;
+        case 'UIDVALIDITY':
+          return `UIDVALIDITY ${this.sandbox.getUidValidity()}`;
+        case 'UNSEEN':
+          return `UNSEEN ${mailbox.messages.filter((message) => !message.flags.includes('\\Seen')).length}`;
+        default:
+          throw new CommandError('BAD', `Unknown status item ${item}`);
+      }
+    });
+
+    await this.send(`* STATUS ${this.mailboxString(mailbox.name)} (${values.join(' ')})`);
+    return 'STATUS completed';
+  }
+
+  private async append(args: ImapValue[]): Promise<string> {
+    const name = this.mailboxName(args[0]);
+    const mailbox = this.sandbox.getMailbox(name);
+    if (!mailbox) {
+      throw new CommandError('NO', 'Mailbox does not exist', 'TRYCREATE');
+    }
+
+    const content = args[args.length - 1];
+    if (!Buffer.isBuffer(content)) {
+      throw new CommandError('BAD', 'Message literal expected');
+    }
+    const flags = Array.isArray(args[1]) ? args[1].map(valueToString) : [];
+    const dateValue = args.slice(1, -1).find((value) => typeof value === 'string');
+    const date = dateValue
+      ? new Date(String(dateValue).replace(/^(\s?\d+)-(\w+)-(\d+)/, '$1 $2 $3'))
+      : new Date();
+
+    const message = await this.sandbox.deliver(
+      content,
+      undefined,
+      mailbox.name,
+      flags,
+      isNaN(date.getTime()) ? new Date() : date
+    );
+    return `[APPENDUID ${this.sandbox.getUidValidity()} ${message.uid}] APPEND completed`;
+  }
+
+  private async select(command: string, name: string): Promise<string> {
+    this.selected = null;
+    const mailbox = this.requireMailbox(name);
+    const readOnly = command === 'EXAMINE';
+
+    this.selected = { mailbox, readOnly, uids: mailbox.messages.map((message) => message.uid) };
+    this.expunged = [];
+    this.arrived = false;
+
+    await this.send([
+      `* FLAGS (${SYSTEM_FLAGS.join(' ')})`,
+      `* OK [PERMANENTFLAGS (${SYSTEM_FLAGS.join(' ')} \\*)] Flags permitted`,
+      `* ${mailbox.messages.length} EXISTS`,
+      '* 0 RECENT',
+      `* OK [UIDVALIDITY ${this.sandbox.getUidValidity()}] UIDs valid`,
+      `* OK [UIDNEXT ${mailbox.uidnext}] Predicted next UID`,
+    ]);
+    return `[${readOnly ? 'READ-ONLY' : 'READ-WRITE'}] ${command} completed`;
+  }
+
+  private async idle(): Promise<void> {
+    await this.send('+ idling');
+    this.idling = true;
+    try {
+      await this.flush();
+      const line = await this.socket.readLine();
+      if (line.trim().toUpperCase() !== 'DONE') {
+        throw new CommandError('BAD', 'Expected DONE');
+      }
+    } finally {
+      this.idling = false;
+    }
+  }
+
+  private async search(args: ImapValue[], uid: boolean): Promise<string> {
+    let criteria = args;
+    if (valueToString(criteria[0]).toUpperCase() === 'CHARSET') {
+      criteria = criteria.slice(2);
+    }
+
+    const entries = this.entries();
+    const context = {
+      maxSeq: entries.length,
+      maxUid: entries.length ? entries[entries.length - 1].message.uid : 0,
+    };
+    const position = { index: 0 };
+    const tests: Array<(entry: Entry) => boolean> = [];
+    while (position.index < criteria.length) {
+      tests.push(this.criterion(criteria, position, context));
+    }
+
+    const matches = entries
+      .filter((entry) => tests.every((test) => test(entry)))
+      .map((entry) => (uid ? entry.message.uid : entry.seq));
+    await this.send(`* SEARCH${matches.map((value) => ` ${value}`).join('')}`);
+    return 'SEARCH completed';
+  }
+
+  /** Compiles the search key at `position` (RFC 3501 §6.4.4) into a predicate. */
+  private criterion(
+    values: ImapValue[],
+    position: { index: number },
+    context: { maxSeq: number; maxUid: number }
+  ): (entry: Entry) => boolean {
+    const value = values[position.index++];
+    const next = () => valueToString(values[position.index++]);
+
+    if (Array.isArray(value)) {
+      const inner = { index: 0 };
+      const tests: Array<(entry: Entry) => boolean> = [];
+      while (inner.index < value.length) {
+        tests.push(this.criterion(value, inner, context));
+      }
+      return (entry) => tests.every((test) => test(entry));
+    }
+
+    const key = valueToString(value).toUpperCase();
+    const flag = (name: string, present: boolean) => (entry: Entry) =>
+      entry.message.flags.includes(name) === present;
+    const header = (name: string, text: string) => (entry: Entry) =>
+      (parsed(entry.message).headers[name] || '').toLowerCase().includes(text.toLowerCase());
+    const day = (date: Date) =>
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    const sent = (entry: Entry) => {
+      const date = new Date(parsed(entry.message).headers.date || '');
+      return isNaN(date.getTime()) ? entry.message.date : date;
+    };
+
+    switch (key) {
+      case 'ALL':
+        return () => true;
+      case 'ANSWERED':
+      case 'DELETED':
+      case 'DRAFT':
+      case 'FLAGGED':
+      case 'SEEN':
+        return flag(`\\${key.charAt(0)}${key.slice(1).toLowerCase()}`, true);
+      case 'UNANSWERED':
+      case 'UNDELETED':
+      case 'UNDRAFT':
+      case 'UNFLAGGED':
+      case 'UNSEEN':
+        return flag(`\\${key.charAt(2)}${key.slice(3).toLowerCase()}`, false);
+      case 'NEW':
+      case 'RECENT':
+        return flag('\\Recent', true);
+      case 'OLD':
+        return () => true;
+      case 'KEYWORD':
+        return flag(next(), true);
+      case 'UNKEYWORD':
+        return flag(next(), false);
+      case 'FROM':
+      case 'TO':
+      case 'CC':
+      case 'BCC':
+      case 'SUBJECT':
+        return header(key.toLowerCase(), next());
+      case 'HEADER': {
+        const name = next().toLowerCase();
+        return header(name, next());
+      }
+      case 'BODY': {
+        const text = next().toLowerCase();
+        return (entry) => {
+          const message = parsed(entry.message);
+          return `${message.text || ''}\n${message.html || ''}`.toLowerCase().includes(text);
+        };
+      }
+      case 'TEXT': {
+        const text = next().toLowerCase();
+        return (entry) =>
+          Buffer.from(entry.message.raw).toString('utf8').toLowerCase().includes(text);
+      }
+      case 'SINCE':
+      case 'BEFORE':
+      case 'ON':
+      case 'SENTSINCE':
+      case 'SENTBEFORE':
+      case 'SENTON': {
+        const target = day(parseSearchDate(next()));
+        const dateOf = key.startsWith('SENT') ? sent : (entry: Entry) => entry.message.date;
+        const compare = key.replace('SENT', '');
+        return (entry) => {
+          const actual = day(dateOf(entry));
+          return compare === 'SINCE'
+            ? actual >= target
+            : compare === 'BEFORE'
+              ? actual < target
+              : actual === target;
+        };
+      }
+      case 'LARGER': {
+        const size = Number(next());
+        return (entry) => entry.message.raw.length > size;
+      }
+      case 'SMALLER': {
+        const size = Number(next());
+        return (entry) => entry.message.raw.length < size;
+      }
+      case 'UID': {
+        const matches = sequenceMatcher(next(), context.maxUid);
+        return (entry) => matches(entry.message.uid);
+      }
+      case 'NOT': {
+        const test = this.criterion(values, position, context);
+        return (entry) => !test(entry);
+      }
+      case 'OR': {
+        const left = this.criterion(values, position, context);
+        const right = this.criterion(values, position, context);
+        return (entry) => left(entry) || right(entry);
+      }
+      default:
+        if (/^[\d*:,]+$/.test(key)) {
+          const matches = sequenceMatcher(key, context.maxSeq);
+          return (entry) => matches(entry.seq);
+        }
+        throw new CommandError('BAD', `Unknown search key ${key}`);
+    }
+  }
+
+  private async fetch(args: ImapValue[], uid: boolean): Promise<string> {
+    const entries = this.resolve(valueToString(args[0]), uid);
+    const items = this.fetchItems(args[1]);
+    if (uid && !items.some((item) => item.toUpperCase() === 'UID')) {
+      items.unshift('UID');
+    }
+
+    for (const entry of entries) {
+      const { message } = entry;
+      const parts: Buffer[] = [];
+      const add = (text: string, content?: Buffer) =>
+        parts.push(
+          content
+            ? Buffer.concat([Buffer.from(`${text} {${content.length}}\r\n`), content])
+            : Buffer.from(text)
+        );
+      let markSeen = false;
+
+      for (const item of items) {
+        const name = item.toUpperCase();
+        if (name === 'UID') add(`UID ${message.uid}`);
+        else if (name === 'FLAGS') add(`FLAGS (${message.flags.join(' ')})`);
+        else if (name === 'INTERNALDATE') add(`INTERNALDATE "${formatInternalDate(message.date)}"`);
+        else if (name === 'RFC822.SIZE') add(`RFC822.SIZE ${message.raw.length}`);
+        else if (name === 'ENVELOPE') add(`ENVELOPE ${envelope(parsed(message))}`);
+        else if (name === 'BODYSTRUCTURE' || name === 'BODY')
+          add(`${name} ${bodyStructure(Buffer.from(message.raw))}`);
+        else if (name === 'RFC822' || name === 'RFC822.HEADER' || name === 'RFC822.TEXT') {
+          const section = name === 'RFC822' ? '' : name.slice(7);
+          add(name, bodySection(Buffer.from(message.raw), section));
+          markSeen ||= name !== 'RFC822.HEADER';
+        } else if (name.startsWith('BODY[') || name.startsWith('BODY.PEEK[')) {
+          const open = item.indexOf('[');
+          const close = item.lastIndexOf(']');
+          const section = item.slice(open + 1, close);
+          const partial = item.slice(close + 1).match(/^<(\d+)(?:\.(\d+))?>$/);
+          let content = bodySection(Buffer.from(message.raw), section);
+          if (partial) {
+            const start = parseInt(partial[1], 10);
+            const length = partial[2] === undefined ? content.length : parseInt(partial[2], 10);
+            content = content.subarray(start, start + length);
+          }
+          const origin = partial ? `<${partial[1]}>` : '';
+          add(`BODY[${section}]${origin}`, content);
+          markSeen ||= !name.startsWith('BODY.PEEK');
+        } else {
+          throw new CommandError('BAD', `Unknown fetch item ${item}`);
+        }
+      }
+
+      if (markSeen && !this.selected!.readOnly && !message.flags.includes('\\Seen')) {
+        await this.sandbox.setFlags([message], ['\\Seen'], 'add');
+        if (!items.some((item) => item.toUpperCase() === 'FLAGS')) {
+          add(`FLAGS (${message.flags.join(' ')})`);
+        }
+      }
+
+      await this.send(
+        Buffer.concat([
+          Buffer.from(`* ${entry.seq} FETCH (`),
+          ...parts.flatMap((part, index) => (index > 0 ? [Buffer.from(' '), part] : [part])),
+          Buffer.from(')\r\n'),
+        ])
+      );
+    }
+    return 'FETCH completed';
+  }
+
+  private fetchItems(value: ImapValue): string[] {
+    const items = Array.isArray(value) ? value.map(valueToString) : [valueToString(value)];
+    if (items.length === 1) {
+      switch (items[0].toUpperCase()) {
+        case 'ALL':
+          return ['FLAGS', 'INTERNALDATE', 'RFC822.SIZE', 'ENVELOPE'];
+        case 'FAST':
+          return ['FLAGS', 'INTERNALDATE', 'RFC822.SIZE'];
+        case 'FULL':
+          return ['FLAGS', 'INTERNALDATE', 'RFC822.SIZE', 'ENVELOPE', 'BODY'];
+      }
+    }
+    return items;
+  }
+
+  private async store(args: ImapValue[], uid: boolean): Promise<string> {
+    if (this.selected!.readOnly) {
+      throw new CommandError('NO', 'Mailbox is read-only');
+    }
+
+    const entries = this.resolve(valueToString(args[0]), uid);
+    const item = valueToString(args[1]).toUpperCase();
+    const match = item.match(/^([+-]?)FLAGS(\.SILENT)?$/);
+    if (!match) {
+      throw new CommandError('BAD', `Unknown store item ${item}`);
+    }
+    const flags = args
+      .slice(2)
+      .flatMap((value) =>
+        Array.isArray(value) ? value.map(valueToString) : [valueToString(value)]
+      );
+    const mode = match[1] === '+' ? 'add' : match[1] === '-' ? 'remove' : 'replace';
+
+    await this.sandbox.setFlags(
+      entries.map((entry) => entry.message),
+      flags,
+      mode
+    );
+    if (!match[2]) {
+      for (const { seq, message } of entries) {
+        await this.send(
+          `* ${seq} FETCH (${uid ? `UID ${message.uid} ` : ''}FLAGS (${message.flags.join(' ')}))`
+        );
+      }
+    }
+    return 'STORE completed';
+  }
+
+  private async copy(command: string, args: ImapValue[], uid: boolean): Promise<string> {
+    const entries = this.resolve(valueToString(args[0]), uid);
+    const target = this.sandbox.getMailbox(this.mailboxName(args[1]));
+    if (!target) {
+      throw new CommandError('NO', 'Mailbox does not exist', 'TRYCREATE');
+    }
+    if (command === 'MOVE' && this.selected!.readOnly) {
+      throw new CommandError('NO', 'Mailbox is read-only');
+    }
+
+    const sources = entries.map((entry) => entry.message);
+    const copies = await this.sandbox.copyMessages(sources, target);
+    const code =
+      sources.length > 0
+        ? `COPYUID ${this.sandbox.getUidValidity()} ${sources.map((message) => message.uid).join(',')} ${copies.map((message) => message.uid).join(',')}`
+        : '';
+
+    if (command === 'MOVE') {
+      if (code) await this.send(`* OK [${code}] Moved`);
+      await this.sandbox.expunge(sources);
+      return 'MOVE completed';
+    }
+    return `${code ? `[${code}] ` : ''}COPY completed`;
+  }
+
+  /** Sends pending EXPUNGE and EXISTS responses for the selected mailbox. */
+  private async flush(): Promise<void> {
+    const selected = this.selected;
+    if (!selected) return;
+
+    const lines: string[] = [];
+    for (const uid of this.expunged.splice(0)) {
+      const index = selected.uids.indexOf(uid);
+      if (index !== -1) {
+        selected.uids.splice(index, 1);
+        lines.push(`* ${index + 1} EXPUNGE`);
+      }
+    }
+    if (this.arrived) {
+      this.arrived = false;
+      lines.push(`* ${selected.uids.length} EXISTS`);
+    }
+    if (lines.length > 0) {
+      await this.send(lines);
+    }
+  }
+
+  /** Messages of the selected mailbox as this session currently numbers them. */
+  private entries(): Entry[] {
+    const selected = this.selected!;
+    const byUid = new Map(selected.mailbox.messages.map((message) => [message.uid, message]));
+    const entries: Entry[] = [];
+    selected.uids.forEach((uid, index) => {
+      const message = byUid.get(uid);
+      if (message) entries.push({ seq: index + 1, message });
+    });
+    return entries;
+  }
+
+  private resolve(set: string, uid: boolean): Entry[] {
+    const entries = this.entries();
+    const last = uid ? this.selected!.uids[this.selected!.uids.length - 1] || 0 : entries.length;
+    const matches = sequenceMatcher(set, last);
+    return entries.filter((entry) => matches(uid ? entry.message.uid : entry.seq));
+  }
+
+  private deletedMessages(entries: Entry[]): SandboxMessage[] {
+    return entries
+      .map((entry) => entry.message)
+      .filter((message) => message.flags.includes('\\Deleted'));
+  }
+
+  private requireMailbox(name: string): SandboxMailbox {
+    const mailbox = this.sandbox.getMailbox(name);
+    if (!mailbox) {
+      throw new CommandError('NO', 'Mailbox does not exist', 'NONEXISTENT');
+    }
+    return mailbox;
+  }
+
+  private mailboxName(value: ImapValue): string {
+    return decodeMailboxName(valueToString(value));
+  }
+
+  private mailboxString(name: string): string {
+    return imapString(encodeMailboxName(name));
+  }
+
+  private async wrap(task: () => Promise<unknown>): Promise<void> {
+    try {
+      await task();
+    } catch (error) {
+      throw new CommandError('NO', error instanceof Error ? error.message : 'Command failed');
+    }
+  }
+
+  private async readCommand(): Promise<{ text: string; literals: Buffer[] }> {
+    const literals: Buffer[] = [];
+    let line = await this.socket.readLine();
+    let text = '';
+
+    for (;;) {
+      const match = line.match(/\{(\d+)(\+?)\}$/);
+      if (!match) {
+        text += line;
+        break;
+      }
+      text += `${line.slice(0, match.index)}${LITERAL_MARKER}${literals.length}${LITERAL_MARKER}`;
+      if (!match[2]) {
+        await this.send('+ Ready for literal data');
+      }
+      literals.push(await this.socket.readBytes(parseInt(match[1], 10)));
+      line = await this.socket.readLine();
+    }
+
+    return { text, literals };
+  }
+
+  /** Writes response lines; a `Buffer` is sent as is, with its CRLFs already in place. */
+  private send(lines: string | string[] | Buffer): Promise<void> {
+    if (Buffer.isBuffer(lines)) {
+      return this.socket.write(lines);
+    }
+    const list = Array.isArray(lines) ? lines : [lines];
+    return this.socket.write(list.map((line) => `${line}\r\n`).join(''));
+  }
+}
+
+const parsedMessages = new WeakMap<SandboxMessage, ParsedMessage>();
+
+function parsed(message: SandboxMessage): ParsedMessage {
+  let result = parsedMessages.get(message);
+  if (!result) {
+    result = parseMessage(message.raw);
+    parsedMessages.set(message, result);
+  }
+  return result;
+}
+
+/** Matches numbers against a sequence set such as `1:3,7,9:*`; `*` stands for `last`. */
+function sequenceMatcher(set: string, last: number): (value: number) => boolean {
+  const ranges = set.split(',').map((range) => {
+    const [start, end = start] = range
+      .split(':')
+      .map((part) => (part === '*' ? last : parseInt(part, 10)));
+    return [Math.min(start, end), Math.max(start, end)];
+  });
+  return (value) => ranges.some(([start, end]) => value >= start && value <= end);
+}
+
+function parseSearchDate(value: string): Date {
+  const match = value.match(/^(\d{1,2})-(\w{3})-(\d{4})$/);
+  const month = match
+    ? MONTHS.findIndex((name) => name.toLowerCase() === match[2].toLowerCase())
+    : -1;
+  if (!match || month === -1) {
+    throw new CommandError('BAD', `Invalid date ${value}`);
+  }
+  return new Date(Date.UTC(parseInt(match[3], 10), month, parseInt(match[1], 10)));
+}
+
+/** A quoted string, or a literal when the value is not printable ASCII. */
+function imapString(value: string | undefined): string {
+  if (value === undefined) return 'NIL';
+  return quoteString(value) ?? `{${Buffer.byteLength(value)}}\r\n${value}`;
+}
+
+function envelope(message: ParsedMessage): string {
+  const { headers } = message;
+  const addresses = (value: string | undefined) => {
+    const list = splitAddressList(value).map((entry) => {
+      const { name, address } = parseAddress(entry);
+      const at = address.lastIndexOf('@');
+      const mailbox = at === -1 ? address : address.slice(0, at);
+      const host = at === -1 ? undefined : address.slice(at + 1);
+      return `(${imapString(name)} NIL ${imapString(mailbox)} ${imapString(host)})`;
+    });
+    return list.length > 0 ? `(${list.join('')})` : 'NIL';
+  };
+
+  return `(${[
+    imapString(headers.date),
+    imapString(headers.subject),
+    addresses(headers.from),
+    addresses(headers.sender || headers.from),
+    addresses(headers['reply-to'] || headers.from),
+    addresses(headers.to),
+    addresses(headers.cc),
+    addresses(headers.bcc),
+    imapString(headers['in-reply-to']),
+    imapString(headers['message-id']),
+  ].join(' ')})`;
+}
+
+interface RawPart {
+  header: Buffer;
+  body: Buffer;
+  headers: Record<string, string>;
+  type: string;
+  subtype: string;
+  params: Record<string, string>;
+  children: RawPart[];
+}
+
+/** Splits a message into its MIME parts while keeping the encoded bytes of each. */
+function splitPart(raw: Buffer, defaultType = 'text/plain'): RawPart {
+  const text = raw.toString('latin1');
+  const separator = text.match(/\r?\n\r?\n/);
+  const headerEnd = text.startsWith('\r\n')
+    ? 2
+    : text.startsWith('\n')
+      ? 1
+      : separator
+        ? separator.index! + separator[0].length
+        : raw.length;
+
+  const headers: Record<string, string> = {};
+  for (const line of text
+    .slice(0, headerEnd)
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      const key = line.slice(0, colon).trim().toLowerCase();
+      if (!(key in headers)) headers[key] = line.slice(colon + 1).trim();
+    }
+  }
+
+  const contentType = parseHeaderValue(headers['content-type'] || defaultType);
+  const [type, subtype = ''] = (contentType.value || defaultType).split('/');
+  const part: RawPart = {
+    header: raw.subarray(0, headerEnd),
+    body: raw.subarray(headerEnd),
+    headers,
+    type,
+    subtype,
+    params: contentType.params,
+    children: [],
+  };
+
+  const boundary = contentType.params.boundary;
+  if (type === 'multipart' && boundary) {
+    const body = part.body.toString('latin1');
+    const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?:\\r?\\n|$)`, 'g');
+    const childType = subtype === 'digest' ? 'message/rfc822' : 'text/plain';
+    let start = -1;
+    let match: RegExpExecArray | null;
+    while ((match = delimiter.exec(body))) {
+      if (start !== -1) {
+        part.children.push(
+          splitPart(Buffer.from(body.slice(start, match.index), 'latin1'), childType)
+        );
+      }
+      if (match[1]) break;
+      start = match.index + match[0].length;
+    }
+  }
+
+  return part;
+}
+
+/**
+ * Returns a `BODY[<section>]` section: `''`, `HEADER`, `HEADER.FIELDS (...)`,
+ * `HEADER.FIELDS.NOT (...)`, `TEXT`, or a part number optionally followed by
+ * `.MIME`, `.HEADER` or `.TEXT`.
+ */
+function bodySection(raw: Buffer, section: string): Buffer {
+  const match = section.match(/^((?:\d+\.)*\d+)?\.?(.*)$/)!;
+  let part = splitPart(raw);
+
+  if (match[1]) {
+    for (const index of match[1].split('.').map(Number)) {
+      if (part.children.length > 0) {
+        part = part.children[index - 1];
+      } else if (part.type === 'message' && part.subtype === 'rfc822') {
+        part = splitPart(part.body);
+        if (part.children.length > 0) part = part.children[index - 1];
+        else if (index !== 1) return Buffer.alloc(0);
+      } else if (index !== 1) {
+        return Buffer.alloc(0);
+      }
+      if (!part) return Buffer.alloc(0);
+    }
+  }
+
+  const specifier = match[2].toUpperCase();
+  if (!specifier) {
+    return match[1] ? part.body : raw;
+  }
+  if (specifier === 'MIME') {
+    return part.header;
+  }
+
+  // HEADER/TEXT of a nested part refer to the encapsulated message.
+  const target = match[1] ? splitPart(part.body) : part;
+  if (specifier === 'TEXT') {
+    return target.body;
+  }
+  if (specifier === 'HEADER') {
+    return target.header;
+  }
+
+  const fields = specifier.match(/^HEADER\.FIELDS(\.NOT)?\s*\((.*)\)$/);
+  if (!fields) {
+    throw new CommandError('BAD', `Unknown section ${section}`);
+  }
+  const names = fields[2].toLowerCase().split(/\s+/).filter(Boolean);
+  const lines = target.header
+    .toString('latin1')
+    .replace(/\r?\n$/, '')
+    .split(/\r?\n(?![ \t])/)
+    .filter((line) => {
+      const colon = line.indexOf(':');
+      if (colon <= 0) return false;
+      const included = names.includes(line.slice(0, colon).trim().toLowerCase());
+      return fields[1] ? !included : included;
+    });
+  return Buffer.from(lines.map((line) => `${line}\r\n`).join('') + '\r\n', 'latin1');
+}
+
+function bodyStructure(raw: Buffer): string {
+  return structureOf(splitPart(raw));
+}
+
+function structureOf(part: RawPart): string {
+  const params = (values: Record<string, string>) => {
+    const entries = Object.entries(values);
+    return entries.length > 0
+      ? `(${entries.map(([key, value]) => `${imapString(key.toUpperCase())} ${imapString(value)}`).join(' ')})`
+      : 'NIL';
+  };
+  const disposition = part.headers['content-disposition']
+    ? (() => {
+        const value = parseHeaderValue(part.headers['content-disposition']);
+        return `(${imapString(value.value.toUpperCase())} ${params(value.params)})`;
+      })()
+    : 'NIL';
+
+  if (part.children.length > 0) {
+    return `(${part.children.map(structureOf).join('')} ${imapString(part.subtype.toUpperCase())} ${params(part.params)} ${disposition} NIL NIL)`;
+  }
+
+  const fields = [
+    imapString(part.type.toUpperCase()),
+    imapString(part.subtype.toUpperCase()),
+    params(part.params),
+    imapString(part.headers['content-id']),
+    imapString(part.headers['content-description']),
+    imapString((part.headers['content-transfer-encoding'] || '7BIT').toUpperCase()),
+    String(part.body.length),
+  ];
+  const lines = String(part.body.toString('latin1').split(/\r?\n/).length);
+
+  if (part.type === 'text') {
+    fields.push(lines);
+  } else if (part.type === 'message' && part.subtype === 'rfc822') {
+    const inner = splitPart(part.body);
+    fields.push(envelope(parseMessage(part.body)), structureOf(inner), lines);
+  }
+  fields.push('NIL', disposition, 'NIL', 'NIL');
+
+  return `(${fields.join(' ')})`;
+}
@@ -0,0 +1,210 @@
+import { createHash } from 'crypto';
+import type { MailSocket } from './transport';
+import { INVALID_TOKEN_CHALLENGE, formatOAuth2Challenge } from './oauth';
+import type { MailSandbox } from './sandbox';
+import type { SandboxMessage } from './types';
+
+/**
+ * One POP3 connection to the sandbox (RFC 1939 with UIDL/TOP, RFC 2449
+ * CAPA). The session works on a snapshot of `INBOX` taken at login; DELE
+ * marks are applied on QUIT.
+ */
+export class Pop3Session {
+  private timestamp = `<${process.pid}.${Date.now()}@sandbox>`;
+  private user: string | null = null;
+  private messages: SandboxMessage[] | null = null;
+  private deleted = new Set<number>();
+
+  constructor(
+    private socket: MailSocket,
+    private sandbox: MailSandbox
+  ) {}
+
+  async run(): Promise<void> {
+    await this.ok(`Enterprise mail sandbox ready ${this.timestamp}`);
+
+    for (;;) {
+      const line = await this.socket.readLine();
+      const [verb, ...args] = line.trim().split(/\s+/);
+      const command = verb.toUpperCase();
+
+      if (command === 'QUIT') {
+        if (this.messages) {
+          await this.sandbox.expunge(this.messages.filter((_m, index) => this.deleted.has(index)));
+        }
+        await this.ok('Bye');
+        return;
+      }
+      if (command === 'CAPA') {
+        await this.ok('Capability list follows', [
+          'USER',
+          'UIDL',
+          'TOP',
+          'RESP-CODES',
+          'SASL XOAUTH2 OAUTHBEARER',
+        ]);
+      } else if (!this.messages) {
+        await this.authorization(command, args);
+      } else {
+        await this.transaction(command, args, this.messages);
+      }
+    }
+  }
+
+  private async authorization(command: string, args: string[]): Promise<void> {
+    switch (command) {
+      case 'USER':
+        this.user = args[0] || '';
+        await this.ok('Send password');
+        return;
+      case 'PASS': {
+        const password = args.join(' ');
+        if (this.user === null) {
+          await this.err('USER first');
+        } else if (this.sandbox.authenticate(this.user, (expected) => expected === password)) {
+          await this.login();
+        } else {
+          await this.err('[AUTH] Invalid credentials');
+        }
+        return;
+      }
+      case 'APOP': {
+        const [user, digest] = args;
+        const verify = (password: string) =>
+          createHash('md5')
+            .update(this.timestamp + password)
+            .digest('hex') === digest;
+        if (user && this.sandbox.authenticate(user, verify)) {
+          await this.login();
+        } else {
+          await this.err('[AUTH] Invalid credentials');
+        }
+        return;
+      }
+      case 'AUTH': {
+        const [mechanism = '', initial] = args;
+        if (!['XOAUTH2', 'OAUTHBEARER'].includes(mechanism.toUpperCase())) {
+          await this.err('Unsupported mechanism');
+          return;
+        }
+        let response = initial;
+        if (!response) {
+          await this.socket.write('+ \r\n');
+          response = await this.socket.readLine();
+        }
+        if (this.sandbox.authenticateOAuth2(response)) {
+          await this.login();
+        } else {
+          await this.socket.write(`+ ${formatOAuth2Challenge(INVALID_TOKEN_CHALLENGE)}\r\n`);
+          await this.socket.readLine();
+          await this.err('[AUTH] Invalid credentials');
+        }
+        return;
+      }
+      case 'NOOP':
+        await this.ok('');
+        return;
+      default:
+        await this.err('Not authenticated');
+    }
+  }
+
+  private async transaction(
+    command: string,
+    args: string[],
+    messages: SandboxMessage[]
+  ): Promise<void> {
+    const number = args[0] === undefined ? undefined : parseInt(args[0], 10);
+    const message = number === undefined ? undefined : this.lookup(number);
+    const visible = messages
+      .map((entry, index) => ({ entry, number: index + 1 }))
+      .filter(({ number }) => !this.deleted.has(number - 1));
+
+    switch (command) {
+      case 'STAT': {
+        const size = visible.reduce((total, { entry }) => total + entry.raw.length, 0);
+        await this.ok(`${visible.length} ${size}`);
+        return;
+      }
+      case 'LIST':
+      case 'UIDL': {
+        const describe = (entry: SandboxMessage) =>
+          command === 'LIST' ? String(entry.raw.length) : entry.id;
+        if (number === undefined) {
+          await this.ok(
+            `${visible.length} messages`,
+            visible.map(({ entry, number }) => `${number} ${describe(entry)}`)
+          );
+        } else if (message) {
+          await this.ok(`${number} ${describe(message)}`);
+        } else {
+          await this.err('No such message');
+        }
+        return;
+      }
+      case 'RETR':
+      case 'TOP': {
+        if (!message) {
+          await this.err('No such message');
+          return;
+        }
+        let content = Buffer.from(message.raw).toString('latin1');
+        if (command === 'TOP') {
+          const end = content.search(/\r?\n\r?\n/);
+          const header = end === -1 ? content : content.slice(0, end);
+          const body =
+            end === -1
+              ? []
+              : content
+                  .slice(end)
+                  .replace(/^\r?\n\r?\n/, '')
+                  .split(/\r?\n/);
+          content = [header, '', ...body.slice(0, parseInt(args[1] || '0', 10))].join('\r\n');
+        }
+        await this.ok(`${message.raw.length} octets`, content.replace(/\r?\n$/, '').split(/\r?\n/));
+        return;
+      }
+      case 'DELE':
+        if (!message) {
+          await this.err('No such message');
+        } else {
+          this.deleted.add(number! - 1);
+          await this.ok(`Message ${number} deleted`);
+        }
+        return;
+      case 'RSET':
+        this.deleted.clear();
+        await this.ok('');
+        return;
+      case 'NOOP':
+        await this.ok('');
+        return;
+      default:
+        await this.err('Unknown command');
+    }
+  }
+
+  private async login(): Promise<void> {
+    this.messages = [...(this.sandbox.getMailbox('INBOX')?.messages || [])];
+    await this.ok('Logged in');
+  }
+
+  private lookup(number: number): SandboxMessage | undefined {
+    if (!this.messages || isNaN(number) || this.deleted.has(number - 1)) return undefined;
+    return this.messages[number - 1];
+  }
+
+  /** Sends `+OK`, followed by a dot-stuffed multi-line body when `lines` is given. */
+  private ok(text: string, lines?: string[]): Promise<void> {
+    let response = `+OK${text ? ` ${text}` : ''}\r\n`;
+    if (lines) {
+      response += lines.map((line) => `${line.startsWith('.') ? '.' : ''}${line}\r\n`).join('');
+      response += '.\r\n';
+    }
+    return this.socket.write(Buffer.from(response, 'latin1'));
+  }
+
+  private err(text: string): Promise<void> {
+    return this.socket.write(`-ERR ${text}\r\n`);
+  }
+}
@@ -0,0 +1,180 @@
+import * as os from 'os';
+import type { MailSocket } from './transport';
+import { INVALID_TOKEN_CHALLENGE, formatOAuth2Challenge } from './oauth';
+import type { MailSandbox } from './sandbox';
+
+/** One SMTP connection to the sandbox (RFC 5321 submission subset, AUTH PLAIN/LOGIN). */
+export class SmtpSession {
+  private hostname = os.hostname() || 'localhost';
+  private authenticated = false;
+  private sender: string | null = null;
+  private recipients: string[] = [];
+
+  constructor(
+    private socket: MailSocket,
+    private sandbox: MailSandbox
+  ) {}
+
+  async run(): Promise<void> {
+    await this.reply(220, `${this.hostname} ESMTP Enterprise mail sandbox`);
+
+    for (;;) {
+      const line = await this.socket.readLine();
+      const [verb, ...rest] = line.split(' ');
+      const argument = rest.join(' ').trim();
+
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          await this.reply(250, [
+            `${this.hostname} greets ${argument || 'client'}`,
+            '8BITMIME',
+            'SMTPUTF8',
+            'AUTH PLAIN LOGIN XOAUTH2 OAUTHBEARER',
+          ]);
+          break;
+        case 'HELO':
+          await this.reply(250, this.hostname);
+          break;
+        case 'AUTH':
+          await this.auth(argument);
+          break;
+        case 'MAIL':
+          await this.mail(argument);
+          break;
+        case 'RCPT':
+          await this.rcpt(argument);
+          break;
+        case 'DATA':
+          await this.data();
+          break;
+        case 'RSET':
+          this.reset();
+          await this.reply(250, '2.0.0 Ok');
+          break;
+        case 'NOOP':
+          await this.reply(250, '2.0.0 Ok');
+          break;
+        case 'VRFY':
+          await this.reply(252, '2.5.0 Cannot verify user');
+          break;
+        case 'QUIT':
+          await this.reply(221, '2.0.0 Bye');
+          return;
+        default:
+          await this.reply(502, '5.5.2 Command not recognized');
+      }
+    }
+  }
+
+  private async auth(argument: string): Promise<void> {
+    const [mechanism, initial] = argument.split(' ');
+    let user: string;
+    let password: string;
+
+    if (mechanism?.toUpperCase() === 'PLAIN') {
+      let token = initial;
+      if (!token) {
+        await this.reply(334, '');
+        token = await this.socket.readLine();
+      }
+      [, user = '', password = ''] = Buffer.from(token, 'base64').toString('utf8').split('\u0000');
+    } else if (mechanism?.toUpperCase() === 'LOGIN') {
+      await this.reply(334, Buffer.from('Username:').toString('base64'));
+      user = Buffer.from(await this.socket.readLine(), 'base64').toString('utf8');
+      await this.reply(334, Buffer.from('Password:').toString('base64'));
+      password = Buffer.from(await this.socket.readLine(), 'base64').toString('utf8');
+    } else if (
+      mechanism?.toUpperCase() === 'XOAUTH2' ||
+      mechanism?.toUpperCase() === 'OAUTHBEARER'
+    ) {
+      let response = initial;
+      if (!response) {
+        await this.reply(334, '');
+        response = await this.socket.readLine();
+      }
+      if (this.sandbox.authenticateOAuth2(response)) {
+        this.authenticated = true;
+        await this.reply(235, '2.7.0 Authentication successful');
+      } else {
+        await this.reply(334, formatOAuth2Challenge(INVALID_TOKEN_CHALLENGE));
+        await this.socket.readLine();
+        await this.reply(535, '5.7.8 Authentication credentials invalid');
+      }
+      return;
+    } else {
+      await this.reply(504, '5.5.4 Unrecognized authentication type');
+      return;
+    }
+
+    if (this.sandbox.authenticate(user, (expected) => expected === password)) {
+      this.authenticated = true;
+      await this.reply(235, '2.7.0 Authentication successful');
+    } else {
+      await this.reply(535, '5.7.8 Authentication credentials invalid');
+    }
+  }
+
+  private async mail(argument: string): Promise<void> {
+    const match = argument.match(/^FROM:\s*<([^>]*)>/i);
+    if (!match) {
+      await this.reply(501, '5.5.4 Syntax: MAIL FROM:<address>');
+    } else if (this.requiresAuth()) {
+      await this.reply(530, '5.7.0 Authentication required');
+    } else {
+      this.reset();
+      this.sender = match[1];
+      await this.reply(250, '2.1.0 Ok');
+    }
+  }
+
+  private async rcpt(argument: string): Promise<void> {
+    const match = argument.match(/^TO:\s*<([^>]+)>/i);
+    if (this.sender === null) {
+      await this.reply(503, '5.5.1 Need MAIL command');
+    } else if (!match) {
+      await this.reply(501, '5.5.4 Syntax: RCPT TO:<address>');
+    } else {
+      this.recipients.push(match[1]);
+      await this.reply(250, '2.1.5 Ok');
+    }
+  }
+
+  private async data(): Promise<void> {
+    if (this.sender === null || this.recipients.length === 0) {
+      await this.reply(503, '5.5.1 Need RCPT command');
+      return;
+    }
+
+    await this.reply(354, 'End data with <CR><LF>.<CR><LF>');
+    const lines: Buffer[] = [];
+    for (;;) {
+      const line = await this.socket.readLineBuffer();
+      if (line.length === 1 && line[0] === 0x2e) break;
+      lines.push(line[0] === 0x2e ? line.subarray(1) : line);
+    }
+
+    const raw = Buffer.concat(lines.flatMap((line) => [line, Buffer.from('\r\n')]));
+    const message = await this.sandbox.deliver(raw, {
+      from: this.sender,
+      to: this.recipients,
+    });
+    this.reset();
+    await this.reply(250, `2.0.0 Ok: queued as ${message.id}`);
+  }
+
+  private requiresAuth(): boolean {
+    return !this.authenticated && this.sandbox.isAuthRequired();
+  }
+
+  private reset(): void {
+    this.sender = null;
+    this.recipients = [];
+  }
+
+  private reply(code: number, lines: string | string[]): Promise<void> {
+    const list = Array.isArray(lines) ? lines : [lines];
+    return this.socket.write(
+      list.map((line, index) => `${code}${index < list.length - 1 ? '-' : ' '}${line}\r\n`).join('')
+    );
+  }
+}
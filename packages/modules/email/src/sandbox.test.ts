@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { MailSandbox, FileSandboxStore } from './sandbox';
+import { SmtpClient } from './smtp';
+import { ImapClient } from './imap';
+import { Pop3Client } from './pop3';
+import { EmailManager } from './index';
+
+function request(
+  port: number,
+  pathname: string,
+  method = 'GET'
+): Promise<{ status: number; type: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path: pathname, method }, (res) => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk) => (body += chunk));
+      res.on('end', () =>
+        resolve({ status: res.statusCode || 0, type: res.headers['content-type'] || '', body })
+      );
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+describe('MailSandbox', () => {
+  let sandbox: MailSandbox;
+
+  beforeEach(async () => {
+    sandbox = new MailSandbox({ smtpPort: 0, imapPort: 0, pop3Port: 0, httpPort: 0 });
+    await sandbox.start();
+  });
+
+  afterEach(async () => {
+    await sandbox.stop();
+  });
+
+  async function send(subject: string, extra: Record<string, unknown> = {}) {
+    const smtp = new SmtpClient(sandbox.getEmailConfig().smtp!);
+    await smtp.connect();
+    try {
+      return await smtp.sendEmail({
+        from: 'alice@example.com',
+        to: 'bob@example.com',
+        subject,
+        text: `Body of ${subject}`,
+        ...extra,
+      });
+    } finally {
+      await smtp.disconnect();
+    }
+  }
+
+  it('stores mail submitted over SMTP with its envelope', async () => {
+    const result = await send('Hello', { bcc: 'carol@example.com' });
+
+    const message = await sandbox.waitForMessage({ subject: 'Hello' });
+    expect(message.mailbox).toBe('INBOX');
+    expect(message.uid).toBe(1);
+    expect(message.envelope).toEqual({
+      from: 'alice@example.com',
+      to: ['bob@example.com', 'carol@example.com'],
+    });
+    expect(Buffer.from(message.raw).toString()).toContain(`Message-ID: ${result.messageId}`);
+    expect(sandbox.getMessages({ to: 'carol' })).toHaveLength(1);
+    expect(sandbox.getMessages({ subject: 'Other' })).toHaveLength(0);
+  });
+
+  it('serves messages over IMAP', async () => {
+    await send('First');
+    await send('Second', {
+      html: '<p>Second</p>',
+      attachments: [{ filename: 'a.txt', content: 'attached' }],
+    });
+
+    const imap = new ImapClient(sandbox.getEmailConfig().imap!);
+    await imap.connect();
+    try {
+      const boxes = await imap.getMailboxes();
+      expect(Object.keys(boxes)).toEqual(['INBOX']);
+
+      const box = await imap.openBox('INBOX');
+      expect(box.messages.total).toBe(2);
+      expect(box.uidvalidity).toBe(sandbox.getUidValidity());
+      expect(box.uidnext).toBe(3);
+
+      expect(await imap.searchMessages(['UNSEEN'])).toEqual([1, 2]);
+      expect(await imap.searchMessages([['SUBJECT', 'second']])).toEqual([2]);
+
+      const [headers] = await imap.fetchMessages([1]);
+      expect(headers.headers.subject).toBe('First');
+      expect(headers.flags).toEqual([]);
+
+      const [full] = await imap.fetchMessages([2], { bodies: '' });
+      expect(full.text).toContain('Body of Second');
+      expect(full.html).toContain('<p>Second</p>');
+      expect(full.attachments.map((attachment) => attachment.filename)).toEqual(['a.txt']);
+      expect(Buffer.from(full.attachments[0].content).toString()).toBe('attached');
+
+      await imap.addFlags([1], ['\\Seen', '\\Flagged']);
+      expect(sandbox.getMessages()[0].flags).toEqual(['\\Seen', '\\Flagged']);
+      expect(await imap.searchMessages(['UNSEEN'])).toEqual([2]);
+
+      await expect(imap.moveMessages([2], 'Archive')).rejects.toThrow(/does not exist/);
+      await sandbox.createMailbox('Archive');
+      await imap.moveMessages([2], 'Archive');
+      expect(sandbox.getMessages({ mailbox: 'INBOX' })).toHaveLength(1);
+      expect(sandbox.getMessages({ mailbox: 'Archive' })[0].uid).toBe(1);
+    } finally {
+      await imap.disconnect();
+    }
+  });
+
+  it('notifies idling IMAP clients of new mail', async () => {
+    const imap = new ImapClient(sandbox.getEmailConfig().imap!);
+    await imap.connect();
+    try {
+      await imap.openBox('INBOX');
+      await imap.idle();
+
+      const mail = new Promise<number>((resolve) => imap.once('mail', resolve));
+      await send('While idling');
+      expect(await mail).toBe(1);
+    } finally {
+      await imap.disconnect();
+    }
+  });
+
+  it('serves and deletes messages over POP3', async () => {
+    await send('One');
+    await send('Two');
+
+    const pop3 = new Pop3Client(sandbox.getEmailConfig().pop3!);
+    await pop3.connect();
+    await pop3.login();
+    const messages = await pop3.fetchNewMessages();
+    expect(messages.map((message) => message.subject)).toEqual(['One', 'Two']);
+    expect(messages[0].uid).toBe(sandbox.getMessages()[0].id);
+
+    await pop3.deleteMessage(1);
+    await pop3.disconnect();
+
+    expect(sandbox.getMessages().map((message) => message.uid)).toEqual([2]);
+  });
+
+  it('leaves POP3 mail that bounce scans and searches skip for later fetches', async () => {
+    await send('Plain news');
+    await send('Undelivered Mail Returned to Sender', {
+      from: 'MAILER-DAEMON@example.com',
+      text: '<gone@example.com>: 550 5.1.1 user unknown\n\nMessage-ID: <sent-1@example.com>',
+    });
+    await send('Weekly report');
+
+    const email = new EmailManager({ pop3: sandbox.getEmailConfig().pop3 });
+    await email.connectAll();
+    try {
+      const bounces = await email.processBounces();
+      expect(bounces.map((bounce) => bounce.recipients[0].address)).toEqual(['gone@example.com']);
+
+      const reports = await email.fetchEmails({ search: { subject: 'report' } });
+      expect(reports.map((message) => message.subject)).toEqual(['Weekly report']);
+
+      const rest = await email.fetchEmails();
+      expect(rest.map((message) => message.subject)).toEqual(['Plain news']);
+    } finally {
+      await email.disconnectAll();
+    }
+  });
+
+  it('exposes messages over the HTTP API', async () => {
+    await send('Via HTTP', { attachments: [{ filename: 'report.csv', content: 'a,b' }] });
+    const port = sandbox.getAddress()!.httpPort!;
+
+    const list = await request(port, '/api/messages?subject=http');
+    expect(list.type).toContain('application/json');
+    const [summary] = JSON.parse(list.body);
+    expect(summary).toMatchObject({
+      mailbox: 'INBOX',
+      uid: 1,
+      subject: 'Via HTTP',
+      from: 'alice@example.com',
+      envelope: { from: 'alice@example.com', to: ['bob@example.com'] },
+    });
+
+    const detail = JSON.parse((await request(port, `/api/messages/${summary.id}`)).body);
+    expect(detail.text).toContain('Body of Via HTTP');
+    expect(detail.attachments).toMatchObject([{ index: 0, filename: 'report.csv' }]);
+
+    const attachment = await request(port, `/api/messages/${summary.id}/attachments/0`);
+    expect(attachment.body).toBe('a,b');
+
+    const raw = await request(port, `/api/messages/${summary.id}/raw`);
+    expect(raw.body).toContain('Subject: Via HTTP');
+
+    const inbox = await request(port, '/');
+    expect(inbox.type).toContain('text/html');
+    expect(inbox.body).toContain('Via HTTP');
+
+    expect((await request(port, '/api/messages', 'DELETE')).status).toBe(204);
+    expect(sandbox.getMessages()).toHaveLength(0);
+    expect((await request(port, `/api/messages/${summary.id}`)).status).toBe(404);
+  });
+
+  it('rejects unknown users when users are configured', async () => {
+    await sandbox.stop();
+    sandbox = new MailSandbox({
+      smtpPort: 0,
+      imapPort: 0,
+      pop3Port: 0,
+      httpPort: false,
+      users: { 'dev@localhost': 'secret' },
+    });
+    await sandbox.start();
+
+    const imap = new ImapClient(sandbox.getEmailConfig('dev@localhost', 'wrong').imap!);
+    await expect(imap.connect()).rejects.toThrow();
+
+    const smtp = new SmtpClient(sandbox.getEmailConfig('dev@localhost', 'secret').smtp!);
+    await smtp.connect();
+    await smtp.sendEmail({
+      from: 'dev@localhost',
+      to: 'bob@example.com',
+      subject: 'Auth',
+      text: '',
+    });
+    await smtp.disconnect();
+    expect(sandbox.getMessages()).toHaveLength(1);
+  });
+
+  it('keeps messages in a FileSandboxStore across restarts', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-sandbox-'));
+    const file = path.join(directory, 'sandbox.json');
+    try {
+      const options = { smtpPort: 0, imapPort: 0, pop3Port: 0, httpPort: false as const };
+      const first = new MailSandbox({ ...options, store: new FileSandboxStore(file) });
+      await first.start();
+      await first.deliver('Subject: Persisted\r\n\r\nBody\r\n', undefined, 'Saved', ['\\Seen']);
+      await first.stop();
+
+      const second = new MailSandbox({ ...options, store: new FileSandboxStore(file) });
+      await second.start();
+      const [message] = second.getMessages({ mailbox: 'Saved' });
+      await second.stop();
+
+      expect(message.flags).toEqual(['\\Seen']);
+      expect(message.date).toBeInstanceOf(Date);
+      expect(Buffer.from(message.raw).toString()).toContain('Subject: Persisted');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('times out waiting for a message that never arrives', async () => {
+    await expect(sandbox.waitForMessage({ subject: 'Missing' }, 50)).rejects.toThrow(
+      /No message matching/
+    );
+  });
+});
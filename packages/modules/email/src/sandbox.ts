@@ -0,0 +1,452 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import { MailSocket } from './transport';
+import { extractAddresses } from './address';
+import { parseMessage } from './mime-parser';
+import { parseOAuth2Response } from './oauth';
+import { SmtpSession } from './sandbox-smtp';
+import { ImapSession } from './sandbox-imap';
+import { Pop3Session } from './sandbox-pop3';
+import { createSandboxHandler } from './sandbox-http';
+import type {
+  EmailConfig,
+  MailSandboxAddress,
+  MailSandboxOptions,
+  SandboxMailbox,
+  SandboxMessage,
+  SandboxMessageFilter,
+  SandboxState,
+  SandboxStore,
+} from './types';
+
+const DEFAULT_PORTS = { smtp: 2525, imap: 1143, pop3: 1110, http: 8025 };
+
+export class MemorySandboxStore implements SandboxStore {
+  private state: SandboxState | null = null;
+
+  async load(): Promise<SandboxState | null> {
+    return this.state;
+  }
+
+  async save(state: SandboxState): Promise<void> {
+    this.state = state;
+  }
+}
+
+/**
+ * Stores all mailboxes as one JSON file, replaced atomically on every save.
+ * Raw messages are kept as base64.
+ */
+export class FileSandboxStore implements SandboxStore {
+  constructor(private path: string) {}
+
+  async load(): Promise<SandboxState | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const state: SandboxState = JSON.parse(data, (_key, value) =>
+      value && typeof value.$base64 === 'string'
+        ? new Uint8Array(Buffer.from(value.$base64, 'base64'))
+        : value
+    );
+    return {
+      ...state,
+      mailboxes: state.mailboxes.map((mailbox) => ({
+        ...mailbox,
+        messages: mailbox.messages.map((message) => ({ ...message, date: new Date(message.date) })),
+      })),
+    };
+  }
+
+  async save(state: SandboxState): Promise<void> {
+    const data = JSON.stringify(state, (_key, value) => {
+      if (value instanceof Uint8Array) {
+        return { $base64: Buffer.from(value).toString('base64') };
+      }
+      if (value && value.type === 'Buffer' && Array.isArray(value.data)) {
+        return { $base64: Buffer.from(value.data).toString('base64') };
+      }
+      return value;
+    });
+    const temporary = `${this.path}.tmp`;
+    await fs.writeFile(temporary, data, 'utf8');
+    await fs.rename(temporary, this.path);
+  }
+}
+
+type Session = { run(): Promise<void> };
+
+/**
+ * In-process mail server for development and tests. Mail submitted over
+ * SMTP is stored in `INBOX` and served back over IMAP and POP3; an HTTP
+ * server shows the stored messages and exposes them as JSON under `/api`.
+ *
+ * All users share the same mailboxes. The IMAP and POP3 servers implement
+ * the parts of the protocols used by `ImapClient` and `Pop3Client`; no TLS
+ * is offered, so clients must not require it.
+ *
+ * Emits `message` for every stored message and `expunge` for every removed one.
+ */
+export class MailSandbox extends EventEmitter {
+  private state: SandboxState = {
+    uidvalidity: Math.floor(Date.now() / 1000),
+    mailboxes: [{ name: 'INBOX', uidnext: 1, messages: [] }],
+  };
+  private store: SandboxStore;
+  private servers: net.Server[] = [];
+  private sockets = new Set<net.Socket>();
+  private address: MailSandboxAddress | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private options: MailSandboxOptions = {}) {
+    super();
+    this.setMaxListeners(0);
+    this.store = options.store || new MemorySandboxStore();
+  }
+
+  async start(): Promise<MailSandboxAddress> {
+    if (this.address) {
+      return this.address;
+    }
+
+    const saved = await this.store.load();
+    if (saved) {
+      this.state = saved;
+    }
+
+    const host = this.options.host || '127.0.0.1';
+    try {
+      const address: MailSandboxAddress = {
+        host,
+        smtpPort: await this.listen(
+          (socket) => new SmtpSession(socket, this),
+          this.options.smtpPort ?? DEFAULT_PORTS.smtp
+        ),
+        imapPort: await this.listen(
+          (socket) => new ImapSession(socket, this),
+          this.options.imapPort ?? DEFAULT_PORTS.imap
+        ),
+        pop3Port: await this.listen(
+          (socket) => new Pop3Session(socket, this),
+          this.options.pop3Port ?? DEFAULT_PORTS.pop3
+        ),
+      };
+
+      if (this.options.httpPort !== false) {
+        const server = http.createServer(createSandboxHandler(this));
+        address.httpPort = await this.bind(server, this.options.httpPort ?? DEFAULT_PORTS.http);
+      }
+
+      this.address = address;
+      return address;
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+
+    const servers = this.servers;
+    this.servers = [];
+    await Promise.all(
+      servers.map((server) => new Promise<void>((resolve) => server.close(() => resolve())))
+    );
+    await this.saving;
+    this.address = null;
+  }
+
+  getAddress(): MailSandboxAddress | null {
+    return this.address;
+  }
+
+  /** Settings that point `EmailManager` (or the individual clients) at this sandbox. */
+  getEmailConfig(user = 'sandbox@localhost', password = 'sandbox'): EmailConfig {
+    const address = this.address;
+    if (!address) {
+      throw new Error('Mail sandbox is not running');
+    }
+
+    const server = { host: address.host, secure: false, ignoreTLS: true, auth: { user, password } };
+    return {
+      smtp: { ...server, port: address.smtpPort },
+      imap: { ...server, port: address.imapPort },
+      pop3: { ...server, port: address.pop3Port },
+    };
+  }
+
+  /**
+   * Stores a message as if it had been received over SMTP. Without an
+   * envelope the sender and recipients are taken from the headers.
+   */
+  async deliver(
+    raw: string | Uint8Array,
+    envelope?: { from: string; to: string[] },
+    mailbox = 'INBOX',
+    flags: string[] = [],
+    date = new Date()
+  ): Promise<SandboxMessage> {
+    const target = this.getMailbox(mailbox) || this.addMailbox(mailbox);
+    const content = typeof raw === 'string' ? Buffer.from(raw, 'utf8') : raw;
+
+    if (!envelope) {
+      const { headers } = parseMessage(content);
+      envelope = {
+        from: extractAddresses(headers.from)[0] || '',
+        to: extractAddresses([headers.to, headers.cc].filter(Boolean).join(', ')),
+      };
+    }
+
+    const message = this.append(target, { raw: new Uint8Array(content), envelope, flags, date });
+    await this.persist();
+    return message;
+  }
+
+  getMessages(filter: SandboxMessageFilter = {}): SandboxMessage[] {
+    const matches = (value: string | undefined, expected?: string) =>
+      !expected || (value || '').toLowerCase().includes(expected.toLowerCase());
+
+    return this.state.mailboxes
+      .filter((mailbox) => !filter.mailbox || mailbox.name === filter.mailbox)
+      .flatMap((mailbox) => mailbox.messages)
+      .filter((message) => {
+        if (!filter.from && !filter.to && !filter.subject) return true;
+        const { headers } = parseMessage(message.raw);
+        return (
+          matches(`${headers.from} ${message.envelope.from}`, filter.from) &&
+          matches(`${headers.to} ${headers.cc} ${message.envelope.to.join(' ')}`, filter.to) &&
+          matches(headers.subject, filter.subject)
+        );
+      });
+  }
+
+  getMessage(id: string): SandboxMessage | undefined {
+    for (const mailbox of this.state.mailboxes) {
+      const message = mailbox.messages.find((candidate) => candidate.id === id);
+      if (message) return message;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves with the first stored message matching `filter`, including
+   * messages already present. Handy for asserting on mail sent by a test.
+   */
+  waitForMessage(filter: SandboxMessageFilter = {}, timeout = 5000): Promise<SandboxMessage> {
+    const [existing] = this.getMessages(filter);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onMessage = (message: SandboxMessage) => {
+        if (this.getMessages(filter).includes(message)) {
+          clearTimeout(timer);
+          this.removeListener('message', onMessage);
+          resolve(message);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.removeListener('message', onMessage);
+        reject(new Error(`No message matching ${JSON.stringify(filter)} within ${timeout}ms`));
+      }, timeout);
+      this.on('message', onMessage);
+    });
+  }
+
+  async deleteMessage(id: string): Promise<boolean> {
+    for (const mailbox of this.state.mailboxes) {
+      const index = mailbox.messages.findIndex((message) => message.id === id);
+      if (index !== -1) {
+        const [message] = mailbox.messages.splice(index, 1);
+        this.emit('expunge', message);
+        await this.persist();
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Removes all messages; mailboxes and UIDs carry on. */
+  async clear(): Promise<void> {
+    for (const mailbox of this.state.mailboxes) {
+      const removed = mailbox.messages;
+      mailbox.messages = [];
+      removed.forEach((message) => this.emit('expunge', message));
+    }
+    await this.persist();
+  }
+
+  /** Checks credentials against `options.users`; anything passes when none are configured. */
+  authenticate(user: string, verify: (password: string) => boolean): boolean {
+    const users = this.options.users;
+    if (!users) return true;
+    return Object.prototype.hasOwnProperty.call(users, user) && verify(users[user]);
+  }
+
+  /**
+   * Checks an XOAUTH2/OAUTHBEARER client response. The sandbox has no
+   * authorization server, so the bearer token is compared with the password.
+   */
+  authenticateOAuth2(response: string): boolean {
+    const credentials = parseOAuth2Response(response);
+    return (
+      credentials !== null &&
+      this.authenticate(credentials.user, (expected) => expected === credentials.accessToken)
+    );
+  }
+
+  /** True when `options.users` is set; SMTP then only accepts mail after AUTH. */
+  isAuthRequired(): boolean {
+    return this.options.users !== undefined;
+  }
+
+  getUidValidity(): number {
+    return this.state.uidvalidity;
+  }
+
+  getMailboxes(): SandboxMailbox[] {
+    return this.state.mailboxes;
+  }
+
+  /** Mailbox names are case-sensitive except for `INBOX`. */
+  getMailbox(name: string): SandboxMailbox | undefined {
+    const key = name.toUpperCase() === 'INBOX' ? 'INBOX' : name;
+    return this.state.mailboxes.find((mailbox) => mailbox.name === key);
+  }
+
+  async createMailbox(name: string): Promise<SandboxMailbox> {
+    if (this.getMailbox(name)) {
+      throw new Error(`Mailbox "${name}" already exists`);
+    }
+    const mailbox = this.addMailbox(name);
+    await this.persist();
+    return mailbox;
+  }
+
+  async deleteMailbox(name: string): Promise<void> {
+    const mailbox = this.getMailbox(name);
+    if (!mailbox || mailbox.name === 'INBOX') {
+      throw new Error(`Mailbox "${name}" cannot be deleted`);
+    }
+    this.state.mailboxes = this.state.mailboxes.filter((candidate) => candidate !== mailbox);
+    mailbox.messages.forEach((message) => this.emit('expunge', message));
+    await this.persist();
+  }
+
+  async setFlags(
+    messages: SandboxMessage[],
+    flags: string[],
+    mode: 'add' | 'remove' | 'replace'
+  ): Promise<void> {
+    for (const message of messages) {
+      if (mode === 'replace') {
+        message.flags = [...flags];
+      } else if (mode === 'add') {
+        message.flags = [
+          ...message.flags,
+          ...flags.filter((flag) => !message.flags.includes(flag)),
+        ];
+      } else {
+        message.flags = message.flags.filter((flag) => !flags.includes(flag));
+      }
+    }
+    await this.persist();
+  }
+
+  /** Copies messages into `target` and returns the copies, in order. */
+  async copyMessages(
+    messages: SandboxMessage[],
+    target: SandboxMailbox
+  ): Promise<SandboxMessage[]> {
+    const copies = messages.map((message) =>
+      this.append(target, {
+        raw: message.raw,
+        envelope: message.envelope,
+        flags: [...message.flags],
+        date: message.date,
+      })
+    );
+    await this.persist();
+    return copies;
+  }
+
+  /** Removes the given messages from their mailbox. */
+  async expunge(messages: SandboxMessage[]): Promise<void> {
+    for (const message of messages) {
+      const mailbox = this.getMailbox(message.mailbox);
+      const index = mailbox ? mailbox.messages.indexOf(message) : -1;
+      if (mailbox && index !== -1) {
+        mailbox.messages.splice(index, 1);
+        this.emit('expunge', message);
+      }
+    }
+    await this.persist();
+  }
+
+  private addMailbox(name: string): SandboxMailbox {
+    const mailbox: SandboxMailbox = { name, uidnext: 1, messages: [] };
+    this.state.mailboxes.push(mailbox);
+    return mailbox;
+  }
+
+  private append(
+    mailbox: SandboxMailbox,
+    fields: Pick<SandboxMessage, 'raw' | 'envelope' | 'flags' | 'date'>
+  ): SandboxMessage {
+    const message: SandboxMessage = {
+      id: randomUUID(),
+      mailbox: mailbox.name,
+      uid: mailbox.uidnext++,
+      ...fields,
+    };
+    mailbox.messages.push(message);
+    this.emit('message', message);
+    return message;
+  }
+
+  private persist(): Promise<void> {
+    const save = this.saving.then(() => this.store.save(this.state));
+    this.saving = save.catch(() => undefined);
+    return save;
+  }
+
+  private listen(createSession: (socket: MailSocket) => Session, port: number): Promise<number> {
+    const server = net.createServer((socket) => {
+      const connection = MailSocket.accept(socket);
+      createSession(connection)
+        .run()
+        .catch(() => undefined)
+        .finally(() => connection.close());
+    });
+    return this.bind(server, port);
+  }
+
+  private bind(server: net.Server, port: number): Promise<number> {
+    this.servers.push(server);
+    server.on('connection', (socket: net.Socket) => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, this.options.host || '127.0.0.1', () => {
+        server.removeListener('error', reject);
+        resolve((server.address() as net.AddressInfo).port);
+      });
+    });
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseSieve, SieveError } from './sieve';
+import { MailRulesEngine } from './rules';
+import type { ImapMessage } from './types';
+
+function message(headers: Record<string, string>, size = 100): ImapMessage {
+  return {
+    uid: 1,
+    flags: [],
+    date: new Date(),
+    structure: null,
+    headers,
+    attachments: [],
+    raw: new Uint8Array(size),
+  };
+}
+
+describe('parseSieve', () => {
+  it('converts tests and actions into rules', () => {
+    const rules = parseSieve(`
+      require ["fileinto", "imap4flags"];
+      # Mailing lists
+      if header :contains "list-id" "<dev.lists.example.com>" {
+        fileinto "Lists/Dev";
+        stop;
+      }
+      if allof (address :domain :is "from" "example.com", not size :over 1M) {
+        addflag ["\\\\Flagged", "\\\\Seen"];
+      }
+    `);
+
+    expect(rules).toEqual([
+      {
+        name: 'sieve:5',
+        conditions: [
+          {
+            field: 'header',
+            header: 'list-id',
+            operator: 'contains',
+            value: '<dev.lists.example.com>',
+          },
+        ],
+        actions: [{ type: 'move', mailbox: 'Lists/Dev' }],
+        stop: true,
+      },
+      {
+        name: 'sieve:9',
+        conditions: [
+          {
+            all: [
+              { field: 'from', operator: 'matches', value: '*@example.com' },
+              { not: { field: 'size', operator: 'over', value: 1024 * 1024 } },
+            ],
+          },
+        ],
+        actions: [{ type: 'seen' }, { type: 'flag', flags: ['\\Flagged'] }],
+      },
+    ]);
+  });
+
+  it('turns elsif and else into mutually exclusive rules', () => {
+    const engine = new MailRulesEngine(
+      parseSieve(`
+        if header :is "subject" ["urgent", "asap"] { fileinto "Urgent"; }
+        elsif exists "x-spam-flag" { discard; }
+        else { redirect "triage@example.com"; }
+      `)
+    );
+    const targets = (headers: Record<string, string>) =>
+      engine.match(message(headers)).flatMap((rule) => rule.actions);
+
+    expect(targets({ subject: 'ASAP', 'x-spam-flag': 'YES' })).toEqual([
+      { type: 'move', mailbox: 'Urgent' },
+    ]);
+    expect(targets({ subject: 'Hi', 'x-spam-flag': 'YES' })).toEqual([
+      { type: 'flag', flags: ['\\Deleted'] },
+    ]);
+    expect(targets({ subject: 'Hi' })).toEqual([{ type: 'forward', to: 'triage@example.com' }]);
+  });
+
+  it('rejects unsupported syntax with the line number', () => {
+    expect(() => parseSieve('require "vacation";')).toThrow(SieveError);
+    expect(() => parseSieve('\nif envelope :is "from" "a" { keep; }')).toThrow(
+      'Unsupported test "envelope" (line 2)'
+    );
+    expect(() => parseSieve('fileinto "Inbox"')).toThrow(/Unexpected end of script/);
+    expect(() => parseSieve('if true { keep; ')).toThrow(SieveError);
+  });
+});
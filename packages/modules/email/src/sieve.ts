@@ -0,0 +1,407 @@
+import type { MailRule, MailRuleAction, MailRuleCondition, MailRuleTest } from './types';
+
+export class SieveError extends Error {
+  constructor(
+    message: string,
+    public line?: number
+  ) {
+    super(line === undefined ? message : `${message} (line ${line})`);
+    this.name = 'SieveError';
+  }
+}
+
+type Token =
+  | { type: 'identifier' | 'tag' | 'string'; value: string; line: number }
+  | { type: 'number'; value: number; line: number }
+  | { type: 'punctuation'; value: string; line: number };
+
+type Argument =
+  | { type: 'tag'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'strings'; value: string[] };
+
+interface Test {
+  name: string;
+  args: Argument[];
+  tests: Test[];
+  line: number;
+}
+
+interface Command extends Test {
+  block?: Command[];
+}
+
+const EXTENSIONS = ['fileinto', 'imap4flags', 'body', 'regex', 'copy'];
+const UNITS: Record<string, number> = { '': 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3 };
+const MATCH_TYPES: Record<string, MailRuleTest['operator']> = {
+  ':is': 'is',
+  ':contains': 'contains',
+  ':matches': 'matches',
+  ':regex': 'regex',
+};
+
+/**
+ * Converts a Sieve script (RFC 5228) into rules. Supported are `if`/`elsif`/
+ * `else`, the `header`, `address`, `exists`, `size`, `body`, `allof`,
+ * `anyof`, `not`, `true` and `false` tests, and the `fileinto`, `redirect`,
+ * `addflag`, `keep`, `discard` and `stop` actions. `discard` flags the
+ * message `\Deleted`; anything else is rejected with a `SieveError`.
+ */
+export function parseSieve(script: string): MailRule[] {
+  const rules: MailRule[] = [];
+  compileBlock(new Parser(tokenize(script)).commands(true), [], rules);
+  return rules;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  commands(topLevel: boolean): Command[] {
+    const commands: Command[] = [];
+    while (this.index < this.tokens.length && !this.isPunctuation('}')) {
+      commands.push(this.command());
+    }
+    if (topLevel && this.index < this.tokens.length) {
+      throw new SieveError('Unexpected "}"', this.tokens[this.index].line);
+    }
+    return commands;
+  }
+
+  private command(): Command {
+    const command: Command = this.test();
+    if (this.isPunctuation('{')) {
+      this.index++;
+      command.block = this.commands(false);
+      this.expect('}');
+    } else {
+      this.expect(';');
+    }
+    return command;
+  }
+
+  private test(): Test {
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      throw new SieveError(`Expected an identifier, found "${token.value}"`, token.line);
+    }
+
+    const test: Test = { name: token.value.toLowerCase(), args: [], tests: [], line: token.line };
+    for (;;) {
+      const current = this.peek();
+      if (current?.type === 'tag' && current.value.toLowerCase() === ':comparator') {
+        // Comparisons are always case-insensitive (i;ascii-casemap).
+        this.index++;
+        this.strings();
+      } else if (current?.type === 'tag') {
+        test.args.push({ type: 'tag', value: String(this.next().value).toLowerCase() });
+      } else if (current?.type === 'number') {
+        test.args.push({ type: 'number', value: this.next().value as number });
+      } else if (current?.type === 'string' || this.isPunctuation('[')) {
+        test.args.push({ type: 'strings', value: this.strings() });
+      } else {
+        break;
+      }
+    }
+
+    if (this.isPunctuation('(')) {
+      this.index++;
+      test.tests.push(this.test());
+      while (this.isPunctuation(',')) {
+        this.index++;
+        test.tests.push(this.test());
+      }
+      this.expect(')');
+    } else if (this.peek()?.type === 'identifier') {
+      test.tests.push(this.test());
+    }
+    return test;
+  }
+
+  private strings(): string[] {
+    if (!this.isPunctuation('[')) {
+      return [String(this.next().value)];
+    }
+
+    this.index++;
+    const values: string[] = [];
+    for (;;) {
+      const token = this.next();
+      if (token.type !== 'string') {
+        throw new SieveError('Expected a string in string list', token.line);
+      }
+      values.push(token.value);
+      if (!this.isPunctuation(',')) break;
+      this.index++;
+    }
+    this.expect(']');
+    return values;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punctuation' || token.value !== value) {
+      throw new SieveError(`Expected "${value}", found "${token.value}"`, token.line);
+    }
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'punctuation' && token.value === value;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new SieveError('Unexpected end of script', this.tokens[this.tokens.length - 1]?.line);
+    }
+    return token;
+  }
+}
+
+function tokenize(script: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern =
+    /(\r?\n)|([ \t]+)|(#[^\n]*)|(\/\*[\s\S]*?\*\/)|"((?:[^"\\]|\\[\s\S])*)"|(:[A-Za-z_][\w-]*)|([A-Za-z_][\w-]*)|(\d+)([KMG]?)|([[\](),{};])|([\s\S])/gi;
+  let line = 1;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(script))) {
+    const [text, , , , , quoted, tag, identifier, digits, unit, punctuation, unexpected] = match;
+    if (quoted !== undefined) {
+      tokens.push({ type: 'string', value: quoted.replace(/\\([\s\S])/g, '$1'), line });
+    } else if (tag) {
+      tokens.push({ type: 'tag', value: tag, line });
+    } else if (identifier) {
+      if (identifier.toLowerCase() === 'text' && script[pattern.lastIndex] === ':') {
+        throw new SieveError('Multi-line strings are not supported', line);
+      }
+      tokens.push({ type: 'identifier', value: identifier, line });
+    } else if (digits) {
+      tokens.push({
+        type: 'number',
+        value: parseInt(digits, 10) * UNITS[unit.toUpperCase()],
+        line,
+      });
+    } else if (punctuation) {
+      tokens.push({ type: 'punctuation', value: punctuation, line });
+    } else if (unexpected !== undefined) {
+      throw new SieveError(`Unexpected character "${text}"`, line);
+    }
+    line += (text.match(/\n/g) || []).length;
+  }
+  return tokens;
+}
+
+/** Appends the rules for `commands`, each guarded by the enclosing conditions. */
+function compileBlock(commands: Command[], guard: MailRuleCondition[], rules: MailRule[]): void {
+  let actions: MailRuleAction[] = [];
+  let line = 0;
+  const flush = (stop = false) => {
+    if (actions.length > 0 || stop) {
+      rules.push({
+        name: `sieve:${line}`,
+        conditions: [...guard],
+        actions,
+        ...(stop ? { stop } : {}),
+      });
+    }
+    actions = [];
+  };
+
+  for (let index = 0; index < commands.length; index++) {
+    const command = commands[index];
+    if (actions.length === 0) line = command.line;
+
+    switch (command.name) {
+      case 'require':
+        for (const extension of stringArguments(command).flat()) {
+          if (!EXTENSIONS.includes(extension.toLowerCase())) {
+            throw new SieveError(`Unsupported extension "${extension}"`, command.line);
+          }
+        }
+        break;
+      case 'if': {
+        flush();
+        const previous: MailRuleCondition[] = [];
+        let branch: Command | undefined = command;
+        while (branch) {
+          const condition = branch.name === 'else' ? null : compileTest(single(branch));
+          const conditions = [
+            ...guard,
+            ...(previous.length > 0 ? [{ not: anyOf(previous) }] : []),
+            ...(condition ? [condition] : []),
+          ];
+          compileBlock(branch.block || [], conditions, rules);
+          if (!condition) break;
+          previous.push(condition);
+
+          const following: Command | undefined = commands[index + 1];
+          branch =
+            following && (following.name === 'elsif' || following.name === 'else')
+              ? commands[++index]
+              : undefined;
+        }
+        break;
+      }
+      case 'elsif':
+      case 'else':
+        throw new SieveError(`"${command.name}" without "if"`, command.line);
+      case 'stop':
+        flush(true);
+        return;
+      default:
+        actions.push(...compileAction(command));
+    }
+  }
+  flush();
+}
+
+function compileAction(command: Command): MailRuleAction[] {
+  const [target] = stringArguments(command);
+  const tags = command.args.filter((arg) => arg.type === 'tag').map((arg) => arg.value);
+
+  switch (command.name) {
+    case 'keep':
+      return [];
+    case 'discard':
+      return [{ type: 'flag', flags: ['\\Deleted'] }];
+    case 'fileinto':
+      if (tags.includes(':copy')) {
+        throw new SieveError('"fileinto :copy" is not supported', command.line);
+      }
+      return [{ type: 'move', mailbox: required(target, command)[0] }];
+    case 'redirect':
+      return [{ type: 'forward', to: required(target, command)[0] }];
+    case 'addflag': {
+      const flags = required(target, command).flatMap((value) =>
+        value.split(/\s+/).filter(Boolean)
+      );
+      const others = flags.filter((flag) => flag.toLowerCase() !== '\\seen');
+      return [
+        ...(flags.length > others.length ? [{ type: 'seen' as const }] : []),
+        ...(others.length > 0 ? [{ type: 'flag' as const, flags: others }] : []),
+      ];
+    }
+    default:
+      throw new SieveError(`Unsupported command "${command.name}"`, command.line);
+  }
+}
+
+function compileTest(test: Test): MailRuleCondition {
+  const strings = stringArguments(test);
+  const tags = test.args.filter((arg) => arg.type === 'tag').map((arg) => arg.value);
+  const operator = tags.map((tag) => MATCH_TYPES[tag]).find(Boolean) || 'is';
+
+  switch (test.name) {
+    case 'true':
+      return { all: [] };
+    case 'false':
+      return { any: [] };
+    case 'not':
+      return { not: compileTest(single(test)) };
+    case 'allof':
+      return { all: test.tests.map(compileTest) };
+    case 'anyof':
+      return anyOf(test.tests.map(compileTest));
+    case 'exists':
+      return allOf(
+        required(strings[0], test).map((header) => ({
+          field: 'header' as const,
+          header,
+          operator: 'exists' as const,
+        }))
+      );
+    case 'size': {
+      const limit = test.args.find((arg) => arg.type === 'number');
+      const over = tags.includes(':over');
+      if (!limit || over === tags.includes(':under')) {
+        throw new SieveError('"size" needs :over or :under and a number', test.line);
+      }
+      return { field: 'size', operator: over ? 'over' : 'under', value: limit.value as number };
+    }
+    case 'body':
+      if (tags.includes(':content')) {
+        throw new SieveError('"body :content" is not supported', test.line);
+      }
+      return anyOf(
+        required(strings[strings.length - 1], test).map((value) => ({
+          field: 'body' as const,
+          operator,
+          value,
+        }))
+      );
+    case 'header':
+    case 'address': {
+      const [names, keys] = strings.slice(-2);
+      if (!names || !keys) {
+        throw new SieveError(`"${test.name}" needs header names and keys`, test.line);
+      }
+      const part = tags.find((tag) => tag === ':localpart' || tag === ':domain');
+      const tests = names.flatMap((name) =>
+        keys.map((key) => headerTest(test.name === 'address', name, operator, key, part))
+      );
+      return anyOf(tests);
+    }
+    default:
+      throw new SieveError(`Unsupported test "${test.name}"`, test.line);
+  }
+}
+
+function headerTest(
+  address: boolean,
+  name: string,
+  operator: MailRuleTest['operator'],
+  key: string,
+  part?: string
+): MailRuleTest {
+  const header = name.toLowerCase();
+  const field =
+    header === 'subject'
+      ? 'subject'
+      : address && header === 'from'
+        ? 'from'
+        : address && (header === 'to' || header === 'cc')
+          ? 'to'
+          : 'header';
+
+  if (part && operator !== 'contains' && operator !== 'regex') {
+    const pattern = operator === 'is' ? key.replace(/[*?\\]/g, '\\$&') : key;
+    key = part === ':domain' ? `*@${pattern}` : `${pattern}@*`;
+    operator = 'matches';
+  }
+  return field === 'header'
+    ? { field, header, operator, value: key }
+    : { field, operator, value: key };
+}
+
+function stringArguments(test: Test): string[][] {
+  return test.args.filter((arg) => arg.type === 'strings').map((arg) => arg.value as string[]);
+}
+
+function required(value: string[] | undefined, test: Test): string[] {
+  if (!value || value.length === 0) {
+    throw new SieveError(`"${test.name}" needs a string argument`, test.line);
+  }
+  return value;
+}
+
+function single(test: Test): Test {
+  if (test.tests.length !== 1) {
+    throw new SieveError(`"${test.name}" needs exactly one test`, test.line);
+  }
+  return test.tests[0];
+}
+
+function anyOf(conditions: MailRuleCondition[]): MailRuleCondition {
+  return conditions.length === 1 ? conditions[0] : { any: conditions };
+}
+
+function allOf(conditions: MailRuleCondition[]): MailRuleCondition {
+  return conditions.length === 1 ? conditions[0] : { all: conditions };
+}
@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as net from 'net';
+import { generateKeyPairSync } from 'crypto';
+import { SmtpClient } from './smtp';
+import { dkimDnsRecord, verifyDkim } from './dkim';
+
+interface StandInOptions {
+  extensions?: string[];
+  rejectRecipients?: Record<string, string>;
+  rejectData?: string;
+  ehlo?: boolean;
+}
+
+interface StandIn {
+  server: net.Server;
+  port: number;
+  commands: string[];
+  messages: string[];
+}
+
+function startStandIn(options: StandInOptions = {}): Promise<StandIn> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const extensions = options.extensions ?? ['AUTH PLAIN LOGIN', '8BITMIME'];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let data: string[] = [];
+    let authStep: 'user' | 'password' | null = null;
+
+    socket.write('220 standin.test ESMTP ready\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(data.join('\r\n'));
+            data = [];
+            socket.write('250 2.0.0 queued as STANDIN\r\n');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+
+        if (authStep === 'user') {
+          authStep = 'password';
+          socket.write('334 UGFzc3dvcmQ6\r\n');
+          continue;
+        }
+        if (authStep === 'password') {
+          authStep = null;
+          socket.write('235 2.7.0 Authentication successful\r\n');
+          continue;
+        }
+
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') {
+          if (options.ehlo === false) {
+            socket.write('502 5.5.2 Command not recognized\r\n');
+          } else {
+            const lines = ['standin.test greets you', ...extensions];
+            socket.write(
+              lines.map((l, i) => `250${i === lines.length - 1 ? ' ' : '-'}${l}`).join('\r\n') +
+                '\r\n'
+            );
+          }
+        } else if (verb === 'HELO') {
+          socket.write('250 standin.test\r\n');
+        } else if (line.startsWith('AUTH PLAIN')) {
+          socket.write('235 2.7.0 Authentication successful\r\n');
+        } else if (line === 'AUTH LOGIN') {
+          authStep = 'user';
+          socket.write('334 VXNlcm5hbWU6\r\n');
+        } else if (verb === 'MAIL') {
+          socket.write('250 2.1.0 OK\r\n');
+        } else if (verb === 'RCPT') {
+          const address = line.slice(line.indexOf('<') + 1, line.indexOf('>'));
+          const reject = options.rejectRecipients?.[address];
+          socket.write(reject ? `${reject}\r\n` : '250 2.1.5 OK\r\n');
+        } else if (verb === 'DATA' && options.rejectData) {
+          socket.write(`${options.rejectData}\r\n`);
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 2.0.0 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address() as net.AddressInfo;
+      resolve({ server, port: address.port, commands, messages });
+    });
+  });
+}
+
+describe('SmtpClient', () => {
+  let standIn: StandIn;
+  let client: SmtpClient;
+
+  const createClient = (overrides: Record<string, unknown> = {}) =>
+    new SmtpClient({
+      host: '127.0.0.1',
+      port: standIn.port,
+      secure: false,
+      auth: { user: 'alice', password: 'secret' },
+      name: 'client.test',
+      ...overrides,
+    });
+
+  afterEach(async () => {
+    await client?.disconnect();
+    await new Promise((resolve) => standIn.server.close(resolve));
+  });
+
+  describe('with an ESMTP server', () => {
+    beforeEach(async () => {
+      standIn = await startStandIn({
+        rejectRecipients: {
+          'nobody@example.com': '550 5.1.1 User unknown',
+          'later@example.com': '451 4.3.0 Try again later',
+        },
+      });
+    });
+
+    it('negotiates EHLO and authenticates with AUTH PLAIN', async () => {
+      client = createClient();
+      await client.connect();
+
+      expect(standIn.commands[0]).toBe('EHLO client.test');
+      const plain = Buffer.from('\u0000alice\u0000secret').toString('base64');
+      expect(standIn.commands).toContain(`AUTH PLAIN ${plain}`);
+      expect(client.getCapabilities()).toHaveProperty('8BITMIME');
+      expect(client.getConnectionInfo().connected).toBe(true);
+    });
+
+    it('falls back to AUTH LOGIN when requested', async () => {
+      client = createClient({ authMethod: 'LOGIN' });
+      await client.connect();
+
+      expect(standIn.commands).toContain('AUTH LOGIN');
+      expect(standIn.commands).toContain(Buffer.from('alice').toString('base64'));
+      expect(standIn.commands).toContain(Buffer.from('secret').toString('base64'));
+    });
+
+    it('sends the envelope and reports per-recipient results', async () => {
+      client = createClient();
+      await client.connect();
+
+      const result = await client.sendEmail({
+        from: 'Alice <alice@example.com>',
+        to: ['bob@example.com', 'nobody@example.com'],
+        cc: 'later@example.com',
+        bcc: 'carol@example.com',
+        subject: 'Hello',
+        text: 'Hi Bob',
+      });
+
+      expect(standIn.commands).toContain('MAIL FROM:<alice@example.com>');
+      expect(result.accepted).toEqual(['bob@example.com', 'carol@example.com']);
+      expect(result.rejected).toEqual(['nobody@example.com']);
+      expect(result.pending).toEqual(['later@example.com']);
+      expect(result.envelope.from).toBe('alice@example.com');
+      expect(result.response).toContain('queued as STANDIN');
+      expect(result.messageId).toMatch(/^<.+@example\.com>$/);
+      expect(standIn.messages[0]).not.toContain('Bcc:');
+    });
+
+    it('signs outgoing messages when DKIM is configured', async () => {
+      const privateKey = generateKeyPairSync('ed25519')
+        .privateKey.export({ format: 'pem', type: 'pkcs8' })
+        .toString();
+      client = createClient({
+        dkim: { domainName: 'example.com', keySelector: 'mail', privateKey },
+      });
+      await client.connect();
+
+      await client.sendEmail({
+        from: 'alice@example.com',
+        to: 'bob@example.com',
+        subject: 'Signed',
+        text: 'Hello',
+      });
+
+      const [result] = await verifyDkim(standIn.messages[0], {
+        resolveKey: async () => dkimDnsRecord(privateKey),
+      });
+      expect(standIn.messages[0]).toMatch(/^DKIM-Signature: /);
+      expect(result.status).toBe('pass');
+    });
+
+    it('dot-stuffs lines starting with a period', async () => {
+      client = createClient();
+      await client.connect();
+
+      await client.sendEmail({
+        from: 'alice@example.com',
+        to: 'bob@example.com',
+        subject: 'Dots',
+        text: 'first\n.second\n..third',
+      });
+
+      expect(standIn.messages[0]).toContain('\r\n..second\r\n...third');
+    });
+
+    it('fails when every recipient is rejected', async () => {
+      client = createClient();
+      await client.connect();
+
+      await expect(
+        client.sendEmail({
+          from: 'alice@example.com',
+          to: 'nobody@example.com',
+          subject: 'Lost',
+          text: 'Nobody home',
+        })
+      ).rejects.toMatchObject({ responseCode: 550 });
+      expect(standIn.commands).toContain('RSET');
+      expect(standIn.commands).not.toContain('DATA');
+    });
+
+    it('resets the transaction when DATA is refused', async () => {
+      await new Promise((resolve) => standIn.server.close(resolve));
+      standIn = await startStandIn({ rejectData: '554 5.3.4 Message refused' });
+      client = createClient();
+      await client.connect();
+
+      await expect(
+        client.sendEmail({
+          from: 'alice@example.com',
+          to: 'bob@example.com',
+          subject: 'Refused',
+          text: 'Too big',
+        })
+      ).rejects.toMatchObject({ responseCode: 554 });
+      expect(standIn.commands.slice(-2)).toEqual(['DATA', 'RSET']);
+    });
+
+    it('verifies the connection with NOOP and quits on disconnect', async () => {
+      client = createClient();
+      await client.connect();
+
+      expect(await client.verifyConnection()).toBe(true);
+      await client.disconnect();
+
+      expect(standIn.commands).toContain('NOOP');
+      expect(standIn.commands[standIn.commands.length - 1]).toBe('QUIT');
+      expect(await client.verifyConnection()).toBe(false);
+    });
+  });
+
+  describe('with a legacy server', () => {
+    beforeEach(async () => {
+      standIn = await startStandIn({ ehlo: false });
+    });
+
+    it('falls back to HELO and skips authentication without AUTH support', async () => {
+      client = createClient({ auth: { user: '', password: '' } });
+      await client.connect();
+
+      expect(standIn.commands.slice(0, 2)).toEqual(['EHLO client.test', 'HELO client.test']);
+      expect(standIn.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+    });
+
+    it('refuses to continue without STARTTLS when TLS is required', async () => {
+      client = createClient({ requireTLS: true });
+
+      await expect(client.connect()).rejects.toThrow('Server does not support STARTTLS');
+    });
+  });
+
+  it('rejects sending before connecting', async () => {
+    standIn = await startStandIn();
+    client = createClient();
+
+    await expect(
+      client.sendEmail({ from: 'a@example.com', to: 'b@example.com', subject: 'x' })
+    ).rejects.toThrow('Not connected to SMTP server');
+  });
+});
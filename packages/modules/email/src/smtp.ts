@@ -1,61 +1,40 @@
-export interface SmtpConfig {
-  host: string;
-  port: number;
-  secure: boolean;
-  auth: {
-    user: string;
-    password: string;
-  };
-  pool?: boolean;
-  maxConnections?: number;
-  maxMessages?: number;
-  rateDelta?: number;
-  rateLimit?: number;
-}
+import * as os from 'os';
+import { MailSocket } from './transport';
+import { extractAddresses, parseAddress } from './address';
+import { MimeComposer } from './mime-builder';
+import { DkimSigner } from './dkim';
+import { authenticateOAuth2, selectOAuth2Mechanism, usesOAuth2 } from './oauth';
+import type { SmtpConfig, EmailOptions, SendResult } from './types';
 
-export interface EmailAttachment {
-  filename: string;
-  content: string | Uint8Array;
-  contentType?: string;
-  encoding?: string;
-  cid?: string;
-  headers?: Record<string, string>;
+export interface SmtpResponse {
+  code: number;
+  lines: string[];
+  message: string;
 }
 
-export interface EmailOptions {
-  from: string;
-  to: string | string[];
-  cc?: string | string[];
-  bcc?: string | string[];
-  subject: string;
-  text?: string;
-  html?: string;
-  attachments?: EmailAttachment[];
-  replyTo?: string;
-  inReplyTo?: string;
-  references?: string | string[];
-  priority?: 'high' | 'normal' | 'low';
-  headers?: Record<string, string>;
-  messageId?: string;
-  date?: Date;
-  encoding?: string;
-}
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public responseCode?: number,
+    public response?: string
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
 
-export interface SendResult {
-  messageId: string;
-  accepted: string[];
-  rejected: string[];
-  pending: string[];
-  response: string;
-  envelope: {
-    from: string;
-    to: string[];
-  };
+  /** 4xx replies are transient and may succeed on retry. */
+  get isTransient(): boolean {
+    return this.responseCode !== undefined && this.responseCode >= 400 && this.responseCode < 500;
+  }
 }
 
 export class SmtpClient {
-  private transporter: any = null;
+  private connection: MailSocket | null = null;
+  private capabilities = new Map<string, string[]>();
+  private greeting = '';
   private config: SmtpConfig;
+  private composer: MimeComposer;
+  private signer: DkimSigner | null;
 
   constructor(config: SmtpConfig) {
     this.config = {
@@ -64,30 +43,51 @@ export class SmtpClient {
       maxMessages: 100,
       rateDelta: 1000,
       rateLimit: 5,
+      timeout: 60000,
       ...config,
     };
+    this.composer = new MimeComposer(this.config.name);
+    this.signer = this.config.dkim ? new DkimSigner(this.config.dkim) : null;
   }
 
   async connect(): Promise<void> {
+    if (this.connection) {
+      return;
+    }
+
     try {
-      this.transporter = {
-        verify: async () => Promise.resolve(true),
-        sendMail: async (options: any) => ({
-          messageId: `<${Date.now()}@test.com>`,
-          accepted: Array.isArray(options.to) ? options.to : [options.to],
-          rejected: [],
-          pending: [],
-          response: '250 OK',
-          envelope: {
-            from: options.from,
-            to: Array.isArray(options.to) ? options.to : [options.to],
-          },
-        }),
-        close: () => {},
-      };
+      this.connection = await MailSocket.connect({
+        host: this.config.host,
+        port: this.config.port,
+        secure: this.config.secure,
+        timeout: this.config.timeout,
+        tlsOptions: this.config.tlsOptions,
+      });
+      this.connection.onClose(() => {
+        this.connection = null;
+      });
 
-      await this.transporter.verify();
+      this.greeting = (await this.expect(220)).message;
+      await this.hello();
+
+      if (
+        !this.connection.isSecure &&
+        !this.config.ignoreTLS &&
+        this.capabilities.has('STARTTLS')
+      ) {
+        await this.command('STARTTLS', [220]);
+        await this.connection.upgrade();
+        await this.hello();
+      } else if (!this.connection.isSecure && this.config.requireTLS) {
+        throw new Error('Server does not support STARTTLS');
+      }
+
+      if (this.config.auth?.user) {
+        await this.authenticate();
+      }
     } catch (error) {
+      this.connection?.close();
+      this.connection = null;
       throw new Error(
         `Failed to connect to SMTP server: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -95,85 +95,96 @@ export class SmtpClient {
   }
 
   async disconnect(): Promise<void> {
-    if (this.transporter) {
-      this.transporter.close();
-      this.transporter = null;
+    if (this.connection) {
+      const connection = this.connection;
+      try {
+        await this.command('QUIT', [221]);
+      } catch {
+        // The server may drop the connection before answering QUIT.
+      }
+      connection.close();
+      this.connection = null;
     }
   }
 
   async sendEmail(options: EmailOptions): Promise<SendResult> {
-    if (!this.transporter) {
+    if (!this.connection) {
       throw new Error('Not connected to SMTP server');
     }
 
     try {
-      const mailOptions = {
-        from: options.from,
-        to: Array.isArray(options.to) ? options.to.join(', ') : options.to,
-        cc: options.cc
-          ? Array.isArray(options.cc)
-            ? options.cc.join(', ')
-            : options.cc
-          : undefined,
-        bcc: options.bcc
-          ? Array.isArray(options.bcc)
-            ? options.bcc.join(', ')
-            : options.bcc
-          : undefined,
-        subject: options.subject,
-        text: options.text,
-        html: options.html,
-        attachments: options.attachments?.map((attachment) => ({
-          filename: attachment.filename,
-          content: attachment.content,
-          contentType: attachment.contentType,
-          encoding: attachment.encoding,
-          cid: attachment.cid,
-          headers: attachment.headers,
-        })),
-        replyTo: options.replyTo,
-        inReplyTo: options.inReplyTo,
-        references: options.references,
-        priority: options.priority,
-        headers: options.headers,
-        messageId: options.messageId,
-        date: options.date,
-        encoding: options.encoding,
-      };
+      const from = parseAddress(options.from).address;
+      const recipients = options.envelope?.to ?? [
+        ...extractAddresses(options.to),
+        ...extractAddresses(options.cc),
+        ...extractAddresses(options.bcc),
+      ];
+      const { messageId, raw } = this.composer.compose(options);
+      const message = this.signer ? this.signer.sign(raw) : raw;
 
-      const result = await this.transporter.sendMail(mailOptions);
+      await this.command(`MAIL FROM:<${from}>`, [250]);
+
+      const accepted: string[] = [];
+      const rejected: string[] = [];
+      const pending: string[] = [];
+
+      for (const recipient of recipients) {
+        const response = await this.send(`RCPT TO:<${recipient}>`);
+        if (response.code === 250 || response.code === 251) {
+          accepted.push(recipient);
+        } else if (response.code >= 400 && response.code < 500) {
+          pending.push(recipient);
+        } else {
+          rejected.push(recipient);
+        }
+      }
+
+      if (accepted.length === 0) {
+        throw new SmtpError('All recipients were rejected', pending.length > 0 ? 450 : 550);
+      }
+
+      await this.command('DATA', [354]);
+      await this.connection.write(`${this.dotStuff(message)}\r\n.\r\n`);
+      const response = await this.expect(250);
 
       return {
-        messageId: result.messageId || '',
-        accepted: result.accepted || [],
-        rejected: result.rejected || [],
-        pending: result.pending || [],
-        response: result.response || '',
+        messageId,
+        accepted,
+        rejected,
+        pending,
+        response: response.lines.join('\n'),
         envelope: {
-          from: result.envelope?.from || '',
-          to: result.envelope?.to || [],
+          from,
+          to: recipients,
         },
       };
     } catch (error) {
-      throw new Error(
-        `Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`
+      await this.resetTransaction();
+      throw new SmtpError(
+        `Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof SmtpError ? error.responseCode : undefined,
+        error instanceof SmtpError ? error.response : undefined
       );
     }
   }
 
   async verifyConnection(): Promise<boolean> {
-    if (!this.transporter) {
+    if (!this.connection) {
       return false;
     }
 
     try {
-      await this.transporter.verify();
+      await this.command('NOOP', [250]);
       return true;
     } catch {
       return false;
     }
   }
 
+  isConnected(): boolean {
+    return this.connection !== null && !this.connection.isClosed;
+  }
+
   getConnectionInfo(): {
     connected: boolean;
     config: Omit<SmtpConfig, 'auth' | 'password'>;
@@ -181,11 +192,15 @@ export class SmtpClient {
     const { auth, ...safeConfig } = this.config;
 
     return {
-      connected: this.transporter !== null,
+      connected: this.connection !== null,
       config: safeConfig,
     };
   }
 
+  getCapabilities(): Record<string, string[]> {
+    return Object.fromEntries(this.capabilities);
+  }
+
   async sendMultipleEmails(emails: EmailOptions[]): Promise<SendResult[]> {
     const results: SendResult[] = [];
 
@@ -214,14 +229,18 @@ export class SmtpClient {
     info?: any;
   }> {
     try {
-      if (!this.transporter) {
+      if (!this.connection) {
         await this.connect();
       }
 
-      const info = await this.transporter.verify();
+      await this.command('NOOP', [250]);
       return {
         success: true,
-        info,
+        info: {
+          greeting: this.greeting,
+          capabilities: this.getCapabilities(),
+          secure: this.connection?.isSecure || false,
+        },
       };
     } catch (error) {
       return {
@@ -230,4 +249,150 @@ export class SmtpClient {
       };
     }
   }
+
+  private async hello(): Promise<void> {
+    const name = this.config.name || os.hostname() || 'localhost';
+    this.capabilities.clear();
+
+    let response = await this.send(`EHLO ${name}`);
+    if (response.code !== 250) {
+      response = await this.send(`HELO ${name}`);
+      if (response.code !== 250) {
+        throw new SmtpError(`HELO rejected: ${response.message}`, response.code, response.message);
+      }
+      return;
+    }
+
+    for (const line of response.lines.slice(1)) {
+      const [keyword, ...params] = line.trim().split(/\s+/);
+      this.capabilities.set(keyword.toUpperCase(), params);
+    }
+  }
+
+  private async authenticate(): Promise<void> {
+    const { user, password = '' } = this.config.auth;
+    const advertised = (this.capabilities.get('AUTH') || []).map((m) => m.toUpperCase());
+    const method =
+      this.config.authMethod ||
+      (usesOAuth2(this.config.auth)
+        ? selectOAuth2Mechanism(advertised)
+        : advertised.includes('PLAIN')
+          ? 'PLAIN'
+          : advertised.includes('LOGIN')
+            ? 'LOGIN'
+            : null);
+
+    if (!method) {
+      throw new Error('Server does not support a known authentication mechanism');
+    }
+
+    if (method === 'XOAUTH2' || method === 'OAUTHBEARER') {
+      await authenticateOAuth2(
+        this.config.auth,
+        method,
+        this.config,
+        async (token, onChallenge) => {
+          let response = await this.send(`AUTH ${method} ${token}`);
+          if (response.code === 334) {
+            response = await this.send(onChallenge(response.message));
+          }
+          if (response.code !== 235) {
+            throw new SmtpError(
+              `AUTH failed: ${response.code} ${response.message}`,
+              response.code,
+              response.message
+            );
+          }
+        }
+      );
+    } else if (method === 'PLAIN') {
+      const token = Buffer.from(`\u0000${user}\u0000${password}`, 'utf8').toString('base64');
+      await this.command(`AUTH PLAIN ${token}`, [235]);
+    } else {
+      await this.command('AUTH LOGIN', [334]);
+      await this.command(Buffer.from(user, 'utf8').toString('base64'), [334]);
+      await this.command(Buffer.from(password, 'utf8').toString('base64'), [235]);
+    }
+  }
+
+  private dotStuff(message: string): string {
+    return message
+      .replace(/\r?\n/g, '\r\n')
+      .split('\r\n')
+      .map((line) => (line.startsWith('.') ? `.${line}` : line))
+      .join('\r\n');
+  }
+
+  /**
+   * Clears the envelope of a failed transaction, so recipients accepted for
+   * it do not carry over to the next MAIL FROM on this connection.
+   */
+  private async resetTransaction(): Promise<void> {
+    if (!this.connection || this.connection.isClosed) {
+      return;
+    }
+    try {
+      await this.send('RSET');
+    } catch {
+      // The connection is unusable; the next command reports it.
+    }
+  }
+
+  private async send(command: string): Promise<SmtpResponse> {
+    if (!this.connection) {
+      throw new Error('Not connected to SMTP server');
+    }
+
+    await this.connection.write(`${command}\r\n`);
+    return this.readResponse();
+  }
+
+  private async command(command: string, expected: number[]): Promise<SmtpResponse> {
+    const response = await this.send(command);
+    if (!expected.includes(response.code)) {
+      const verb = command.split(' ')[0];
+      throw new SmtpError(
+        `${verb} failed: ${response.code} ${response.message}`,
+        response.code,
+        response.message
+      );
+    }
+    return response;
+  }
+
+  private async expect(code: number): Promise<SmtpResponse> {
+    const response = await this.readResponse();
+    if (response.code !== code) {
+      throw new SmtpError(
+        `Unexpected server response: ${response.code} ${response.message}`,
+        response.code,
+        response.message
+      );
+    }
+    return response;
+  }
+
+  private async readResponse(): Promise<SmtpResponse> {
+    if (!this.connection) {
+      throw new Error('Not connected to SMTP server');
+    }
+
+    const lines: string[] = [];
+    let code = 0;
+
+    for (;;) {
+      const line = await this.connection.readLine();
+      code = parseInt(line.slice(0, 3), 10);
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        break;
+      }
+    }
+
+    if (isNaN(code)) {
+      throw new SmtpError(`Invalid server response: ${lines.join(' ')}`);
+    }
+
+    return { code, lines, message: lines.join(' ') };
+  }
 }
@@ -0,0 +1,376 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSyncCache, MailboxSync, SyncClient } from './sync';
+import type { ImapBoxInfo, ImapChanges, ImapFetchOptions, ImapOpenBoxOptions } from './imap';
+import type { ImapMessage } from './types';
+
+/**
+ * In-memory stand-in for an IMAP server mailbox that tracks MODSEQ values
+ * and expunged UIDs like a CONDSTORE/QRESYNC server would.
+ */
+class FakeServer implements SyncClient {
+  uidvalidity = 1000;
+  uidnext = 1;
+  modseq = 100;
+  enabled = new Set<string>();
+  messages = new Map<number, { flags: string[]; modseq: number }>();
+  vanished = new Map<number, number>();
+  log: string[] = [];
+  fetches: ImapFetchOptions[] = [];
+
+  constructor(public capabilities: string[] = []) {}
+
+  deliver(count: number, flags: string[] = []): void {
+    for (let i = 0; i < count; i++) {
+      this.messages.set(this.uidnext++, { flags: [...flags], modseq: ++this.modseq });
+    }
+  }
+
+  setFlags(uid: number, flags: string[]): void {
+    this.messages.set(uid, { flags, modseq: ++this.modseq });
+  }
+
+  expunge(uid: number): void {
+    this.messages.delete(uid);
+    this.vanished.set(uid, ++this.modseq);
+  }
+
+  getCapabilities(): string[] {
+    return this.capabilities;
+  }
+
+  async enable(extensions: string[]): Promise<string[]> {
+    this.log.push(`ENABLE ${extensions.join(' ')}`);
+    extensions.forEach((extension) => this.enabled.add(extension));
+    return extensions;
+  }
+
+  isEnabled(extension: string): boolean {
+    return this.enabled.has(extension);
+  }
+
+  async openBox(
+    name: string,
+    readOnly = false,
+    options: ImapOpenBoxOptions = {}
+  ): Promise<ImapBoxInfo> {
+    this.log.push(
+      `${readOnly ? 'EXAMINE' : 'SELECT'} ${name}${options.condstore ? ' CONDSTORE' : ''}`
+    );
+    return {
+      name,
+      readOnly,
+      uidvalidity: this.uidvalidity,
+      uidnext: this.uidnext,
+      flags: [],
+      permFlags: [],
+      messages: { total: this.messages.size, new: 0 },
+      highestModseq: options.condstore ? String(this.modseq) : undefined,
+    };
+  }
+
+  async searchMessages(): Promise<number[]> {
+    this.log.push('SEARCH ALL');
+    return Array.from(this.messages.keys());
+  }
+
+  async fetchMessages(uids: number[], options: ImapFetchOptions = {}): Promise<ImapMessage[]> {
+    this.fetches.push(options);
+    const bodies = options.bodies ?? 'HEADER';
+    const full = Array.isArray(bodies) ? bodies.length > 0 : true;
+    this.log.push(`FETCH ${uids.join(',')}${full ? ' BODY' : ''}`);
+    return uids.filter((uid) => this.messages.has(uid)).map((uid) => this.toMessage(uid, full));
+  }
+
+  async fetchChanges(changedSince: string): Promise<ImapChanges> {
+    this.log.push(`CHANGEDSINCE ${changedSince}`);
+    const since = Number(changedSince);
+    return {
+      messages: Array.from(this.messages.entries())
+        .filter(([, message]) => message.modseq > since)
+        .map(([uid]) => this.toMessage(uid, false)),
+      vanished: this.enabled.has('QRESYNC')
+        ? Array.from(this.vanished.entries())
+            .filter(([, modseq]) => modseq > since)
+            .map(([uid]) => uid)
+        : [],
+    };
+  }
+
+  async addFlags(uids: number[], flags: string[]): Promise<void> {
+    this.log.push(`STORE ${uids.join(',')} +${flags.join(' ')}`);
+    for (const uid of uids) {
+      const current = this.messages.get(uid)!.flags;
+      this.setFlags(uid, [...current, ...flags.filter((flag) => !current.includes(flag))]);
+    }
+  }
+
+  async removeFlags(uids: number[], flags: string[]): Promise<void> {
+    this.log.push(`STORE ${uids.join(',')} -${flags.join(' ')}`);
+    for (const uid of uids) {
+      const current = this.messages.get(uid)!.flags;
+      this.setFlags(
+        uid,
+        current.filter((flag) => !flags.includes(flag))
+      );
+    }
+  }
+
+  private toMessage(uid: number, full: boolean): ImapMessage {
+    const message = this.messages.get(uid)!;
+    return {
+      uid,
+      flags: [...message.flags],
+      modseq: String(message.modseq),
+      date: new Date(Date.UTC(2024, 0, uid)),
+      structure: null,
+      headers: full ? { subject: `Message ${uid}` } : {},
+      text: full ? `Body ${uid}` : undefined,
+      attachments: full
+        ? [
+            {
+              filename: 'a.bin',
+              contentType: 'application/octet-stream',
+              size: 2,
+              content: new Uint8Array([uid, 255]),
+            },
+          ]
+        : [],
+    };
+  }
+}
+
+describe('MailboxSync', () => {
+  it('diffs UIDs and flags when CONDSTORE is not available', async () => {
+    const server = new FakeServer();
+    server.deliver(3);
+    const sync = new MailboxSync(server);
+
+    expect(await sync.sync('INBOX')).toEqual({
+      mailbox: 'INBOX',
+      added: [1, 2, 3],
+      updated: [],
+      removed: [],
+      reset: true,
+    });
+
+    server.setFlags(2, ['\\Seen']);
+    server.expunge(3);
+    server.deliver(1);
+    server.log = [];
+
+    expect(await sync.sync('INBOX')).toMatchObject({
+      added: [4],
+      updated: [2],
+      removed: [3],
+      reset: false,
+    });
+    expect(server.log).toEqual(['EXAMINE INBOX', 'SEARCH ALL', 'FETCH 1,2', 'FETCH 4 BODY']);
+
+    const cached = await sync.getMessages('INBOX');
+    expect(cached.map((message) => [message.uid, message.flags])).toEqual([
+      [1, []],
+      [2, ['\\Seen']],
+      [4, []],
+    ]);
+    expect(cached[2].text).toBe('Body 4');
+    expect((await sync.getState('INBOX'))?.lastSync).toBeInstanceOf(Date);
+  });
+
+  it('only asks for changes since the cached HIGHESTMODSEQ with QRESYNC', async () => {
+    const server = new FakeServer(['CONDSTORE', 'QRESYNC', 'ENABLE']);
+    server.deliver(3);
+    const sync = new MailboxSync(server);
+    await sync.sync('INBOX');
+    const highest = (await sync.getState('INBOX'))?.highestModseq;
+    expect(highest).toBe(String(server.modseq));
+
+    server.log = [];
+    expect(await sync.sync('INBOX')).toMatchObject({ added: [], updated: [], removed: [] });
+    expect(server.log).toEqual(['EXAMINE INBOX CONDSTORE']);
+
+    server.setFlags(1, ['\\Flagged']);
+    server.expunge(2);
+    server.deliver(1);
+    server.log = [];
+
+    expect(await sync.sync('INBOX')).toMatchObject({ added: [4], updated: [1], removed: [2] });
+    expect(server.log).toEqual([
+      'EXAMINE INBOX CONDSTORE',
+      `CHANGEDSINCE ${highest}`,
+      'FETCH 4 BODY',
+    ]);
+    expect(server.enabled.has('QRESYNC')).toBe(true);
+    expect((await sync.getState('INBOX'))?.highestModseq).toBe(String(server.modseq));
+  });
+
+  it('detects expunges with a UID search under plain CONDSTORE', async () => {
+    const server = new FakeServer(['CONDSTORE']);
+    server.deliver(2);
+    const sync = new MailboxSync(server);
+    await sync.sync('INBOX');
+
+    server.expunge(1);
+    server.log = [];
+
+    expect(await sync.sync('INBOX')).toMatchObject({ removed: [1] });
+    expect(server.log).toEqual([
+      'EXAMINE INBOX CONDSTORE',
+      `CHANGEDSINCE ${server.modseq - 1}`,
+      'SEARCH ALL',
+    ]);
+  });
+
+  it('discards the cache when UIDVALIDITY changes', async () => {
+    const server = new FakeServer();
+    server.deliver(2);
+    const sync = new MailboxSync(server);
+    await sync.sync('INBOX');
+    await sync.updateFlags('INBOX', [1], { add: ['\\Seen'] });
+
+    server.uidvalidity++;
+    server.log = [];
+
+    expect(await sync.sync('INBOX')).toMatchObject({ added: [1, 2], reset: true });
+    expect(server.log).not.toContainEqual(expect.stringMatching(/^STORE/));
+    expect((await sync.getState('INBOX'))?.pendingFlags).toEqual({});
+  });
+
+  it('pushes local flag changes as deltas on the next sync', async () => {
+    const server = new FakeServer(['CONDSTORE']);
+    server.deliver(3);
+    const sync = new MailboxSync(server);
+    await sync.sync('INBOX');
+
+    await sync.updateFlags('INBOX', [1, 2], { add: ['\\Seen', '\\Flagged'] });
+    await sync.updateFlags('INBOX', [2], { remove: ['\\Flagged'] });
+    expect((await sync.getMessages('INBOX', [1, 2])).map((message) => message.flags)).toEqual([
+      ['\\Seen', '\\Flagged'],
+      ['\\Seen'],
+    ]);
+
+    // Changed elsewhere in the meantime; the delta must not overwrite it.
+    server.setFlags(2, ['$Important']);
+    server.log = [];
+
+    const result = await sync.sync('INBOX');
+    expect(server.log.slice(0, 4)).toEqual([
+      'SELECT INBOX CONDSTORE',
+      'STORE 1 +\\Seen \\Flagged',
+      'STORE 2 +\\Seen',
+      'STORE 2 -\\Flagged',
+    ]);
+    expect(result.updated).toEqual([2]);
+    expect(server.messages.get(2)?.flags).toEqual(['$Important', '\\Seen']);
+    expect((await sync.getMessages('INBOX', [2]))[0].flags).toEqual(['$Important', '\\Seen']);
+    expect((await sync.getState('INBOX'))?.pendingFlags).toEqual({});
+  });
+
+  it('keeps local changes queued behind a sync in progress', async () => {
+    const server = new FakeServer(['CONDSTORE']);
+    server.deliver(2);
+    const sync = new MailboxSync(server);
+    await sync.sync('INBOX');
+    await sync.updateFlags('INBOX', [1], { add: ['\\Seen'] });
+
+    server.log = [];
+    await Promise.all([sync.sync('INBOX'), sync.updateFlags('INBOX', [2], { add: ['\\Flagged'] })]);
+    expect(server.log).toContain('STORE 1 +\\Seen');
+    expect((await sync.getState('INBOX'))?.pendingFlags).toEqual({
+      2: { add: ['\\Flagged'], remove: [] },
+    });
+
+    await sync.sync('INBOX');
+    expect(server.messages.get(2)?.flags).toEqual(['\\Flagged']);
+  });
+
+  it('rejects local changes to a mailbox that was never synced', async () => {
+    const sync = new MailboxSync(new FakeServer());
+    await expect(sync.updateFlags('Archive', [1], { add: ['\\Seen'] })).rejects.toThrow(
+      'Mailbox "Archive" has not been synced'
+    );
+  });
+
+  it('caches headers in batches and fetches whole messages on request', async () => {
+    const server = new FakeServer();
+    server.deliver(120);
+    const sync = new MailboxSync(server);
+
+    await sync.sync('INBOX');
+    expect(server.fetches.map((options) => options.bodies)).toEqual(['HEADER', 'HEADER', 'HEADER']);
+
+    server.log = [];
+    await sync.sync('INBOX');
+    expect(server.log.filter((line) => line.startsWith('FETCH'))).toHaveLength(3);
+
+    server.log = [];
+    server.fetches = [];
+    const messages = await sync.fetchMessages('INBOX', [7, 3]);
+    expect(messages.map((message) => message.uid)).toEqual([3, 7]);
+    expect(server.log).toEqual(['FETCH 7,3 BODY']);
+    expect(server.fetches).toEqual([{ bodies: '' }]);
+
+    await sync.fetchMessages('Archive', [1]);
+    expect(server.log.slice(1)).toEqual(['EXAMINE Archive', 'FETCH 1 BODY']);
+  });
+
+  it('downloads each whole message once and keeps its flags current', async () => {
+    const server = new FakeServer();
+    server.deliver(3);
+    const sync = new MailboxSync(server);
+    await sync.sync('INBOX');
+
+    server.log = [];
+    await sync.fetchMessages('INBOX', [1, 2]);
+    server.setFlags(2, ['\\Seen']);
+    await sync.sync('INBOX');
+    const messages = await sync.fetchMessages('INBOX', [1, 2, 3]);
+
+    expect(server.log.filter((line) => line.endsWith('BODY'))).toEqual([
+      'FETCH 1,2 BODY',
+      'FETCH 3 BODY',
+    ]);
+    expect(messages.map((message) => [message.uid, message.text, message.flags])).toEqual([
+      [1, 'Body 1', []],
+      [2, 'Body 2', ['\\Seen']],
+      [3, 'Body 3', []],
+    ]);
+
+    server.uidvalidity++;
+    await sync.sync('INBOX');
+    server.log = [];
+    await sync.fetchMessages('INBOX', [1]);
+    expect(server.log).toEqual(['FETCH 1 BODY']);
+  });
+
+  describe('FileSyncCache', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'email-sync-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('persists mailboxes so a new engine resumes with a delta sync', async () => {
+      const server = new FakeServer(['CONDSTORE', 'QRESYNC', 'ENABLE']);
+      server.deliver(2, ['\\Seen']);
+      await new MailboxSync(server, { cache: new FileSyncCache(directory) }).sync('Sent/2024');
+
+      server.deliver(1);
+      server.log = [];
+      const resumed = new MailboxSync(server, { cache: new FileSyncCache(directory) });
+
+      expect(await resumed.sync('Sent/2024')).toMatchObject({ added: [3], reset: false });
+      expect(server.log).toContain('FETCH 3 BODY');
+      const [first] = await resumed.getMessages('Sent/2024');
+      expect(first.date).toEqual(new Date(Date.UTC(2024, 0, 1)));
+      expect(first.attachments[0].content).toEqual(new Uint8Array([1, 255]));
+      expect((await resumed.getState('Sent/2024'))?.lastSync).toBeInstanceOf(Date);
+    });
+  });
+});
@@ -0,0 +1,428 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { ImapClient, ImapFetchOptions } from './imap';
+import type { EmailSyncConfig, ImapMessage, MailboxSyncState, SyncCacheStore } from './types';
+
+/** The part of `ImapClient` the sync engine drives. */
+export type SyncClient = Pick<
+  ImapClient,
+  | 'getCapabilities'
+  | 'enable'
+  | 'isEnabled'
+  | 'openBox'
+  | 'searchMessages'
+  | 'fetchMessages'
+  | 'fetchChanges'
+  | 'addFlags'
+  | 'removeFlags'
+>;
+
+/** UIDs per `UID FETCH`, so large mailboxes are not fetched in one response. */
+const FETCH_BATCH_SIZE = 50;
+
+/** Messages kept by `fetchMessages`; the least recently used are dropped first. */
+const BODY_CACHE_SIZE = 200;
+
+export interface SyncResult {
+  mailbox: string;
+  /** UIDs fetched into the cache for the first time. */
+  added: number[];
+  /** UIDs whose flags changed on the server. */
+  updated: number[];
+  /** UIDs expunged on the server and dropped from the cache. */
+  removed: number[];
+  /** True when the cache was rebuilt (first sync or UIDVALIDITY change). */
+  reset: boolean;
+}
+
+/** The mailbox the client has selected, as seen by `withMailbox` tasks. */
+export interface SelectedMailbox {
+  mailbox: string;
+  readOnly: boolean;
+  uidvalidity: number;
+}
+
+export interface FlagChanges {
+  add?: string[];
+  remove?: string[];
+}
+
+export class MemorySyncCache implements SyncCacheStore {
+  private states = new Map<string, MailboxSyncState>();
+
+  async load(mailbox: string): Promise<MailboxSyncState | null> {
+    return this.states.get(mailbox) || null;
+  }
+
+  async save(state: MailboxSyncState): Promise<void> {
+    this.states.set(state.mailbox, state);
+  }
+}
+
+/**
+ * Stores one JSON file per mailbox in `directory`, replaced atomically on
+ * every save. Attachment content is kept as base64.
+ */
+export class FileSyncCache implements SyncCacheStore {
+  constructor(private directory: string) {}
+
+  async load(mailbox: string): Promise<MailboxSyncState | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.pathFor(mailbox), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const state: MailboxSyncState = JSON.parse(data, (_key, value) =>
+      value && typeof value.$base64 === 'string'
+        ? new Uint8Array(Buffer.from(value.$base64, 'base64'))
+        : value
+    );
+    return {
+      ...state,
+      lastSync: state.lastSync ? new Date(state.lastSync) : undefined,
+      messages: state.messages.map((message) => ({ ...message, date: new Date(message.date) })),
+    };
+  }
+
+  async save(state: MailboxSyncState): Promise<void> {
+    const data = JSON.stringify(state, (_key, value) => {
+      if (value instanceof Uint8Array) {
+        return { $base64: Buffer.from(value).toString('base64') };
+      }
+      if (value && value.type === 'Buffer' && Array.isArray(value.data)) {
+        return { $base64: Buffer.from(value.data).toString('base64') };
+      }
+      return value;
+    });
+    const path = this.pathFor(state.mailbox);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${path}.tmp`, data, 'utf8');
+    await fs.rename(`${path}.tmp`, path);
+  }
+
+  private pathFor(mailbox: string): string {
+    return join(this.directory, `${encodeURIComponent(mailbox)}.json`);
+  }
+}
+
+/**
+ * Keeps a local copy of IMAP mailboxes up to date. The cache is tied to the
+ * mailbox UIDVALIDITY and discarded when it changes. When the server
+ * supports CONDSTORE only messages changed since the cached HIGHESTMODSEQ
+ * are fetched, and with QRESYNC expunged UIDs are reported by the server;
+ * otherwise the UID list and flags of all messages are compared.
+ *
+ * Only headers, flags and metadata are cached; `fetchMessages` downloads
+ * whole messages for the UIDs a caller actually needs and keeps the most
+ * recent ones in memory, keyed by UIDVALIDITY and UID.
+ *
+ * Every operation runs in one queue, because they share the selected
+ * mailbox; other commands that depend on it go through `withMailbox`.
+ *
+ * Flag changes made through `updateFlags` are applied to the cache at once
+ * and stored on the server as `+FLAGS`/`-FLAGS` deltas on the next sync, so
+ * concurrent changes to other flags on the server are preserved.
+ */
+export class MailboxSync {
+  private states = new Map<string, MailboxSyncState>();
+  private selected: SelectedMailbox | null = null;
+  private bodies = new Map<string, ImapMessage>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private store: SyncCacheStore;
+
+  constructor(
+    private client: SyncClient,
+    private options: EmailSyncConfig = {}
+  ) {
+    this.store = options.cache || new MemorySyncCache();
+  }
+
+  /** Synchronises one mailbox; calls are serialised because they share the selected mailbox. */
+  sync(mailbox = 'INBOX'): Promise<SyncResult> {
+    return this.enqueue(() => this.run(mailbox));
+  }
+
+  /**
+   * Runs `task` after pending operations with `mailbox` selected, read-only
+   * unless `readOnly` is false. The task must not select another mailbox.
+   */
+  withMailbox<T>(
+    mailbox: string,
+    task: (box: SelectedMailbox) => Promise<T>,
+    readOnly = true
+  ): Promise<T> {
+    return this.enqueue(async () => task(await this.select(mailbox, readOnly)));
+  }
+
+  /** Cached messages, all or those with the given UIDs, in UID order. */
+  async getMessages(mailbox = 'INBOX', uids?: number[]): Promise<ImapMessage[]> {
+    const state = await this.load(mailbox);
+    if (!state) return [];
+
+    const wanted = uids ? new Set(uids) : null;
+    return state.messages.filter((message) => !wanted || wanted.has(message.uid));
+  }
+
+  /**
+   * Fetches the given messages, whole by default. Only UIDs that are not in
+   * the memory cache are downloaded; flags come from the sync cache when
+   * the mailbox has been synced.
+   */
+  fetchMessages(
+    mailbox: string,
+    uids: number[],
+    options: ImapFetchOptions = { bodies: '' }
+  ): Promise<ImapMessage[]> {
+    return this.withMailbox(mailbox, async ({ uidvalidity }) => {
+      const keyFor = (uid: number) => JSON.stringify([mailbox, uidvalidity, uid, options]);
+      const found = new Map<number, ImapMessage>();
+      for (const uid of uids) {
+        const message = this.bodies.get(keyFor(uid));
+        if (message) {
+          // Re-inserted so the least recently used entries are dropped first.
+          this.bodies.delete(keyFor(uid));
+          this.bodies.set(keyFor(uid), message);
+          found.set(uid, message);
+        }
+      }
+
+      const missing = uids.filter((uid) => !found.has(uid));
+      for (const message of await this.fetchBatched(missing, options)) {
+        this.bodies.set(keyFor(message.uid), message);
+        found.set(message.uid, message);
+      }
+      for (const key of this.bodies.keys()) {
+        if (this.bodies.size <= BODY_CACHE_SIZE) break;
+        this.bodies.delete(key);
+      }
+
+      const state = await this.load(mailbox);
+      const cached = new Map(
+        state?.uidvalidity === uidvalidity
+          ? state.messages.map((message) => [message.uid, message])
+          : []
+      );
+      return Array.from(found.values())
+        .map((message) => {
+          const current = cached.get(message.uid);
+          return current ? { ...message, flags: [...current.flags] } : message;
+        })
+        .sort((a, b) => a.uid - b.uid);
+    });
+  }
+
+  async getState(mailbox = 'INBOX'): Promise<MailboxSyncState | null> {
+    return this.load(mailbox);
+  }
+
+  /**
+   * Changes flags locally, after pending operations. The change is then
+   * visible in the cache and sent to the server by the next `sync`.
+   */
+  updateFlags(mailbox: string, uids: number[], changes: FlagChanges): Promise<void> {
+    return this.enqueue(() => this.applyFlags(mailbox, uids, changes));
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async select(mailbox: string, readOnly: boolean): Promise<SelectedMailbox> {
+    if (this.selected?.mailbox === mailbox && (readOnly || !this.selected.readOnly)) {
+      return this.selected;
+    }
+    this.selected = null;
+    const box = await this.client.openBox(mailbox, readOnly);
+    this.selected = { mailbox, readOnly: box.readOnly, uidvalidity: box.uidvalidity };
+    return this.selected;
+  }
+
+  private async applyFlags(mailbox: string, uids: number[], changes: FlagChanges): Promise<void> {
+    const state = await this.load(mailbox);
+    if (!state) {
+      throw new Error(`Mailbox "${mailbox}" has not been synced`);
+    }
+
+    const add = changes.add || [];
+    const remove = changes.remove || [];
+    const wanted = new Set(uids);
+
+    for (const message of state.messages) {
+      if (!wanted.has(message.uid)) continue;
+
+      message.flags = message.flags
+        .filter((flag) => !remove.includes(flag))
+        .concat(add.filter((flag) => !message.flags.includes(flag)));
+
+      const pending = state.pendingFlags[message.uid] || { add: [], remove: [] };
+      pending.add = pending.add.filter((flag) => !remove.includes(flag));
+      pending.remove = pending.remove.filter((flag) => !add.includes(flag));
+      pending.add.push(...add.filter((flag) => !pending.add.includes(flag)));
+      pending.remove.push(...remove.filter((flag) => !pending.remove.includes(flag)));
+      state.pendingFlags[message.uid] = pending;
+    }
+
+    await this.store.save(state);
+  }
+
+  private async run(mailbox: string): Promise<SyncResult> {
+    const capabilities = this.client.getCapabilities();
+    const condstore = capabilities.includes('CONDSTORE') || capabilities.includes('QRESYNC');
+    if (
+      capabilities.includes('QRESYNC') &&
+      capabilities.includes('ENABLE') &&
+      !this.client.isEnabled('QRESYNC')
+    ) {
+      await this.client.enable(['QRESYNC']);
+    }
+
+    let state = await this.load(mailbox);
+    const hasPending = !!state && Object.keys(state.pendingFlags).length > 0;
+    this.selected = null;
+    const box = await this.client.openBox(mailbox, !hasPending, { condstore });
+    this.selected = { mailbox, readOnly: box.readOnly, uidvalidity: box.uidvalidity };
+    const result: SyncResult = { mailbox, added: [], updated: [], removed: [], reset: false };
+
+    if (!state || state.uidvalidity !== box.uidvalidity) {
+      state = { mailbox, uidvalidity: box.uidvalidity, uidnext: 0, messages: [], pendingFlags: {} };
+      this.states.set(mailbox, state);
+      result.reset = true;
+    }
+
+    const cached = new Map(state.messages.map((message) => [message.uid, message]));
+    const pushed = await this.pushFlags(state, cached);
+
+    let changed: ImapMessage[] = [];
+    let newUids: number[] = [];
+    let removed: number[] = [];
+
+    if (condstore && state.highestModseq && box.highestModseq) {
+      if (pushed || box.highestModseq !== state.highestModseq || box.uidnext !== state.uidnext) {
+        const changes = await this.client.fetchChanges(state.highestModseq);
+        changed = changes.messages.filter((message) => cached.has(message.uid));
+        newUids = changes.messages
+          .filter((message) => !cached.has(message.uid))
+          .map((message) => message.uid);
+        removed = changes.vanished;
+      }
+      if (!this.client.isEnabled('QRESYNC')) {
+        const present = new Set(await this.client.searchMessages(['ALL']));
+        removed = Array.from(cached.keys()).filter((uid) => !present.has(uid));
+      }
+    } else {
+      const present = await this.client.searchMessages(['ALL']);
+      const known = present.filter((uid) => cached.has(uid));
+      const presentSet = new Set(present);
+      changed = await this.fetchBatched(known, {
+        bodies: [],
+        struct: false,
+        envelope: false,
+        size: false,
+      });
+      newUids = present.filter((uid) => !cached.has(uid));
+      removed = Array.from(cached.keys()).filter((uid) => !presentSet.has(uid));
+    }
+
+    for (const update of changed) {
+      const message = cached.get(update.uid);
+      if (!message) continue;
+      if (!sameFlags(message.flags, update.flags)) {
+        message.flags = update.flags;
+        result.updated.push(update.uid);
+      }
+      if (update.modseq) message.modseq = update.modseq;
+    }
+
+    for (const uid of removed) {
+      if (cached.delete(uid)) {
+        result.removed.push(uid);
+        delete state.pendingFlags[uid];
+      }
+    }
+
+    if (newUids.length > 0) {
+      const fetched = await this.fetchBatched(newUids, {
+        bodies: this.options.bodies ?? 'HEADER',
+      });
+      for (const message of fetched) {
+        cached.set(message.uid, message);
+        result.added.push(message.uid);
+      }
+    }
+
+    state.messages = Array.from(cached.values()).sort((a, b) => a.uid - b.uid);
+    state.uidnext = box.uidnext;
+    state.highestModseq = condstore
+      ? maxModseq([box.highestModseq, ...changed.map((message) => message.modseq)])
+      : undefined;
+    state.lastSync = new Date();
+    await this.store.save(state);
+
+    return result;
+  }
+
+  private async fetchBatched(uids: number[], options: ImapFetchOptions): Promise<ImapMessage[]> {
+    const messages: ImapMessage[] = [];
+    for (let start = 0; start < uids.length; start += FETCH_BATCH_SIZE) {
+      messages.push(
+        ...(await this.client.fetchMessages(uids.slice(start, start + FETCH_BATCH_SIZE), options))
+      );
+    }
+    return messages;
+  }
+
+  /** Stores pending local flag changes, batching UIDs that share the same delta. */
+  private async pushFlags(
+    state: MailboxSyncState,
+    cached: Map<number, ImapMessage>
+  ): Promise<boolean> {
+    const batches = new Map<string, { add: string[]; remove: string[]; uids: number[] }>();
+    for (const [key, change] of Object.entries(state.pendingFlags)) {
+      const uid = Number(key);
+      if (!cached.has(uid)) continue;
+      const id = JSON.stringify([change.add.slice().sort(), change.remove.slice().sort()]);
+      const batch = batches.get(id) || { ...change, uids: [] };
+      batch.uids.push(uid);
+      batches.set(id, batch);
+    }
+
+    for (const batch of batches.values()) {
+      if (batch.add.length > 0) await this.client.addFlags(batch.uids, batch.add);
+      if (batch.remove.length > 0) await this.client.removeFlags(batch.uids, batch.remove);
+      batch.uids.forEach((uid) => delete state.pendingFlags[uid]);
+    }
+
+    return batches.size > 0;
+  }
+
+  private async load(mailbox: string): Promise<MailboxSyncState | null> {
+    let state = this.states.get(mailbox);
+    if (!state) {
+      const stored = await this.store.load(mailbox);
+      if (!stored) return null;
+      state = stored;
+      this.states.set(mailbox, state);
+    }
+    return state;
+  }
+}
+
+function sameFlags(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((flag) => b.includes(flag));
+}
+
+/** MODSEQ values are 63-bit, so they are kept as strings and compared as BigInt. */
+function maxModseq(values: Array<string | undefined>): string | undefined {
+  let max: bigint | undefined;
+  for (const value of values) {
+    if (value && /^\d+$/.test(value) && (max === undefined || BigInt(value) > max)) {
+      max = BigInt(value);
+    }
+  }
+  return max?.toString();
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TemplateRegistry, TemplateError, htmlToText } from './templates';
+
+describe('TemplateRegistry', () => {
+  let registry: TemplateRegistry;
+
+  beforeEach(() => {
+    registry = new TemplateRegistry('en')
+      .registerLayout('branded', {
+        html: '<html><body>{{> header}}{{{body}}}<p>{{company}}</p></body></html>',
+        text: '{{{body}}}\n\n-- {{company}}',
+      })
+      .registerPartial('header', '<h1>{{company}}</h1>')
+      .register('welcome', {
+        subject: 'Welcome, {{user.name}}!',
+        html: '<p>Hello <b>{{user.name}}</b></p>',
+        layout: 'branded',
+      })
+      .register('welcome', { subject: 'Bienvenue, {{user.name}} !', html: '<p>Bonjour</p>' }, 'fr')
+      .register('welcome', { subject: 'Bem-vindo', text: 'Olá' }, 'pt-BR');
+  });
+
+  it('interpolates nested values and escapes them in HTML only', () => {
+    const rendered = registry.render('welcome', {
+      user: { name: 'Tom & "Jerry" <tj>' },
+      company: 'Acme',
+    });
+
+    expect(rendered.subject).toBe('Welcome, Tom & "Jerry" <tj>!');
+    expect(rendered.html).toContain('<b>Tom &amp; &quot;Jerry&quot; &lt;tj&gt;</b>');
+    expect(rendered.locale).toBeUndefined();
+  });
+
+  it('wraps parts in layouts with partials and derives the text part from HTML', () => {
+    const rendered = registry.render('welcome', { user: { name: 'Ann' }, company: 'Acme' });
+
+    expect(rendered.html).toBe(
+      '<html><body><h1>Acme</h1><p>Hello <b>Ann</b></p><p>Acme</p></body></html>'
+    );
+    expect(rendered.text).toBe('Acme\n\nHello Ann\n\nAcme');
+  });
+
+  it('does not escape the body again when a layout writes {{body}}', () => {
+    registry
+      .registerLayout('plain', { html: '<main>{{body}}</main>' })
+      .register('note', { subject: 'Note', html: '<p>{{text}}</p>', layout: 'plain' });
+
+    expect(registry.render('note', { text: 'a < b' }).html).toBe('<main><p>a &lt; b</p></main>');
+  });
+
+  it('falls back from region to language to the base template', () => {
+    expect(registry.render('welcome', { user: { name: 'Zoé' } }, 'fr-CA')).toMatchObject({
+      subject: 'Bienvenue, Zoé !',
+      locale: 'fr',
+    });
+    expect(registry.render('welcome', {}, 'pt_BR')).toMatchObject({
+      subject: 'Bem-vindo',
+      text: 'Olá',
+      locale: 'pt-br',
+    });
+    expect(registry.render('welcome', { user: { name: 'Kai' } }, 'de').subject).toBe(
+      'Welcome, Kai!'
+    );
+  });
+
+  it('uses the registry default locale before the base template', () => {
+    registry.register('welcome', { subject: 'Hi (en)' }, 'en');
+
+    expect(registry.render('welcome', {}, 'de').subject).toBe('Hi (en)');
+  });
+
+  it('renders conditionals and loops', () => {
+    registry.register('digest', {
+      subject: '{{#if items}}{{items.length}} updates{{else}}No updates{{/if}}',
+      text: '{{#each items}}{{@index}}. {{title}} by {{author}}\n{{/each}}{{#unless items}}Nothing new.{{/unless}}',
+    });
+
+    const full = registry.render('digest', {
+      author: 'team',
+      items: [{ title: 'A' }, { title: 'B', author: 'Bo' }],
+    });
+    expect(full.subject).toBe('2 updates');
+    expect(full.text).toBe('0. A by team\n1. B by Bo\n');
+
+    const empty = registry.render('digest', { items: [] });
+    expect(empty).toMatchObject({ subject: 'No updates', text: 'Nothing new.' });
+  });
+
+  it('reports unknown templates, partials and malformed blocks', () => {
+    expect(() => registry.render('missing')).toThrow(TemplateError);
+    registry.register('broken', { subject: '{{> nope}}' });
+    expect(() => registry.render('broken')).toThrow('Partial "nope" is not registered');
+    registry.register('unclosed', { subject: '{{#if a}}x' });
+    expect(() => registry.render('unclosed')).toThrow('Unclosed block "{{#if}}"');
+  });
+});
+
+describe('htmlToText', () => {
+  it('converts structure, links, lists and entities', () => {
+    const html = `
+      <html><head><style>p { color: red }</style></head><body>
+        <h1>Order   shipped</h1>
+        <p>Track it <a href="https://example.com/t/1">here</a> or
+           <a href="mailto:help@example.com">email us</a>.<br>Thanks&nbsp;&amp; bye &#8212; &#x2713;</p>
+        <ul><li>Book</li><li>Pen</li></ul>
+        <img src="logo.png" alt="Acme logo">
+      </body></html>`;
+
+    expect(htmlToText(html)).toBe(
+      [
+        'Order shipped',
+        '',
+        'Track it here (https://example.com/t/1) or email us.',
+        'Thanks & bye — ✓',
+        '',
+        '* Book',
+        '* Pen',
+        '',
+        'Acme logo',
+      ].join('\n')
+    );
+  });
+
+  it('replaces invalid numeric entities with U+FFFD', () => {
+    expect(htmlToText('<p>&#99999999; &#xD800; &#0; &#65;</p>')).toBe('\ufffd \ufffd \ufffd A');
+  });
+});
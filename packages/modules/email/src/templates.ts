@@ -0,0 +1,423 @@
+import type { EmailTemplate, EmailTemplateLayout } from './types';
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public template?: string
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+export interface RenderedTemplate {
+  subject: string;
+  text: string;
+  html?: string;
+  /** Locale of the variant that was rendered; `undefined` for the base template. */
+  locale?: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; raw: boolean }
+  | { type: 'partial'; name: string }
+  | {
+      type: 'section';
+      kind: 'if' | 'unless' | 'each';
+      path: string;
+      children: TemplateNode[];
+      inverse: TemplateNode[];
+    };
+
+interface Frame {
+  value: unknown;
+  index?: number;
+  length?: number;
+}
+
+type Mode = 'html' | 'text';
+
+/** Markup rendered already, inserted as is by `{{name}}` as well as `{{{name}}}`. */
+class RenderedMarkup {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+const TAG = /\{\{(\{?)\s*([#/>]?)\s*([^}]*?)\s*\}?\}\}/g;
+
+/**
+ * Named email templates with per-locale variants, rendered with a small
+ * Mustache-style syntax:
+ *
+ * - `{{name}}` / `{{user.name}}` interpolate (HTML-escaped in `html` parts),
+ *   `{{{name}}}` inserts raw markup;
+ * - `{{#if x}}…{{else}}…{{/if}}`, `{{#unless x}}…{{/unless}}` and
+ *   `{{#each items}}…{{/each}}` (with `{{this}}` and `{{@index}}`);
+ * - `{{> partial}}` includes a registered partial.
+ */
+export class TemplateRegistry {
+  private templates = new Map<string, Map<string, EmailTemplate>>();
+  private partials = new Map<string, string>();
+  private layouts = new Map<string, EmailTemplateLayout>();
+  private compiled = new Map<string, TemplateNode[]>();
+
+  constructor(private defaultLocale = 'en') {}
+
+  /** Registers a template; omit `locale` for the base variant used as last fallback. */
+  register(name: string, template: EmailTemplate, locale = ''): this {
+    if (!this.templates.has(name)) {
+      this.templates.set(name, new Map());
+    }
+    this.templates.get(name)!.set(normalizeLocale(locale), template);
+    return this;
+  }
+
+  registerPartial(name: string, source: string): this {
+    this.partials.set(name, source);
+    return this;
+  }
+
+  registerLayout(name: string, layout: EmailTemplateLayout): this {
+    this.layouts.set(name, layout);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.templates.has(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.templates.keys());
+  }
+
+  /**
+   * Finds the best variant for `locale`: the exact locale, its language
+   * (`pt-BR` -> `pt`), the registry default locale, then the base template.
+   */
+  resolve(name: string, locale?: string): { template: EmailTemplate; locale?: string } {
+    const variants = this.templates.get(name);
+    if (!variants) {
+      throw new TemplateError(`Template "${name}" is not registered`, name);
+    }
+
+    for (const candidate of fallbackChain(locale, this.defaultLocale)) {
+      const template = variants.get(candidate);
+      if (template) {
+        return { template, locale: candidate || undefined };
+      }
+    }
+
+    throw new TemplateError(
+      `Template "${name}" has no variant for locale "${locale || this.defaultLocale}"`,
+      name
+    );
+  }
+
+  render(name: string, data: Record<string, unknown> = {}, locale?: string): RenderedTemplate {
+    const resolved = this.resolve(name, locale);
+    const { template } = resolved;
+    const layout = template.layout ? this.layouts.get(template.layout) : undefined;
+    if (template.layout && !layout) {
+      throw new TemplateError(`Layout "${template.layout}" is not registered`, name);
+    }
+
+    const subject = this.renderSource(template.subject, data, 'text', name)
+      .replace(/\s*\r?\n\s*/g, ' ')
+      .trim();
+
+    let html: string | undefined;
+    if (template.html !== undefined) {
+      html = this.renderSource(template.html, data, 'html', name);
+      if (layout?.html !== undefined) {
+        const body = new RenderedMarkup(html);
+        html = this.renderSource(layout.html, { ...data, body }, 'html', name);
+      }
+    }
+
+    let text: string;
+    if (template.text !== undefined) {
+      text = this.renderSource(template.text, data, 'text', name);
+      if (layout?.text !== undefined) {
+        text = this.renderSource(layout.text, { ...data, body: text }, 'text', name);
+      }
+    } else {
+      text = html !== undefined ? htmlToText(html) : '';
+    }
+
+    return { subject, text, html, locale: resolved.locale };
+  }
+
+  private renderSource(
+    source: string,
+    data: Record<string, unknown>,
+    mode: Mode,
+    name: string
+  ): string {
+    return this.renderNodes(this.compile(source, name), [{ value: data }], mode, name, 0);
+  }
+
+  private compile(source: string, name: string): TemplateNode[] {
+    let nodes = this.compiled.get(source);
+    if (!nodes) {
+      nodes = parseTemplate(source, name);
+      this.compiled.set(source, nodes);
+    }
+    return nodes;
+  }
+
+  private renderNodes(
+    nodes: TemplateNode[],
+    stack: Frame[],
+    mode: Mode,
+    name: string,
+    depth: number
+  ): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+        case 'variable': {
+          const found = lookup(stack, node.path);
+          const value = formatValue(found);
+          const raw = node.raw || found instanceof RenderedMarkup;
+          output += mode === 'html' && !raw ? escapeHtml(value) : value;
+          break;
+        }
+        case 'partial': {
+          const partial = this.partials.get(node.name);
+          if (partial === undefined) {
+            throw new TemplateError(`Partial "${node.name}" is not registered`, name);
+          }
+          if (depth > 20) {
+            throw new TemplateError(`Partial "${node.name}" is nested too deeply`, name);
+          }
+          output += this.renderNodes(this.compile(partial, name), stack, mode, name, depth + 1);
+          break;
+        }
+        case 'section': {
+          const value = lookup(stack, node.path);
+          if (node.kind === 'each') {
+            const items = Array.isArray(value) ? value : [];
+            if (items.length === 0) {
+              output += this.renderNodes(node.inverse, stack, mode, name, depth);
+            }
+            items.forEach((item, index) => {
+              const frame = { value: item, index, length: items.length };
+              output += this.renderNodes(node.children, [...stack, frame], mode, name, depth);
+            });
+          } else {
+            const show = node.kind === 'if' ? isTruthy(value) : !isTruthy(value);
+            output += this.renderNodes(
+              show ? node.children : node.inverse,
+              stack,
+              mode,
+              name,
+              depth
+            );
+          }
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+}
+
+function parseTemplate(source: string, name: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: Array<{ node: Extract<TemplateNode, { type: 'section' }>; inElse: boolean }> = [];
+  const target = () => {
+    const current = open[open.length - 1];
+    if (!current) return root;
+    return current.inElse ? current.node.inverse : current.node.children;
+  };
+
+  let position = 0;
+  let match: RegExpExecArray | null;
+  TAG.lastIndex = 0;
+
+  while ((match = TAG.exec(source))) {
+    if (match.index > position) {
+      target().push({ type: 'text', value: source.slice(position, match.index) });
+    }
+    position = TAG.lastIndex;
+
+    const [, triple, sigil, body] = match;
+    if (triple) {
+      target().push({ type: 'variable', path: body, raw: true });
+    } else if (sigil === '#') {
+      const [kind, path = ''] = body.split(/\s+/);
+      if (kind !== 'if' && kind !== 'unless' && kind !== 'each') {
+        throw new TemplateError(`Unknown block helper "#${kind}"`, name);
+      }
+      const node: Extract<TemplateNode, { type: 'section' }> = {
+        type: 'section',
+        kind,
+        path,
+        children: [],
+        inverse: [],
+      };
+      target().push(node);
+      open.push({ node, inElse: false });
+    } else if (sigil === '/') {
+      const current = open.pop();
+      if (!current || current.node.kind !== body) {
+        throw new TemplateError(`Unexpected closing tag "{{/${body}}}"`, name);
+      }
+    } else if (sigil === '>') {
+      target().push({ type: 'partial', name: body });
+    } else if (body === 'else') {
+      const current = open[open.length - 1];
+      if (!current) {
+        throw new TemplateError('"{{else}}" outside of a block', name);
+      }
+      current.inElse = true;
+    } else {
+      target().push({ type: 'variable', path: body, raw: false });
+    }
+  }
+
+  if (open.length > 0) {
+    throw new TemplateError(`Unclosed block "{{#${open[open.length - 1].node.kind}}}"`, name);
+  }
+  if (position < source.length) {
+    target().push({ type: 'text', value: source.slice(position) });
+  }
+
+  return root;
+}
+
+function lookup(stack: Frame[], path: string): unknown {
+  const frame = stack[stack.length - 1];
+  if (path === 'this' || path === '.') return frame.value;
+  if (path === '@index') return frame.index;
+  if (path === '@first') return frame.index === 0;
+  if (path === '@last') return frame.index !== undefined && frame.index === frame.length! - 1;
+
+  const segments = path.replace(/^this\./, '').split('.');
+  // Like Mustache, the first segment is looked up from the innermost scope outwards.
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const scope = stack[i].value;
+    if (scope !== null && typeof scope === 'object' && segments[0] in scope) {
+      return segments.reduce<unknown>(
+        (value, segment) =>
+          value !== null && value !== undefined
+            ? (value as Record<string, unknown>)[segment]
+            : undefined,
+        scope
+      );
+    }
+    if (path.startsWith('this.')) break;
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (value instanceof RenderedMarkup) return value.value !== '';
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function normalizeLocale(locale: string): string {
+  return locale.replace(/_/g, '-').toLowerCase();
+}
+
+function fallbackChain(locale: string | undefined, defaultLocale: string): string[] {
+  const chain: string[] = [];
+  for (const candidate of [locale, defaultLocale]) {
+    if (!candidate) continue;
+    const normalized = normalizeLocale(candidate);
+    chain.push(normalized);
+    const language = normalized.split('-')[0];
+    if (language !== normalized) chain.push(language);
+  }
+  chain.push('');
+  return Array.from(new Set(chain));
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+};
+
+/**
+ * Produces a readable plain-text alternative from HTML: block elements
+ * become line breaks, list items get bullets, links keep their target in
+ * parentheses and entities are decoded.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<hr\b[^>]*>/gi, '\n\n----------\n\n')
+    .replace(/<li\b[^>]*>/gi, '\n* ')
+    .replace(/<img\b[^>]*\balt\s*=\s*(["'])(.*?)\1[^>]*>/gi, '$2')
+    .replace(
+      /<a\b[^>]*\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi,
+      (_match, _quote, href: string, label: string) => {
+        const plain = label.replace(/<[^>]+>/g, '').trim();
+        if (!href || href.startsWith('#') || href.startsWith('mailto:') || href === plain) {
+          return plain;
+        }
+        return plain ? `${plain} (${href})` : href;
+      }
+    )
+    .replace(
+      /<\/?(p|div|h[1-6]|table|blockquote|ul|ol|pre|section|article|header|footer)\b[^>]*>/gi,
+      '\n\n'
+    )
+    .replace(/<\/tr\s*>/gi, '\n')
+    .replace(/<\/t[dh]\s*>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point =
+          code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        // Out-of-range and surrogate code points become U+FFFD, as in HTML parsers.
+        const valid = point > 0 && point <= 0x10ffff && (point < 0xd800 || point > 0xdfff);
+        return valid ? String.fromCodePoint(point) : '\ufffd';
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    });
+
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeSubject, threadMessages } from './threading';
+import type { EmailMessage, EmailThreadNode } from './types';
+
+let day = 0;
+
+function message(id: string, subject: string, extra: Partial<EmailMessage> = {}): EmailMessage {
+  day++;
+  return {
+    id,
+    from: `${id} <${id}@example.com>`,
+    to: ['team@example.com'],
+    subject,
+    date: new Date(Date.UTC(2024, 0, day)),
+    messageId: `<${id}@example.com>`,
+    flags: ['\\Seen'],
+    ...extra,
+  };
+}
+
+const shape = (node: EmailThreadNode): unknown =>
+  node.children.length > 0
+    ? { [node.message?.id || '(missing)']: node.children.map(shape) }
+    : node.message?.id;
+
+describe('threadMessages', () => {
+  it('links replies through References and In-Reply-To', () => {
+    const threads = threadMessages([
+      message('a', 'Launch plan'),
+      message('b', 'Re: Launch plan', { inReplyTo: '<a@example.com>', flags: [] }),
+      message('c', 'Re: Launch plan', {
+        references: ['<a@example.com>', '<b@example.com>'],
+        flags: [],
+      }),
+      message('d', 'Re: Launch plan', { inReplyTo: '<a@example.com>' }),
+      message('x', 'Lunch?'),
+    ]);
+
+    expect(threads.map((thread) => thread.subject)).toEqual(['Lunch?', 'Launch plan']);
+    const [, launch] = threads;
+    expect(shape(launch.root)).toEqual({ a: [{ b: ['c'] }, 'd'] });
+    expect(launch).toMatchObject({
+      id: '<a@example.com>',
+      messageCount: 4,
+      unreadCount: 2,
+    });
+    expect(launch.participants).toEqual([
+      'a <a@example.com>',
+      'b <b@example.com>',
+      'c <c@example.com>',
+      'd <d@example.com>',
+    ]);
+    expect(launch.lastDate).toEqual(launch.root.children[1].message?.date);
+  });
+
+  it('keeps a placeholder for a missing parent shared by several replies', () => {
+    const threads = threadMessages([
+      message('r1', 'Re: Budget', { references: ['<gone@example.com>'] }),
+      message('r2', 'Re: Budget', { references: ['<gone@example.com>'] }),
+    ]);
+
+    expect(threads).toHaveLength(1);
+    expect(shape(threads[0].root)).toEqual({ '(missing)': ['r1', 'r2'] });
+    expect(threads[0].id).toBe('<r1@example.com>');
+  });
+
+  it('falls back to the subject when reference headers are missing', () => {
+    const threads = threadMessages([
+      message('reply', 'RE: [ops] Fwd: Outage report'),
+      message('original', '[ops] Outage report'),
+      message('other', 'Re: Outage report'),
+    ]);
+
+    expect(threads).toHaveLength(1);
+    expect(shape(threads[0].root)).toEqual({ original: ['reply', 'other'] });
+  });
+
+  it('ignores reference loops', () => {
+    const threads = threadMessages([
+      message('p', 'Loop', { references: ['<q@example.com>'] }),
+      message('q', 'Re: Loop', { references: ['<p@example.com>'] }),
+    ]);
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0].messageCount).toBe(2);
+  });
+});
+
+describe('normalizeSubject', () => {
+  it('removes nested reply prefixes and list tags', () => {
+    expect(normalizeSubject('Re[2]: AW:  [list] Fwd:   Hello   World')).toBe('hello world');
+  });
+});
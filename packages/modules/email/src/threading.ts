@@ -0,0 +1,237 @@
+import { parseAddress } from './address';
+import type { EmailMessage, EmailThread, EmailThreadNode } from './types';
+
+interface Container {
+  id: string;
+  message?: EmailMessage;
+  parent?: Container;
+  children: Container[];
+}
+
+const REPLY_PREFIX = /^\s*((re|fwd?|aw|sv|antw)(\[\d+\])?\s*:|\[[^\]]*\])\s*/i;
+
+/** Strips reply/forward prefixes and list tags so related subjects compare equal. */
+export function normalizeSubject(subject: string | undefined): string {
+  let value = subject || '';
+  let previous: string;
+  do {
+    previous = value;
+    value = value.replace(REPLY_PREFIX, '');
+  } while (value !== previous);
+  return value.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/** Extracts `<id@host>` tokens from a Message-ID, In-Reply-To or References value. */
+export function parseMessageIds(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  const joined = Array.isArray(value) ? value.join(' ') : value;
+  return joined.match(/<[^<>\s]+>/g) || [];
+}
+
+/**
+ * Groups messages into conversations using Jamie Zawinski's threading
+ * algorithm: messages are linked through `References`/`In-Reply-To`,
+ * empty placeholder containers are pruned, and remaining roots that share a
+ * normalised subject are merged.
+ */
+export function threadMessages(messages: EmailMessage[]): EmailThread[] {
+  const table = new Map<string, Container>();
+  const containerFor = (id: string): Container => {
+    let container = table.get(id);
+    if (!container) {
+      container = { id, children: [] };
+      table.set(id, container);
+    }
+    return container;
+  };
+
+  messages.forEach((message, index) => {
+    let id = parseMessageIds(message.messageId)[0] || `<synthetic.${index}@thread>`;
+    if (table.get(id)?.message) {
+      id = `${id}#${index}`;
+    }
+    const container = containerFor(id);
+    container.message = message;
+
+    const references = parseMessageIds(message.references);
+    for (const reply of parseMessageIds(message.inReplyTo)) {
+      if (!references.includes(reply)) references.push(reply);
+    }
+
+    let parent: Container | undefined;
+    for (const reference of references) {
+      const current = containerFor(reference);
+      if (parent && !current.parent && current !== parent && !isAncestor(current, parent)) {
+        link(parent, current);
+      }
+      parent = current;
+    }
+
+    if (parent && (parent === container || isAncestor(container, parent))) {
+      parent = undefined;
+    }
+    unlink(container);
+    if (parent) {
+      link(parent, container);
+    }
+  });
+
+  const roots = prune(
+    Array.from(table.values()).filter((container) => !container.parent),
+    true
+  );
+
+  return groupBySubject(roots)
+    .map((root) => createThread(toNode(root)))
+    .sort((a, b) => (b.lastDate?.getTime() || 0) - (a.lastDate?.getTime() || 0));
+}
+
+/** Computes the thread summary (subject, counts, participants) for a tree. */
+export function createThread(root: EmailThreadNode): EmailThread {
+  const messages: EmailMessage[] = [];
+  const walk = (node: EmailThreadNode) => {
+    if (node.message) messages.push(node.message);
+    node.children.forEach(walk);
+  };
+  walk(root);
+
+  const first = root.message || messages[0];
+  const participants = new Map<string, string>();
+  for (const message of messages) {
+    if (!message.from) continue;
+    const { address } = parseAddress(message.from);
+    if (!participants.has(address.toLowerCase())) {
+      participants.set(address.toLowerCase(), message.from);
+    }
+  }
+
+  const dates = messages
+    .map((message) => message.date?.getTime())
+    .filter((time): time is number => time !== undefined && !isNaN(time));
+
+  return {
+    id: first?.messageId || first?.id || '',
+    subject: first?.subject || '',
+    root,
+    messageCount: messages.length,
+    unreadCount: messages.filter((message) => !message.flags?.includes('\\Seen')).length,
+    participants: Array.from(participants.values()),
+    lastDate: dates.length > 0 ? new Date(Math.max(...dates)) : undefined,
+  };
+}
+
+function link(parent: Container, child: Container): void {
+  unlink(child);
+  child.parent = parent;
+  parent.children.push(child);
+}
+
+function unlink(child: Container): void {
+  if (child.parent) {
+    child.parent.children = child.parent.children.filter((sibling) => sibling !== child);
+    child.parent = undefined;
+  }
+}
+
+/** True when `ancestor` appears on the parent chain of `container`. */
+function isAncestor(ancestor: Container, container: Container): boolean {
+  for (let current = container.parent; current; current = current.parent) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
+
+/**
+ * Drops empty leaves and replaces empty containers by their children,
+ * except at the root level where an empty container is kept to hold
+ * several sibling threads together (JWZ step 4).
+ */
+function prune(containers: Container[], isRoot: boolean): Container[] {
+  const result: Container[] = [];
+
+  for (const container of containers) {
+    container.children = prune(container.children, false);
+    container.children.forEach((child) => (child.parent = container));
+
+    if (!container.message && container.children.length === 0) {
+      continue;
+    }
+    if (!container.message && (!isRoot || container.children.length === 1)) {
+      for (const child of container.children) {
+        child.parent = isRoot ? undefined : container.parent;
+        result.push(child);
+      }
+      continue;
+    }
+    result.push(container);
+  }
+
+  return result;
+}
+
+function groupBySubject(roots: Container[]): Container[] {
+  const bySubject = new Map<string, Container>();
+  const result: Container[] = [];
+  const replace = (previous: Container, next: Container) => {
+    result[result.indexOf(previous)] = next;
+  };
+
+  for (const root of roots) {
+    const subject = subjectOf(root);
+    const key = normalizeSubject(subject);
+    const existing = key ? bySubject.get(key) : undefined;
+
+    if (!existing) {
+      if (key) bySubject.set(key, root);
+      result.push(root);
+      continue;
+    }
+
+    if (!existing.message) {
+      link(existing, root);
+    } else if (!root.message) {
+      link(root, existing);
+      replace(existing, root);
+      bySubject.set(key, root);
+    } else if (!isReply(existing) && isReply(root)) {
+      link(existing, root);
+    } else if (isReply(existing) && !isReply(root)) {
+      link(root, existing);
+      replace(existing, root);
+      bySubject.set(key, root);
+    } else {
+      const holder: Container = { id: `<subject.${key}@thread>`, children: [] };
+      replace(existing, holder);
+      link(holder, existing);
+      link(holder, root);
+      bySubject.set(key, holder);
+    }
+  }
+
+  return result;
+}
+
+function subjectOf(container: Container): string {
+  if (container.message) return container.message.subject;
+  const child = container.children.find((candidate) => candidate.message);
+  return child?.message?.subject || '';
+}
+
+function isReply(container: Container): boolean {
+  return /^\s*(\[[^\]]*\]\s*)*(re|fwd?|aw|sv|antw)(\[\d+\])?\s*:/i.test(
+    container.message?.subject || ''
+  );
+}
+
+function toNode(container: Container): EmailThreadNode {
+  return {
+    message: container.message,
+    children: container.children
+      .map(toNode)
+      .sort((a, b) => (firstDate(a) ?? 0) - (firstDate(b) ?? 0)),
+  };
+}
+
+function firstDate(node: EmailThreadNode): number | undefined {
+  return node.message?.date?.getTime() ?? (node.children[0] && firstDate(node.children[0]));
+}
@@ -0,0 +1,204 @@
+import * as net from 'net';
+import * as tls from 'tls';
+
+export interface MailSocketOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  timeout?: number;
+  tlsOptions?: Record<string, unknown>;
+}
+
+/**
+ * Buffered line/byte reader over a plain or TLS socket, shared by the SMTP,
+ * IMAP and POP3 clients. Reads are pull-based so each protocol can drive its
+ * own command/response loop.
+ */
+export class MailSocket {
+  private socket: net.Socket;
+  private buffer: Buffer = Buffer.alloc(0);
+  private waiter: (() => void) | null = null;
+  private closed = false;
+  private failure: Error | null = null;
+  private closeListeners: Array<(error: Error | null) => void> = [];
+
+  private options: MailSocketOptions;
+
+  private constructor(socket: net.Socket, options: MailSocketOptions) {
+    this.socket = socket;
+    this.options = { ...options };
+    this.attach(socket);
+  }
+
+  static connect(options: MailSocketOptions): Promise<MailSocket> {
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        socket.removeListener('error', onError);
+        socket.removeAllListeners('timeout');
+        resolve(new MailSocket(socket, options));
+      };
+      const onError = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      const socket: net.Socket = options.secure
+        ? tls.connect(
+            {
+              host: options.host,
+              port: options.port,
+              servername: net.isIP(options.host) ? undefined : options.host,
+              ...options.tlsOptions,
+            },
+            onConnect
+          )
+        : net.connect({ host: options.host, port: options.port }, onConnect);
+
+      socket.once('error', onError);
+      if (options.timeout) {
+        socket.setTimeout(options.timeout, () => {
+          onError(new Error(`Connection to ${options.host}:${options.port} timed out`));
+        });
+      }
+    });
+  }
+
+  /** Wraps a socket accepted by a server, such as the sandbox in `sandbox.ts`. */
+  static accept(socket: net.Socket, timeout?: number): MailSocket {
+    return new MailSocket(socket, {
+      host: socket.remoteAddress || 'localhost',
+      port: socket.remotePort || 0,
+      secure: socket instanceof tls.TLSSocket,
+      timeout,
+    });
+  }
+
+  get isSecure(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Upgrades the underlying connection to TLS in place (STARTTLS / STLS).
+   * Must only be called when no unread server data is buffered.
+   */
+  upgrade(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const plain = this.socket;
+      plain.removeAllListeners('data');
+      plain.removeAllListeners('close');
+      plain.removeAllListeners('error');
+      plain.removeAllListeners('timeout');
+
+      const secure = tls.connect(
+        {
+          socket: plain,
+          servername: net.isIP(this.options.host) ? undefined : this.options.host,
+          ...this.options.tlsOptions,
+        },
+        () => {
+          secure.removeListener('error', reject);
+          this.socket = secure;
+          this.attach(secure);
+          resolve();
+        }
+      );
+      secure.once('error', reject);
+    });
+  }
+
+  async readLineBuffer(): Promise<Buffer> {
+    for (;;) {
+      const index = this.buffer.indexOf('\n');
+      if (index !== -1) {
+        const end = index > 0 && this.buffer[index - 1] === 0x0d ? index - 1 : index;
+        const line = this.buffer.subarray(0, end);
+        this.buffer = this.buffer.subarray(index + 1);
+        return line;
+      }
+      await this.waitForData();
+    }
+  }
+
+  async readLine(): Promise<string> {
+    return (await this.readLineBuffer()).toString('utf8');
+  }
+
+  async readBytes(length: number): Promise<Buffer> {
+    while (this.buffer.length < length) {
+      await this.waitForData();
+    }
+    const chunk = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return chunk;
+  }
+
+  write(data: string | Buffer): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(this.failure || new Error('Connection closed'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket.write(data, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Changes the inactivity timeout; `0` disables it (used while idling).
+   */
+  setTimeout(timeout: number): void {
+    this.options.timeout = timeout;
+    this.socket.setTimeout(timeout);
+  }
+
+  onClose(listener: (error: Error | null) => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  close(): void {
+    if (!this.closed) {
+      this.socket.end();
+      this.socket.destroy();
+    }
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+      this.wake();
+    });
+    socket.on('error', (error: Error) => {
+      this.failure = error;
+    });
+    socket.on('close', () => {
+      this.closed = true;
+      this.wake();
+      for (const listener of this.closeListeners) {
+        listener(this.failure);
+      }
+    });
+    socket.on('timeout', () => {
+      this.failure = new Error('Connection timed out');
+      socket.destroy();
+    });
+    socket.setTimeout(this.options.timeout || 0);
+  }
+
+  private waitForData(): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(this.failure || new Error('Connection closed by server'));
+    }
+    return new Promise((resolve) => {
+      this.waiter = resolve;
+    });
+  }
+
+  private wake(): void {
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.();
+  }
+}
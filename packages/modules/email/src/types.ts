@@ -1,40 +1,13 @@
 export interface EmailConfig {
-  imap?: {
-    host: string;
-    port: number;
-    secure: boolean;
-    auth: {
-      user: string;
-      password: string;
-    };
-    connTimeout?: number;
-    authTimeout?: number;
-  };
-  smtp?: {
-    host: string;
-    port: number;
-    secure: boolean;
-    auth: {
-      user: string;
-      password: string;
-    };
-    pool?: boolean;
-    maxConnections?: number;
-    maxMessages?: number;
-    rateDelta?: number;
-    rateLimit?: number;
-  };
-  pop3?: {
-    host: string;
-    port: number;
-    secure: boolean;
-    auth: {
-      user: string;
-      password: string;
-    };
-    timeout?: number;
-    tlsOptions?: Record<string, unknown>;
-  };
+  imap?: ImapConfig;
+  smtp?: SmtpConfig;
+  pop3?: Pop3Config;
+  /** Retry and persistence settings for `EmailManager.queueEmail`. */
+  queue?: EmailQueueConfig;
+  /** Local cache used by `EmailManager.syncMailbox` and IMAP fetches. */
+  sync?: EmailSyncConfig;
+  /** Filtering rules run by `EmailManager.applyRules`, in order. */
+  rules?: MailRule[];
 }
 
 export interface EmailMessage {
@@ -54,6 +27,61 @@ export interface EmailMessage {
   date?: Date;
   flags?: string[];
   uid?: number;
+  /** `Message-ID`, `In-Reply-To` and `References` header values, used for threading. */
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+}
+
+export interface EmailThreadNode {
+  /** Absent for placeholder nodes standing in for referenced but unfetched messages. */
+  message?: EmailMessage;
+  children: EmailThreadNode[];
+}
+
+export interface EmailThread {
+  id: string;
+  subject: string;
+  root: EmailThreadNode;
+  messageCount: number;
+  unreadCount: number;
+  participants: string[];
+  lastDate?: Date;
+}
+
+export interface ThreadOptions extends FetchEmailOptions {
+  /** Server-side algorithm when the IMAP server advertises `THREAD=...`. */
+  algorithm?: 'REFERENCES' | 'ORDEREDSUBJECT';
+}
+
+/** `hard`: permanent failure, `soft`: transient failure or delay. */
+export type BounceType = 'hard' | 'soft' | 'auto-reply';
+
+export interface BounceRecipient {
+  address: string;
+  /** DSN action (`failed`, `delayed`, ...). */
+  action?: string;
+  /** Enhanced status code (RFC 3463), e.g. `5.1.1`. */
+  status?: string;
+  diagnosticCode?: string;
+  remoteMta?: string;
+}
+
+export interface EmailBounce {
+  type: BounceType;
+  recipients: BounceRecipient[];
+  /** Message-ID of the original message, as returned by `sendEmail`. */
+  originalMessageId?: string;
+  reportingMta?: string;
+  subject: string;
+  date?: Date;
+  /** Id of the report message in the scanned mailbox. */
+  id?: string;
+}
+
+export interface BounceScanOptions extends FetchEmailOptions {
+  /** Flag processed IMAP reports as `\Seen` so `unseen` scans skip them next time. */
+  markSeen?: boolean;
 }
 
 export interface SendEmailOptions {
@@ -70,6 +98,28 @@ export interface SendEmailOptions {
   }>;
 }
 
+export interface SendTemplateOptions extends Omit<SendEmailOptions, 'subject' | 'text' | 'html'> {
+  /** Preferred locale, e.g. `pt-BR`; falls back to `pt`, the default locale, then the base template. */
+  locale?: string;
+}
+
+export interface EmailTemplate {
+  subject: string;
+  text?: string;
+  html?: string;
+  /** Name of a layout registered with `TemplateRegistry.registerLayout`. */
+  layout?: string;
+}
+
+/**
+ * Layout parts wrap the rendered template, available to them as `body`; it is
+ * inserted unescaped whether written `{{body}}` or `{{{body}}}`.
+ */
+export interface EmailTemplateLayout {
+  text?: string;
+  html?: string;
+}
+
 export interface FetchEmailOptions {
   mailbox?: string;
   limit?: number;
@@ -109,6 +159,8 @@ export interface EmailOptions {
   messageId?: string;
   date?: Date;
   encoding?: string;
+  /** SMTP recipients, instead of every `to`, `cc` and `bcc` address; headers are unchanged. */
+  envelope?: { to: string[] };
 }
 
 export interface SendResult {
@@ -123,18 +175,120 @@ export interface SendResult {
   };
 }
 
+export interface QueuedEmail {
+  id: string;
+  options: EmailOptions;
+  attempts: number;
+  createdAt: Date;
+  /** Earliest time of the next delivery attempt. */
+  nextAttemptAt: Date;
+  lastError?: string;
+  responseCode?: number;
+}
+
+export interface EmailQueueState {
+  pending: QueuedEmail[];
+  deadLetters: QueuedEmail[];
+}
+
+/** Durable storage for queued mail; saved after every state change. */
+export interface EmailQueueStore {
+  load(): Promise<EmailQueueState | null>;
+  save(state: EmailQueueState): Promise<void>;
+}
+
+export interface EmailQueueConfig {
+  /** Delivery attempts before a transient failure is dead-lettered. */
+  maxAttempts?: number;
+  /** Initial retry delay in ms; doubled after every failed attempt. */
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  store?: EmailQueueStore;
+}
+
+/**
+ * Credentials shared by the SMTP, IMAP and POP3 clients. Set `password` for
+ * the classic mechanisms, or `accessToken`/`tokenProvider` for OAuth2
+ * (XOAUTH2 or OAUTHBEARER).
+ */
+export interface MailAuth {
+  user: string;
+  password?: string;
+  /** Fixed OAuth2 access token; ignored when `tokenProvider` is set. */
+  accessToken?: string;
+  tokenProvider?: OAuth2TokenProvider;
+}
+
+export type OAuth2Mechanism = 'XOAUTH2' | 'OAUTHBEARER';
+
+export interface OAuth2Token {
+  accessToken: string;
+  /** Tokens without an expiry are reused until the server rejects them. */
+  expiresAt?: Date;
+}
+
+/** Supplies OAuth2 access tokens, e.g. `RefreshingTokenProvider` from `oauth.ts`. */
+export interface OAuth2TokenProvider {
+  /** `forceRefresh` is set after the server rejected the previous token. */
+  getAccessToken(forceRefresh?: boolean): Promise<string>;
+}
+
 export interface ImapConfig {
   host: string;
   port: number;
   secure: boolean;
-  auth: {
-    user: string;
-    password: string;
-  };
+  auth: MailAuth;
   connTimeout?: number;
   authTimeout?: number;
+  /** Never upgrade a plain connection with STARTTLS. */
+  ignoreTLS?: boolean;
+  /** Fail if the server does not offer STARTTLS on a plain connection. */
+  requireTLS?: boolean;
+  tlsOptions?: Record<string, unknown>;
+  /**
+   * Use `AUTHENTICATE PLAIN` instead of `LOGIN`. OAuth2 credentials pick
+   * OAUTHBEARER or XOAUTH2 from the advertised mechanisms unless set here.
+   */
+  authMethod?: 'LOGIN' | 'PLAIN' | OAuth2Mechanism;
+  /** NOOP polling interval used by `idle()` when the server lacks IDLE. */
+  idleInterval?: number;
 }
 
+/** Search keys without arguments (RFC 3501 §6.4.4); a leading `!` negates them. */
+export type SearchKeyword =
+  | 'ALL'
+  | 'ANSWERED'
+  | 'DELETED'
+  | 'DRAFT'
+  | 'FLAGGED'
+  | 'NEW'
+  | 'OLD'
+  | 'RECENT'
+  | 'SEEN'
+  | 'UNANSWERED'
+  | 'UNDELETED'
+  | 'UNDRAFT'
+  | 'UNFLAGGED'
+  | 'UNSEEN';
+
+/** One search key, in the node-imap style `ImapClient.searchMessages` accepts. */
+export type SearchCriterion =
+  | SearchKeyword
+  | `!${SearchKeyword}`
+  | ['FROM' | 'TO' | 'CC' | 'BCC' | 'SUBJECT' | 'BODY' | 'TEXT', string]
+  | ['KEYWORD' | 'UNKEYWORD', string]
+  | ['HEADER', string, string]
+  | ['BEFORE' | 'ON' | 'SINCE' | 'SENTBEFORE' | 'SENTON' | 'SENTSINCE', Date]
+  | ['LARGER' | 'SMALLER', number]
+  /** A UID sequence set such as `'1:100'`. */
+  | ['UID', string | number]
+  | ['MODSEQ', string | number]
+  | ['OR', SearchCriterion | SearchCriterion[], SearchCriterion | SearchCriterion[]]
+  | ['!' | 'NOT', SearchCriterion | SearchCriterion[]];
+
+/** Search keys ANDed together; a nested array groups keys inside `OR` or `NOT`. */
+export type SearchCriteria = SearchCriterion[];
+
 export interface ImapMessage {
   uid: number;
   flags: string[];
@@ -148,34 +302,97 @@ export interface ImapMessage {
     contentType: string;
     size: number;
     content: Uint8Array;
+    contentId?: string;
   }>;
+  /** Per-message modification sequence (RFC 7162), when fetched. */
+  modseq?: string;
+  /** Undecoded message, when fetched with the `raw` option. */
+  raw?: Uint8Array;
+}
+
+/** Local copy of a mailbox, valid for one UIDVALIDITY. */
+export interface MailboxSyncState {
+  mailbox: string;
+  uidvalidity: number;
+  uidnext: number;
+  /** Absent when the server does not support CONDSTORE. */
+  highestModseq?: string;
+  messages: ImapMessage[];
+  /** Local flag changes not yet stored on the server, keyed by UID. */
+  pendingFlags: Record<number, { add: string[]; remove: string[] }>;
+  lastSync?: Date;
+}
+
+/** Durable storage for synced mailboxes; saved after every sync or local change. */
+export interface SyncCacheStore {
+  load(mailbox: string): Promise<MailboxSyncState | null>;
+  save(state: MailboxSyncState): Promise<void>;
+}
+
+export interface EmailSyncConfig {
+  cache?: SyncCacheStore;
+  /** Body sections cached for new messages, defaults to the header. */
+  bodies?: string | string[];
 }
 
 export interface SmtpConfig {
   host: string;
   port: number;
   secure: boolean;
-  auth: {
-    user: string;
-    password: string;
-  };
+  auth: MailAuth;
   pool?: boolean;
   maxConnections?: number;
   maxMessages?: number;
   rateDelta?: number;
   rateLimit?: number;
+  /** Client hostname announced in EHLO/HELO, defaults to `os.hostname()`. */
+  name?: string;
+  /** Socket inactivity timeout in milliseconds. */
+  timeout?: number;
+  /** Never upgrade a plain connection with STARTTLS. */
+  ignoreTLS?: boolean;
+  /** Fail if the server does not offer STARTTLS on a plain connection. */
+  requireTLS?: boolean;
+  tlsOptions?: Record<string, unknown>;
+  authMethod?: 'PLAIN' | 'LOGIN' | OAuth2Mechanism;
+  /** Sign every outgoing message with DKIM. */
+  dkim?: DkimConfig;
+}
+
+export type DkimCanonicalization =
+  | 'relaxed/relaxed'
+  | 'relaxed/simple'
+  | 'simple/relaxed'
+  | 'simple/simple';
+
+export interface DkimConfig {
+  /** Signing domain (`d=`). */
+  domainName: string;
+  /** Selector (`s=`); the public key lives at `<selector>._domainkey.<domain>`. */
+  keySelector: string;
+  /** PEM-encoded RSA or Ed25519 private key. */
+  privateKey: string;
+  /** Inferred from the key type when omitted. */
+  algorithm?: 'rsa-sha256' | 'ed25519-sha256';
+  /** Header/body canonicalisation, defaults to `relaxed/relaxed`. */
+  canonicalization?: DkimCanonicalization;
+  /** Lower-case header names to sign; defaults to the RFC 6376 §5.4.1 set. */
+  headerFieldNames?: string[];
 }
 
 export interface Pop3Config {
   host: string;
   port: number;
   secure: boolean;
-  auth: {
-    user: string;
-    password: string;
-  };
+  auth: MailAuth;
   timeout?: number;
   tlsOptions?: Record<string, unknown>;
+  /** `APOP` sends an MD5 digest instead of the plain-text password. */
+  authMethod?: 'USER' | 'APOP' | OAuth2Mechanism;
+  /** Do not upgrade plain connections with STLS even when advertised. */
+  ignoreTLS?: boolean;
+  /** Fail if the server does not offer STLS on a plain connection. */
+  requireTLS?: boolean;
 }
 
 export interface Pop3Message {
@@ -194,6 +411,7 @@ export interface Pop3Message {
     contentType: string;
     size: number;
     content: Uint8Array;
+    contentId?: string;
   }>;
   deleted: boolean;
 }
@@ -217,3 +435,134 @@ export interface EmailStats {
   failedMessages: number;
   lastSync?: Date;
 }
+
+/** A message held by `MailSandbox`. */
+export interface SandboxMessage {
+  id: string;
+  mailbox: string;
+  uid: number;
+  flags: string[];
+  /** Time of delivery (IMAP INTERNALDATE). */
+  date: Date;
+  /** SMTP envelope, which may differ from the `From`/`To` headers (e.g. Bcc). */
+  envelope: { from: string; to: string[] };
+  raw: Uint8Array;
+}
+
+export interface SandboxMailbox {
+  name: string;
+  uidnext: number;
+  messages: SandboxMessage[];
+}
+
+export interface SandboxState {
+  uidvalidity: number;
+  mailboxes: SandboxMailbox[];
+}
+
+/** Durable storage for the sandbox; saved after every change. */
+export interface SandboxStore {
+  load(): Promise<SandboxState | null>;
+  save(state: SandboxState): Promise<void>;
+}
+
+export interface MailSandboxOptions {
+  /** Interface to listen on, defaults to `127.0.0.1`. */
+  host?: string;
+  /** Ports default to 2525/1143/1110/8025; `0` picks a free port. */
+  smtpPort?: number;
+  imapPort?: number;
+  pop3Port?: number;
+  /** `false` disables the HTTP inbox viewer and JSON API. */
+  httpPort?: number | false;
+  /** Accepted credentials; any user and password are accepted when omitted. */
+  users?: Record<string, string>;
+  store?: SandboxStore;
+}
+
+export interface MailSandboxAddress {
+  host: string;
+  smtpPort: number;
+  imapPort: number;
+  pop3Port: number;
+  /** Absent when the HTTP server is disabled. */
+  httpPort?: number;
+}
+
+export interface SandboxMessageFilter {
+  mailbox?: string;
+  /** Substring matches, case-insensitive; `to` also matches envelope recipients. */
+  from?: string;
+  to?: string;
+  subject?: string;
+}
+
+/**
+ * `eml`: one message per `.eml` file (a directory of them on export);
+ * `mbox`: a single mboxrd file; `maildir`: a Maildir directory.
+ */
+export type MailboxArchiveFormat = 'eml' | 'mbox' | 'maildir';
+
+/** A message as stored in an archive; `flags` are IMAP system flags. */
+export interface ArchivedMessage {
+  raw: Uint8Array;
+  flags: string[];
+  date: Date;
+}
+
+/**
+ * `from` and `to` match the header and each address in it, `header` the
+ * named header, `body` the text part (or the text of the HTML part) and
+ * `attachment` each attachment's content type and file name.
+ */
+export type MailRuleField = 'from' | 'to' | 'subject' | 'header' | 'body' | 'size' | 'attachment';
+
+/**
+ * Text comparisons are case-insensitive. `matches` takes `*` and `?`
+ * wildcards, `regex` a JavaScript pattern; `over` and `under` compare
+ * `size` in bytes and `exists` tests for a header.
+ */
+export type MailRuleOperator =
+  | 'contains'
+  | 'is'
+  | 'matches'
+  | 'regex'
+  | 'exists'
+  | 'over'
+  | 'under';
+
+export interface MailRuleTest {
+  field: MailRuleField;
+  /** Header name, for the `header` field. */
+  header?: string;
+  /** Defaults to `contains`, or `over` for `size`. */
+  operator?: MailRuleOperator;
+  value?: string | number;
+}
+
+export type MailRuleCondition =
+  | MailRuleTest
+  | { all: MailRuleCondition[] }
+  | { any: MailRuleCondition[] }
+  | { not: MailRuleCondition };
+
+export type MailRuleAction =
+  | { type: 'move'; mailbox: string }
+  | { type: 'flag'; flags: string[] }
+  | { type: 'seen' }
+  /** Sends the message as a `message/rfc822` attachment. */
+  | { type: 'forward'; to: string | string[]; from?: string }
+  /** POSTs a JSON summary of the message. */
+  | { type: 'webhook'; url: string; headers?: Record<string, string> };
+
+/** A declarative filtering rule; plain JSON so it can live in configuration. */
+export interface MailRule {
+  name: string;
+  enabled?: boolean;
+  /** Whether `all` (default) or `any` of the conditions must hold; no conditions match every message. */
+  match?: 'all' | 'any';
+  conditions?: MailRuleCondition[];
+  actions: MailRuleAction[];
+  /** Skip the remaining rules for a message this rule matched. */
+  stop?: boolean;
+}
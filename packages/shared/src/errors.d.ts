@@ -12,7 +12,15 @@ export declare class InitializationError extends EnterpriseSDKError {
     constructor(module: string, cause: Error);
 }
 export declare class RuntimeError extends EnterpriseSDKError {
-    constructor(method: string, cause: Error);
+    constructor(method: string, cause: Error, details?: Record<string, any>);
+}
+export type ResourceLimit = 'memory' | 'time' | 'fuel';
+/** A WASM call went over its memory cap, time budget or fuel budget. */
+export declare class ResourceLimitError extends RuntimeError {
+    limit: ResourceLimit;
+    max: number;
+    used?: number | undefined;
+    constructor(method: string, limit: ResourceLimit, max: number, used?: number | undefined);
 }
 export declare class ConfigurationError extends EnterpriseSDKError {
     constructor(message: string, field?: string);
@@ -34,16 +34,44 @@ export class InitializationError extends EnterpriseSDKError {
 }
 
 export class RuntimeError extends EnterpriseSDKError {
-  constructor(method: string, cause: Error) {
+  constructor(method: string, cause: Error, details?: Record<string, any>) {
     super(
       `Runtime error calling method '${method}': ${cause.message}`,
       'RUNTIME_ERROR',
       'runtime',
-      { method, cause }
+      { method, cause, ...details }
     );
   }
 }
 
+export type ResourceLimit = 'memory' | 'time' | 'fuel';
+
+const LIMIT_UNITS: Record<ResourceLimit, (value: number) => string> = {
+  memory: (bytes) => `${Math.round((bytes / 1048576) * 10) / 10} MB`,
+  time: (ms) => `${ms} ms`,
+  fuel: (units) => `${units} fuel units`,
+};
+
+/** A WASM call went over its memory cap, time budget or fuel budget. */
+export class ResourceLimitError extends RuntimeError {
+  constructor(
+    method: string,
+    public limit: ResourceLimit,
+    public max: number,
+    public used?: number
+  ) {
+    super(
+      method,
+      new Error(
+        `${limit} limit of ${LIMIT_UNITS[limit](max)} exceeded` +
+          (used !== undefined ? ` (${LIMIT_UNITS[limit](used)})` : '')
+      ),
+      { limit, max, used }
+    );
+    this.code = 'RESOURCE_LIMIT';
+  }
+}
+
 export class ConfigurationError extends EnterpriseSDKError {
   constructor(message: string, field?: string) {
     super(
@@ -0,0 +1,21 @@
+/**
+ * Local mail server for development and tests, published as
+ * `@skygenesisenterprise/enterprise-node/sandbox`. It needs Node's net and
+ * tls modules, so it is kept out of the main entry.
+ */
+
+export {
+  MailSandbox,
+  MemorySandboxStore,
+  FileSandboxStore,
+} from './packages/modules/email/src/index';
+
+export type {
+  MailSandboxOptions,
+  MailSandboxAddress,
+  SandboxMessage,
+  SandboxMessageFilter,
+  SandboxMailbox,
+  SandboxState,
+  SandboxStore,
+} from './packages/modules/email/src/index';
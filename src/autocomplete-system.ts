@@ -60,6 +60,10 @@ export class EnterpriseAutoComplete {
       return this.getProjectSuggestions(beforeCursor);
     }
 
+    if (beforeCursor.match(/\.email\.$/)) {
+      return this.getEmailSuggestions(beforeCursor);
+    }
+
     return this.getGeneralSuggestions(beforeCursor);
   }
 
@@ -301,6 +305,47 @@ export class EnterpriseAutoComplete {
     ];
   }
 
+  /**
+   * Suggestions pour le module Email
+   */
+  private getEmailSuggestions(beforeCursor: string): AutoCompleteSuggestion[] {
+    return [
+      {
+        label: 'sendEmail(options)',
+        insertText:
+          "sendEmail({\n  to: '${1:recipient@example.com}',\n  subject: '${2:Subject}',\n  text: '${3:Message}'\n})",
+        documentation: 'Envoie un email via SMTP',
+        type: 'method',
+      },
+      {
+        label: 'queueEmail(options)',
+        insertText:
+          "queueEmail({\n  to: '${1:recipient@example.com}',\n  subject: '${2:Subject}',\n  text: '${3:Message}'\n})",
+        documentation: "Ajoute un email à la file d'envoi avec relances automatiques",
+        type: 'method',
+      },
+      {
+        label: 'fetchEmails(options)',
+        insertText:
+          "fetchEmails({\n  mailbox: '${1:INBOX}',\n  unseen: ${2:true},\n  limit: ${3:20}\n})",
+        documentation: 'Récupère les emails via IMAP ou POP3',
+        type: 'method',
+      },
+      {
+        label: 'getThreads(options)',
+        insertText: "getThreads({ mailbox: '${1:INBOX}', limit: ${2:20} })",
+        documentation: 'Regroupe les emails en conversations',
+        type: 'method',
+      },
+      {
+        label: 'markAsRead(messageId, mailbox)',
+        insertText: "markAsRead('${1:uid}', '${2:INBOX}')",
+        documentation: 'Marque un email comme lu',
+        type: 'method',
+      },
+    ];
+  }
+
   /**
    * Suggestions générales
    */
@@ -342,6 +387,12 @@ export class EnterpriseAutoComplete {
         documentation: 'Accès au module de gestion de projet',
         type: 'property',
       },
+      {
+        label: 'Enterprise.email',
+        insertText: 'Enterprise.email',
+        documentation: 'Accès au module email (SMTP, IMAP, POP3)',
+        type: 'property',
+      },
     ];
   }
 
@@ -49,6 +49,16 @@ describe('EnterpriseAutoComplete', () => {
     expect(hasSave).toBe(true);
   });
 
+  it('should provide email module suggestions', () => {
+    const autoComplete = EnterpriseAutoComplete.getInstance();
+    const suggestions = autoComplete.analyzeContext('Enterprise.email.', 17);
+
+    const hasSendEmail = suggestions.some(
+      (s) => s.label.includes('sendEmail') && s.type === 'method'
+    );
+    expect(hasSendEmail).toBe(true);
+  });
+
   it('should provide constructor suggestions', () => {
     const autoComplete = EnterpriseAutoComplete.getInstance();
     const suggestions = autoComplete.analyzeContext('new Enterprise', 14);
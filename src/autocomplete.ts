@@ -18,6 +18,7 @@ export interface EnterpriseQuickConfig {
     auth?: boolean;
     project?: boolean;
     sdk?: boolean;
+    email?: boolean;
   };
   runtime?: {
     wasmPath?: string;
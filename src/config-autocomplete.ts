@@ -45,6 +45,10 @@ export class ConfigAutoComplete {
     const beforeCursor = this.getTextBeforeCursor(code, position);
 
     // Détection du contexte
+    if (/\bemail:\s*\{[^}]*$/.test(beforeCursor)) {
+      return this.getEmailSuggestions(beforeCursor);
+    }
+
     if (beforeCursor.includes('modules:')) {
       return this.getModuleSuggestions(beforeCursor);
     }
@@ -111,6 +115,14 @@ export class ConfigAutoComplete {
         documentation: 'Active le SDK auto-référentiel',
         type: 'module',
       },
+      {
+        label: 'email: true',
+        insertText: 'email: true,',
+        documentation: 'Active le module email (SMTP, IMAP, POP3), configuré via `email: {}`',
+        type: 'module',
+        example:
+          "modules: {\n  email: true\n},\nemail: {\n  smtp: { host: 'smtp.example.com', port: 587, secure: false, auth: { user, password } }\n}",
+      },
       {
         label: 'modules complets',
         insertText:
@@ -121,6 +133,41 @@ export class ConfigAutoComplete {
     ];
   }
 
+  /**
+   * Suggestions pour les paramètres du module email
+   */
+  private getEmailSuggestions(beforeCursor: string): ConfigSuggestion[] {
+    return [
+      {
+        label: 'smtp: {}',
+        insertText:
+          "smtp: {\n    host: '${1:smtp.example.com}',\n    port: ${2:587},\n    secure: ${3:false},\n    auth: { user: '${4:user}', password: '${5:password}' }\n  },",
+        documentation: "Serveur SMTP utilisé pour l'envoi",
+        type: 'module',
+      },
+      {
+        label: 'imap: {}',
+        insertText:
+          "imap: {\n    host: '${1:imap.example.com}',\n    port: ${2:993},\n    secure: ${3:true},\n    auth: { user: '${4:user}', password: '${5:password}' }\n  },",
+        documentation: 'Serveur IMAP utilisé pour la lecture et la synchronisation',
+        type: 'module',
+      },
+      {
+        label: 'pop3: {}',
+        insertText:
+          "pop3: {\n    host: '${1:pop.example.com}',\n    port: ${2:995},\n    secure: ${3:true},\n    auth: { user: '${4:user}', password: '${5:password}' }\n  },",
+        documentation: "Serveur POP3, utilisé lorsqu'aucun serveur IMAP n'est configuré",
+        type: 'module',
+      },
+      {
+        label: 'queue: {}',
+        insertText: 'queue: {\n    maxAttempts: ${1:5},\n    retryDelay: ${2:30000}\n  },',
+        documentation: "Relances de la file d'envoi (`queueEmail`)",
+        type: 'module',
+      },
+    ];
+  }
+
   /**
    * Suggestions pour le runtime
    */
@@ -276,6 +323,12 @@ export class ConfigAutoComplete {
         documentation: 'Configuration du branding',
         type: 'branding',
       },
+      {
+        label: 'email: {}',
+        insertText: 'email: {\n    \n  },',
+        documentation: 'Serveurs SMTP/IMAP/POP3 du module email',
+        type: 'module',
+      },
       {
         label: "framework: 'auto'",
         insertText: "framework: 'auto',",
@@ -97,7 +97,9 @@ export class EnterpriseConfigBuilder {
    *   .configureModule('ai', { model: 'gpt-4' })
    * ```
    */
-  enableModules(modules: Array<'ai' | 'storage' | 'ui' | 'auth' | 'project' | 'sdk'>): this {
+  enableModules(
+    modules: Array<'ai' | 'storage' | 'ui' | 'auth' | 'project' | 'sdk' | 'email'>
+  ): this {
     this.config.modules = {};
     modules.forEach((module) => {
       this.config.modules![module] = true;
@@ -108,7 +110,9 @@ export class EnterpriseConfigBuilder {
   /**
    * Désactive des modules spécifiques
    */
-  disableModules(modules: Array<'ai' | 'storage' | 'ui' | 'auth' | 'project' | 'sdk'>): this {
+  disableModules(
+    modules: Array<'ai' | 'storage' | 'ui' | 'auth' | 'project' | 'sdk' | 'email'>
+  ): this {
     if (!this.config.modules) this.config.modules = {};
     modules.forEach((module) => {
       this.config.modules![module] = false;
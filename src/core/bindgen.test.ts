@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { generateBindings, parseWit, BindgenModule } from './bindgen';
+import { RustBridge } from './rust-bridge';
+
+const WIT = `
+package euse:ai@1.2.0;
+
+interface ai {
+  record generate-options {
+    temperature: f32,
+  }
+
+  /// Generates text from a prompt.
+  @deprecated("use generate-v2")
+  generate: func(prompt: string, max-tokens: option<u32>) -> string;
+
+  @since(version = 1.3.0)
+  embed: func(
+    input: list<string>,
+    options: generate-options,
+  ) -> list<list<f32>>;
+
+  reset: func();
+}
+`;
+
+const MODULES: BindgenModule[] = [
+  ...parseWit(WIT),
+  { name: 'image_tools', functions: [{ name: 'resize' }], source: 'wasm/image_tools.wasm' },
+];
+
+describe('parseWit', () => {
+  it('reads functions, docs and attributes of each interface', () => {
+    expect(parseWit(WIT)).toEqual([
+      {
+        name: 'ai',
+        version: '1.2.0',
+        functions: [
+          {
+            name: 'generate',
+            params: [
+              { name: 'prompt', type: 'string' },
+              { name: 'max_tokens', type: 'Option<u32>' },
+            ],
+            returns: 'string',
+            deprecated: 'use generate-v2',
+            description: 'Generates text from a prompt.',
+          },
+          {
+            name: 'embed',
+            params: [
+              { name: 'input', type: 'Vec<string>' },
+              { name: 'options', type: 'GenerateOptions' },
+            ],
+            returns: 'Vec<Vec<f32>>',
+            version: '1.3.0',
+          },
+          { name: 'reset', params: [], returns: 'void' },
+        ],
+      },
+    ]);
+  });
+
+  it('points at the offending line', () => {
+    expect(() => parseWit('interface ai {\n  generate(prompt: string);\n}')).toThrow(
+      "WIT line 2: unexpected 'generate(prompt: string);'"
+    );
+    expect(() => parseWit('reset: func();')).toThrow(
+      'WIT line 1: function outside of an interface'
+    );
+  });
+});
+
+describe('generateBindings', () => {
+  const files = generateBindings(MODULES, { bridgeModule: '@acme/bridge' });
+
+  it('writes one wrapper per module, an index and the declarations', () => {
+    expect(Object.keys(files)).toEqual([
+      'types.ts',
+      'ai.ts',
+      'image-tools.ts',
+      'index.ts',
+      'rust-functions.d.ts',
+    ]);
+    expect(files['ai.ts']).toContain(
+      '  generate(params: GenerateParams, options?: RustInvokeOptions): Promise<string> {'
+    );
+    expect(files['ai.ts']).toContain('  max_tokens?: number | null;');
+    expect(files['ai.ts']).toContain('export type GenerateOptions = Record<string, unknown>;');
+    expect(files['ai.ts']).toContain('export type ResetParams = Record<string, never>;');
+    expect(files['image-tools.ts']).toContain('// Source: wasm/image_tools.wasm');
+    expect(files['image-tools.ts']).toContain(
+      '  resize(params?: Record<string, unknown>, options?: RustInvokeOptions): Promise<unknown> {'
+    );
+  });
+
+  it('declares every function on RustFunctionMap', () => {
+    expect(files['rust-functions.d.ts']).toContain("declare module '@acme/bridge' {");
+    expect(files['rust-functions.d.ts']).toContain(
+      "    'ai::embed': { params: ai.EmbedParams; result: number[][] };"
+    );
+    expect(files['rust-functions.d.ts']).toContain(
+      "    'image_tools::resize': { params: Record<string, unknown>; result: unknown };"
+    );
+  });
+
+  describe('generated code', () => {
+    let directory: string;
+
+    beforeAll(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bindgen-'));
+      for (const [name, content] of Object.entries(files)) {
+        await fs.writeFile(path.join(directory, name), content);
+      }
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterAll(async () => {
+      vi.restoreAllMocks();
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('calls the bridge and registers typed fallbacks', async () => {
+      const bindings = await import(path.join(directory, 'index.ts'));
+      const bridge = new RustBridge({ enableWasm: false, rustModules: ['ai', 'image_tools'] });
+      await bridge.initialize();
+
+      bindings.registerAiFallbacks(bridge, {
+        generate: ({ prompt }: { prompt: string }) => `echo: ${prompt}`,
+      });
+      const modules = bindings.createRustModules(bridge);
+
+      expect(await modules.ai.generate({ prompt: 'hi' })).toBe('echo: hi');
+      expect(await bridge.invoke('ai::generate', { prompt: 'again' })).toBe('echo: again');
+      expect(bridge.getAvailableFunctions().find((fn) => fn.name === 'ai::generate')).toMatchObject(
+        { source: 'js' }
+      );
+      await expect(modules.imageTools.resize()).rejects.toThrow('image_tools::resize');
+      await bridge.destroy();
+    });
+  });
+});
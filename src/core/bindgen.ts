@@ -0,0 +1,389 @@
+import type { WasmFunctionApi, WasmParam } from './wasm-metadata';
+
+/**
+ * TypeScript bindings for Rust/WASM modules, as written by
+ * `enterprise sdk bindgen`. Each module gets a wrapper class calling
+ * `RustBridge.invoke` with typed parameters and result, and a typed set of
+ * JS fallbacks to register on the bridge; `rust-functions.d.ts` adds every
+ * function to `RustFunctionMap`, so direct `invoke` calls are checked too.
+ */
+
+export interface BindgenModule {
+  name: string;
+  version?: string;
+  functions: WasmFunctionApi[];
+  /** Where the API was read from, for the generated header. */
+  source?: string;
+}
+
+export interface BindgenOptions {
+  /** Module whose `RustFunctionMap` the declarations extend. */
+  bridgeModule?: string;
+}
+
+const DEFAULT_BRIDGE_MODULE = '@skygenesisenterprise/enterprise-node';
+
+const HEADER = '// Generated by `enterprise sdk bindgen`. Do not edit.';
+
+const TYPES_FILE = `${HEADER}
+
+/** The part of \`RustBridge\` the bindings use. */
+export interface RustBridgeLike {
+  invoke(functionName: string, params?: Record<string, any>, options?: RustInvokeOptions): Promise<any>;
+  registerFallback(functionName: string, fallback: (params: any) => unknown): void;
+}
+
+export interface RustInvokeOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+  [option: string]: unknown;
+}
+`;
+
+/** Source files of the bindings, by path relative to the output directory. */
+export function generateBindings(
+  modules: BindgenModule[],
+  options: BindgenOptions = {}
+): Record<string, string> {
+  const files: Record<string, string> = { 'types.ts': TYPES_FILE };
+  const sorted = [...modules].sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const module of sorted) {
+    files[`${fileName(module.name)}.ts`] = moduleFile(module);
+  }
+  files['index.ts'] = indexFile(sorted);
+  files['rust-functions.d.ts'] = declarationsFile(sorted, options.bridgeModule);
+  return files;
+}
+
+/**
+ * Reads the interfaces of a WIT-like file, one module per `interface`:
+ *
+ *   package euse:ai@1.2.0;
+ *   interface ai {
+ *     /// Generates text.
+ *     @deprecated("use generate-v2")
+ *     generate: func(prompt: string, max-tokens: option<u32>) -> string;
+ *   }
+ *
+ * Kebab-case names become snake_case, as Rust exports them. `@since(version = x)`
+ * sets a function's version; records and other type definitions are skipped
+ * and their names used as struct types.
+ */
+export function parseWit(source: string): BindgenModule[] {
+  const modules: BindgenModule[] = [];
+  let version: string | undefined;
+  let current: BindgenModule | null = null;
+  let docs: string[] = [];
+  let attributes: Partial<WasmFunctionApi> = {};
+  let pending = '';
+  let skipDepth = 0;
+
+  const lines = source.split('\n');
+  for (const [index, raw] of lines.entries()) {
+    const line = raw.trim();
+    const fail = (message: string) => {
+      throw new Error(`WIT line ${index + 1}: ${message}`);
+    };
+
+    if (skipDepth > 0) {
+      skipDepth += count(line, '{') - count(line, '}');
+      continue;
+    }
+    if (line.startsWith('///')) {
+      docs.push(line.slice(3).trim());
+      continue;
+    }
+    if (!line || line.startsWith('//')) continue;
+
+    if (pending || /^[\w-]+\s*:\s*func\b/.test(line)) {
+      pending += ` ${line.replace(/\/\/.*$/, '')}`;
+      if (!pending.includes(';')) continue;
+      if (!current) fail('function outside of an interface');
+      current!.functions.push({
+        ...parseFunction(pending, fail),
+        ...attributes,
+        ...(docs.length > 0 && { description: docs.join(' ') }),
+      });
+      pending = '';
+      docs = [];
+      attributes = {};
+      continue;
+    }
+
+    const pkg = /^package\s+[\w:-]+(?:@([\w.+-]+))?\s*;/.exec(line);
+    const iface = /^interface\s+([\w-]+)\s*\{/.exec(line);
+    const attribute = /^@(\w+)(?:\((.*)\))?$/.exec(line);
+    if (pkg) {
+      version = pkg[1];
+    } else if (iface) {
+      current = { name: snake(iface[1]), version, functions: [] };
+      modules.push(current);
+      docs = [];
+    } else if (attribute) {
+      const [, name, args = ''] = attribute;
+      if (name === 'deprecated') {
+        attributes.deprecated = /"([^"]*)"/.exec(args)?.[1] ?? true;
+      } else if (name === 'since') {
+        attributes.version = /version\s*=\s*([\w.+-]+)/.exec(args)?.[1];
+      }
+    } else if (line === '}') {
+      current = null;
+    } else if (line.includes('{')) {
+      // record, variant, enum, flags, resource or world: not part of the call surface.
+      skipDepth = count(line, '{') - count(line, '}');
+      docs = [];
+    } else if (!/^(use|type|include|export|import)\b/.test(line)) {
+      fail(`unexpected '${line}'`);
+    }
+  }
+  return modules;
+}
+
+function parseFunction(text: string, fail: (message: string) => never): WasmFunctionApi {
+  const match = /^\s*([\w-]+)\s*:\s*func\s*\((.*)\)\s*(?:->\s*(.+?))?\s*;\s*$/.exec(text);
+  if (!match) fail(`cannot read function '${text.trim()}'`);
+  const [, name, list, returns] = match!;
+
+  const params: WasmParam[] = splitTopLevel(list).map((param) => {
+    const colon = param.indexOf(':');
+    if (colon < 0) fail(`parameter '${param}' has no type`);
+    return { name: snake(param.slice(0, colon).trim()), type: witType(param.slice(colon + 1)) };
+  });
+  return { name: snake(name), params, returns: returns ? witType(returns) : 'void' };
+}
+
+/** WIT type in the Rust spelling used by `euse_api` sections. */
+function witType(type: string): string {
+  type = type.trim();
+  const generic = /^([\w-]+)<(.+)>$/.exec(type);
+  if (generic) {
+    const [, name, args] = generic;
+    const [first] = splitTopLevel(args);
+    if (name === 'list') return first.trim() === 'u8' ? 'Vec<u8>' : `Vec<${witType(first)}>`;
+    if (name === 'option') return `Option<${witType(first)}>`;
+    if (name === 'result') return witType(first);
+    return 'any';
+  }
+  if (/^s(8|16|32|64)$/.test(type)) return `i${type.slice(1)}`;
+  if (type === 'float32' || type === 'float64') return `f${type.slice(5)}`;
+  if (['string', 'bool', 'char', 'f32', 'f64'].includes(type) || /^u(8|16|32|64)$/.test(type)) {
+    return type;
+  }
+  return pascal(type);
+}
+
+function moduleFile(module: BindgenModule): string {
+  const structs = new Set<string>();
+  const className = `${pascal(module.name)}Module`;
+  const fallbacksName = `${pascal(module.name)}Fallbacks`;
+  const functions = module.functions.map((fn) => {
+    const typeName = `${pascal(fn.name)}Params`;
+    return {
+      fn,
+      method: camel(fn.name),
+      typeName,
+      params: fn.params ? typeName : 'Record<string, unknown>',
+      optional: !fn.params || fn.params.every((param) => isOptional(param)),
+      result: fn.params ? tsType(fn.returns ?? 'void', structs) : 'unknown',
+    };
+  });
+
+  const interfaces = functions
+    .filter(({ fn }) => fn.params)
+    .map(({ fn, typeName }) => {
+      const fields = fn.params!.map((param) => {
+        const type = tsType(param.type, structs);
+        return `  ${param.name}${isOptional(param) ? '?' : ''}: ${type};`;
+      });
+      return fields.length > 0
+        ? `export interface ${typeName} {\n${fields.join('\n')}\n}`
+        : `export type ${typeName} = Record<string, never>;`;
+    });
+
+  const methods = functions.map(({ fn, method, params, optional, result }) => {
+    const docs = docComment(fn, '  ');
+    return (
+      `${docs}  ${method}(params${optional ? '?' : ''}: ${params}, options?: RustInvokeOptions): Promise<${result}> {\n` +
+      `    return this.bridge.invoke('${module.name}::${fn.name}', params, options);\n` +
+      `  }`
+    );
+  });
+
+  const fallbacks = functions.map(
+    ({ method, params, optional, result }) =>
+      `  ${method}?(params${optional ? '?' : ''}: ${params}): ${result} | Promise<${result}>;`
+  );
+  const names = functions.map(({ fn, method }) => `  ${method}: '${module.name}::${fn.name}',`);
+
+  const header = module.source ? `${HEADER}\n// Source: ${module.source}` : HEADER;
+  const version = module.version ? ` (v${module.version})` : '';
+  return (
+    [
+      header,
+      `import type { RustBridgeLike, RustInvokeOptions } from './types';`,
+      ...[...structs]
+        .sort()
+        .map(
+          (name) =>
+            `/** Struct of the \`${module.name}\` module. */\nexport type ${name} = Record<string, unknown>;`
+        ),
+      ...interfaces,
+      `const FUNCTIONS = {\n${names.join('\n')}\n} as const;`,
+      `/** Typed calls to the \`${module.name}\` module${version}. */\nexport class ${className} {\n  constructor(private bridge: RustBridgeLike) {}\n${methods.length ? '\n' : ''}${methods.join('\n\n')}\n}`,
+      `/** JS implementations answering when \`${module.name}.wasm\` is not loaded. */\nexport interface ${fallbacksName} {\n${fallbacks.join('\n')}\n}`,
+      `export function register${fallbacksName}(bridge: RustBridgeLike, fallbacks: ${fallbacksName}): void {\n` +
+        `  for (const [method, fallback] of Object.entries(fallbacks)) {\n` +
+        `    if (fallback) bridge.registerFallback(FUNCTIONS[method as keyof typeof FUNCTIONS], fallback);\n` +
+        `  }\n}`,
+    ].join('\n\n') + '\n'
+  );
+}
+
+function indexFile(modules: BindgenModule[]): string {
+  const lines = [HEADER, '', `import type { RustBridgeLike } from './types';`];
+  for (const module of modules) {
+    const file = fileName(module.name);
+    lines.push(`import { ${pascal(module.name)}Module } from './${file}';`);
+  }
+  lines.push('', `export type { RustBridgeLike, RustInvokeOptions } from './types';`);
+  for (const module of modules) {
+    const file = fileName(module.name);
+    const base = pascal(module.name);
+    lines.push(
+      `export * as ${camel(module.name)} from './${file}';`,
+      `export { ${base}Module, register${base}Fallbacks } from './${file}';`,
+      `export type { ${base}Fallbacks } from './${file}';`
+    );
+  }
+  const entries = modules.map(
+    (module) => `    ${camel(module.name)}: new ${pascal(module.name)}Module(bridge),`
+  );
+  lines.push(
+    '',
+    '/** One wrapper per module, all calling through `bridge`. */',
+    `export function createRustModules(bridge: RustBridgeLike) {\n  return {\n${entries.join('\n')}\n  };\n}`
+  );
+  return lines.join('\n') + '\n';
+}
+
+function declarationsFile(modules: BindgenModule[], bridgeModule = DEFAULT_BRIDGE_MODULE): string {
+  const imports = modules.map(
+    (module) => `import type * as ${camel(module.name)} from './${fileName(module.name)}';`
+  );
+  const entries: string[] = [];
+  for (const module of modules) {
+    const namespace = camel(module.name);
+    for (const fn of module.functions) {
+      const params = fn.params
+        ? `${namespace}.${pascal(fn.name)}Params`
+        : 'Record<string, unknown>';
+      const result = fn.params
+        ? tsType(fn.returns ?? 'void', new Set(), `${namespace}.`)
+        : 'unknown';
+      entries.push(`    '${module.name}::${fn.name}': { params: ${params}; result: ${result} };`);
+    }
+  }
+  return [
+    HEADER,
+    ...imports,
+    '',
+    `declare module '${bridgeModule}' {`,
+    '  interface RustFunctionMap {',
+    ...entries,
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+function docComment(fn: WasmFunctionApi, indent: string): string {
+  const lines: string[] = [];
+  if (fn.description) lines.push(fn.description);
+  if (fn.version) lines.push(`@since ${fn.version}`);
+  if (fn.deprecated) {
+    lines.push(typeof fn.deprecated === 'string' ? `@deprecated ${fn.deprecated}` : '@deprecated');
+  }
+  if (lines.length === 0) return '';
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+function isOptional(param: WasmParam): boolean {
+  return !!param.optional || /^Option</.test(param.type.trim());
+}
+
+/** TypeScript type for a `euse_api` type; struct names are collected into `structs`. */
+function tsType(type: string, structs: Set<string>, prefix = ''): string {
+  type = type.trim().replace(/^&(?:mut )?/, '');
+  const option = /^Option<(.+)>$/.exec(type);
+  if (option) return `${tsType(option[1], structs, prefix)} | null`;
+
+  const element = /^Vec<(.+)>$/.exec(type)?.[1] ?? /^(.+)\[\]$/.exec(type)?.[1];
+  if (type === 'bytes' || type === '[u8]' || element === 'u8') return 'Uint8Array';
+  if (element) {
+    const inner = tsType(element, structs, prefix);
+    return inner.includes('|') ? `(${inner})[]` : `${inner}[]`;
+  }
+
+  if (['string', 'String', 'str', 'char'].includes(type)) return 'string';
+  if (type === 'bool' || type === 'boolean') return 'boolean';
+  if (type === 'number' || /^([iu](8|16|32|64|128|size)|f32|f64)$/.test(type)) return 'number';
+  if (type === 'object') return 'Record<string, unknown>';
+  if (type === 'any') return 'unknown';
+  if (type === 'void' || type === '()' || type === '') return 'void';
+
+  const name = pascal(type);
+  structs.add(name);
+  return `${prefix}${name}`;
+}
+
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < list.length; i++) {
+    if (list[i] === '<' || list[i] === '(') depth++;
+    else if (list[i] === '>' || list[i] === ')') depth--;
+    else if (list[i] === ',' && depth === 0) {
+      parts.push(list.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(list.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+function count(text: string, char: string): number {
+  return text.split(char).length - 1;
+}
+
+function words(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function snake(name: string): string {
+  return words(name)
+    .map((word) => word.toLowerCase())
+    .join('_');
+}
+
+function pascal(name: string): string {
+  return words(name)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+function camel(name: string): string {
+  const value = pascal(name);
+  return value[0].toLowerCase() + value.slice(1);
+}
+
+function fileName(name: string): string {
+  return words(name)
+    .map((word) => word.toLowerCase())
+    .join('-');
+}
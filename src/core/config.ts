@@ -13,14 +13,14 @@ export function loadConfig(): EnterpriseConfig {
       storage: true,
       ui: true,
       project: true,
-      auth: true
+      auth: true,
     },
     runtime: {
       wasmPath: '/wasm/euse_core.wasm',
-      enableWasm: true
+      enableWasm: true,
     },
     framework: 'auto',
-    debug: false
+    debug: false,
   };
 
   try {
@@ -29,7 +29,7 @@ export function loadConfig(): EnterpriseConfig {
     } else if (typeof require !== 'undefined') {
       try {
         const userConfig = require('../../../enterprise.config');
-        config = { ...defaultConfig, ...userConfig.default || userConfig };
+        config = { ...defaultConfig, ...(userConfig.default || userConfig) };
       } catch (e) {
         config = defaultConfig;
       }
@@ -46,4 +46,4 @@ export function loadConfig(): EnterpriseConfig {
 
 export function setConfig(userConfig: Partial<EnterpriseConfig>): void {
   config = { ...loadConfig(), ...userConfig };
-}
\ No newline at end of file
+}
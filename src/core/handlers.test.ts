@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HandlerRegistry } from './handlers';
+import { WasmRuntime } from './runtime';
+import { RecordingRuntime } from './record-replay';
+import { Auth } from '../modules/auth';
+import { Email } from '../modules/email';
+import { Project } from '../modules/project';
+import { Storage } from '../modules/storage';
+
+const smtp = {
+  host: 'smtp.example.com',
+  port: 587,
+  secure: false,
+  auth: { user: 'noreply@example.com', password: 'secret' },
+};
+
+describe('HandlerRegistry', () => {
+  it('prefers app handlers over defaults and restores what they replaced', () => {
+    const builtin = () => 'builtin';
+    const registry = new HandlerRegistry({ ui_notify: () => ({ shown: true }) });
+    registry.register('storage_delete', builtin, { default: true });
+
+    const unregister = registry.register('storage_delete', () => 'app');
+    expect(registry.get('storage_delete')!()).toBe('app');
+
+    // A module registering its default later does not take the method back.
+    const module = () => 'module';
+    registry.register('storage_delete', module, { default: true });
+    expect(registry.get('storage_delete')!()).toBe('app');
+
+    unregister();
+    expect(registry.get('storage_delete')).toBe(module);
+    expect(registry.methods()).toEqual(['storage_delete', 'ui_notify']);
+  });
+});
+
+describe('WasmRuntime handlers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('serves simulated calls from registered handlers', async () => {
+    const runtime = new WasmRuntime({ enableWasm: false });
+    expect(await runtime.call('ai_generate', 'hi')).toEqual({ text: 'Generated: hi' });
+
+    const unregister = runtime.registerHandler('ai_generate', async (prompt, options) => ({
+      text: `${prompt} (${options?.model ?? 'local'})`,
+    }));
+    expect(await runtime.call('ai_generate', 'hi')).toEqual({ text: 'hi (local)' });
+
+    unregister();
+    expect(await runtime.call('ai_generate', 'hi')).toEqual({ text: 'Generated: hi' });
+    await expect(runtime.call('quantum_sort')).rejects.toThrow(
+      'No simulation available for method: quantum_sort'
+    );
+
+    runtime.registerHandler('quantum_sort', (values: number[]) => [...values].sort());
+    expect(await runtime.call('quantum_sort', [3, 1, 2])).toEqual([1, 2, 3]);
+  });
+
+  it('takes default handlers from modules', () => {
+    const runtime = new WasmRuntime({ enableWasm: false });
+    expect(runtime.getHandledMethods()).not.toContain('email_send');
+
+    new Email(runtime, { smtp });
+    expect(runtime.getHandledMethods()).toContain('email_send');
+  });
+
+  it('leaves methods without a real fallback unhandled', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const runtime = new WasmRuntime({ enableWasm: false });
+    const projects = new Project(runtime);
+    new Storage(runtime);
+    new Auth(runtime);
+
+    await expect(projects.create('Atlas')).rejects.toThrow('Failed to create project: Atlas');
+    for (const method of [
+      'project_create',
+      'project_delete',
+      'storage_delete',
+      'auth_register',
+      'auth_refresh',
+      'auth_update_profile',
+    ]) {
+      await expect(runtime.call(method)).rejects.toThrow(
+        `No simulation available for method: ${method}`
+      );
+    }
+  });
+
+  it('lets app handlers win over module defaults registered later', async () => {
+    const runtime = new WasmRuntime({ enableWasm: false });
+    runtime.registerHandler('email_send', () => ({ messageId: 'app' }));
+    runtime.registerHandler('project_create', (project) => ({ id: `app-${project.id}` }));
+
+    new Email(runtime, { smtp });
+    const project = await new Project(runtime).create('Atlas');
+
+    expect(await runtime.call('email_send', { to: 'ann@example.com' })).toEqual({
+      messageId: 'app',
+    });
+    expect(project.id).toMatch(/^app-/);
+  });
+
+  it('registers through a recording runtime', async () => {
+    const recorder = new RecordingRuntime(new WasmRuntime({ enableWasm: false }), '/dev/null');
+    recorder.registerHandler('auth_refresh', (token) => ({ token: `${token}-next` }));
+
+    expect(await recorder.call('auth_refresh', 'abc')).toEqual({ token: 'abc-next' });
+    expect(recorder.getFixture().calls).toEqual([
+      { method: 'auth_refresh', args: ['abc'], result: { token: 'abc-next' } },
+    ]);
+  });
+});
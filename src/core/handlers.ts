@@ -0,0 +1,98 @@
+import type { RegisterHandlerOptions, RuntimeHandler, RuntimeMethods } from '../types';
+import { brandingManager } from '../../packages/shared/src/branding';
+import { runtime_log } from '../modules/debug/macros';
+
+type Handler = (...args: any[]) => unknown;
+
+/**
+ * JS implementations of runtime methods. Each method has two slots: the
+ * default, filled by the runtime and by modules, and the handler an app
+ * registers, which wins over the default.
+ */
+export class HandlerRegistry {
+  private defaults = new Map<string, Handler>();
+  private overrides = new Map<string, Handler>();
+
+  constructor(defaults: Partial<{ [M in keyof RuntimeMethods]: RuntimeHandler<M> }> = {}) {
+    for (const [method, handler] of Object.entries(defaults)) {
+      this.defaults.set(method, handler as Handler);
+    }
+  }
+
+  register(method: string, handler: Handler, options: RegisterHandlerOptions = {}): () => void {
+    const slot = options.default ? this.defaults : this.overrides;
+    const previous = slot.get(method);
+    slot.set(method, handler);
+    return () => {
+      if (slot.get(method) !== handler) return;
+      if (previous) slot.set(method, previous);
+      else slot.delete(method);
+    };
+  }
+
+  get(method: string): Handler | undefined {
+    return this.overrides.get(method) ?? this.defaults.get(method);
+  }
+
+  /** Every method with a handler, sorted. */
+  methods(): string[] {
+    return [...new Set([...this.defaults.keys(), ...this.overrides.keys()])].sort();
+  }
+}
+
+/** What every runtime answers without WASM before modules or apps add their own. */
+export const builtinHandlers: Partial<{ [M in keyof RuntimeMethods]: RuntimeHandler<M> }> = {
+  ai_enhance: (image) => {
+    runtime_log.trace('AI enhance simulation', { hasImage: !!image });
+    return { enhanced: true, data: image };
+  },
+  ai_generate: (prompt) => {
+    runtime_log.trace('AI generate simulation', { promptLength: prompt.length });
+    return { text: `Generated: ${prompt}` };
+  },
+  storage_save: (file) => {
+    runtime_log.trace('Storage save simulation', { hasFile: !!file });
+    return { path: `/storage/${Date.now()}` };
+  },
+  storage_load: (path) => {
+    runtime_log.trace('Storage load simulation', { path });
+    return { data: `Loaded from ${path}` };
+  },
+  ui_notify: (message) => {
+    runtime_log.trace('UI notify simulation', { message });
+    return { shown: true };
+  },
+  ui_modal: (options) => {
+    runtime_log.trace('UI modal simulation', { hasOptions: !!options });
+    return { opened: true };
+  },
+  project_open: (name) => {
+    runtime_log.trace('Project open simulation', { name });
+    return { project: { name, id: Date.now() } };
+  },
+  project_save: (project) => {
+    runtime_log.trace('Project save simulation', { hasProject: !!project });
+    return { saved: true };
+  },
+  auth_login: (user) => {
+    runtime_log.trace('Auth login simulation', { hasUser: !!user });
+    return { token: 'mock-token', user };
+  },
+  auth_logout: () => {
+    runtime_log.trace('Auth logout simulation');
+    return { loggedOut: true };
+  },
+  branding_get_logo: async () => {
+    runtime_log.trace('Branding get logo simulation');
+    return { url: await brandingManager.getLogoUrl() };
+  },
+  branding_get_config: () => {
+    runtime_log.trace('Branding get config simulation');
+    return { config: brandingManager.getConfig() };
+  },
+  branding_apply_theme: () => {
+    runtime_log.trace('Branding apply theme simulation');
+    brandingManager.applyTheme();
+    return { applied: true };
+  },
+};
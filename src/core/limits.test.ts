@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { ResourceLimitError, RuntimeError } from '../../packages/shared/src/errors';
+import { WASM_PAGE_SIZE, importedMemoryDescriptor, memoryLimitBytes } from './limits';
+import { WasmRuntime } from './runtime';
+import { RustBridge } from './rust-bridge';
+
+const leb = (value: number): number[] => {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value >>>= 7;
+    if (value) byte |= 0x80;
+    bytes.push(byte);
+  } while (value);
+  return bytes;
+};
+const name = (text: string) => [...leb(text.length), ...Buffer.from(text)];
+const vector = (items: number[][]) => [...leb(items.length), ...items.flat()];
+const section = (id: number, items: number[][]) => {
+  const body = vector(items);
+  return [id, ...leb(body.length), ...body];
+};
+const body = (code: number[]) => {
+  const content = [0, ...code, 0x0b];
+  return [...leb(content.length), ...content];
+};
+
+/**
+ * Defines and exports its own one-page memory and imports `env.gas`:
+ * `grow(pages)`, `burn(fuel)` charging `fuel` units, and `spin()`.
+ */
+// prettier-ignore
+const OWN_MEMORY_MODULE = new Uint8Array([
+  0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+  ...section(1, [[0x60, 1, 0x7f, 0], [0x60, 1, 0x7f, 1, 0x7f], [0x60, 0, 1, 0x7f]]),
+  ...section(2, [[...name('env'), ...name('gas'), 0x00, 0]]),
+  ...section(3, [[1], [1], [2]]),
+  ...section(5, [[0x00, 1]]),
+  ...section(7, [
+    [...name('memory'), 2, 0],
+    [...name('grow'), 0, 1],
+    [...name('burn'), 0, 2],
+    [...name('spin'), 0, 3],
+  ]),
+  ...section(10, [
+    body([0x20, 0, 0x40, 0]),
+    body([0x20, 0, 0x10, 0, 0x41, 0]),
+    body([0x03, 0x40, 0x0c, 0, 0x0b, 0x00]),
+  ]),
+]);
+
+/** Imports `env.memory`; `grow_or_trap(pages)` traps when the grow fails. */
+// prettier-ignore
+const IMPORTED_MEMORY_MODULE = new Uint8Array([
+  0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+  ...section(1, [[0x60, 1, 0x7f, 1, 0x7f]]),
+  ...section(2, [[...name('env'), ...name('memory'), 0x02, 0x00, 1]]),
+  ...section(3, [[0]]),
+  ...section(7, [[...name('grow_or_trap'), 0, 0]]),
+  ...section(10, [
+    body([0x20, 0, 0x40, 0, 0x41, 0x7f, 0x46, 0x04, 0x40, 0x00, 0x0b, 0x41, 0]),
+  ]),
+]);
+
+/** Imports `env.log` and `env.memory`; `hello()` logs the string stored at offset 0. */
+// prettier-ignore
+const LOGGER_MODULE = new Uint8Array([
+  0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+  ...section(1, [[0x60, 2, 0x7f, 0x7f, 0], [0x60, 0, 0]]),
+  ...section(2, [
+    [...name('env'), ...name('log'), 0x00, 0],
+    [...name('env'), ...name('memory'), 0x02, 0x00, 1],
+  ]),
+  ...section(3, [[1]]),
+  ...section(7, [[...name('hello'), 0, 1]]),
+  ...section(10, [body([0x41, 0, 0x41, 5, 0x10, 0])]),
+  ...section(11, [[0x00, 0x41, 0, 0x0b, ...name('hello')]]),
+]);
+
+const MB = 1048576;
+let directory: string;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wasm-limits-'));
+  await fs.writeFile(path.join(directory, 'own.wasm'), OWN_MEMORY_MODULE);
+  await fs.writeFile(path.join(directory, 'imported.wasm'), IMPORTED_MEMORY_MODULE);
+  await fs.writeFile(path.join(directory, 'logger.wasm'), LOGGER_MODULE);
+});
+
+afterAll(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+async function runtimeFor(file: string, options: ConstructorParameters<typeof WasmRuntime>[0]) {
+  const runtime = new WasmRuntime({ wasmPath: path.join(directory, file), ...options });
+  await runtime.initialize();
+  expect(runtime.getStatus().mode).toBe('native');
+  return runtime;
+}
+
+describe('memory limits', () => {
+  it('sizes the imported memory from maxMemoryMB', () => {
+    expect(importedMemoryDescriptor()).toEqual({ initial: 256 });
+    expect(importedMemoryDescriptor(4)).toEqual({ initial: 64, maximum: 64 });
+    expect(importedMemoryDescriptor(32)).toEqual({ initial: 256, maximum: 512 });
+    expect(memoryLimitBytes(1.5)).toBe(24 * WASM_PAGE_SIZE);
+    expect(memoryLimitBytes()).toBeUndefined();
+  });
+
+  it('reports heap growth and replaces an instance that outgrows its cap', async () => {
+    const runtime = await runtimeFor('own.wasm', { maxMemoryMB: 2 });
+
+    expect(await runtime.call('grow', 10)).toBe(1);
+    expect(runtime.getMemoryUsage()).toEqual({
+      used: 11 * WASM_PAGE_SIZE,
+      total: 2 * MB,
+      wasmHeap: 10 * WASM_PAGE_SIZE,
+      peak: 11 * WASM_PAGE_SIZE,
+    });
+
+    const error = await runtime.call('grow', 40).catch((caught) => caught);
+    expect(error).toBeInstanceOf(ResourceLimitError);
+    expect(error).toBeInstanceOf(RuntimeError);
+    expect(error).toMatchObject({
+      code: 'RESOURCE_LIMIT',
+      limit: 'memory',
+      max: 2 * MB,
+      used: 51 * WASM_PAGE_SIZE,
+    });
+    expect(error.message).toBe(
+      "Runtime error calling method 'grow': memory limit of 2 MB exceeded (3.2 MB)"
+    );
+    expect(runtime.getMemoryUsage()).toMatchObject({ used: WASM_PAGE_SIZE, wasmHeap: 0 });
+    runtime.destroy();
+  });
+
+  it('turns a failed grow of the capped imported memory into a limit error', async () => {
+    const runtime = await runtimeFor('imported.wasm', { maxMemoryMB: 1 });
+
+    expect(runtime.getMemoryUsage()).toMatchObject({ used: MB, total: MB });
+    await expect(runtime.call('grow_or_trap', 1)).rejects.toMatchObject({
+      limit: 'memory',
+      max: MB,
+    });
+    runtime.destroy();
+  });
+});
+
+describe('call budgets', () => {
+  it('stops calls that run out of fuel', async () => {
+    const runtime = await runtimeFor('own.wasm', { limits: { fuel: 10 } });
+
+    expect(await runtime.call('burn', 10)).toBe(0);
+    await expect(runtime.call('burn', 11)).rejects.toMatchObject({
+      code: 'RESOURCE_LIMIT',
+      limit: 'fuel',
+      max: 10,
+      used: 11,
+    });
+    expect(await runtime.invoke('burn', [50], { limits: { fuel: 100 } })).toBe(0);
+    runtime.destroy();
+  });
+
+  it('interrupts calls over their time budget on a worker', async () => {
+    const runtime = await runtimeFor('own.wasm', { maxMemoryMB: 2 });
+
+    const error = await runtime
+      .invoke('spin', [], { limits: { timeoutMs: 50 } })
+      .catch((caught) => caught);
+    expect(error).toBeInstanceOf(ResourceLimitError);
+    expect(error).toMatchObject({ limit: 'time', max: 50 });
+
+    // The worker enforces fuel and memory caps as well.
+    await expect(
+      runtime.invoke('burn', [5], { limits: { timeoutMs: 1000, fuel: 1 } })
+    ).rejects.toMatchObject({ limit: 'fuel', max: 1, used: 5 });
+    await expect(
+      runtime.invoke('grow', [40], { limits: { timeoutMs: 1000 } })
+    ).rejects.toMatchObject({ limit: 'memory', used: 41 * WASM_PAGE_SIZE });
+    expect(await runtime.invoke('grow', [1], { limits: { timeoutMs: 1000 } })).toBe(1);
+    expect(runtime.getMemoryUsage().workers).toBe(2 * WASM_PAGE_SIZE);
+    runtime.destroy();
+  });
+});
+
+describe('RustBridge limits and imports', () => {
+  it('stops worker calls over their timeout and replaces the worker', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const bridge = new RustBridge({
+      wasmPath: directory,
+      rustModules: ['own'],
+      enableJsFallback: false,
+      workers: { size: 1 },
+      maxMemoryMB: 2,
+    });
+    await bridge.initialize();
+
+    try {
+      expect(bridge.getModuleStatus().own).toMatchObject({ mode: 'native', workers: 1 });
+      const error = await bridge.invoke('own::spin', {}, { timeout: 50 }).catch((caught) => caught);
+      expect(error).toBeInstanceOf(ResourceLimitError);
+      expect(error).toMatchObject({ limit: 'time', max: 50 });
+      expect(await bridge.invoke('own::grow', {}, { timeout: 1000 })).toBe(1);
+    } finally {
+      await bridge.destroy();
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('decodes the strings a module logs from its imported memory', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const bridge = new RustBridge({
+      wasmPath: directory,
+      rustModules: ['logger'],
+      enableJsFallback: false,
+      maxMemoryMB: 1,
+    });
+    await bridge.initialize();
+
+    try {
+      expect(bridge.getModuleStatus().logger).toMatchObject({ mode: 'native' });
+      await bridge.invoke('logger::hello');
+      expect(log).toHaveBeenCalledWith('[logger] WASM Log:', 'hello');
+    } finally {
+      await bridge.destroy();
+      vi.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Memory caps for WASM instances. Imported memories get a `maximum`, so
+ * `memory.grow` fails inside the module; memories a module defines itself are
+ * checked against the same cap after every call.
+ */
+
+export const WASM_PAGE_SIZE = 65536;
+
+const DEFAULT_INITIAL_PAGES = 256;
+
+/** The `maxMemoryMB` cap in bytes, rounded down to whole pages. */
+export function memoryLimitBytes(maxMemoryMB?: number): number | undefined {
+  if (!maxMemoryMB) return undefined;
+  return Math.floor((maxMemoryMB * 1048576) / WASM_PAGE_SIZE) * WASM_PAGE_SIZE;
+}
+
+/** Descriptor for the `env.memory` import, capped at `maxMemoryMB`. */
+export function importedMemoryDescriptor(maxMemoryMB?: number): WebAssembly.MemoryDescriptor {
+  const limit = memoryLimitBytes(maxMemoryMB);
+  if (limit === undefined) {
+    return { initial: DEFAULT_INITIAL_PAGES };
+  }
+  const maximum = limit / WASM_PAGE_SIZE;
+  return { initial: Math.min(DEFAULT_INITIAL_PAGES, maximum), maximum };
+}
@@ -1,15 +1,15 @@
-import { EnterpriseConfig, FrameworkType, ModuleInterface } from '../types';
-import { WasmRuntime } from './runtime';
+import { EnterpriseConfig, FrameworkType, ModuleInterface, RuntimeCore } from '../types';
+import { createRuntime } from './record-replay';
 
 export class ModuleLoader {
   private config: EnterpriseConfig;
-  private runtime: WasmRuntime;
+  private runtime: RuntimeCore;
   private loadedModules: Map<string, ModuleInterface> = new Map();
   private framework: FrameworkType;
 
   constructor(config: EnterpriseConfig) {
     this.config = config;
-    this.runtime = new WasmRuntime();
+    this.runtime = createRuntime(config.runtime);
     this.framework = this.detectFramework();
   }
 
@@ -38,6 +38,11 @@ export class ModuleLoader {
     if (this.config.modules.sdk) {
       modulePromises.push(this.loadModule('sdk', () => import('../modules/sdk')));
     }
+    if (this.config.modules.email) {
+      modulePromises.push(
+        this.loadModule('email', () => import('../modules/email'), this.config.email)
+      );
+    }
 
     await Promise.all(modulePromises);
 
@@ -47,14 +52,18 @@ export class ModuleLoader {
     }
   }
 
-  private async loadModule(name: string, importFn: () => Promise<any>): Promise<void> {
+  private async loadModule(
+    name: string,
+    importFn: () => Promise<any>,
+    options?: unknown
+  ): Promise<void> {
     try {
       const moduleExports = await importFn();
       const ModuleClass =
         moduleExports.default || moduleExports[name.charAt(0).toUpperCase() + name.slice(1)];
 
       if (ModuleClass && typeof ModuleClass === 'function') {
-        const moduleInstance = new ModuleClass(this.runtime);
+        const moduleInstance = new ModuleClass(this.runtime, options);
         await moduleInstance.init();
         this.loadedModules.set(name, moduleInstance);
       }
@@ -91,7 +100,7 @@ export class ModuleLoader {
     return this.loadedModules.get(name);
   }
 
-  getRuntime(): WasmRuntime {
+  getRuntime(): RuntimeCore {
     return this.runtime;
   }
 
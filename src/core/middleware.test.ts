@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  authTokenMiddleware,
+  cacheMiddleware,
+  composeMiddlewares,
+  InvokeContext,
+  InvokeMiddleware,
+  retryMiddleware,
+  timingMiddleware,
+  validationMiddleware,
+} from './middleware';
+import { BridgeArgumentError } from './rust-bridge';
+
+const context = (fn: string, params: Record<string, any> = {}): InvokeContext => ({
+  function: fn,
+  params,
+  timestamp: Date.now(),
+  sessionId: 'session_test',
+  options: {},
+});
+
+/** Handler answering with what reached the bridge. */
+const echo = vi.fn(async (ctx: InvokeContext) => ({ function: ctx.function, params: ctx.params }));
+
+describe('composeMiddlewares', () => {
+  it('runs middlewares as layers around the call', async () => {
+    const order: string[] = [];
+    const layer = (name: string): InvokeMiddleware => ({
+      name,
+      async execute(_context, next) {
+        order.push(`${name} in`);
+        const result = await next();
+        order.push(`${name} out`);
+        return { ...result, seenBy: [...(result.seenBy ?? []), name] };
+      },
+    });
+
+    const invoke = composeMiddlewares([layer('outer'), layer('inner')], echo);
+    const result = await invoke(context('ai::generate', { prompt: 'hi' }));
+
+    expect(order).toEqual(['outer in', 'inner in', 'inner out', 'outer out']);
+    expect(result).toEqual({
+      function: 'ai::generate',
+      params: { prompt: 'hi' },
+      seenBy: ['inner', 'outer'],
+    });
+  });
+
+  it('lets a middleware short-circuit or rewrite the call', async () => {
+    const handler = vi.fn(echo);
+    const stub: InvokeMiddleware = {
+      name: 'stub',
+      execute: async (ctx, next) => (ctx.function === 'ui::notify' ? { shown: true } : next()),
+    };
+    const rename: InvokeMiddleware = {
+      name: 'rename',
+      execute: async (ctx, next) => {
+        ctx.function = ctx.function.replace('::generate', '::generate_v2');
+        return next();
+      },
+    };
+    const invoke = composeMiddlewares([stub, rename], handler);
+
+    expect(await invoke(context('ui::notify'))).toEqual({ shown: true });
+    expect(handler).not.toHaveBeenCalled();
+    expect(await invoke(context('ai::generate'))).toMatchObject({ function: 'ai::generate_v2' });
+  });
+});
+
+describe('built-in middlewares', () => {
+  it('times successful and failed calls', async () => {
+    const timings: any[] = [];
+    const timing = timingMiddleware((entry) => timings.push(entry));
+    const failure = new Error('boom');
+
+    await composeMiddlewares([timing], echo)(context('ai::generate'));
+    const failing = composeMiddlewares([timing], async () => Promise.reject(failure));
+    await expect(failing(context('ai::analyze'))).rejects.toBe(failure);
+
+    expect(timings).toEqual([
+      { function: 'ai::generate', duration: expect.any(Number) },
+      { function: 'ai::analyze', duration: expect.any(Number), error: failure },
+    ]);
+  });
+
+  it('retries failures of the functions it is given, but not invalid arguments', async () => {
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('busy'))
+      .mockRejectedValueOnce(new Error('busy'))
+      .mockResolvedValue('done');
+    const retry = retryMiddleware({ functions: ['storage::load', 'ai::*'], delay: 0 });
+    const ctx = context('storage::load');
+
+    expect(await composeMiddlewares([retry], handler)(ctx)).toBe('done');
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(ctx.attempt).toBe(3);
+
+    const failing = vi.fn().mockRejectedValue(new Error('busy'));
+    const save = context('storage::save');
+    await expect(composeMiddlewares([retry], failing)(save)).rejects.toThrow('busy');
+    expect(failing).toHaveBeenCalledTimes(1);
+    expect(save.attempt).toBeUndefined();
+
+    const invalid = vi.fn().mockRejectedValue(new BridgeArgumentError('ai::generate', ['x']));
+    const invoke = composeMiddlewares(
+      [retryMiddleware({ functions: () => true, delay: 0, retries: 5 })],
+      invalid
+    );
+    await expect(invoke(context('ai::generate'))).rejects.toBeInstanceOf(BridgeArgumentError);
+    expect(invalid).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches the functions it is given, and not failures', async () => {
+    const handler = vi.fn(echo);
+    const cache = cacheMiddleware({ functions: ['storage::*'], maxEntries: 2 });
+    const invoke = composeMiddlewares([cache], handler);
+
+    const [first, second] = await Promise.all([
+      invoke(context('storage::load', { path: '/a', raw: true })),
+      invoke(context('storage::load', { raw: true, path: '/a' })),
+    ]);
+    expect(second).toBe(first);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await invoke(context('ai::generate', { prompt: 'hi' }));
+    await invoke(context('ai::generate', { prompt: 'hi' }));
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    // Two more entries push out `/a`, the least recently used.
+    await invoke(context('storage::load', { path: '/b' }));
+    await invoke(context('storage::load', { path: '/c' }));
+    await invoke(context('storage::load', { path: '/a', raw: true }));
+    expect(handler).toHaveBeenCalledTimes(6);
+
+    const flaky = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue('ok');
+    const cached = composeMiddlewares([cacheMiddleware({ functions: () => true })], flaky);
+    await expect(cached(context('storage::list'))).rejects.toThrow('offline');
+    expect(await cached(context('storage::list'))).toBe('ok');
+    expect(await cached(context('storage::list'))).toBe('ok');
+    expect(flaky).toHaveBeenCalledTimes(2);
+  });
+
+  it('validates parameters before the call', async () => {
+    const handler = vi.fn(echo);
+    const invoke = composeMiddlewares(
+      [
+        validationMiddleware({
+          'ai::generate': [{ name: 'prompt', type: 'string' }],
+          'storage::save': (params) => (params.file ? [] : ['a file is required']),
+        }),
+      ],
+      handler
+    );
+
+    await expect(invoke(context('ai::generate', { prompt: 3 }))).rejects.toThrow(
+      "Invalid arguments for 'ai::generate': 'prompt' should be string, got number"
+    );
+    await expect(invoke(context('storage::save'))).rejects.toThrow('a file is required');
+    expect(handler).not.toHaveBeenCalled();
+
+    await invoke(context('ai::generate', { prompt: 'hi' }));
+    await invoke(context('ui::notify', { anything: true }));
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('adds the auth token to calls that lack one', async () => {
+    let token: string | undefined;
+    const auth = authTokenMiddleware(async () => token, { functions: ['storage::*'] });
+    const invoke = composeMiddlewares([auth], echo);
+    const params = { path: '/a' };
+
+    expect((await invoke(context('storage::load', params))).params).toEqual({ path: '/a' });
+
+    token = 'secret';
+    expect(await invoke(context('storage::load', params))).toMatchObject({
+      params: { path: '/a', token: 'secret' },
+    });
+    expect(params).toEqual({ path: '/a' });
+    expect(await invoke(context('storage::load', { token: 'mine' }))).toMatchObject({
+      params: { token: 'mine' },
+    });
+    expect((await invoke(context('ai::generate', {}))).params).toEqual({});
+  });
+
+  it('only adds auth tokens to the functions it is given', async () => {
+    // A declared signature rejects the token like the bridge does for described exports.
+    const invoke = (functions: string[]) =>
+      composeMiddlewares(
+        [
+          authTokenMiddleware(() => 'secret', { functions }),
+          validationMiddleware({ 'ai::echo': [{ name: 'text', type: 'String' }] }),
+        ],
+        echo
+      );
+
+    expect(await invoke(['storage::*'])(context('ai::echo', { text: 'hi' }))).toMatchObject({
+      params: { text: 'hi' },
+    });
+    await expect(invoke(['ai::*'])(context('ai::echo', { text: 'hi' }))).rejects.toThrow(
+      "Invalid arguments for 'ai::echo': unexpected 'token'"
+    );
+  });
+});
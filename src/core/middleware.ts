@@ -0,0 +1,250 @@
+import { BridgeArgumentError, InvokeOptions } from './rust-bridge';
+import { validateArguments, WasmParam } from './wasm-metadata';
+
+/**
+ * Middlewares around `UnifiedEnterpriseSDK.invoke`, composed onion-style:
+ * each one receives the call's context and `next`, which runs the rest of
+ * the chain and resolves to the result. A middleware can change the context
+ * before calling `next`, transform what it returns, handle its errors, call
+ * it again, or return without calling it at all.
+ */
+
+export interface InvokeContext {
+  /** Function called, as `module::function`. */
+  function: string;
+  /** Parameters passed to the bridge; replace the object rather than mutating the caller's. */
+  params: Record<string, any>;
+  timestamp: number;
+  sessionId: string;
+  /** Passed to the bridge as `InvokeOptions.context`. */
+  metadata?: Record<string, any>;
+  options: Pick<InvokeOptions, 'timeout' | 'signal' | 'worker'>;
+  /** Attempt being made, from 1; set by `retryMiddleware`. */
+  attempt?: number;
+}
+
+export type InvokeNext = () => Promise<any>;
+
+export interface InvokeMiddleware {
+  name: string;
+  execute: (context: InvokeContext, next: InvokeNext) => Promise<any>;
+}
+
+/** `'ai::generate'`, every function of a module (`'ai::*'`), or a predicate. */
+export type FunctionFilter = string[] | ((functionName: string) => boolean);
+
+/**
+ * `handler` wrapped in `middlewares`, the first being the outermost. Each
+ * call to `next` runs the rest of the chain again, so a middleware may retry.
+ */
+export function composeMiddlewares(
+  middlewares: InvokeMiddleware[],
+  handler: (context: InvokeContext) => Promise<any>
+): (context: InvokeContext) => Promise<any> {
+  const chain = [...middlewares];
+  return (context) => {
+    const dispatch = async (index: number): Promise<any> => {
+      if (index === chain.length) return handler(context);
+      return chain[index].execute(context, () => dispatch(index + 1));
+    };
+    return dispatch(0);
+  };
+}
+
+export interface InvokeTiming {
+  function: string;
+  /** Milliseconds, across every attempt made inside this middleware. */
+  duration: number;
+  /** Set when the call failed. */
+  error?: unknown;
+}
+
+/** Reports how long each call takes, whether it succeeds or fails. */
+export function timingMiddleware(onTiming: (timing: InvokeTiming) => void): InvokeMiddleware {
+  return {
+    name: 'timing',
+    async execute(context, next) {
+      const start = performance.now();
+      try {
+        const result = await next();
+        onTiming({ function: context.function, duration: performance.now() - start });
+        return result;
+      } catch (error) {
+        onTiming({ function: context.function, duration: performance.now() - start, error });
+        throw error;
+      }
+    },
+  };
+}
+
+export interface RetryOptions {
+  /** Functions safe to call again; callers must list them, as no default is assumed. */
+  functions: FunctionFilter;
+  /** Attempts after the first one. Defaults to 2. */
+  retries?: number;
+  /** Milliseconds before the first retry. Defaults to 100. */
+  delay?: number;
+  /** Multiplies the delay after each retry. Defaults to 2. */
+  factor?: number;
+  /** Defaults to retrying anything but invalid arguments and aborted calls. */
+  shouldRetry?: (error: unknown, context: InvokeContext) => boolean;
+}
+
+/**
+ * Calls the rest of the chain again when it fails, with exponential backoff.
+ * Only list functions that are idempotent.
+ */
+export function retryMiddleware(options: RetryOptions): InvokeMiddleware {
+  const { retries = 2, delay = 100, factor = 2 } = options;
+  const shouldRetry =
+    options.shouldRetry ??
+    ((error: unknown, context: InvokeContext) =>
+      !(error instanceof BridgeArgumentError) && !context.options.signal?.aborted);
+
+  return {
+    name: 'retry',
+    async execute(context, next) {
+      if (!matchesFilter(options.functions, context.function)) return next();
+      for (let attempt = 1; ; attempt++) {
+        context.attempt = attempt;
+        try {
+          return await next();
+        } catch (error) {
+          if (attempt > retries || !shouldRetry(error, context)) throw error;
+          await new Promise((resolve) => setTimeout(resolve, delay * factor ** (attempt - 1)));
+        }
+      }
+    },
+  };
+}
+
+export interface CacheOptions {
+  /** Functions whose results may be cached; nothing is cached by default. */
+  functions: FunctionFilter;
+  /** Milliseconds a result stays valid. Defaults to 60 000. */
+  ttl?: number;
+  /** Oldest entries are dropped past this size. Defaults to 100. */
+  maxEntries?: number;
+  /** Defaults to the function name and its parameters; `undefined` skips the cache. */
+  key?: (context: InvokeContext) => string | undefined;
+}
+
+export interface CacheMiddleware extends InvokeMiddleware {
+  clear(): void;
+}
+
+/**
+ * Answers repeated calls from memory. Concurrent identical calls share one
+ * invocation; failures are not kept.
+ */
+export function cacheMiddleware(options: CacheOptions): CacheMiddleware {
+  const { ttl = 60_000, maxEntries = 100 } = options;
+  const key =
+    options.key ?? ((context) => `${context.function}:${stableStringify(context.params)}`);
+  const entries = new Map<string, { result: Promise<any>; expires: number }>();
+
+  return {
+    name: 'cache',
+    execute(context, next) {
+      const cacheKey = matchesFilter(options.functions, context.function)
+        ? key(context)
+        : undefined;
+      if (cacheKey === undefined) return next();
+
+      const cached = entries.get(cacheKey);
+      if (cached && cached.expires > Date.now()) {
+        // Refresh its place so the least recently used entry goes first.
+        entries.delete(cacheKey);
+        entries.set(cacheKey, cached);
+        return cached.result;
+      }
+
+      const entry = { result: next(), expires: Date.now() + ttl };
+      entries.delete(cacheKey);
+      entries.set(cacheKey, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+      entry.result.catch(() => {
+        if (entries.get(cacheKey) === entry) entries.delete(cacheKey);
+      });
+      return entry.result;
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+/** Declared parameters, or a function returning the problems with `params`. */
+export type ParamsValidator = WasmParam[] | ((params: Record<string, any>) => string[]);
+
+/**
+ * Rejects calls whose parameters do not match, before they reach the bridge.
+ * The bridge already checks functions described by an `euse_api` section;
+ * this covers JS fallbacks and rules of the app's own.
+ */
+export function validationMiddleware(
+  validators: Record<string, ParamsValidator>
+): InvokeMiddleware {
+  return {
+    name: 'validation',
+    async execute(context, next) {
+      const validator = validators[context.function];
+      if (validator) {
+        const issues =
+          typeof validator === 'function'
+            ? validator(context.params)
+            : validateArguments(validator, context.params);
+        if (issues.length > 0) throw new BridgeArgumentError(context.function, issues);
+      }
+      return next();
+    },
+  };
+}
+
+export interface AuthTokenOptions {
+  /**
+   * Functions that get the token. The bridge rejects parameters a function
+   * described by `euse_api` does not declare, so list only those taking it.
+   */
+  functions: FunctionFilter;
+  /** Parameter receiving the token. Defaults to `token`. */
+  param?: string;
+}
+
+/**
+ * Adds the current token to the parameters of each call that does not pass
+ * one; calls go out without it while `getToken` returns nothing.
+ */
+export function authTokenMiddleware(
+  getToken: () => string | null | undefined | Promise<string | null | undefined>,
+  options: AuthTokenOptions
+): InvokeMiddleware {
+  const { param = 'token', functions } = options;
+  return {
+    name: 'auth-token',
+    async execute(context, next) {
+      if (matchesFilter(functions, context.function) && context.params[param] === undefined) {
+        const token = await getToken();
+        if (token) context.params = { ...context.params, [param]: token };
+      }
+      return next();
+    },
+  };
+}
+
+function matchesFilter(filter: FunctionFilter, functionName: string): boolean {
+  if (typeof filter === 'function') return filter(functionName);
+  const moduleName = functionName.split('::')[0];
+  return filter.includes(functionName) || filter.includes(`${moduleName}::*`);
+}
+
+/** JSON with object keys sorted, so equal parameters give equal keys. */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item) && !ArrayBuffer.isView(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : item
+  );
+}
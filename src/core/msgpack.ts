@@ -0,0 +1,315 @@
+/**
+ * Minimal MessagePack codec used for WASM call payloads. Byte arrays map to
+ * `bin`, dates to the timestamp extension, and `undefined` object fields
+ * are dropped as in JSON.
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function encodeMsgPack(value: unknown): Uint8Array {
+  const writer = new Writer();
+  writer.value(value);
+  return writer.finish();
+}
+
+export function decodeMsgPack(bytes: Uint8Array): any {
+  const reader = new Reader(bytes);
+  const value = reader.value();
+  if (reader.offset !== bytes.length) {
+    throw new Error(`MessagePack: ${bytes.length - reader.offset} trailing bytes`);
+  }
+  return value;
+}
+
+class Writer {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  value(value: unknown): void {
+    if (value === null || value === undefined) {
+      this.byte(0xc0);
+    } else if (typeof value === 'boolean') {
+      this.byte(value ? 0xc3 : 0xc2);
+    } else if (typeof value === 'number') {
+      this.number(value);
+    } else if (typeof value === 'bigint') {
+      this.reserve(9);
+      this.byte(value < BigInt(0) ? 0xd3 : 0xcf);
+      if (value < BigInt(0)) this.view.setBigInt64(this.length, value);
+      else this.view.setBigUint64(this.length, value);
+      this.length += 8;
+    } else if (typeof value === 'string') {
+      const bytes = textEncoder.encode(value);
+      this.header(bytes.length, 0xa0, 31, [0xd9, 0xda, 0xdb]);
+      this.bytes(bytes);
+    } else if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+      const bytes = value instanceof ArrayBuffer ? new Uint8Array(value) : value;
+      this.header(bytes.length, -1, -1, [0xc4, 0xc5, 0xc6]);
+      this.bytes(bytes);
+    } else if (value instanceof Date) {
+      this.timestamp(value);
+    } else if (Array.isArray(value)) {
+      this.header(value.length, 0x90, 15, [-1, 0xdc, 0xdd]);
+      value.forEach((item) => this.value(item));
+    } else if (typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>).filter(
+        ([, item]) => item !== undefined
+      );
+      this.header(entries.length, 0x80, 15, [-1, 0xde, 0xdf]);
+      for (const [key, item] of entries) {
+        this.value(key);
+        this.value(item);
+      }
+    } else {
+      throw new Error(`MessagePack: cannot encode ${typeof value}`);
+    }
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private number(value: number): void {
+    this.reserve(9);
+    if (!Number.isInteger(value) || Math.abs(value) > Number.MAX_SAFE_INTEGER) {
+      this.byte(0xcb);
+      this.view.setFloat64(this.length, value);
+      this.length += 8;
+    } else if (value >= 0 && value < 0x80) {
+      this.byte(value);
+    } else if (value < 0 && value >= -32) {
+      this.byte(value & 0xff);
+    } else if (value >= 0) {
+      if (value <= 0xff) this.fixed(0xcc, 1, value);
+      else if (value <= 0xffff) this.fixed(0xcd, 2, value);
+      else if (value <= 0xffffffff) this.fixed(0xce, 4, value);
+      else {
+        this.byte(0xcf);
+        this.view.setBigUint64(this.length, BigInt(value));
+        this.length += 8;
+      }
+    } else if (value >= -0x80) {
+      this.byte(0xd0);
+      this.view.setInt8(this.length++, value);
+    } else if (value >= -0x8000) {
+      this.byte(0xd1);
+      this.view.setInt16(this.length, value);
+      this.length += 2;
+    } else if (value >= -0x80000000) {
+      this.byte(0xd2);
+      this.view.setInt32(this.length, value);
+      this.length += 4;
+    } else {
+      this.byte(0xd3);
+      this.view.setBigInt64(this.length, BigInt(value));
+      this.length += 8;
+    }
+  }
+
+  private timestamp(date: Date): void {
+    const millis = date.getTime();
+    const seconds = Math.floor(millis / 1000);
+    const nanoseconds = (millis - seconds * 1000) * 1e6;
+    this.reserve(15);
+    // timestamp 96: ext 8, type -1, u32 nanoseconds, i64 seconds.
+    this.byte(0xc7);
+    this.byte(12);
+    this.byte(0xff);
+    this.view.setUint32(this.length, nanoseconds);
+    this.view.setBigInt64(this.length + 4, BigInt(seconds));
+    this.length += 12;
+  }
+
+  /** Writes a fix-format header when possible, else the 8/16/32-bit length variant. */
+  private header(length: number, fixBase: number, fixMax: number, codes: number[]): void {
+    this.reserve(5);
+    if (length <= fixMax) {
+      this.byte(fixBase | length);
+    } else if (length <= 0xff && codes[0] !== -1) {
+      this.fixed(codes[0], 1, length);
+    } else if (length <= 0xffff) {
+      this.fixed(codes[1], 2, length);
+    } else {
+      this.fixed(codes[2], 4, length);
+    }
+  }
+
+  private fixed(code: number, size: 1 | 2 | 4, value: number): void {
+    this.byte(code);
+    if (size === 1) this.view.setUint8(this.length, value);
+    else if (size === 2) this.view.setUint16(this.length, value);
+    else this.view.setUint32(this.length, value);
+    this.length += size;
+  }
+
+  private byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  private bytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const buffer = new Uint8Array(capacity);
+    buffer.set(this.buffer.subarray(0, this.length));
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+}
+
+class Reader {
+  offset = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  value(): any {
+    const code = this.uint(1);
+
+    if (code < 0x80) return code;
+    if (code >= 0xe0) return code - 0x100;
+    if ((code & 0xe0) === 0xa0) return this.string(code & 0x1f);
+    if ((code & 0xf0) === 0x90) return this.array(code & 0x0f);
+    if ((code & 0xf0) === 0x80) return this.map(code & 0x0f);
+
+    switch (code) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+      case 0xc5:
+      case 0xc6:
+        return this.take(this.uint(1 << (code - 0xc4))).slice();
+      case 0xc7:
+      case 0xc8:
+      case 0xc9:
+        return this.extension(this.uint(1 << (code - 0xc7)));
+      case 0xca:
+        return this.read(4, () => this.view.getFloat32(this.offset));
+      case 0xcb:
+        return this.read(8, () => this.view.getFloat64(this.offset));
+      case 0xcc:
+      case 0xcd:
+      case 0xce:
+        return this.uint(1 << (code - 0xcc));
+      case 0xcf:
+        return this.safe(this.read(8, () => this.view.getBigUint64(this.offset)));
+      case 0xd0:
+        return this.read(1, () => this.view.getInt8(this.offset));
+      case 0xd1:
+        return this.read(2, () => this.view.getInt16(this.offset));
+      case 0xd2:
+        return this.read(4, () => this.view.getInt32(this.offset));
+      case 0xd3:
+        return this.safe(this.read(8, () => this.view.getBigInt64(this.offset)));
+      case 0xd4:
+      case 0xd5:
+      case 0xd6:
+      case 0xd7:
+      case 0xd8:
+        return this.extension(1 << (code - 0xd4));
+      case 0xd9:
+      case 0xda:
+      case 0xdb:
+        return this.string(this.uint(1 << (code - 0xd9)));
+      case 0xdc:
+      case 0xdd:
+        return this.array(this.uint(code === 0xdc ? 2 : 4));
+      case 0xde:
+      case 0xdf:
+        return this.map(this.uint(code === 0xde ? 2 : 4));
+      default:
+        throw new Error(`MessagePack: invalid type byte 0x${code.toString(16)}`);
+    }
+  }
+
+  private string(length: number): string {
+    return textDecoder.decode(this.take(length));
+  }
+
+  private array(length: number): any[] {
+    const items: any[] = [];
+    for (let index = 0; index < length; index++) items.push(this.value());
+    return items;
+  }
+
+  private map(length: number): Record<string, any> {
+    const object: Record<string, any> = {};
+    for (let index = 0; index < length; index++) {
+      const key = this.value();
+      object[String(key)] = this.value();
+    }
+    return object;
+  }
+
+  private extension(length: number): Date {
+    const type = this.read(1, () => this.view.getInt8(this.offset));
+    if (type !== -1) {
+      throw new Error(`MessagePack: unsupported extension type ${type}`);
+    }
+    const data = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.offset, length);
+    this.take(length);
+    if (length === 4) return new Date(data.getUint32(0) * 1000);
+    if (length === 8) {
+      const high = data.getUint32(0);
+      const low = data.getUint32(4);
+      const nanoseconds = high >>> 2;
+      const seconds = (high & 0x3) * 0x100000000 + low;
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+    if (length === 12) {
+      return new Date(Number(data.getBigInt64(4)) * 1000 + data.getUint32(0) / 1e6);
+    }
+    throw new Error(`MessagePack: invalid timestamp length ${length}`);
+  }
+
+  private uint(size: number): number {
+    return this.read(size, () =>
+      size === 1
+        ? this.view.getUint8(this.offset)
+        : size === 2
+          ? this.view.getUint16(this.offset)
+          : this.view.getUint32(this.offset)
+    );
+  }
+
+  private safe(value: bigint): number | bigint {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+      ? Number(value)
+      : value;
+  }
+
+  private read<T>(size: number, get: () => T): T {
+    this.check(size);
+    const value = get();
+    this.offset += size;
+    return value;
+  }
+
+  private take(length: number): Uint8Array {
+    this.check(length);
+    const bytes = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  private check(size: number): void {
+    if (this.offset + size > this.bytes.length) {
+      throw new Error('MessagePack: unexpected end of data');
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { ReplayMissError, ReplayRuntime, RecordingRuntime, createRuntime } from './record-replay';
+import { WasmRuntime } from './runtime';
+import { ModuleLoader } from './loader';
+import { Storage } from '../modules/storage';
+import type { RuntimeFixture } from '../types';
+
+let directory: string;
+let fixturePath: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'record-replay-'));
+  fixturePath = path.join(directory, 'fixtures', 'runtime.json');
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+async function record(calls: (runtime: RecordingRuntime) => Promise<unknown>) {
+  const runtime = createRuntime({
+    enableWasm: false,
+    fixture: { mode: 'record', path: fixturePath },
+  });
+  expect(runtime).toBeInstanceOf(RecordingRuntime);
+  await runtime.initialize();
+  await calls(runtime as RecordingRuntime).catch(() => undefined);
+  await (runtime as RecordingRuntime).flush();
+  return JSON.parse(await fs.readFile(fixturePath, 'utf8')) as RuntimeFixture;
+}
+
+describe('RecordingRuntime', () => {
+  it('writes each call with its result or error to the fixture', async () => {
+    const fixture = await record(async (runtime) => {
+      await runtime.call('project_open', 'atlas');
+      await runtime.call('quantum_sort', [3, 1]);
+    });
+
+    expect(fixture.version).toBe(1);
+    expect(fixture.calls).toEqual([
+      {
+        method: 'project_open',
+        args: ['atlas'],
+        result: { project: { id: expect.any(Number), name: 'atlas' } },
+      },
+      {
+        method: 'quantum_sort',
+        args: [[3, 1]],
+        error: { name: 'Error', message: 'No simulation available for method: quantum_sort' },
+      },
+    ]);
+  });
+});
+
+describe('ReplayRuntime', () => {
+  it('returns recorded results without running anything', async () => {
+    const fixture = await record(async (runtime) => {
+      await runtime.call('storage_save', 'report', { path: '/docs/report.txt' });
+      await runtime.call('storage_load', '/docs/report.txt');
+    });
+
+    const runtime = createRuntime({ fixture: { mode: 'replay', path: fixturePath } });
+    expect(runtime).toBeInstanceOf(ReplayRuntime);
+    expect(runtime.getStatus()).toMatchObject({
+      mode: 'simulated',
+      reason: `Replaying ${fixturePath}`,
+    });
+
+    const storage = new Storage(runtime);
+    expect(await runtime.call('storage_save', 'report', { path: '/docs/report.txt' })).toEqual(
+      fixture.calls[0].result
+    );
+    expect(await storage.load('/docs/report.txt')).toEqual({
+      data: 'Loaded from /docs/report.txt',
+      metadata: undefined,
+    });
+  });
+
+  it('rethrows recorded errors', async () => {
+    await record((runtime) => runtime.call('quantum_sort', [3, 1]));
+    const runtime = new ReplayRuntime(fixturePath);
+
+    await expect(runtime.call('quantum_sort', [3, 1])).rejects.toMatchObject({
+      name: 'Error',
+      message: 'No simulation available for method: quantum_sort',
+    });
+  });
+
+  it('matches arguments strictly by default and by method alone when loose', async () => {
+    const fixture: RuntimeFixture = {
+      version: 1,
+      calls: [
+        { method: 'ai_generate', args: ['first'], result: { text: 'one' } },
+        { method: 'ai_generate', args: ['first'], result: { text: 'two' } },
+        { method: 'ai_generate', args: [{ a: 1, b: 2 }], result: { text: 'keyed' } },
+      ],
+    };
+    const strict = new ReplayRuntime(fixture);
+
+    expect(await strict.call('ai_generate', 'first')).toEqual({ text: 'one' });
+    expect(await strict.call('ai_generate', 'first')).toEqual({ text: 'two' });
+    expect(await strict.call('ai_generate', 'first')).toEqual({ text: 'two' });
+    expect(await strict.call('ai_generate', { b: 2, a: 1 })).toEqual({ text: 'keyed' });
+
+    const miss = await strict.call('ai_generate', 'second').catch((caught) => caught);
+    expect(miss).toBeInstanceOf(ReplayMissError);
+    expect(miss).toMatchObject({ method: 'ai_generate', args: ['second'] });
+    expect(miss.message).toBe(
+      `No recorded call to 'ai_generate' with arguments ["second"] in inline fixture`
+    );
+
+    const loose = new ReplayRuntime(fixture, { match: 'loose' });
+    expect(await loose.call('ai_generate', 'second')).toEqual({ text: 'one' });
+    await expect(loose.call('ai_enhance')).rejects.toBeInstanceOf(ReplayMissError);
+  });
+
+  it('falls back to handlers the app registered, not to module defaults', async () => {
+    const fixture: RuntimeFixture = {
+      version: 1,
+      calls: [{ method: 'ai_generate', args: ['hi'], result: { text: 'recorded' } }],
+    };
+    const runtime = new ReplayRuntime(fixture);
+    runtime.registerHandler('ai_generate', () => ({ text: 'handled' }));
+    const unregister = runtime.registerHandler('ui_notify', () => ({ shown: true }));
+    runtime.registerHandler('storage_load', () => ({ data: 'default' }), { default: true });
+
+    expect(await runtime.call('ai_generate', 'hi')).toEqual({ text: 'recorded' });
+    expect(await runtime.call('ai_generate', 'other')).toEqual({ text: 'handled' });
+    expect(await runtime.call('ui_notify', 'saved')).toEqual({ shown: true });
+    await expect(runtime.call('storage_load', '/a')).rejects.toBeInstanceOf(ReplayMissError);
+
+    unregister();
+    await expect(runtime.call('ui_notify', 'saved')).rejects.toBeInstanceOf(ReplayMissError);
+  });
+
+  it('round-trips bytes and dates', async () => {
+    const inner = new WasmRuntime({ enableWasm: false });
+    const recorder = new RecordingRuntime(inner, fixturePath);
+    const image = new Uint8Array([0, 128, 255]);
+    const result = await recorder.call('ai_enhance', image, new Date('2024-05-01T00:00:00Z'));
+    await recorder.flush();
+
+    const stored = JSON.parse(await fs.readFile(fixturePath, 'utf8'));
+    expect(stored.calls[0].args).toEqual([
+      { $bytes: 'AID/' },
+      { $date: '2024-05-01T00:00:00.000Z' },
+    ]);
+
+    const replay = new ReplayRuntime(fixturePath);
+    const replayed = await replay.call('ai_enhance', image, new Date('2024-05-01T00:00:00Z'));
+    expect(replayed).toEqual(result);
+    expect(replayed.data).toBeInstanceOf(Uint8Array);
+  });
+
+  it('reports a missing fixture', async () => {
+    await expect(new ReplayRuntime(fixturePath).initialize()).rejects.toThrow(
+      `Runtime fixture not found: ${fixturePath} (record it with mode 'record')`
+    );
+  });
+
+  it('is picked by the module loader from runtime.fixture', async () => {
+    await record((runtime) => runtime.call('ui_notify', 'saved'));
+    const loader = new ModuleLoader({
+      modules: { ui: true },
+      runtime: { fixture: { mode: 'replay', path: fixturePath } },
+    });
+
+    expect(loader.getRuntime()).toBeInstanceOf(ReplayRuntime);
+    expect(await loader.getRuntime().call('ui_notify', 'saved')).toEqual({ shown: true });
+  });
+});
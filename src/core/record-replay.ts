@@ -0,0 +1,281 @@
+import type {
+  EnterpriseConfig,
+  MemoryUsage,
+  RecordedCall,
+  RegisterHandlerOptions,
+  RuntimeCallOptions,
+  RuntimeCore,
+  RuntimeFixture,
+  RuntimeStatus,
+} from '../types';
+import { HandlerRegistry } from './handlers';
+import { WasmRuntime } from './runtime';
+import { base64ToBytes, bytesToBase64 } from './wasm-abi';
+import { detectWasmEnvironment } from './wasm-loader';
+
+/**
+ * Test doubles for the runtime. `RecordingRuntime` passes calls through to a
+ * live runtime and writes each method, its arguments and its result or error
+ * to a JSON fixture; `ReplayRuntime` answers from such a fixture without
+ * running anything, so module suites get the same results on every run.
+ */
+
+export class ReplayMissError extends Error {
+  constructor(
+    message: string,
+    public method: string,
+    public args: unknown[]
+  ) {
+    super(message);
+    this.name = 'ReplayMissError';
+  }
+}
+
+/** The runtime `EnterpriseConfig.runtime` asks for: live, recording or replaying. */
+export function createRuntime(options: NonNullable<EnterpriseConfig['runtime']> = {}): RuntimeCore {
+  const fixture = options.fixture;
+  if (fixture?.mode === 'replay') {
+    return new ReplayRuntime(fixture.path, { match: fixture.match });
+  }
+
+  const runtime = new WasmRuntime(options);
+  return fixture?.mode === 'record' ? new RecordingRuntime(runtime, fixture.path) : runtime;
+}
+
+export class RecordingRuntime implements RuntimeCore {
+  private calls: RecordedCall[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private writeError: unknown = null;
+
+  constructor(
+    private inner: RuntimeCore,
+    private path: string
+  ) {}
+
+  initialize(): Promise<void> {
+    return this.inner.initialize();
+  }
+
+  async call(method: string, ...args: any[]): Promise<any> {
+    return this.invoke(method, args);
+  }
+
+  async invoke(method: string, args: any[], options?: RuntimeCallOptions): Promise<any> {
+    const recordedArgs = toFixtureValue(args) as unknown[];
+    try {
+      const result = await this.inner.invoke(method, args, options);
+      this.record({ method, args: recordedArgs, result: toFixtureValue(result) });
+      return result;
+    } catch (error) {
+      const { name, message, code } = error as Error & { code?: string | number };
+      this.record({
+        method,
+        args: recordedArgs,
+        error: { name: name || 'Error', message: message ?? String(error), code },
+      });
+      throw error;
+    }
+  }
+
+  /** The fixture recorded so far. */
+  getFixture(): RuntimeFixture {
+    return { version: 1, calls: [...this.calls] };
+  }
+
+  /** Resolves once every recorded call is on disk; rejects if a write failed. */
+  async flush(): Promise<void> {
+    await this.writing;
+    if (this.writeError) throw this.writeError;
+  }
+
+  getStatus(): RuntimeStatus {
+    return this.inner.getStatus();
+  }
+
+  getMemoryUsage(): MemoryUsage {
+    return this.inner.getMemoryUsage();
+  }
+
+  registerHandler(
+    method: string,
+    handler: (...args: any[]) => unknown,
+    options?: RegisterHandlerOptions
+  ): () => void {
+    return this.inner.registerHandler(method, handler, options);
+  }
+
+  destroy(): void {
+    this.inner.destroy();
+  }
+
+  private record(call: RecordedCall): void {
+    this.calls.push(call);
+    const fixture = this.getFixture();
+    // Rewritten after every call, so a suite that never flushes still leaves a usable file.
+    this.writing = this.writing
+      .then(() => writeFixture(this.path, fixture))
+      .catch((error) => {
+        this.writeError = error;
+      });
+  }
+}
+
+export interface ReplayOptions {
+  /** `strict` (default) matches method and arguments, `loose` the method alone. */
+  match?: 'strict' | 'loose';
+}
+
+/**
+ * Serves calls from a fixture. Entries matching a call are used in recording
+ * order; once they are used up the last one keeps answering. A call with no
+ * matching entry goes to the handler the app registered for the method, and
+ * throws a `ReplayMissError` when there is none.
+ */
+export class ReplayRuntime implements RuntimeCore {
+  private calls: RecordedCall[] | null = null;
+  private used = new Set<RecordedCall>();
+  private handlers = new HandlerRegistry();
+  private match: 'strict' | 'loose';
+
+  constructor(
+    private source: string | RuntimeFixture,
+    options: ReplayOptions = {}
+  ) {
+    this.match = options.match ?? 'strict';
+  }
+
+  async initialize(): Promise<void> {
+    if (this.calls) return;
+    const fixture = typeof this.source === 'string' ? await readFixture(this.source) : this.source;
+    if (fixture?.version !== 1 || !Array.isArray(fixture.calls)) {
+      throw new Error(`Unsupported runtime fixture: ${this.describeSource()}`);
+    }
+    this.calls = fixture.calls;
+  }
+
+  async call(method: string, ...args: any[]): Promise<any> {
+    return this.invoke(method, args);
+  }
+
+  async invoke(method: string, args: any[], options: RuntimeCallOptions = {}): Promise<any> {
+    options.signal?.throwIfAborted();
+    await this.initialize();
+
+    const key = this.match === 'strict' ? canonical(toFixtureValue(args)) : null;
+    const candidates = this.calls!.filter(
+      (call) => call.method === method && (key === null || canonical(call.args) === key)
+    );
+    if (candidates.length === 0) {
+      const handler = this.handlers.get(method);
+      if (handler) return handler(...args);
+      throw new ReplayMissError(
+        `No recorded call to '${method}'` +
+          (key === null ? '' : ` with arguments ${key}`) +
+          ` in ${this.describeSource()}`,
+        method,
+        args
+      );
+    }
+
+    const call =
+      candidates.find((candidate) => !this.used.has(candidate)) ??
+      candidates[candidates.length - 1];
+    this.used.add(call);
+    if (call.error) {
+      throw Object.assign(new Error(call.error.message), {
+        name: call.error.name,
+        ...(call.error.code !== undefined && { code: call.error.code }),
+      });
+    }
+    return fromFixtureValue(call.result);
+  }
+
+  getStatus(): RuntimeStatus {
+    return {
+      mode: 'simulated',
+      environment: detectWasmEnvironment(),
+      reason: `Replaying ${this.describeSource()}`,
+    };
+  }
+
+  getMemoryUsage(): MemoryUsage {
+    return { used: 0, total: 0 };
+  }
+
+  /**
+   * Answers calls the fixture has no entry for. Module defaults are ignored,
+   * so a replay never falls back to a simulation or a side effect.
+   */
+  registerHandler(
+    method: string,
+    handler: (...args: any[]) => unknown,
+    options: RegisterHandlerOptions = {}
+  ): () => void {
+    if (options.default) return () => {};
+    return this.handlers.register(method, handler);
+  }
+
+  /** Forgets which entries were used, so the next call starts from the first match again. */
+  destroy(): void {
+    this.used.clear();
+  }
+
+  private describeSource(): string {
+    return typeof this.source === 'string' ? this.source : 'inline fixture';
+  }
+}
+
+/** JSON-safe copy of `value`: bytes and dates tagged, object keys sorted. */
+function toFixtureValue(value: unknown): unknown {
+  const json = JSON.stringify(value, function (this: Record<string, unknown>, key, item) {
+    // `this[key]` is the value before `toJSON`, which turns dates into strings.
+    const original = this[key];
+    if (original instanceof Uint8Array || original instanceof ArrayBuffer) {
+      return { $bytes: bytesToBase64(new Uint8Array(original)) };
+    }
+    if (original instanceof Date) {
+      return { $date: original.toISOString() };
+    }
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      return Object.fromEntries(
+        Object.keys(item)
+          .sort()
+          .map((name) => [name, item[name]])
+      );
+    }
+    return item;
+  });
+  return json === undefined ? null : JSON.parse(json);
+}
+
+function fromFixtureValue(value: unknown): any {
+  if (value === undefined) return undefined;
+  return JSON.parse(JSON.stringify(value), (_key, item) => {
+    if (item && typeof item.$bytes === 'string') return base64ToBytes(item.$bytes);
+    if (item && typeof item.$date === 'string') return new Date(item.$date);
+    return item;
+  });
+}
+
+function canonical(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+async function readFixture(path: string): Promise<RuntimeFixture> {
+  const { readFile } = await import('fs/promises');
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Runtime fixture not found: ${path} (record it with mode 'record')`);
+    }
+    throw error;
+  }
+}
+
+async function writeFixture(path: string, fixture: RuntimeFixture): Promise<void> {
+  const { mkdir, writeFile } = await import('fs/promises');
+  const { dirname } = await import('path');
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(fixture, null, 2) + '\n');
+}
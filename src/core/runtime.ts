@@ -1,62 +1,131 @@
-import { RuntimeCore } from '../types';
-import { brandingManager } from '../../packages/shared/src/branding';
+import {
+  EnterpriseConfig,
+  MemoryUsage,
+  RegisterHandlerOptions,
+  RuntimeCallOptions,
+  RuntimeCore,
+  RuntimeStatus,
+  WorkerPoolConfig,
+} from '../types';
+import { ResourceLimitError, RuntimeError } from '../../packages/shared/src/errors';
 import { runtime_log } from '../modules/debug/macros';
+import { WasmAbi, WasmCallError, WasmErrorCode, readWasmString } from './wasm-abi';
+import { detectWasmEnvironment, instantiateWasm } from './wasm-loader';
+import { WasmWorkerPool } from './worker-pool';
+import { importedMemoryDescriptor, memoryLimitBytes } from './limits';
+import { HandlerRegistry, builtinHandlers } from './handlers';
+
+const DEFAULT_WASM_PATH = '/wasm/euse_core.wasm';
+
+/** Thrown by the `env.gas` import to unwind a call that ran out of fuel. */
+class OutOfFuel extends Error {}
 
 export class WasmRuntime implements RuntimeCore {
   private wasmModule: WebAssembly.Module | null = null;
   private wasmInstance: WebAssembly.Instance | null = null;
+  private importedMemory: WebAssembly.Memory | null = null;
+  private memoryImported = false;
+  private initialMemory = 0;
+  private peakMemory = 0;
+  private fuel = Infinity;
+  private abi: WasmAbi | null = null;
+  private pool: WasmWorkerPool | null = null;
+  private handlers = new HandlerRegistry(builtinHandlers);
   private isInitialized = false;
+  private status: RuntimeStatus;
+
+  constructor(private options: NonNullable<EnterpriseConfig['runtime']> = {}) {
+    this.status = this.simulated(
+      options.enableWasm === false ? 'WASM disabled by configuration' : 'Not initialized'
+    );
+  }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
     return runtime_log.span('wasm_initialize', async () => {
+      const wasmPath = this.options.wasmPath || DEFAULT_WASM_PATH;
       try {
-        const wasmPath = '/wasm/euse_core.wasm';
         runtime_log.debug('Loading WASM module', { path: wasmPath });
-        const response = await fetch(wasmPath);
-
-        if (!response.ok) {
-          throw new Error(`Failed to load WASM module: ${response.statusText}`);
+        const loaded = await instantiateWasm(wasmPath, this.createImportObject());
+        this.wasmModule = loaded.module;
+        this.memoryImported = WebAssembly.Module.imports(loaded.module).some(
+          (entry) => entry.kind === 'memory'
+        );
+        this.adopt(loaded.instance);
+        await this.enforceMemoryLimit('initialize', false);
+        if (this.options.workers) {
+          this.pool = this.createPool(this.options.workers);
         }
 
-        const wasmBytes = await response.arrayBuffer();
-        runtime_log.debug('Compiling WASM module', { size: wasmBytes.byteLength });
-        this.wasmModule = await WebAssembly.compile(wasmBytes);
-
-        const importObject = this.createImportObject();
-        runtime_log.debug('Instantiating WASM module');
-        this.wasmInstance = await WebAssembly.instantiate(this.wasmModule, importObject);
-
+        this.status = {
+          mode: 'native',
+          environment: detectWasmEnvironment(),
+          source: loaded.source,
+          abi: this.abi ? this.abi.encoding : 'numeric',
+          cached: loaded.cached,
+          ...(this.pool && { workers: this.pool.size }),
+        };
         this.isInitialized = true;
-        runtime_log.info('EUSE Core WASM runtime initialized successfully');
+        runtime_log.info('EUSE Core WASM runtime initialized successfully', { ...this.status });
       } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
         runtime_log.warn('WASM runtime initialization failed, falling back to JS simulation', {
-          error: error instanceof Error ? error.message : String(error),
+          error: reason,
         });
+        this.status = this.simulated(reason);
         this.isInitialized = false;
       }
     });
   }
 
+  /** Reports whether calls run in native WASM or in the JS simulation. */
+  getStatus(): RuntimeStatus {
+    return { ...this.status };
+  }
+
   async call(method: string, ...args: any[]): Promise<any> {
+    return this.invoke(method, args);
+  }
+
+  /** Like `call`, with cancellation, worker routing and resource budgets per call. */
+  async invoke(method: string, args: any[], options: RuntimeCallOptions = {}): Promise<any> {
     return runtime_log.span(
       'wasm_call',
       async () => {
+        options.signal?.throwIfAborted();
         if (!this.isInitialized || !this.wasmInstance) {
           runtime_log.debug('Using JS simulation for method', { method });
           return this.simulateCall(method, ...args);
         }
 
+        const limits = { ...this.options.limits, ...options.limits };
         try {
-          const exports = this.wasmInstance.exports as any;
-          if (exports[method] && typeof exports[method] === 'function') {
-            runtime_log.debug('Calling WASM method', { method, argsCount: args.length });
-            return exports[method](...args);
+          // A call on this thread cannot be interrupted, so time budgets need a worker.
+          if (limits.timeoutMs !== undefined || this.pool?.handles(method, args, options.worker)) {
+            this.pool ??= this.createPool({ size: 1, routes: [] });
+            runtime_log.debug('Calling WASM method on a worker', {
+              method,
+              argsCount: args.length,
+            });
+            return await this.pool.run(method, args, {
+              signal: options.signal,
+              fuel: limits.fuel,
+              timeoutMs: limits.timeoutMs,
+            });
           }
 
-          throw new Error(`Method '${method}' not found in WASM exports`);
+          runtime_log.debug('Calling WASM method', { method, argsCount: args.length });
+          return await this.callInThread(method, args, limits.fuel);
         } catch (error) {
+          // The export ran and reported a failure, hit a limit, or the caller gave up; all final.
+          if (
+            options.signal?.aborted ||
+            error instanceof RuntimeError ||
+            (error instanceof WasmCallError && error.code !== WasmErrorCode.NotFound)
+          ) {
+            throw error;
+          }
           runtime_log.warn(`WASM call failed for method '${method}', falling back to simulation`, {
             error: error instanceof Error ? error.message : String(error),
           });
@@ -67,98 +136,167 @@ export class WasmRuntime implements RuntimeCore {
     );
   }
 
+  /** Serves `method` from JS when WASM is not loaded or lacks the export. */
+  registerHandler(
+    method: string,
+    handler: (...args: any[]) => unknown,
+    options?: RegisterHandlerOptions
+  ): () => void {
+    return this.handlers.register(method, handler, options);
+  }
+
+  /** Methods with a JS handler. */
+  getHandledMethods(): string[] {
+    return this.handlers.methods();
+  }
+
+  /** Linear memory of the instance on this thread, and of the pool's workers. */
+  getMemoryUsage(): MemoryUsage {
+    const memory = this.wasmInstance ? this.wasmMemory() : null;
+    const workers = this.pool ? { workers: this.pool.memoryUsage() } : {};
+    if (!memory) {
+      return { used: 0, total: 0, ...workers };
+    }
+
+    const used = memory.buffer.byteLength;
+    this.peakMemory = Math.max(this.peakMemory, used);
+    return {
+      used,
+      total: memoryLimitBytes(this.options.maxMemoryMB) ?? used,
+      wasmHeap: used - this.initialMemory,
+      peak: this.peakMemory,
+      ...workers,
+    };
+  }
+
   destroy(): void {
     runtime_log.span('wasm_destroy', () => {
       runtime_log.info('Destroying WASM runtime');
+      this.pool?.destroy();
+      this.pool = null;
       this.wasmModule = null;
       this.wasmInstance = null;
+      this.importedMemory = null;
+      this.abi = null;
       this.isInitialized = false;
+      this.status = this.simulated('Runtime destroyed');
+    });
+  }
+
+  private callExport(method: string, args: any[]): any {
+    if (this.abi) {
+      return this.abi.call(method, args);
+    }
+
+    const exports = this.wasmInstance!.exports as any;
+    if (exports[method] && typeof exports[method] === 'function') {
+      return exports[method](...args);
+    }
+
+    throw new Error(`Method '${method}' not found in WASM exports`);
+  }
+
+  private async callInThread(method: string, args: any[], fuel?: number): Promise<any> {
+    this.fuel = fuel ?? Infinity;
+    let result: any;
+    try {
+      result = this.callExport(method, args);
+    } catch (error) {
+      if (error instanceof OutOfFuel) {
+        await this.reinstantiate();
+        throw new ResourceLimitError(method, 'fuel', fuel!, fuel! - this.fuel);
+      }
+      await this.enforceMemoryLimit(method, !(error instanceof WasmCallError));
+      throw error;
+    }
+    await this.enforceMemoryLimit(method, false);
+    return result;
+  }
+
+  /**
+   * Throws once memory is over `maxMemoryMB`, or sits at it after a trap, which
+   * is how a failed `memory.grow` usually surfaces. Memory cannot shrink, so
+   * the instance is replaced first.
+   */
+  private async enforceMemoryLimit(method: string, trapped: boolean): Promise<void> {
+    const limit = memoryLimitBytes(this.options.maxMemoryMB);
+    const size = this.wasmMemory()?.buffer.byteLength ?? 0;
+    this.peakMemory = Math.max(this.peakMemory, size);
+    if (limit !== undefined && (size > limit || (trapped && size >= limit))) {
+      await this.reinstantiate();
+      throw new ResourceLimitError(method, 'memory', limit, size);
+    }
+  }
+
+  /** Starts over with a fresh instance of the compiled module. */
+  private async reinstantiate(): Promise<void> {
+    this.adopt(await WebAssembly.instantiate(this.wasmModule!, this.createImportObject()));
+    runtime_log.warn('WASM instance replaced after hitting a resource limit');
+  }
+
+  private adopt(instance: WebAssembly.Instance): void {
+    this.wasmInstance = instance;
+    this.abi = WasmAbi.detect(instance, this.importedMemory || undefined);
+    this.initialMemory = this.wasmMemory()?.buffer.byteLength ?? 0;
+  }
+
+  private createPool(config: WorkerPoolConfig): WasmWorkerPool {
+    return new WasmWorkerPool(this.wasmModule!, this.abi ? this.abi.encoding : null, config, {
+      maxMemoryMB: this.options.maxMemoryMB,
+      onLog: (message) => runtime_log.debug('WASM Log', { message, worker: true }),
     });
   }
 
   private createImportObject(): WebAssembly.Imports {
+    this.importedMemory = new WebAssembly.Memory(
+      importedMemoryDescriptor(this.options.maxMemoryMB)
+    );
     return {
       env: {
-        memory: new WebAssembly.Memory({ initial: 256 }),
+        memory: this.importedMemory,
         table: new WebAssembly.Table({ initial: 0, element: 'anyfunc' }),
         abort: () => {
           runtime_log.error('WASM abort called');
           throw new Error('Aborted');
         },
         log: (ptr: number, len: number) => {
-          runtime_log.debug('WASM Log', { ptr, len });
+          const memory = this.wasmMemory();
+          runtime_log.debug('WASM Log', {
+            message: memory ? readWasmString(memory, ptr, len) : undefined,
+            ptr,
+            len,
+          });
         },
         performance_now: () => {
           const now = performance.now();
           runtime_log.trace('WASM performance_now called', { now });
           return now;
         },
+        gas: (amount: number) => {
+          this.fuel -= amount;
+          if (this.fuel < 0) throw new OutOfFuel();
+        },
       },
     };
   }
 
-  private simulateCall(method: string, ...args: any[]): any {
-    runtime_log.debug('Running JS simulation', { method, argsCount: args.length });
+  private simulated(reason: string): RuntimeStatus {
+    return { mode: 'simulated', environment: detectWasmEnvironment(), reason };
+  }
 
-    const simulations: Record<string, Function> = {
-      ai_enhance: (image: any) => {
-        runtime_log.trace('AI enhance simulation', { hasImage: !!image });
-        return Promise.resolve({ enhanced: true, data: image });
-      },
-      ai_generate: (prompt: string) => {
-        runtime_log.trace('AI generate simulation', { promptLength: prompt.length });
-        return Promise.resolve({ text: `Generated: ${prompt}` });
-      },
-      storage_save: (file: any) => {
-        runtime_log.trace('Storage save simulation', { hasFile: !!file });
-        return Promise.resolve({ path: `/storage/${Date.now()}` });
-      },
-      storage_load: (path: string) => {
-        runtime_log.trace('Storage load simulation', { path });
-        return Promise.resolve({ data: `Loaded from ${path}` });
-      },
-      ui_notify: (message: string) => {
-        runtime_log.trace('UI notify simulation', { message });
-        return Promise.resolve({ shown: true });
-      },
-      ui_modal: (options: any) => {
-        runtime_log.trace('UI modal simulation', { hasOptions: !!options });
-        return Promise.resolve({ opened: true });
-      },
-      project_open: (name: string) => {
-        runtime_log.trace('Project open simulation', { name });
-        return Promise.resolve({ project: { name, id: Date.now() } });
-      },
-      project_save: (project: any) => {
-        runtime_log.trace('Project save simulation', { hasProject: !!project });
-        return Promise.resolve({ saved: true });
-      },
-      auth_login: (user: any) => {
-        runtime_log.trace('Auth login simulation', { hasUser: !!user });
-        return Promise.resolve({ token: 'mock-token', user });
-      },
-      auth_logout: () => {
-        runtime_log.trace('Auth logout simulation');
-        return Promise.resolve({ loggedOut: true });
-      },
-      branding_get_logo: () => {
-        runtime_log.trace('Branding get logo simulation');
-        return Promise.resolve({ url: brandingManager.getLogoUrl() });
-      },
-      branding_get_config: () => {
-        runtime_log.trace('Branding get config simulation');
-        return Promise.resolve({ config: brandingManager.getConfig() });
-      },
-      branding_apply_theme: () => {
-        runtime_log.trace('Branding apply theme simulation');
-        brandingManager.applyTheme();
-        return Promise.resolve({ applied: true });
-      },
-    };
+  /** The module's exported memory, or the one passed in as `env.memory`. */
+  private wasmMemory(): WebAssembly.Memory | null {
+    const exported = this.wasmInstance?.exports.memory;
+    if (exported instanceof WebAssembly.Memory) return exported;
+    return this.memoryImported ? this.importedMemory : null;
+  }
+
+  private async simulateCall(method: string, ...args: any[]): Promise<any> {
+    runtime_log.debug('Running JS simulation', { method, argsCount: args.length });
 
-    const simulation = simulations[method];
-    if (simulation) {
-      return simulation(...args);
+    const handler = this.handlers.get(method);
+    if (handler) {
+      return handler(...args);
     }
 
     runtime_log.error('No simulation available for method', { method });
@@ -3,6 +3,21 @@
  * Système unifié permettant l'appel transparent de fonctions Rust depuis TypeScript
  */
 
+import type { RuntimeCallOptions, WorkerPoolConfig } from '../types';
+import { WasmAbi, WasmCallError, WasmErrorCode, readWasmString } from './wasm-abi';
+import { instantiateWasm } from './wasm-loader';
+import { WasmWorkerPool } from './worker-pool';
+import { importedMemoryDescriptor } from './limits';
+import { ResourceLimitError } from '../../packages/shared/src/errors';
+import {
+  WasmFunctionApi,
+  WasmParam,
+  describeModuleApi,
+  exportedFunctions,
+  formatSignature,
+  validateArguments,
+} from './wasm-metadata';
+
 export interface RustFunction {
   /** Nom de la fonction Rust */
   name: string;
@@ -10,14 +25,56 @@ export interface RustFunction {
   module: string;
   /** Signature de la fonction */
   signature: string;
+  /** `wasm` pour un export du module chargé, `js` pour un fallback */
+  source: 'wasm' | 'js';
+  /** Paramètres déclarés dans la section `euse_api`, vérifiés à chaque appel */
+  params?: WasmParam[];
+  /** Type de retour déclaré */
+  returns?: string;
   /** Métadonnées */
   metadata?: {
     version?: string;
     description?: string;
-    deprecated?: boolean;
+    /** `true` ou une note, par exemple la fonction de remplacement */
+    deprecated?: boolean | string;
   };
 }
 
+/**
+ * Fonctions connues à la compilation, pour typer `invoke` par nom. Vide ici ;
+ * les déclarations générées par `enterprise sdk bindgen` la complètent :
+ * `'ai::generate': { params: { prompt: string }; result: string }`
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface RustFunctionMap {}
+
+/** Paramètres de `N` d'après `RustFunctionMap`, objet libre pour les autres noms */
+export type RustParams<N extends string> = N extends keyof RustFunctionMap
+  ? RustFunctionMap[N] extends { params: infer P }
+    ? P
+    : never
+  : Record<string, any>;
+
+/** Résultat de `N` d'après `RustFunctionMap`, `any` pour les autres noms */
+export type RustResult<N extends string> = N extends keyof RustFunctionMap
+  ? RustFunctionMap[N] extends { result: infer R }
+    ? R
+    : never
+  : any;
+
+/**
+ * Arguments ne correspondant pas à la signature déclarée par le module
+ */
+export class BridgeArgumentError extends Error {
+  constructor(
+    public functionName: string,
+    public issues: string[]
+  ) {
+    super(`Invalid arguments for '${functionName}': ${issues.join('; ')}`);
+    this.name = 'BridgeArgumentError';
+  }
+}
+
 export interface BridgeConfig {
   /** Activer WebAssembly */
   enableWasm?: boolean;
@@ -27,6 +84,10 @@ export interface BridgeConfig {
   rustModules?: string[];
   /** Fallback JavaScript */
   enableJsFallback?: boolean;
+  /** Pool de workers par module ; les routes portent sur `module::function` */
+  workers?: WorkerPoolConfig;
+  /** Plafond de la mémoire linéaire de chaque instance WASM, en MB */
+  maxMemoryMB?: number;
   /** Options de compilation */
   compilation?: {
     /** Optimisation */
@@ -38,7 +99,7 @@ export interface BridgeConfig {
   };
 }
 
-export interface InvokeOptions {
+export interface InvokeOptions extends RuntimeCallOptions {
   /** Timeout en millisecondes */
   timeout?: number;
   /** Mode synchrone/async */
@@ -60,13 +121,33 @@ export interface BridgePerformance {
   cacheHits: number;
 }
 
+export interface BridgeModuleStatus {
+  /** `native` si le module WASM est chargé, `simulated` si les fallbacks JS répondent */
+  mode: 'native' | 'simulated';
+  /** Fichier ou URL d'origine du module */
+  source?: string;
+  /** Module compilé réutilisé depuis le cache */
+  cached?: boolean;
+  /** Raison de la simulation */
+  reason?: string;
+  /** Taille du pool de workers du module */
+  workers?: number;
+}
+
 /**
  * Bridge principal TypeScript-Rust
  */
 export class RustBridge {
   private static instance: RustBridge;
   private wasmModules = new Map<string, WebAssembly.Instance>();
-  private jsFallbacks = new Map<string, Function>();
+  private moduleApis = new Map<string, WasmFunctionApi[]>();
+  private deprecationWarnings = new Set<string>();
+  private abis = new Map<string, WasmAbi>();
+  private importedMemories = new Map<string, WebAssembly.Memory>();
+  private pools = new Map<string, WasmWorkerPool>();
+  private moduleStatus = new Map<string, BridgeModuleStatus>();
+  private jsFallbacks = new Map<string, (params: any) => Promise<unknown>>();
+  private customFallbacks = new Map<string, (params: any) => Promise<unknown>>();
   private functionRegistry = new Map<string, RustFunction>();
   private config: BridgeConfig;
   private isInitialized = false;
@@ -134,17 +215,22 @@ export class RustBridge {
   }
 
   /**
-   * Invoque une fonction Rust depuis TypeScript
+   * Invoque une fonction Rust depuis TypeScript. Les paramètres et le résultat
+   * sont typés pour les fonctions déclarées dans `RustFunctionMap` ; `T` force
+   * le type du résultat comme avant
    */
-  async invoke<T = any>(
-    functionName: string,
-    params: Record<string, any> = {},
+  async invoke<T = never, N extends string = string>(
+    functionName: N,
+    args?: RustParams<N>,
     options: InvokeOptions = {}
-  ): Promise<T> {
+  ): Promise<[T] extends [never] ? RustResult<N> : T> {
+    const params = (args ?? {}) as Record<string, any>;
     const startTime = Date.now();
     this.performance.callCount++;
 
     try {
+      options.signal?.throwIfAborted();
+
       // Parser le nom de la fonction (module::function)
       const [moduleName, funcName] = functionName.split('::');
 
@@ -154,6 +240,8 @@ export class RustBridge {
         );
       }
 
+      this.checkArguments(functionName, params);
+
       // Tenter l'appel WebAssembly
       if (this.config.enableWasm) {
         const result = await this.invokeWasm(moduleName, funcName, params, options);
@@ -195,20 +283,50 @@ export class RustBridge {
 
     // Vérifier fallback JavaScript
     if (this.config.enableJsFallback) {
-      const fallbackKey = `${moduleName}::${funcName}`;
-      return this.jsFallbacks.has(fallbackKey);
+      return this.fallbackFor(`${moduleName}::${funcName}`) !== undefined;
     }
 
     return false;
   }
 
   /**
-   * Liste toutes les fonctions disponibles
+   * Liste les fonctions réellement disponibles : exports des modules chargés,
+   * décrits par leur section `euse_api`, puis fallbacks JavaScript
    */
   getAvailableFunctions(): RustFunction[] {
     return Array.from(this.functionRegistry.values());
   }
 
+  /**
+   * Enregistre une implémentation JavaScript de `module::function`, prioritaire
+   * sur les fallbacks intégrés ; elle répond quand le module WASM ne le fait pas
+   */
+  registerFallback(functionName: string, fallback: (params: any) => unknown): void {
+    const [moduleName, funcName] = functionName.split('::');
+    if (!moduleName || !funcName) {
+      throw new Error(`Invalid function name format: ${functionName}. Expected 'module::function'`);
+    }
+
+    this.customFallbacks.set(functionName, async (params: any) => fallback(params));
+    if (this.isInitialized && !this.functionRegistry.has(functionName)) {
+      this.functionRegistry.set(functionName, this.fallbackEntry(functionName));
+    }
+  }
+
+  /**
+   * Indique pour chaque module Rust s'il s'exécute en WASM natif ou en simulation
+   */
+  getModuleStatus(): Record<string, BridgeModuleStatus> {
+    const status: Record<string, BridgeModuleStatus> = {};
+    for (const moduleName of this.config.rustModules || []) {
+      status[moduleName] = this.moduleStatus.get(moduleName) || {
+        mode: 'simulated',
+        reason: this.config.enableWasm ? 'Not initialized' : 'WASM disabled by configuration',
+      };
+    }
+    return status;
+  }
+
   /**
    * Récupère les statistiques de performance
    */
@@ -220,9 +338,9 @@ export class RustBridge {
    * Compile du code Rust vers WebAssembly
    */
   async compileRust(
-    rustCode: string,
+    _rustCode: string,
     moduleName: string,
-    options?: { optimize?: boolean; debug?: boolean }
+    _options?: { optimize?: boolean; debug?: boolean }
   ): Promise<WebAssembly.Module> {
     // Cette fonction nécessiterait un service de compilation Rust
     // Pour l'instant, nous simulons la compilation
@@ -249,22 +367,34 @@ export class RustBridge {
     for (const moduleName of this.config.rustModules) {
       try {
         const wasmPath = `${this.config.wasmPath}/${moduleName}.wasm`;
-        const response = await fetch(wasmPath);
+        const loaded = await instantiateWasm(wasmPath, this.createImportObject(moduleName));
 
-        if (!response.ok) {
-          throw new Error(`Failed to fetch WASM module: ${response.statusText}`);
+        this.wasmModules.set(moduleName, loaded.instance);
+        this.moduleApis.set(moduleName, this.readModuleApi(moduleName, loaded.module));
+        const abi = WasmAbi.detect(loaded.instance, this.importedMemories.get(moduleName));
+        if (abi) {
+          this.abis.set(moduleName, abi);
         }
-
-        const wasmBytes = await response.arrayBuffer();
-        const wasmModule = await WebAssembly.compile(wasmBytes);
-
-        const importObject = this.createImportObject(moduleName);
-        const wasmInstance = await WebAssembly.instantiate(wasmModule, importObject);
-
-        this.wasmModules.set(moduleName, wasmInstance);
-        console.log(`✅ Loaded WASM module: ${moduleName}`);
+        if (this.config.workers) {
+          this.pools.set(
+            moduleName,
+            new WasmWorkerPool(loaded.module, abi ? abi.encoding : null, this.config.workers, {
+              maxMemoryMB: this.config.maxMemoryMB,
+              onLog: (message) => console.log(`[${moduleName}] WASM Log:`, message),
+            })
+          );
+        }
+        this.moduleStatus.set(moduleName, {
+          mode: 'native',
+          source: loaded.source,
+          cached: loaded.cached,
+          workers: this.pools.get(moduleName)?.size,
+        });
+        console.log(`✅ Loaded WASM module: ${moduleName} (${loaded.source})`);
       } catch (error) {
-        console.warn(`⚠️ Failed to load WASM module "${moduleName}":`, error);
+        const reason = error instanceof Error ? error.message : String(error);
+        this.moduleStatus.set(moduleName, { mode: 'simulated', reason });
+        console.warn(`⚠️ Failed to load WASM module "${moduleName}":`, reason);
       }
     }
   }
@@ -314,39 +444,90 @@ export class RustBridge {
   }
 
   /**
-   * Enregistre les fonctions disponibles
+   * Construit le registre à partir des modules chargés et des fallbacks
    */
   private async registerFunctions(): Promise<void> {
-    const functions: RustFunction[] = [
-      // Core functions
-      { name: 'core::init', module: 'core', signature: 'init(config: object): Promise<object>' },
-      { name: 'core::destroy', module: 'core', signature: 'destroy(): Promise<object>' },
-
-      // AI functions
-      { name: 'ai::enhance', module: 'ai', signature: 'enhance(image: any): Promise<any>' },
-      { name: 'ai::generate', module: 'ai', signature: 'generate(prompt: string): Promise<any>' },
-      { name: 'ai::analyze', module: 'ai', signature: 'analyze(data: any): Promise<any>' },
-
-      // Storage functions
-      { name: 'storage::save', module: 'storage', signature: 'save(file: any): Promise<any>' },
-      { name: 'storage::load', module: 'storage', signature: 'load(path: string): Promise<any>' },
-      {
-        name: 'storage::delete',
-        module: 'storage',
-        signature: 'delete(path: string): Promise<any>',
-      },
+    this.functionRegistry.clear();
 
-      // Auth functions
-      { name: 'auth::login', module: 'auth', signature: 'login(credentials: any): Promise<any>' },
-      { name: 'auth::logout', module: 'auth', signature: 'logout(): Promise<any>' },
-      { name: 'auth::verify', module: 'auth', signature: 'verify(token: string): Promise<any>' },
-    ];
+    for (const [moduleName, functions] of this.moduleApis) {
+      for (const fn of functions) {
+        this.functionRegistry.set(`${moduleName}::${fn.name}`, {
+          name: `${moduleName}::${fn.name}`,
+          module: moduleName,
+          signature: formatSignature(fn),
+          source: 'wasm',
+          params: fn.params,
+          returns: fn.returns,
+          metadata: {
+            version: fn.version,
+            description: fn.description,
+            deprecated: fn.deprecated,
+          },
+        });
+      }
+    }
 
-    for (const func of functions) {
-      this.functionRegistry.set(func.name, func);
+    for (const name of new Set([...this.customFallbacks.keys(), ...this.jsFallbacks.keys()])) {
+      if (!this.functionRegistry.has(name)) {
+        this.functionRegistry.set(name, this.fallbackEntry(name));
+      }
     }
 
-    console.log(`✅ Registered ${functions.length} functions`);
+    console.log(`✅ Registered ${this.functionRegistry.size} functions`);
+  }
+
+  private fallbackEntry(name: string): RustFunction {
+    const [moduleName, funcName] = name.split('::');
+    return {
+      name,
+      module: moduleName,
+      signature: `${funcName}(params: object): Promise<any>`,
+      source: 'js',
+    };
+  }
+
+  private fallbackFor(name: string): ((params: any) => Promise<unknown>) | undefined {
+    return this.customFallbacks.get(name) ?? this.jsFallbacks.get(name);
+  }
+
+  /**
+   * Lit l'API d'un module ; une section `euse_api` illisible n'empêche pas son chargement
+   */
+  private readModuleApi(moduleName: string, module: WebAssembly.Module): WasmFunctionApi[] {
+    try {
+      const api = describeModuleApi(module);
+      for (const name of api.missing) {
+        console.warn(`⚠️ ${moduleName}::${name} is described in euse_api but not exported`);
+      }
+      return api.functions;
+    } catch (error) {
+      console.warn(`⚠️ Ignoring API metadata of "${moduleName}":`, (error as Error).message);
+      return exportedFunctions(module).map((name) => ({ name }));
+    }
+  }
+
+  /**
+   * Vérifie les paramètres d'un appel contre la signature déclarée
+   */
+  private checkArguments(functionName: string, params: Record<string, any>): void {
+    const declared = this.functionRegistry.get(functionName);
+    if (!declared) return;
+
+    const deprecated = declared.metadata?.deprecated;
+    if (deprecated && !this.deprecationWarnings.has(functionName)) {
+      this.deprecationWarnings.add(functionName);
+      console.warn(
+        `⚠️ '${functionName}' is deprecated` +
+          (typeof deprecated === 'string' ? `: ${deprecated}` : '')
+      );
+    }
+
+    if (declared.params) {
+      const issues = validateArguments(declared.params, params);
+      if (issues.length > 0) {
+        throw new BridgeArgumentError(functionName, issues);
+      }
+    }
   }
 
   /**
@@ -369,6 +550,26 @@ export class RustBridge {
     }
 
     try {
+      // Appels lourds : exécution sur un worker, paramètres transférés.
+      // Le pool arrête et remplace le worker qui dépasse son budget.
+      const pool = this.pools.get(moduleName);
+      if (pool?.handles(`${moduleName}::${funcName}`, [params], options.worker)) {
+        return await pool.run(funcName, [params], {
+          signal: options.signal,
+          fuel: options.limits?.fuel,
+          timeoutMs: options.timeout ?? options.limits?.timeoutMs,
+        });
+      }
+
+      // Module conforme à l'ABI mémoire linéaire
+      const abi = this.abis.get(moduleName);
+      if (abi) {
+        return await this.withTimeout(
+          Promise.resolve(abi.call(funcName, [params])),
+          options.timeout
+        );
+      }
+
       // Sérialiser les paramètres pour WASM
       const serializedParams = this.serializeForWasm(params);
 
@@ -382,6 +583,14 @@ export class RustBridge {
       // Désérialiser le résultat
       return this.deserializeFromWasm(result);
     } catch (error) {
+      // Annulation, limite dépassée ou erreur rapportée par le module : pas de fallback
+      if (
+        options.signal?.aborted ||
+        error instanceof ResourceLimitError ||
+        (error instanceof WasmCallError && error.code !== WasmErrorCode.NotFound)
+      ) {
+        throw error;
+      }
       console.warn(`⚠️ WASM invocation failed for ${moduleName}::${funcName}:`, error);
       return null;
     }
@@ -397,19 +606,23 @@ export class RustBridge {
     options: InvokeOptions
   ): Promise<any> {
     const fallbackKey = `${moduleName}::${funcName}`;
-    const fallback = this.jsFallbacks.get(fallbackKey);
+    const fallback = this.fallbackFor(fallbackKey);
 
     if (!fallback) {
       return null;
     }
 
     try {
+      const result = this.withAbort(fallback(params), options.signal);
       if (options.timeout) {
-        return await this.withTimeout(fallback(params), options.timeout);
+        return await this.withTimeout(result, options.timeout);
       }
 
-      return await fallback(params);
+      return await result;
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
       console.warn(`⚠️ JS fallback failed for ${fallbackKey}:`, error);
       return null;
     }
@@ -419,23 +632,33 @@ export class RustBridge {
    * Crée l'objet d'import pour WebAssembly
    */
   private createImportObject(moduleName: string): WebAssembly.Imports {
+    const memory = new WebAssembly.Memory(importedMemoryDescriptor(this.config.maxMemoryMB));
+    this.importedMemories.set(moduleName, memory);
+    // Chaînes UTF-8 lues dans la mémoire exportée par le module, sinon celle importée
+    const read = (ptr: number, len: number) => {
+      const exported = this.wasmModules.get(moduleName)?.exports.memory;
+      return readWasmString(exported instanceof WebAssembly.Memory ? exported : memory, ptr, len);
+    };
+
     return {
       env: {
-        memory: new WebAssembly.Memory({ initial: 256 }),
+        memory,
         table: new WebAssembly.Table({ initial: 0, element: 'anyfunc' }),
         abort: () => {
           throw new Error('Aborted');
         },
         log: (ptr: number, len: number) => {
-          console.log(`[${moduleName}] WASM Log:`, ptr, len);
+          console.log(`[${moduleName}] WASM Log:`, read(ptr, len));
         },
         performance_now: () => performance.now(),
-        console_log: (ptr: number) => {
+        // Le carburant n'est compté que sur les workers
+        gas: () => undefined,
+        console_log: (ptr: number, len: number) => {
           // Log depuis WASM vers console JavaScript
-          console.log(`[${moduleName}]`, ptr);
+          console.log(`[${moduleName}]`, read(ptr, len));
         },
-        console_error: (ptr: number) => {
-          console.error(`[${moduleName}]`, ptr);
+        console_error: (ptr: number, len: number) => {
+          console.error(`[${moduleName}]`, read(ptr, len));
         },
       },
       [moduleName]: {
@@ -471,7 +694,11 @@ export class RustBridge {
   /**
    * Exécute une fonction avec timeout
    */
-  private async withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+  private async withTimeout<T>(promise: Promise<T>, timeout?: number): Promise<T> {
+    if (!timeout) {
+      return promise;
+    }
+
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => reject(new Error(`Timeout after ${timeout}ms`)), timeout);
     });
@@ -479,14 +706,37 @@ export class RustBridge {
     return Promise.race([promise, timeoutPromise]);
   }
 
+  /**
+   * Rejette dès que le signal est annulé
+   */
+  private withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
   /**
    * Détruit le bridge et nettoie les ressources
    */
   async destroy(): Promise<void> {
     console.log('🔧 Destroying RustBridge...');
 
+    this.pools.forEach((pool) => pool.destroy());
+    this.pools.clear();
+    this.abis.clear();
+    this.importedMemories.clear();
     this.wasmModules.clear();
+    this.moduleApis.clear();
+    this.deprecationWarnings.clear();
+    this.moduleStatus.clear();
     this.jsFallbacks.clear();
+    this.customFallbacks.clear();
     this.functionRegistry.clear();
     this.isInitialized = false;
 
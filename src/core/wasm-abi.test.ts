@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { WasmAbi, WasmCallError, WasmErrorCode } from './wasm-abi';
+import { decodeMsgPack, encodeMsgPack } from './msgpack';
+import { WasmRuntime } from './runtime';
+
+const leb = (value: number): number[] => {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value >>>= 7;
+    if (value) byte |= 0x80;
+    bytes.push(byte);
+  } while (value);
+  return bytes;
+};
+const i32 = (value: number): number[] => {
+  const bytes: number[] = [];
+  for (;;) {
+    const byte = value & 0x7f;
+    value >>= 7;
+    if ((value === 0 && !(byte & 0x40)) || (value === -1 && byte & 0x40)) {
+      return [...bytes, byte];
+    }
+    bytes.push(byte | 0x80);
+  }
+};
+const name = (text: string) => [...leb(text.length), ...Buffer.from(text)];
+const vector = (items: number[][]) => [...leb(items.length), ...items.flat()];
+const section = (id: number, items: number[][]) => {
+  const body = vector(items);
+  return [id, ...leb(body.length), ...body];
+};
+const body = (locals: number[][], code: number[]) => {
+  const content = [...vector(locals), ...code, 0x0b];
+  return [...leb(content.length), ...content];
+};
+
+const constant = (value: number) => [0x41, ...i32(value)];
+
+/** `r = alloc(8 + len)`, writes the result header and copies `len` bytes from `src`. */
+// prettier-ignore
+const result = (status: number, src: number[], len: number[]) => [
+  ...len, ...constant(8), 0x6a, 0x10, 1, 0x21, 2,
+  0x20, 2, ...constant(status), 0x36, 2, 0,
+  0x20, 2, ...len, 0x36, 2, 4,
+  0x20, 2, ...constant(8), 0x6a, ...src, ...len, 0xfc, 0x0a, 0, 0,
+  0x20, 2,
+];
+
+/**
+ * A module implementing the ABI: a bump `alloc` counting live buffers in the
+ * exported `live` global, `echo` returning its payload after logging it, and
+ * `fail` answering InvalidArgument.
+ */
+function abiModule(encoding: number): Uint8Array {
+  const error = 'invalid argument';
+  // prettier-ignore
+  return new Uint8Array([
+    0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+    ...section(1, [
+      [0x60, 1, 0x7f, 1, 0x7f],
+      [0x60, 2, 0x7f, 0x7f, 0],
+      [0x60, 2, 0x7f, 0x7f, 1, 0x7f],
+      [0x60, 0, 1, 0x7f],
+    ]),
+    ...section(2, [[...name('env'), ...name('log'), 0x00, 1]]),
+    ...section(3, [[0], [1], [2], [2], [3]]),
+    ...section(5, [[0x00, 1]]),
+    ...section(6, [
+      [0x7f, 1, ...constant(1024), 0x0b],
+      [0x7f, 1, ...constant(0), 0x0b],
+    ]),
+    ...section(7, [
+      [...name('memory'), 2, 0],
+      [...name('alloc'), 0, 1],
+      [...name('dealloc'), 0, 2],
+      [...name('echo'), 0, 3],
+      [...name('fail'), 0, 4],
+      [...name('abi_encoding'), 0, 5],
+      [...name('live'), 3, 1],
+    ]),
+    ...section(10, [
+      body([], [0x23, 0, 0x23, 0, 0x20, 0, 0x6a, 0x24, 0, 0x23, 1, ...constant(1), 0x6a, 0x24, 1]),
+      body([], [0x23, 1, ...constant(1), 0x6b, 0x24, 1]),
+      body([[1, 0x7f]], [0x20, 0, 0x20, 1, 0x10, 0, ...result(0, [0x20, 0], [0x20, 1])]),
+      body([[1, 0x7f]], result(1, constant(16), constant(error.length))),
+      body([], constant(encoding)),
+    ]),
+    ...section(11, [[0x00, ...constant(16), 0x0b, ...name(error)]]),
+  ]);
+}
+
+async function instantiate(encoding: number, log: (ptr: number, len: number) => void = () => {}) {
+  const { instance } = await WebAssembly.instantiate(abiModule(encoding), { env: { log } });
+  return instance;
+}
+
+describe('WasmAbi', () => {
+  it('marshals JSON payloads, byte arrays and strings through linear memory', async () => {
+    const logged: string[] = [];
+    let abi: WasmAbi | null = null;
+    const instance = await instantiate(0, (ptr, len) => logged.push(abi!.readString(ptr, len)));
+    abi = WasmAbi.detect(instance)!;
+
+    expect(abi.encoding).toBe('json');
+    const args = ['héllo', { nested: [1, 2.5, null] }, new Uint8Array([0, 255, 7])];
+    expect(abi.call('echo', args)).toEqual(args);
+    expect(logged).toEqual([
+      JSON.stringify(['héllo', { nested: [1, 2.5, null] }, { $bytes: 'AP8H' }]),
+    ]);
+    expect((instance.exports.live as WebAssembly.Global).value).toBe(0);
+  });
+
+  it('uses MessagePack when the module asks for it', async () => {
+    const abi = WasmAbi.detect(await instantiate(1))!;
+    const date = new Date('2026-10-19T08:30:00.123Z');
+
+    expect(abi.encoding).toBe('msgpack');
+    expect(abi.call('echo', [{ when: date, data: new Uint8Array([1, 2]) }, -7, 2 ** 40])).toEqual([
+      { when: date, data: new Uint8Array([1, 2]) },
+      -7,
+      2 ** 40,
+    ]);
+  });
+
+  it('turns error statuses into WasmCallError', async () => {
+    const instance = await instantiate(0);
+    const abi = WasmAbi.detect(instance)!;
+
+    const error = (() => {
+      try {
+        abi.call('fail', []);
+      } catch (caught) {
+        return caught as WasmCallError;
+      }
+    })();
+    expect(error).toBeInstanceOf(WasmCallError);
+    expect(error).toMatchObject({ code: WasmErrorCode.InvalidArgument, method: 'fail' });
+    expect(error!.message).toBe("WASM method 'fail' failed: invalid argument");
+    expect(() => abi.call('missing', [])).toThrow(/not found/);
+    expect((instance.exports.live as WebAssembly.Global).value).toBe(0);
+  });
+});
+
+describe('MessagePack codec', () => {
+  it('round-trips every supported type', () => {
+    const value = {
+      small: [0, 127, -1, -32, -33, 255, 65535, 2 ** 32, -(2 ** 31) - 1],
+      float: 1.25,
+      text: 'x'.repeat(300),
+      flags: [true, false, null],
+      bytes: new Uint8Array(70000),
+      big: BigInt('18446744073709551615'),
+    };
+    expect(decodeMsgPack(encodeMsgPack(value))).toEqual(value);
+    expect(encodeMsgPack({ a: 1, b: undefined })).toEqual(new Uint8Array([0x81, 0xa1, 0x61, 1]));
+    expect(() => decodeMsgPack(new Uint8Array([0x92, 1]))).toThrow(/unexpected end/);
+  });
+});
+
+describe('WasmRuntime with an ABI module', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wasm-abi-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('routes calls through the ABI and surfaces module errors', async () => {
+    const wasmPath = path.join(directory, 'euse_core.wasm');
+    await fs.writeFile(wasmPath, abiModule(0));
+    const runtime = new WasmRuntime({ wasmPath });
+    await runtime.initialize();
+
+    expect(runtime.getStatus()).toMatchObject({ mode: 'native', abi: 'json' });
+    expect(await runtime.call('echo', 'text', { n: 1 })).toEqual(['text', { n: 1 }]);
+    await expect(runtime.call('fail')).rejects.toBeInstanceOf(WasmCallError);
+    // Methods the module lacks still fall back to the JS simulation.
+    expect(await runtime.call('ui_notify', 'hi')).toEqual({ shown: true });
+    runtime.destroy();
+  });
+});
@@ -0,0 +1,185 @@
+import { decodeMsgPack, encodeMsgPack } from './msgpack';
+
+/**
+ * Calling convention between the host and `euse_core.wasm` (ABI v1).
+ *
+ * The module exports `memory`, `alloc(size) -> ptr` and `dealloc(ptr, size)`.
+ * For each call the host encodes the argument array into a buffer obtained
+ * from `alloc` and invokes `method(ptr, len)`. The export returns a pointer
+ * to a result block of `u32 status`, `u32 length` and `length` payload bytes
+ * (little-endian), also obtained from `alloc`. Status 0 carries the encoded
+ * return value; any other status is a `WasmErrorCode` with a UTF-8 message
+ * as payload. The host frees both buffers with `dealloc`.
+ *
+ * Payloads are JSON, with byte arrays as `{"$bytes": "<base64>"}`, unless the
+ * module exports `abi_encoding()` returning 1 for MessagePack.
+ */
+
+export type WasmPayloadEncoding = 'json' | 'msgpack';
+
+export enum WasmErrorCode {
+  Ok = 0,
+  InvalidArgument = 1,
+  NotFound = 2,
+  Internal = 3,
+  Panic = 4,
+  Unsupported = 5,
+}
+
+export class WasmCallError extends Error {
+  constructor(
+    message: string,
+    public code: WasmErrorCode,
+    public method?: string
+  ) {
+    super(message);
+    this.name = 'WasmCallError';
+  }
+}
+
+interface AbiExports {
+  memory?: WebAssembly.Memory;
+  alloc: (size: number) => number;
+  dealloc: (ptr: number, size: number) => void;
+  abi_encoding?: () => number;
+  [name: string]: unknown;
+}
+
+const RESULT_HEADER_SIZE = 8;
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/** Marshals calls into a module that implements the ABI described above. */
+export class WasmAbi {
+  readonly encoding: WasmPayloadEncoding;
+
+  private constructor(
+    private exports: AbiExports,
+    private memory: WebAssembly.Memory
+  ) {
+    this.encoding = exports.abi_encoding?.() === 1 ? 'msgpack' : 'json';
+  }
+
+  /**
+   * Returns `null` for modules without `alloc`/`dealloc`, whose exports only
+   * take and return numbers. `importedMemory` is used when the module does
+   * not export its own.
+   */
+  static detect(
+    instance: WebAssembly.Instance,
+    importedMemory?: WebAssembly.Memory
+  ): WasmAbi | null {
+    const exports = instance.exports as unknown as AbiExports;
+    const memory = exports.memory instanceof WebAssembly.Memory ? exports.memory : importedMemory;
+    if (typeof exports.alloc !== 'function' || typeof exports.dealloc !== 'function' || !memory) {
+      return null;
+    }
+    return new WasmAbi(exports, memory);
+  }
+
+  hasMethod(method: string): boolean {
+    return typeof this.exports[method] === 'function';
+  }
+
+  call(method: string, args: unknown[]): unknown {
+    const fn = this.exports[method];
+    if (typeof fn !== 'function') {
+      throw new WasmCallError(
+        `Method '${method}' not found in WASM exports`,
+        WasmErrorCode.NotFound,
+        method
+      );
+    }
+
+    const input = encodeWasmPayload(args, this.encoding);
+    const inputPtr = this.write(input);
+    let resultPtr: number;
+    try {
+      resultPtr = fn(inputPtr, input.length) as number;
+    } finally {
+      this.exports.dealloc(inputPtr, input.length);
+    }
+
+    const header = new DataView(this.memory.buffer, resultPtr, RESULT_HEADER_SIZE);
+    const status = header.getUint32(0, true);
+    const length = header.getUint32(4, true);
+    const payload = this.read(resultPtr + RESULT_HEADER_SIZE, length).slice();
+    this.exports.dealloc(resultPtr, RESULT_HEADER_SIZE + length);
+
+    return decodeWasmResult(method, status, payload, this.encoding);
+  }
+
+  /** Copies `bytes` into a fresh `alloc` buffer and returns its pointer. */
+  write(bytes: Uint8Array): number {
+    const ptr = this.exports.alloc(bytes.length);
+    // `alloc` may grow memory, which detaches earlier views of the buffer.
+    new Uint8Array(this.memory.buffer, ptr, bytes.length).set(bytes);
+    return ptr;
+  }
+
+  read(ptr: number, length: number): Uint8Array {
+    return new Uint8Array(this.memory.buffer, ptr, length);
+  }
+
+  readString(ptr: number, length: number): string {
+    return textDecoder.decode(this.read(ptr, length));
+  }
+}
+
+/** Encodes call arguments the way a module with `encoding` expects them. */
+export function encodeWasmPayload(value: unknown, encoding: WasmPayloadEncoding): Uint8Array {
+  if (encoding === 'msgpack') {
+    return encodeMsgPack(value);
+  }
+  return textEncoder.encode(
+    JSON.stringify(value, function (this: Record<string, unknown>, key, item) {
+      // `this[key]` is the value before `toJSON`, which turns a Buffer into an object.
+      const original = this[key];
+      return original instanceof Uint8Array || original instanceof ArrayBuffer
+        ? { $bytes: bytesToBase64(new Uint8Array(original)) }
+        : item;
+    })
+  );
+}
+
+/** Turns the status and payload of a result block into a value or a `WasmCallError`. */
+export function decodeWasmResult(
+  method: string,
+  status: number,
+  payload: Uint8Array,
+  encoding: WasmPayloadEncoding
+): unknown {
+  if (status !== WasmErrorCode.Ok) {
+    const message = textDecoder.decode(payload) || WasmErrorCode[status] || `error ${status}`;
+    throw new WasmCallError(`WASM method '${method}' failed: ${message}`, status, method);
+  }
+  if (payload.length === 0) {
+    return undefined;
+  }
+  if (encoding === 'msgpack') {
+    return decodeMsgPack(payload);
+  }
+  return JSON.parse(textDecoder.decode(payload), (_key, item) =>
+    item && typeof item.$bytes === 'string' ? base64ToBytes(item.$bytes) : item
+  );
+}
+
+/** Reads a UTF-8 string from `memory`, as passed to `log(ptr, len)` imports. */
+export function readWasmString(memory: WebAssembly.Memory, ptr: number, length: number): string {
+  return textDecoder.decode(new Uint8Array(memory.buffer, ptr, length));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) bytes[index] = binary.charCodeAt(index);
+  return bytes;
+}
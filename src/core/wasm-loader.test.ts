@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { promises as fs } from 'fs';
+import { clearWasmCache, detectWasmEnvironment, instantiateWasm } from './wasm-loader';
+import { WasmRuntime } from './runtime';
+
+/** The smallest valid module: magic number and version, no sections. */
+const EMPTY_MODULE = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]);
+
+describe('instantiateWasm', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    clearWasmCache();
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wasm-loader-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads modules from disk in Node and caches the compiled module', async () => {
+    const file = path.join(directory, 'core.wasm');
+    await fs.writeFile(file, EMPTY_MODULE);
+
+    expect(detectWasmEnvironment()).toBe('node');
+    const first = await instantiateWasm(file, {});
+    const second = await instantiateWasm(pathToFileURL(file).href, {});
+
+    expect(first).toMatchObject({ source: file, cached: false });
+    expect(second).toMatchObject({ source: file, cached: true });
+    expect(second.module).toBe(first.module);
+    expect(second.instance).not.toBe(first.instance);
+  });
+
+  it('resolves web-style paths against the working directory and public/', async () => {
+    await fs.mkdir(path.join(directory, 'public', 'wasm'), { recursive: true });
+    await fs.writeFile(path.join(directory, 'public', 'wasm', 'core.wasm'), EMPTY_MODULE);
+    vi.spyOn(process, 'cwd').mockReturnValue(directory);
+
+    const loaded = await instantiateWasm('/wasm/core.wasm', {});
+
+    expect(loaded.source).toBe(path.join(directory, 'public', 'wasm', 'core.wasm'));
+  });
+
+  it('lists the locations it tried when the module is missing', async () => {
+    vi.spyOn(process, 'cwd').mockReturnValue(directory);
+
+    await expect(instantiateWasm('wasm/missing.wasm', {})).rejects.toThrow(
+      `WASM module not found: wasm/missing.wasm (tried ${path.join(directory, 'wasm', 'missing.wasm')}`
+    );
+  });
+
+  it('streams modules in browsers', async () => {
+    vi.stubGlobal('window', {});
+    const fetchMock = vi.fn(
+      async () => new Response(EMPTY_MODULE, { headers: { 'content-type': 'application/wasm' } })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const streaming = vi.spyOn(WebAssembly, 'instantiateStreaming');
+
+    const first = await instantiateWasm('https://cdn.example.com/core.wasm', {});
+    const second = await instantiateWasm('https://cdn.example.com/core.wasm', {});
+
+    expect(detectWasmEnvironment()).toBe('browser');
+    expect(streaming).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(first.cached).toBe(false);
+    expect(second).toMatchObject({ cached: true, module: first.module });
+  });
+});
+
+describe('WasmRuntime.getStatus', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    clearWasmCache();
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wasm-status-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('reports native execution for a loaded module', async () => {
+    const wasmPath = path.join(directory, 'euse_core.wasm');
+    await fs.writeFile(wasmPath, EMPTY_MODULE);
+    const runtime = new WasmRuntime({ wasmPath });
+
+    expect(runtime.getStatus()).toEqual({
+      mode: 'simulated',
+      environment: 'node',
+      reason: 'Not initialized',
+    });
+    await runtime.initialize();
+    expect(runtime.getStatus()).toEqual({
+      mode: 'native',
+      environment: 'node',
+      source: wasmPath,
+      abi: 'numeric',
+      cached: false,
+    });
+  });
+
+  it('reports the simulation fallback with the load error', async () => {
+    const runtime = new WasmRuntime({ wasmPath: path.join(directory, 'missing.wasm') });
+    await runtime.initialize();
+
+    expect(runtime.getStatus()).toMatchObject({ mode: 'simulated', environment: 'node' });
+    expect(runtime.getStatus().reason).toMatch(/^WASM module not found/);
+    expect(await runtime.call('ui_notify', 'hi')).toEqual({ shown: true });
+  });
+});
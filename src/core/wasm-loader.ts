@@ -0,0 +1,171 @@
+/**
+ * Environment-aware loading of WebAssembly modules. Node reads the file from
+ * disk, browsers stream it with `WebAssembly.instantiateStreaming`. Compiled
+ * modules are cached by resolved location, so later runtimes only pay for
+ * instantiation.
+ */
+
+export type WasmEnvironment = 'node' | 'browser';
+
+export interface LoadedWasm {
+  instance: WebAssembly.Instance;
+  module: WebAssembly.Module;
+  /** Resolved file path or URL the module came from. */
+  source: string;
+  /** True when the compiled module was reused from the cache. */
+  cached: boolean;
+}
+
+const compiled = new Map<string, Promise<WebAssembly.Module>>();
+
+export function detectWasmEnvironment(): WasmEnvironment {
+  return typeof process !== 'undefined' && !!process.versions?.node && typeof window === 'undefined'
+    ? 'node'
+    : 'browser';
+}
+
+/**
+ * Loads and instantiates `source`. In Node a path is tried as given, then
+ * relative to the working directory, its `public/` folder and the installed
+ * `@skygenesisenterprise/enterprise-node` package; `http(s):` URLs are
+ * fetched. In browsers `source` is a URL.
+ */
+export async function instantiateWasm(
+  source: string,
+  imports: WebAssembly.Imports
+): Promise<LoadedWasm> {
+  if (detectWasmEnvironment() === 'browser') {
+    return instantiateInBrowser(source, imports);
+  }
+
+  const resolved = /^https?:/i.test(source) ? source : await resolveNodePath(source);
+  const cachedModule = compiled.get(resolved);
+  if (!cachedModule) {
+    compiled.set(resolved, compileInNode(resolved));
+  }
+
+  try {
+    const module = await compiled.get(resolved)!;
+    const instance = await WebAssembly.instantiate(module, imports);
+    return { instance, module, source: resolved, cached: !!cachedModule };
+  } catch (error) {
+    // Do not cache failures; the file may appear later.
+    if (!cachedModule) compiled.delete(resolved);
+    throw error;
+  }
+}
+
+/** Forgets compiled modules, e.g. after a `.wasm` file was rebuilt. */
+export function clearWasmCache(): void {
+  compiled.clear();
+}
+
+async function instantiateInBrowser(
+  source: string,
+  imports: WebAssembly.Imports
+): Promise<LoadedWasm> {
+  const url = typeof location !== 'undefined' ? new URL(source, location.href).href : source;
+  const cachedModule = compiled.get(url);
+  if (cachedModule) {
+    const module = await cachedModule;
+    return {
+      instance: await WebAssembly.instantiate(module, imports),
+      module,
+      source: url,
+      cached: true,
+    };
+  }
+
+  const loading = fetchAndInstantiate(url, imports);
+  compiled.set(
+    url,
+    loading.then((loaded) => loaded.module)
+  );
+  try {
+    const { module, instance } = await loading;
+    return { instance, module, source: url, cached: false };
+  } catch (error) {
+    compiled.delete(url);
+    throw error;
+  }
+}
+
+async function fetchAndInstantiate(
+  url: string,
+  imports: WebAssembly.Imports
+): Promise<WebAssembly.WebAssemblyInstantiatedSource> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch WASM module ${url}: ${response.status} ${response.statusText}`
+    );
+  }
+
+  if (typeof WebAssembly.instantiateStreaming === 'function') {
+    try {
+      return await WebAssembly.instantiateStreaming(response.clone(), imports);
+    } catch (error) {
+      // Servers that do not send `application/wasm` make streaming fail.
+      if (!(error instanceof TypeError)) throw error;
+    }
+  }
+  return WebAssembly.instantiate(await response.arrayBuffer(), imports);
+}
+
+async function compileInNode(resolved: string): Promise<WebAssembly.Module> {
+  if (/^https?:/i.test(resolved)) {
+    const response = await fetch(resolved);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch WASM module ${resolved}: ${response.status} ${response.statusText}`
+      );
+    }
+    return WebAssembly.compile(await response.arrayBuffer());
+  }
+
+  const { readFile } = await import('fs/promises');
+  return WebAssembly.compile(await readFile(resolved));
+}
+
+async function resolveNodePath(source: string): Promise<string> {
+  const { access } = await import('fs/promises');
+  const path = await import('path');
+  const { fileURLToPath } = await import('url');
+
+  if (/^file:/i.test(source)) {
+    return fileURLToPath(source);
+  }
+
+  const relative = source.replace(/^[/\\]+/, '');
+  const candidates = [
+    ...(path.isAbsolute(source) ? [source] : []),
+    path.resolve(process.cwd(), relative),
+    path.resolve(process.cwd(), 'public', relative),
+  ];
+  const packageRoot = await findPackageRoot();
+  if (packageRoot) {
+    candidates.push(path.join(packageRoot, relative));
+  }
+
+  const unique = [...new Set(candidates)];
+  for (const candidate of unique) {
+    try {
+      await access(candidate);
+      return candidate;
+    } catch {
+      // Try the next location.
+    }
+  }
+  throw new Error(`WASM module not found: ${source} (tried ${unique.join(', ')})`);
+}
+
+async function findPackageRoot(): Promise<string | null> {
+  try {
+    const { createRequire } = await import('module');
+    const path = await import('path');
+    const require = createRequire(path.join(process.cwd(), 'package.json'));
+    return path.dirname(require.resolve('@skygenesisenterprise/enterprise-node/package.json'));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { describeModuleApi, formatSignature, validateArguments } from './wasm-metadata';
+import { BridgeArgumentError, RustBridge } from './rust-bridge';
+
+const leb = (value: number): number[] => {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value >>>= 7;
+    if (value) byte |= 0x80;
+    bytes.push(byte);
+  } while (value);
+  return bytes;
+};
+const name = (text: string) => [...leb(Buffer.byteLength(text)), ...Buffer.from(text)];
+const vector = (items: number[][]) => [...leb(items.length), ...items.flat()];
+const section = (id: number, items: number[][]) => {
+  const body = vector(items);
+  return [id, ...leb(body.length), ...body];
+};
+const custom = (title: string, content: string) => {
+  const body = [...name(title), ...Buffer.from(content)];
+  return [0, ...leb(body.length), ...body];
+};
+const body = (locals: number[][], code: number[]) => {
+  const content = [...vector(locals), ...code, 0x0b];
+  return [...leb(content.length), ...content];
+};
+
+/** ABI module exporting `echo`, which returns its payload, and numeric `add`. */
+const moduleBytes = (api?: unknown) => {
+  const apiSection =
+    api === undefined
+      ? []
+      : custom('euse_api', typeof api === 'string' ? api : JSON.stringify(api));
+  // prettier-ignore
+  return new Uint8Array([
+    0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+    ...section(1, [
+      [0x60, 1, 0x7f, 1, 0x7f],
+      [0x60, 2, 0x7f, 0x7f, 0],
+      [0x60, 2, 0x7f, 0x7f, 1, 0x7f],
+    ]),
+    ...section(3, [[0], [1], [2], [2]]),
+    ...section(5, [[0x00, 1]]),
+    ...section(6, [[0x7f, 1, 0x41, ...leb(1024), 0x0b]]),
+    ...section(7, [
+      [...name('memory'), 2, 0],
+      [...name('alloc'), 0, 0],
+      [...name('dealloc'), 0, 1],
+      [...name('echo'), 0, 2],
+      [...name('add'), 0, 3],
+    ]),
+    ...section(10, [
+      body([], [0x23, 0, 0x23, 0, 0x20, 0, 0x6a, 0x24, 0]),
+      body([], []),
+      body([[1, 0x7f]], [
+        0x20, 1, 0x41, 8, 0x6a, 0x10, 0, 0x21, 2,
+        0x20, 2, 0x41, 0, 0x36, 2, 0,
+        0x20, 2, 0x20, 1, 0x36, 2, 4,
+        0x20, 2, 0x41, 8, 0x6a, 0x20, 0, 0x20, 1, 0xfc, 0x0a, 0, 0,
+        0x20, 2,
+      ]),
+      body([], [0x20, 0, 0x20, 1, 0x6a]),
+    ]),
+    ...apiSection,
+  ]);
+};
+
+const API = {
+  version: '1.2.0',
+  functions: [
+    {
+      name: 'echo',
+      description: 'Returns its arguments.',
+      params: [
+        { name: 'text', type: 'String' },
+        { name: 'image', type: 'Option<Vec<u8>>' },
+        { name: 'tags', type: 'string[]', optional: true },
+      ],
+      returns: 'object',
+      deprecated: 'use echo_v2',
+    },
+    { name: 'echo_v2', params: [], returns: 'object' },
+  ],
+};
+
+describe('describeModuleApi', () => {
+  it('lists exports, described by the euse_api section', async () => {
+    const api = describeModuleApi(await WebAssembly.compile(moduleBytes(API)));
+
+    expect(api.version).toBe('1.2.0');
+    expect(api.functions).toEqual([{ ...API.functions[0], version: '1.2.0' }, { name: 'add' }]);
+    expect(api.missing).toEqual(['echo_v2']);
+    expect(api.functions.map(formatSignature)).toEqual([
+      'echo(text: String, image: Option<Vec<u8>>, tags?: string[]): object',
+      'add(...)',
+    ]);
+  });
+
+  it('works without a section and rejects a malformed one', async () => {
+    expect(describeModuleApi(await WebAssembly.compile(moduleBytes()))).toEqual({
+      version: undefined,
+      functions: [{ name: 'echo' }, { name: 'add' }],
+      missing: [],
+    });
+    const broken = await WebAssembly.compile(moduleBytes('{"functions": 3}'));
+    expect(() => describeModuleApi(broken)).toThrow(
+      'Invalid euse_api section: expected a "functions" array'
+    );
+  });
+});
+
+describe('validateArguments', () => {
+  const params = API.functions[0].params;
+
+  it('accepts matching arguments', () => {
+    expect(validateArguments(params, { text: 'hi' })).toEqual([]);
+    expect(
+      validateArguments(params, { text: 'hi', image: new Uint8Array(2), tags: ['a', 'b'] })
+    ).toEqual([]);
+    expect(validateArguments([{ name: 'count', type: 'u32' }], { count: 3 })).toEqual([]);
+  });
+
+  it('reports missing, mistyped and unexpected arguments', () => {
+    expect(validateArguments(params, { image: 'x', tags: [1], extra: true })).toEqual([
+      "missing 'text' (String)",
+      "'image' should be Option<Vec<u8>>, got string",
+      "'tags' should be string[], got an array",
+      "unexpected 'extra'",
+    ]);
+    expect(validateArguments([{ name: 'count', type: 'u32' }], { count: 1.5 })).toEqual([
+      "'count' should be u32, got number",
+    ]);
+  });
+});
+
+describe('RustBridge registry', () => {
+  let directory: string;
+  let bridge: RustBridge;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bridge-api-'));
+    await fs.writeFile(path.join(directory, 'ai.wasm'), moduleBytes(API));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    bridge = new RustBridge({ wasmPath: directory, rustModules: ['ai', 'storage'] });
+    await bridge.initialize();
+  });
+
+  afterAll(async () => {
+    await bridge.destroy();
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('reflects the loaded exports and the JS fallbacks', () => {
+    const functions = bridge.getAvailableFunctions();
+
+    expect(functions.find((fn) => fn.name === 'ai::echo')).toMatchObject({
+      module: 'ai',
+      source: 'wasm',
+      signature: 'echo(text: String, image: Option<Vec<u8>>, tags?: string[]): object',
+      metadata: { version: '1.2.0', deprecated: 'use echo_v2' },
+    });
+    expect(functions.find((fn) => fn.name === 'ai::add')).toMatchObject({ source: 'wasm' });
+    expect(functions.find((fn) => fn.name === 'storage::save')).toMatchObject({ source: 'js' });
+    expect(functions.map((fn) => fn.name)).not.toContain('ai::alloc');
+    expect(functions.map((fn) => fn.name)).not.toContain('auth::verify');
+  });
+
+  it('validates arguments against the declared signature', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await bridge.invoke('ai::echo', { text: 'hi' })).toEqual([{ text: 'hi' }]);
+    await bridge.invoke('ai::echo', { text: 'again' });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith("⚠️ 'ai::echo' is deprecated: use echo_v2");
+
+    const error = await bridge.invoke('ai::echo', { text: 3 }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(BridgeArgumentError);
+    expect(error.message).toBe(
+      "Invalid arguments for 'ai::echo': 'text' should be String, got number"
+    );
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * API description of a WASM module. The functions are the module's exports;
+ * a custom section named `euse_api` can describe them further, as JSON:
+ *
+ *   { "version": "1.2.0", "functions": [{ "name": "generate",
+ *     "params": [{ "name": "prompt", "type": "string" }],
+ *     "returns": "object", "deprecated": "use generate_v2" }] }
+ *
+ * Types are `string`, `number`, `boolean`, `bytes`, `object`, `any`, `T[]`,
+ * or the Rust spelling (`String`, `u32`, `Vec<u8>`, `Option<T>`...); other
+ * names are taken to be structs and checked as objects.
+ */
+
+export const API_SECTION = 'euse_api';
+
+/** Exports that belong to the linear-memory ABI rather than to the module's API. */
+const ABI_EXPORTS = new Set(['alloc', 'dealloc']);
+
+export interface WasmParam {
+  name: string;
+  type: string;
+  optional?: boolean;
+}
+
+export interface WasmFunctionApi {
+  name: string;
+  /** Absent when the module does not describe the function. */
+  params?: WasmParam[];
+  returns?: string;
+  version?: string;
+  description?: string;
+  /** `true`, or a note such as the replacement to use. */
+  deprecated?: boolean | string;
+}
+
+export interface WasmModuleApi {
+  version?: string;
+  functions: WasmFunctionApi[];
+  /** Functions described in the section that the module does not export. */
+  missing: string[];
+}
+
+/** Exported functions of `module`, completed with its `euse_api` section. */
+export function describeModuleApi(module: WebAssembly.Module): WasmModuleApi {
+  const section = readApiSection(module);
+  const described = new Map(section.functions.map((entry) => [entry.name, entry]));
+
+  const exported = exportedFunctions(module);
+
+  return {
+    version: section.version,
+    functions: exported.map((name) => {
+      const entry = described.get(name);
+      return entry ? { version: section.version, ...entry } : { name };
+    }),
+    missing: [...described.keys()].filter((name) => !exported.includes(name)),
+  };
+}
+
+/** Names of the functions `module` exports, leaving out the ABI's allocator. */
+export function exportedFunctions(module: WebAssembly.Module): string[] {
+  return WebAssembly.Module.exports(module)
+    .filter((entry) => entry.kind === 'function' && !ABI_EXPORTS.has(entry.name))
+    .map((entry) => entry.name);
+}
+
+/** `generate(prompt: string, options?: object): string`, or `generate(...)` when undescribed. */
+export function formatSignature(fn: WasmFunctionApi): string {
+  if (!fn.params) {
+    return `${fn.name}(...)`;
+  }
+  const params = fn.params.map(
+    (param) => `${param.name}${param.optional ? '?' : ''}: ${param.type}`
+  );
+  return `${fn.name}(${params.join(', ')}): ${fn.returns ?? 'void'}`;
+}
+
+/** Problems with `values` against the declared parameters; empty when they match. */
+export function validateArguments(params: WasmParam[], values: Record<string, unknown>): string[] {
+  const issues: string[] = [];
+  for (const param of params) {
+    const value = values[param.name];
+    const { type, optional } = unwrapOption(param.type);
+    if (value === undefined || value === null) {
+      if (!param.optional && !optional) issues.push(`missing '${param.name}' (${param.type})`);
+      continue;
+    }
+    if (!matchesType(type, value)) {
+      issues.push(`'${param.name}' should be ${param.type}, got ${describeValue(value)}`);
+    }
+  }
+
+  const declared = new Set(params.map((param) => param.name));
+  for (const name of Object.keys(values)) {
+    if (!declared.has(name)) issues.push(`unexpected '${name}'`);
+  }
+  return issues;
+}
+
+function readApiSection(module: WebAssembly.Module): {
+  version?: string;
+  functions: WasmFunctionApi[];
+} {
+  const sections = WebAssembly.Module.customSections(module, API_SECTION);
+  if (sections.length === 0) {
+    return { functions: [] };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(sections[0]));
+  } catch (error) {
+    throw new Error(`Invalid ${API_SECTION} section: ${(error as Error).message}`);
+  }
+  if (!parsed || !Array.isArray(parsed.functions)) {
+    throw new Error(`Invalid ${API_SECTION} section: expected a "functions" array`);
+  }
+  for (const entry of parsed.functions) {
+    if (typeof entry?.name !== 'string' || (entry.params && !Array.isArray(entry.params))) {
+      throw new Error(`Invalid ${API_SECTION} section: bad entry ${JSON.stringify(entry)}`);
+    }
+    entry.params ??= [];
+  }
+  return { version: parsed.version, functions: parsed.functions };
+}
+
+function unwrapOption(type: string): { type: string; optional: boolean } {
+  const option = /^Option<(.+)>$/.exec(type.trim());
+  return option ? { type: option[1], optional: true } : { type: type.trim(), optional: false };
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  const reference = /^&(?:mut )?(.+)$/.exec(type);
+  if (reference) return matchesType(reference[1], value);
+
+  const element = /^Vec<(.+)>$/.exec(type)?.[1] ?? /^(.+)\[\]$/.exec(type)?.[1];
+  if (type === 'bytes' || element === 'u8' || type === '[u8]') {
+    return value instanceof Uint8Array || value instanceof ArrayBuffer;
+  }
+  if (element) {
+    return Array.isArray(value) && value.every((item) => matchesType(element, item));
+  }
+
+  switch (type) {
+    case 'any':
+      return true;
+    case 'string':
+    case 'String':
+    case 'str':
+    case 'char':
+      return typeof value === 'string';
+    case 'boolean':
+    case 'bool':
+      return typeof value === 'boolean';
+    case 'number':
+    case 'f32':
+    case 'f64':
+      return typeof value === 'number';
+    default:
+      if (/^[iu](8|16|32|64|128|size)$/.test(type)) {
+        return (typeof value === 'number' && Number.isInteger(value)) || typeof value === 'bigint';
+      }
+      return typeof value === 'object' && !Array.isArray(value);
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return 'an array';
+  if (value instanceof Uint8Array) return 'bytes';
+  return typeof value;
+}
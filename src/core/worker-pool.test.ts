@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { WasmWorkerPool } from './worker-pool';
+import { WasmCallError, WasmErrorCode } from './wasm-abi';
+import { WasmRuntime } from './runtime';
+
+const leb = (value: number): number[] => {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value >>>= 7;
+    if (value) byte |= 0x80;
+    bytes.push(byte);
+  } while (value);
+  return bytes;
+};
+const name = (text: string) => [...leb(text.length), ...Buffer.from(text)];
+const vector = (items: number[][]) => [...leb(items.length), ...items.flat()];
+const section = (id: number, items: number[][]) => {
+  const body = vector(items);
+  return [id, ...leb(body.length), ...body];
+};
+const body = (locals: number[][], code: number[]) => {
+  const content = [...vector(locals), ...code, 0x0b];
+  return [...leb(content.length), ...content];
+};
+
+/**
+ * An ABI module without imports: bump `alloc`, no-op `dealloc`, `echo`
+ * returning its payload, numeric `add`, and `spin`, which never returns.
+ */
+// prettier-ignore
+const MODULE_BYTES = new Uint8Array([
+  0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+  ...section(1, [
+    [0x60, 1, 0x7f, 1, 0x7f],
+    [0x60, 2, 0x7f, 0x7f, 0],
+    [0x60, 2, 0x7f, 0x7f, 1, 0x7f],
+  ]),
+  ...section(3, [[0], [1], [2], [2], [2]]),
+  ...section(5, [[0x00, 1]]),
+  ...section(6, [[0x7f, 1, 0x41, ...leb(1024), 0x0b]]),
+  ...section(7, [
+    [...name('memory'), 2, 0],
+    [...name('alloc'), 0, 0],
+    [...name('dealloc'), 0, 1],
+    [...name('echo'), 0, 2],
+    [...name('add'), 0, 3],
+    [...name('spin'), 0, 4],
+  ]),
+  ...section(10, [
+    body([], [0x23, 0, 0x23, 0, 0x20, 0, 0x6a, 0x24, 0]),
+    body([], []),
+    // r = alloc(8 + len); r[0] = 0; r[4] = len; copy len bytes from ptr to r + 8; return r
+    body([[1, 0x7f]], [
+      0x20, 1, 0x41, 8, 0x6a, 0x10, 0, 0x21, 2,
+      0x20, 2, 0x41, 0, 0x36, 2, 0,
+      0x20, 2, 0x20, 1, 0x36, 2, 4,
+      0x20, 2, 0x41, 8, 0x6a, 0x20, 0, 0x20, 1, 0xfc, 0x0a, 0, 0,
+      0x20, 2,
+    ]),
+    body([], [0x20, 0, 0x20, 1, 0x6a]),
+    body([], [0x03, 0x40, 0x0c, 0, 0x0b, 0x00]),
+  ]),
+]);
+
+let module: WebAssembly.Module;
+let pool: WasmWorkerPool | null = null;
+
+beforeAll(async () => {
+  module = await WebAssembly.compile(MODULE_BYTES);
+});
+
+afterEach(() => {
+  pool?.destroy();
+  pool = null;
+});
+
+describe('WasmWorkerPool', () => {
+  it('runs ABI calls on a worker with JSON and MessagePack payloads', async () => {
+    const args = ['héllo', { nested: [1, null] }, new Uint8Array([0, 255, 7])];
+
+    pool = new WasmWorkerPool(module, 'json', { size: 1 });
+    expect(await pool.run('echo', args)).toEqual(args);
+    pool.destroy();
+
+    pool = new WasmWorkerPool(module, 'msgpack', { size: 1 });
+    expect(await pool.run('echo', args)).toEqual(args);
+  });
+
+  it('passes plain numbers to modules without the ABI', async () => {
+    pool = new WasmWorkerPool(module, null, { size: 2 });
+
+    expect(await Promise.all([pool.run('add', [2, 3]), pool.run('add', [40, 2])])).toEqual([5, 42]);
+  });
+
+  it('reports missing exports as NotFound', async () => {
+    pool = new WasmWorkerPool(module, 'json', { size: 1 });
+
+    const error = await pool.run('missing', []).catch((caught) => caught);
+    expect(error).toBeInstanceOf(WasmCallError);
+    expect(error).toMatchObject({ code: WasmErrorCode.NotFound, method: 'missing' });
+  });
+
+  it('cancels a running call by replacing its worker', async () => {
+    pool = new WasmWorkerPool(module, null, { size: 1 });
+    const controller = new AbortController();
+
+    const spinning = pool.run('spin', [], { signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(spinning).rejects.toMatchObject({ name: 'AbortError' });
+    expect(await pool.run('add', [1, 2])).toBe(3);
+  });
+
+  it('drops queued calls when their signal aborts', async () => {
+    pool = new WasmWorkerPool(module, null, { size: 1 });
+    const running = new AbortController();
+    const queued = new AbortController();
+
+    const spinning = pool.run('spin', [], { signal: running.signal });
+    const waiting = pool.run('add', [1, 1], { signal: queued.signal });
+    queued.abort(new Error('no longer needed'));
+
+    await expect(waiting).rejects.toThrow('no longer needed');
+    running.abort();
+    await expect(spinning).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(pool.run('add', [1, 1], { signal: AbortSignal.abort() })).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+  });
+
+  it('routes calls by name, glob, pattern or predicate', () => {
+    pool = new WasmWorkerPool(module, 'json', {
+      size: 1,
+      routes: ['ai_*', /^storage_(save|load)$/, (method, args) => args.length > 2],
+    });
+
+    expect(pool.handles('ai_enhance', [])).toBe(true);
+    expect(pool.handles('storage_load', [])).toBe(true);
+    expect(pool.handles('ui_notify', [1, 2, 3])).toBe(true);
+    expect(pool.handles('ui_notify', [])).toBe(false);
+    expect(pool.handles('ui_notify', [], true)).toBe(true);
+    expect(pool.handles('ai_enhance', [], false)).toBe(false);
+    expect(new WasmWorkerPool(module, 'json').handles('anything', [])).toBe(true);
+  });
+});
+
+describe('WasmRuntime with workers', () => {
+  it('sends routed calls to the pool and honours cancellation', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'worker-pool-'));
+    const wasmPath = path.join(directory, 'euse_core.wasm');
+    await fs.writeFile(wasmPath, MODULE_BYTES);
+    const runtime = new WasmRuntime({ wasmPath, workers: { size: 1, routes: ['echo'] } });
+
+    try {
+      await runtime.initialize();
+      expect(runtime.getStatus()).toMatchObject({ mode: 'native', abi: 'json', workers: 1 });
+      expect(await runtime.invoke('echo', [{ image: new Uint8Array(4096) }])).toEqual([
+        { image: new Uint8Array(4096) },
+      ]);
+
+      const controller = new AbortController();
+      const spinning = runtime.invoke('spin', [], { signal: controller.signal, worker: true });
+      setTimeout(() => controller.abort(), 50);
+      // Aborted calls reject instead of falling back to the JS simulation.
+      await expect(spinning).rejects.toMatchObject({ name: 'AbortError' });
+    } finally {
+      runtime.destroy();
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,434 @@
+import type { WorkerPoolConfig } from '../types';
+import { ResourceLimitError } from '../../packages/shared/src/errors';
+import { importedMemoryDescriptor, memoryLimitBytes } from './limits';
+import {
+  WasmCallError,
+  WasmErrorCode,
+  WasmPayloadEncoding,
+  decodeWasmResult,
+  encodeWasmPayload,
+} from './wasm-abi';
+import { detectWasmEnvironment } from './wasm-loader';
+
+/**
+ * Runs WASM calls on worker threads (`worker_threads` in Node, Web Workers in
+ * browsers). Each worker instantiates the already compiled module, so nothing
+ * is fetched or compiled twice. With the linear-memory ABI the arguments are
+ * encoded here and the payloads cross the thread boundary as transferred
+ * buffers, not copies. A running call cannot be interrupted, so aborting it,
+ * or running out of time, terminates its worker and a fresh one takes its
+ * place. Workers that hit their memory cap or fuel budget are replaced too.
+ */
+
+/**
+ * The worker side, kept as plain JavaScript so it can be started from a string
+ * in both environments. It mirrors `WasmAbi.call` on raw payload bytes.
+ */
+const WORKER_SOURCE = `
+const inNode = typeof require === 'function';
+const port = inNode ? require('worker_threads').parentPort : self;
+const decoder = new TextDecoder();
+let wasm = null;
+let importedMemory = null;
+let maxBytes = 0;
+let fuel = Infinity;
+
+class OutOfFuel extends Error {}
+
+const send = (message, transfer) => port.postMessage(message, transfer || []);
+const currentMemory = () =>
+  wasm.memory instanceof WebAssembly.Memory ? wasm.memory : importedMemory;
+const bytes = (ptr, length) => new Uint8Array(currentMemory().buffer, ptr, length);
+
+function init({ module, memory, limit }) {
+  importedMemory = new WebAssembly.Memory(memory);
+  maxBytes = limit || 0;
+  const env = {
+    memory: importedMemory,
+    table: new WebAssembly.Table({ initial: 0, element: 'anyfunc' }),
+    abort: () => {
+      throw new Error('Aborted');
+    },
+    log: (ptr, length) => send({ type: 'log', message: decoder.decode(bytes(ptr, length)) }),
+    performance_now: () => performance.now(),
+    gas: (amount) => {
+      fuel -= amount;
+      if (fuel < 0) throw new OutOfFuel();
+    },
+  };
+  WebAssembly.instantiate(module, { env }).then(
+    (instance) => {
+      wasm = instance.exports;
+      send({ type: 'ready' });
+    },
+    (error) => send({ type: 'ready', error: String((error && error.message) || error) })
+  );
+}
+
+function call({ id, method, payload, args, budget }) {
+  const fn = wasm[method];
+  if (typeof fn !== 'function') {
+    return send({ type: 'result', id, missing: true });
+  }
+  fuel = budget === undefined ? Infinity : budget;
+  let reply;
+  let transfer = [];
+  try {
+    if (!payload) {
+      reply = { value: fn(...args) };
+    } else {
+      const input = wasm.alloc(payload.length);
+      bytes(input, payload.length).set(payload);
+      let result;
+      try {
+        result = fn(input, payload.length);
+      } finally {
+        wasm.dealloc(input, payload.length);
+      }
+      const header = new DataView(bytes(result, 8).slice().buffer);
+      const length = header.getUint32(4, true);
+      const output = bytes(result + 8, length).slice();
+      wasm.dealloc(result, 8 + length);
+      reply = { status: header.getUint32(0, true), payload: output };
+      transfer = [output.buffer];
+    }
+  } catch (error) {
+    reply =
+      error instanceof OutOfFuel
+        ? { limit: 'fuel', used: budget - fuel }
+        : { error: String((error && error.message) || error) };
+  }
+  const size = currentMemory().buffer.byteLength;
+  // A trap while memory sits at its cap is taken as a failed grow.
+  if (maxBytes && (size > maxBytes || (reply.error !== undefined && size >= maxBytes))) {
+    reply = { limit: 'memory', used: size };
+    transfer = [];
+  }
+  send({ type: 'result', id, memory: size, ...reply }, transfer);
+}
+
+const onMessage = (message) => (message.type === 'init' ? init(message) : call(message));
+if (inNode) port.on('message', onMessage);
+else self.addEventListener('message', (event) => onMessage(event.data));
+`;
+
+type WorkerReply =
+  | { type: 'ready'; error?: string }
+  | { type: 'log'; message: string }
+  | {
+      type: 'result';
+      id: number;
+      status?: number;
+      payload?: Uint8Array;
+      value?: unknown;
+      missing?: boolean;
+      error?: string;
+      limit?: 'memory' | 'fuel';
+      used?: number;
+      memory: number;
+    };
+
+interface WorkerHandle {
+  post(message: unknown, transfer?: Transferable[]): void;
+  terminate(): void;
+  /** Keeps a Node process alive while the worker has a call in flight. */
+  hold(busy: boolean): void;
+}
+
+export interface PoolCallOptions {
+  signal?: AbortSignal;
+  /** Fuel for modules that import `env.gas`. */
+  fuel?: number;
+  /** Execution time budget, counted from when a worker picks the call up. */
+  timeoutMs?: number;
+}
+
+export interface PoolOptions {
+  /** Caps the linear memory of every worker's instance. */
+  maxMemoryMB?: number;
+  /** Receives strings the module passes to `env.log`. */
+  onLog?: (message: string) => void;
+}
+
+interface PoolJob extends PoolCallOptions {
+  id: number;
+  method: string;
+  args: unknown[];
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  timer?: ReturnType<typeof setTimeout>;
+  /** Detaches the abort listener. */
+  detach?: () => void;
+}
+
+interface PoolSlot {
+  worker?: WorkerHandle;
+  ready: Promise<void>;
+  started: (error?: string) => void;
+  live: boolean;
+  job: PoolJob | null;
+  /** Linear memory size reported with the last result. */
+  memory: number;
+}
+
+let browserWorkerUrl: string | null = null;
+
+export class WasmWorkerPool {
+  readonly size: number;
+  private slots: PoolSlot[] = [];
+  private queue: PoolJob[] = [];
+  private nextId = 1;
+  private failure: Error | null = null;
+  private destroyed = false;
+
+  /**
+   * `encoding` is the ABI payload encoding of the module, or `null` for
+   * modules whose exports take and return plain numbers.
+   */
+  constructor(
+    private module: WebAssembly.Module,
+    private encoding: WasmPayloadEncoding | null,
+    private config: WorkerPoolConfig = {},
+    private options: PoolOptions = {}
+  ) {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0;
+    this.size = Math.max(1, config.size ?? (cores || 2) - 1);
+  }
+
+  /** Whether a call belongs on the pool; `override` is the per-call choice. */
+  handles(method: string, args: unknown[], override?: boolean): boolean {
+    if (override !== undefined) return override;
+    if (!this.config.routes) return true;
+
+    return this.config.routes.some((route) => {
+      if (typeof route === 'function') return route(method, args);
+      if (typeof route === 'string') return globToRegExp(route).test(method);
+      route.lastIndex = 0;
+      return route.test(method);
+    });
+  }
+
+  run(method: string, args: unknown[], options: PoolCallOptions = {}): Promise<unknown> {
+    const { signal } = options;
+    if (this.destroyed) return Promise.reject(new Error('Worker pool destroyed'));
+    if (this.failure) return Promise.reject(this.failure);
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    return new Promise((resolve, reject) => {
+      const job: PoolJob = { ...options, id: this.nextId++, method, args, resolve, reject };
+      if (signal) {
+        const onAbort = () => this.cancel(job, signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        job.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  /** Combined linear memory of the workers, as reported with their last results. */
+  memoryUsage(): number {
+    return this.slots.reduce((total, slot) => total + slot.memory, 0);
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    const error = new Error('Worker pool destroyed');
+    for (const job of this.queue.splice(0)) this.settle(job, error);
+    for (const slot of [...this.slots]) {
+      if (slot.job) this.settle(slot.job, error);
+      this.retire(slot);
+    }
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find((candidate) => !candidate.job);
+      if (!slot) {
+        if (this.slots.length >= this.size) return;
+        slot = this.spawn();
+      }
+
+      const job = this.queue.shift()!;
+      const target = slot;
+      target.job = job;
+      target.ready.then(
+        () => {
+          if (target.job === job) this.send(target, job);
+        },
+        (error) => {
+          // The module does not instantiate in a worker; it never will.
+          this.failure = error;
+          this.retire(target);
+          this.settle(job, error);
+          for (const queued of this.queue.splice(0)) this.settle(queued, error);
+        }
+      );
+    }
+  }
+
+  private spawn(): PoolSlot {
+    const slot = { job: null, live: false, memory: 0 } as PoolSlot;
+    slot.ready = new Promise<void>((resolve, reject) => {
+      slot.started = (error) => (error ? reject(new Error(error)) : resolve());
+    });
+    this.slots.push(slot);
+
+    startWorker(
+      (reply) => this.receive(slot, reply),
+      (error) => this.crash(slot, error)
+    ).then(
+      (worker) => {
+        if (!this.slots.includes(slot)) return worker.terminate();
+        slot.worker = worker;
+        worker.post({
+          type: 'init',
+          module: this.module,
+          memory: importedMemoryDescriptor(this.options.maxMemoryMB),
+          limit: memoryLimitBytes(this.options.maxMemoryMB),
+        });
+      },
+      (error) => slot.started(error instanceof Error ? error.message : String(error))
+    );
+    return slot;
+  }
+
+  private send(slot: PoolSlot, job: PoolJob): void {
+    slot.worker!.hold(true);
+    if (job.timeoutMs !== undefined) {
+      const timeoutMs = job.timeoutMs;
+      job.timer = setTimeout(
+        () => this.cancel(job, new ResourceLimitError(job.method, 'time', timeoutMs)),
+        timeoutMs
+      );
+    }
+
+    const call = { type: 'call', id: job.id, method: job.method, budget: job.fuel };
+    if (this.encoding) {
+      const payload = encodeWasmPayload(job.args, this.encoding);
+      slot.worker!.post({ ...call, payload }, [payload.buffer as ArrayBuffer]);
+    } else {
+      slot.worker!.post({ ...call, args: job.args });
+    }
+  }
+
+  private receive(slot: PoolSlot, reply: WorkerReply): void {
+    if (reply.type === 'ready') {
+      slot.live = !reply.error;
+      slot.started(reply.error);
+      return;
+    }
+    if (reply.type === 'log') {
+      this.options.onLog?.(reply.message);
+      return;
+    }
+
+    const job = slot.job;
+    if (!job || job.id !== reply.id) return;
+    slot.job = null;
+    slot.memory = reply.memory;
+    slot.worker!.hold(false);
+
+    if (reply.limit) {
+      // Memory cannot shrink and a call stopped midway may leave the instance inconsistent.
+      this.retire(slot);
+      const max =
+        reply.limit === 'memory' ? memoryLimitBytes(this.options.maxMemoryMB)! : job.fuel!;
+      this.settle(job, new ResourceLimitError(job.method, reply.limit, max, reply.used));
+    } else if (reply.missing) {
+      this.settle(
+        job,
+        new WasmCallError(
+          `Method '${job.method}' not found in WASM exports`,
+          WasmErrorCode.NotFound,
+          job.method
+        )
+      );
+    } else if (reply.error !== undefined) {
+      this.settle(job, new Error(reply.error));
+    } else if (reply.payload) {
+      try {
+        this.settle(
+          job,
+          undefined,
+          decodeWasmResult(job.method, reply.status!, reply.payload, this.encoding!)
+        );
+      } catch (error) {
+        this.settle(job, error);
+      }
+    } else {
+      this.settle(job, undefined, reply.value);
+    }
+    this.dispatch();
+  }
+
+  private cancel(job: PoolJob, reason: unknown): void {
+    const queued = this.queue.indexOf(job);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    } else {
+      const slot = this.slots.find((candidate) => candidate.job === job);
+      if (slot) this.retire(slot);
+    }
+    this.settle(job, reason);
+    this.dispatch();
+  }
+
+  private crash(slot: PoolSlot, error: Error): void {
+    if (!slot.live) {
+      // `dispatch` handles workers that die while starting.
+      slot.started(error.message);
+      return;
+    }
+    const job = slot.job;
+    this.retire(slot);
+    if (job) this.settle(job, error);
+    this.dispatch();
+  }
+
+  private retire(slot: PoolSlot): void {
+    this.slots = this.slots.filter((candidate) => candidate !== slot);
+    slot.job = null;
+    slot.worker?.terminate();
+  }
+
+  private settle(job: PoolJob, error: unknown, value?: unknown): void {
+    clearTimeout(job.timer);
+    job.detach?.();
+    if (error !== undefined) job.reject(error);
+    else job.resolve(value);
+  }
+}
+
+async function startWorker(
+  onMessage: (reply: WorkerReply) => void,
+  onError: (error: Error) => void
+): Promise<WorkerHandle> {
+  if (detectWasmEnvironment() === 'node') {
+    const { Worker } = await import('worker_threads');
+    const worker = new Worker(WORKER_SOURCE, { eval: true });
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.unref();
+    return {
+      post: (message, transfer) => worker.postMessage(message, transfer as ArrayBuffer[]),
+      terminate: () => void worker.terminate(),
+      hold: (busy) => (busy ? worker.ref() : worker.unref()),
+    };
+  }
+
+  browserWorkerUrl ??= URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+  const worker = new Worker(browserWorkerUrl);
+  worker.onmessage = (event) => onMessage(event.data);
+  worker.onerror = (event) => onError(new Error(event.message));
+  return {
+    post: (message, transfer = []) => worker.postMessage(message, transfer),
+    terminate: () => worker.terminate(),
+    hold: () => {},
+  };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${source}$`);
+}
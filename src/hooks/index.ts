@@ -2,6 +2,7 @@ export {
   useAi as useReactAi,
   useAuth as useReactAuth,
   useBranding as useReactBranding,
+  useEmail as useReactEmail,
   useProject as useReactProject,
   useStorage as useReactStorage,
   useUi as useReactUi,
@@ -12,6 +13,7 @@ export {
   useAi as useSvelteAi,
   useAuth as useSvelteAuth,
   useBranding as useSvelteBranding,
+  useEmail as useSvelteEmail,
   useProject as useSvelteProject,
   useStorage as useSvelteStorage,
   useUi as useSvelteUi,
@@ -193,6 +193,82 @@ export function useAuth() {
   };
 }
 
+export function useEmail() {
+  const { enterprise, isInitialized } = useEnterprise();
+  const [isSending, setIsSending] = useState(false);
+  const [isFetching, setIsFetching] = useState(false);
+
+  const send = useCallback(
+    async (options: any) => {
+      if (!isInitialized || !enterprise) {
+        throw new Error('Enterprise not initialized');
+      }
+
+      setIsSending(true);
+      try {
+        return await enterprise.email.sendEmail(options);
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [enterprise, isInitialized]
+  );
+
+  const fetch = useCallback(
+    async (options?: any) => {
+      if (!isInitialized || !enterprise) {
+        throw new Error('Enterprise not initialized');
+      }
+
+      setIsFetching(true);
+      try {
+        return await enterprise.email.fetchEmails(options);
+      } finally {
+        setIsFetching(false);
+      }
+    },
+    [enterprise, isInitialized]
+  );
+
+  const getThreads = useCallback(
+    async (options?: any) => {
+      if (!isInitialized || !enterprise) {
+        throw new Error('Enterprise not initialized');
+      }
+
+      setIsFetching(true);
+      try {
+        return await enterprise.email.getThreads(options);
+      } finally {
+        setIsFetching(false);
+      }
+    },
+    [enterprise, isInitialized]
+  );
+
+  const markAsRead = useCallback(
+    async (messageId: string, mailbox?: string) => {
+      if (!isInitialized || !enterprise) {
+        throw new Error('Enterprise not initialized');
+      }
+
+      return await enterprise.email.markAsRead(messageId, mailbox);
+    },
+    [enterprise, isInitialized]
+  );
+
+  return {
+    send,
+    fetch,
+    getThreads,
+    markAsRead,
+    isSending,
+    isFetching,
+    // The getter throws when the module is disabled, so check the config instead.
+    isAvailable: isInitialized && !!enterprise?.getConfig?.().modules?.email,
+  };
+}
+
 export function useBranding() {
   const [logoUrl, setLogoUrl] = useState<string | null>(null);
   const [config, setConfig] = useState<any>(null);
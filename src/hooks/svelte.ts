@@ -187,6 +187,69 @@ export function useAuth() {
   };
 }
 
+export function useEmail() {
+  const isSending = writable(false);
+  const isFetching = writable(false);
+
+  return {
+    isSending,
+    isFetching,
+    send: async (options: any) => {
+      const $enterprise = get(enterprise);
+      if (!$enterprise) {
+        throw new Error('Enterprise not initialized');
+      }
+
+      isSending.set(true);
+      try {
+        return await $enterprise.email.sendEmail(options);
+      } finally {
+        isSending.set(false);
+      }
+    },
+    fetch: async (options?: any) => {
+      const $enterprise = get(enterprise);
+      if (!$enterprise) {
+        throw new Error('Enterprise not initialized');
+      }
+
+      isFetching.set(true);
+      try {
+        return await $enterprise.email.fetchEmails(options);
+      } finally {
+        isFetching.set(false);
+      }
+    },
+    getThreads: async (options?: any) => {
+      const $enterprise = get(enterprise);
+      if (!$enterprise) {
+        throw new Error('Enterprise not initialized');
+      }
+
+      isFetching.set(true);
+      try {
+        return await $enterprise.email.getThreads(options);
+      } finally {
+        isFetching.set(false);
+      }
+    },
+    markAsRead: async (messageId: string, mailbox?: string) => {
+      const $enterprise = get(enterprise);
+      if (!$enterprise) {
+        throw new Error('Enterprise not initialized');
+      }
+
+      return await $enterprise.email.markAsRead(messageId, mailbox);
+    },
+    // The getter throws when the module is disabled, so check the config instead.
+    isAvailable: derived(
+      [isInitialized, enterprise],
+      ([$isInitialized, $enterprise]) =>
+        $isInitialized && !!$enterprise?.getConfig?.().modules?.email
+    ),
+  };
+}
+
 export function useBranding() {
   const logoUrl = writable<string | null>(null);
   const config = writable<any>(null);
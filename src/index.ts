@@ -9,6 +9,7 @@ import { UIManager } from '../packages/modules/ui/src/index';
 import { AuthManager } from '../packages/modules/auth/src/index';
 import { ProjectManager } from '../packages/modules/project/src/index';
 import { SDK } from '../packages/modules/sdk/src/index';
+import type { Email } from './modules/email';
 
 // Import Next.js bridge (lazy loading pour éviter les erreurs côté serveur)
 let nextjsBridge: any = null;
@@ -111,6 +112,15 @@ export class EnterpriseSDK {
     return module;
   }
 
+  get email(): Email {
+    this.ensureInitialized();
+    const module = this.loader!.getModule('email');
+    if (!module) {
+      throw new Error('Email module not loaded');
+    }
+    return module as Email;
+  }
+
   get runtime() {
     this.ensureInitialized();
     return this.loader!.getRuntime();
@@ -199,6 +209,43 @@ export type { Project, Task } from '../packages/modules/project/src/index';
 
 export type { SDKMetaInfo, SDKSelfReferenceOptions } from '../packages/modules/sdk/src/index';
 
+// The email backend needs Node's net and tls, so it stays behind the module
+// loader's lazy import; only its types are exported here.
+export type {
+  EmailManager,
+  EmailConfig,
+  EmailMessage,
+  EmailStats,
+  EmailThread,
+  SendEmailOptions,
+  FetchEmailOptions,
+} from '../packages/modules/email/src/index';
+
+// Errors raised by WASM calls
+export { WasmCallError, WasmErrorCode } from './core/wasm-abi';
+export { RuntimeError, ResourceLimitError } from '../packages/shared/src/errors';
+export type { ResourceLimit } from '../packages/shared/src/errors';
+
+// Recording and replaying runtimes for deterministic tests
+export {
+  createRuntime,
+  RecordingRuntime,
+  ReplayRuntime,
+  ReplayMissError,
+} from './core/record-replay';
+export type { ReplayOptions } from './core/record-replay';
+
+// API description of WASM modules, from their exports and `euse_api` section
+export {
+  API_SECTION,
+  describeModuleApi,
+  formatSignature,
+  validateArguments,
+} from './core/wasm-metadata';
+export type { WasmFunctionApi, WasmModuleApi, WasmParam } from './core/wasm-metadata';
+export { generateBindings, parseWit } from './core/bindgen';
+export type { BindgenModule, BindgenOptions } from './core/bindgen';
+
 // Utility exports
 export * from './types';
 export * from './hooks';
@@ -1,12 +1,11 @@
-import { ModuleInterface } from '../../types';
-import { WasmRuntime } from '../../core/runtime';
+import { ModuleInterface, RuntimeCore } from '../../types';
 
 export class Ai implements ModuleInterface {
   name = 'ai';
   version = '0.1.0';
-  private runtime: WasmRuntime;
+  private runtime: RuntimeCore;
 
-  constructor(runtime: WasmRuntime) {
+  constructor(runtime: RuntimeCore) {
     this.runtime = runtime;
   }
 
@@ -1,5 +1,4 @@
-import { ModuleInterface } from '../../types';
-import { WasmRuntime } from '../../core/runtime';
+import { ModuleInterface, RuntimeCore } from '../../types';
 
 export interface User {
   id: string;
@@ -20,10 +19,10 @@ export interface AuthSession {
 export class Auth implements ModuleInterface {
   name = 'auth';
   version = '0.1.0';
-  private runtime: WasmRuntime;
+  private runtime: RuntimeCore;
   private currentSession: AuthSession | null = null;
 
-  constructor(runtime: WasmRuntime) {
+  constructor(runtime: RuntimeCore) {
     this.runtime = runtime;
   }
 
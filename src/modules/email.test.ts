@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ModuleLoader } from '../core/loader';
+import { WasmRuntime } from '../core/runtime';
+import { Email } from './email';
+
+const smtp = {
+  host: 'smtp.example.com',
+  port: 587,
+  secure: false,
+  auth: { user: 'noreply@example.com', password: 'secret' },
+};
+
+describe('Email module', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('is loaded with the typed email settings when enabled', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const loader = new ModuleLoader({
+      modules: { email: true },
+      runtime: { enableWasm: false },
+      email: { smtp },
+    });
+    await loader.initialize();
+
+    const email = loader.getModule('email');
+    expect(email).toBeInstanceOf(Email);
+    const manager = (email as Email).getManager();
+    expect(manager.getSmtpClient()).not.toBeNull();
+    expect(manager.getImapClient()).toBeNull();
+
+    await loader.destroy();
+  });
+
+  it('is not loaded unless the flag is set', async () => {
+    const loader = new ModuleLoader({
+      modules: {},
+      runtime: { enableWasm: false },
+      email: { smtp },
+    });
+    await loader.initialize();
+
+    expect(loader.getModule('email')).toBeUndefined();
+  });
+
+  it('rejects operations for protocols that are not configured', async () => {
+    const email = new Email(new WasmRuntime({ enableWasm: false }), { smtp });
+
+    await expect(email.fetchEmails()).rejects.toThrow('IMAP or POP3 configuration not found');
+    await expect(email.getMailboxes()).rejects.toThrow('IMAP configuration not found');
+  });
+});
@@ -1,90 +1,46 @@
-import { ModuleInterface } from '../../types';
-import { WasmRuntime } from '../../core/runtime';
-
-export interface EmailConfig {
-  imap?: {
-    host: string;
-    port: number;
-    secure: boolean;
-    auth: {
-      user: string;
-      password: string;
-    };
-  };
-  smtp?: {
-    host: string;
-    port: number;
-    secure: boolean;
-    auth: {
-      user: string;
-      password: string;
-    };
-  };
-  pop3?: {
-    host: string;
-    port: number;
-    secure: boolean;
-    auth: {
-      user: string;
-      password: string;
-    };
-  };
-}
-
-export interface EmailMessage {
-  id?: string;
-  from: string;
-  to: string[];
-  cc?: string[];
-  bcc?: string[];
-  subject: string;
-  text?: string;
-  html?: string;
-  attachments?: Array<{
-    filename: string;
-    content: string | Uint8Array;
-    contentType?: string;
-  }>;
-  date?: Date;
-  flags?: string[];
-  uid?: number;
-}
-
-export interface SendEmailOptions {
-  to: string | string[];
-  cc?: string | string[];
-  bcc?: string | string[];
-  subject: string;
-  text?: string;
-  html?: string;
-  attachments?: Array<{
-    filename: string;
-    content: string | Uint8Array;
-    contentType?: string;
-  }>;
-}
-
-export interface FetchEmailOptions {
-  mailbox?: string;
-  limit?: number;
-  unseen?: boolean;
-  since?: Date;
-  search?: {
-    from?: string;
-    to?: string;
-    subject?: string;
-    body?: string;
-  };
-}
-
+import { ModuleInterface, RuntimeCore } from '../../types';
+import { EmailManager } from '../../../packages/modules/email/src/index';
+import type { ImapMailbox } from '../../../packages/modules/email/src/index';
+import type {
+  EmailConfig,
+  EmailMessage,
+  EmailStats,
+  EmailThread,
+  FetchEmailOptions,
+  SendEmailOptions,
+  SendTemplateOptions,
+  ThreadOptions,
+} from '../../../packages/modules/email/src/types';
+
+export type {
+  EmailConfig,
+  EmailMessage,
+  EmailStats,
+  EmailThread,
+  FetchEmailOptions,
+  SendEmailOptions,
+  SendTemplateOptions,
+  ThreadOptions,
+};
+
+/**
+ * SDK module wrapper around `EmailManager`. Settings come from
+ * `EnterpriseConfig.email` (or `configure`); each operation connects the
+ * server it needs on first use, and again after the connection dropped.
+ */
 export class Email implements ModuleInterface {
   name = 'email';
   version = '0.1.0';
-  private runtime: WasmRuntime;
+  private manager = new EmailManager();
   private config: EmailConfig | null = null;
 
-  constructor(runtime: WasmRuntime) {
-    this.runtime = runtime;
+  constructor(runtime: RuntimeCore, config?: EmailConfig) {
+    if (config) {
+      this.config = config;
+      this.manager.configure(config);
+    }
+    // Without WASM, `email_send` goes out through the configured SMTP server.
+    runtime.registerHandler('email_send', (options) => this.sendEmail(options), { default: true });
   }
 
   async init(): Promise<void> {
@@ -92,12 +48,14 @@ export class Email implements ModuleInterface {
   }
 
   async destroy(): Promise<void> {
+    await this.disconnect();
     console.log('Email Module destroyed');
   }
 
   async configure(config: EmailConfig): Promise<void> {
+    await this.disconnect();
     this.config = config;
-    await this.runtime.call('email_configure', config);
+    this.manager = new EmailManager(config);
   }
 
   async sendEmail(options: SendEmailOptions): Promise<{
@@ -111,21 +69,35 @@ export class Email implements ModuleInterface {
     }
 
     try {
-      const result = await this.runtime.call('email_send', {
-        config: this.config.smtp,
-        options,
-      });
-
-      return {
-        messageId: result.messageId || this.generateMessageId(),
-        accepted: result.accepted || [],
-        rejected: result.rejected || [],
-        pending: result.pending || [],
-      };
+      await this.manager.connect('smtp');
+      return await this.manager.sendEmail(options);
     } catch (error) {
       console.error('Send email failed:', error);
-      throw new Error('Failed to send email');
+      // Keep the SmtpError so callers can read its responseCode.
+      throw error;
+    }
+  }
+
+  async sendTemplate(
+    name: string,
+    data: Record<string, unknown>,
+    options: SendTemplateOptions
+  ): Promise<{ messageId: string; accepted: string[]; rejected: string[]; pending: string[] }> {
+    if (!this.config?.smtp) {
+      throw new Error('SMTP configuration not found');
+    }
+
+    await this.manager.connect('smtp');
+    return this.manager.sendTemplate(name, data, options);
+  }
+
+  /** Queues the message for background delivery and returns its queue id. */
+  async queueEmail(options: SendEmailOptions): Promise<string> {
+    if (!this.config?.smtp) {
+      throw new Error('SMTP configuration not found');
     }
+
+    return this.manager.queueEmail(options);
   }
 
   async fetchEmails(options: FetchEmailOptions = {}): Promise<EmailMessage[]> {
@@ -134,30 +106,35 @@ export class Email implements ModuleInterface {
     }
 
     try {
-      const protocol = this.config.imap ? 'imap' : 'pop3';
-      const config = this.config.imap || this.config.pop3;
-
-      const result = await this.runtime.call('email_fetch', {
-        protocol,
-        config,
-        options,
-      });
-
-      return (result.messages || []).map(this.formatEmailMessage);
+      await this.connectMailbox();
+      return await this.manager.fetchEmails(options);
     } catch (error) {
       console.error('Fetch emails failed:', error);
       throw new Error('Failed to fetch emails');
     }
   }
 
+  async getThreads(options: ThreadOptions = {}): Promise<EmailThread[]> {
+    await this.connectMailbox();
+    return this.manager.getThreads(options);
+  }
+
   async getMailboxes(): Promise<string[]> {
-    if (!this.config?.imap) {
-      throw new Error('IMAP configuration not found');
-    }
+    const imap = this.requireImap();
 
     try {
-      const result = await this.runtime.call('email_mailboxes', this.config.imap);
-      return result.mailboxes || ['INBOX', 'Sent', 'Drafts', 'Trash'];
+      await this.manager.connect('imap');
+      const names: string[] = [];
+      const walk = (boxes: Record<string, ImapMailbox>) => {
+        for (const box of Object.values(boxes)) {
+          if (!box.attribs.some((attrib) => /^\\Noselect$/i.test(attrib))) {
+            names.push(box.name);
+          }
+          if (box.children) walk(box.children);
+        }
+      };
+      walk(await imap.getMailboxes());
+      return names;
     } catch (error) {
       console.error('Get mailboxes failed:', error);
       throw new Error('Failed to get mailboxes');
@@ -165,17 +142,12 @@ export class Email implements ModuleInterface {
   }
 
   async markAsRead(messageId: string, mailbox?: string): Promise<boolean> {
-    if (!this.config?.imap) {
-      throw new Error('IMAP configuration not found');
-    }
+    this.requireImap();
 
     try {
-      const result = await this.runtime.call('email_mark_read', {
-        config: this.config.imap,
-        messageId,
-        mailbox: mailbox || 'INBOX',
-      });
-      return result.success !== false;
+      await this.manager.connect('imap');
+      await this.manager.updateFlags([Number(messageId)], { add: ['\\Seen'] }, mailbox || 'INBOX');
+      return true;
     } catch (error) {
       console.error('Mark as read failed:', error);
       return false;
@@ -183,17 +155,13 @@ export class Email implements ModuleInterface {
   }
 
   async deleteEmail(messageId: string, mailbox?: string): Promise<boolean> {
-    if (!this.config?.imap) {
-      throw new Error('IMAP configuration not found');
-    }
+    const imap = this.requireImap();
 
     try {
-      const result = await this.runtime.call('email_delete', {
-        config: this.config.imap,
-        messageId,
-        mailbox: mailbox || 'INBOX',
-      });
-      return result.success !== false;
+      await this.manager.connect('imap');
+      await imap.openBox(mailbox || 'INBOX');
+      await imap.deleteMessages([Number(messageId)]);
+      return true;
     } catch (error) {
       console.error('Delete email failed:', error);
       return false;
@@ -201,45 +169,48 @@ export class Email implements ModuleInterface {
   }
 
   async moveEmail(messageId: string, fromMailbox: string, toMailbox: string): Promise<boolean> {
-    if (!this.config?.imap) {
-      throw new Error('IMAP configuration not found');
-    }
+    const imap = this.requireImap();
 
     try {
-      const result = await this.runtime.call('email_move', {
-        config: this.config.imap,
-        messageId,
-        fromMailbox,
-        toMailbox,
-      });
-      return result.success !== false;
+      await this.manager.connect('imap');
+      await imap.openBox(fromMailbox);
+      await imap.moveMessages([Number(messageId)], toMailbox);
+      return true;
     } catch (error) {
       console.error('Move email failed:', error);
       return false;
     }
   }
 
-  private formatEmailMessage(message: any): EmailMessage {
-    return {
-      id: message.id || message.messageId,
-      from: message.from || '',
-      to: Array.isArray(message.to) ? message.to : [message.to].filter(Boolean),
-      cc: message.cc ? (Array.isArray(message.cc) ? message.cc : [message.cc]) : undefined,
-      bcc: message.bcc ? (Array.isArray(message.bcc) ? message.bcc : [message.bcc]) : undefined,
-      subject: message.subject || '',
-      text: message.text,
-      html: message.html,
-      attachments: message.attachments || [],
-      date: message.date ? new Date(message.date) : new Date(),
-      flags: message.flags || [],
-      uid: message.uid,
-    };
-  }
-
-  private generateMessageId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 11);
-    return `<${timestamp}.${random}@enterprise-sdk>`;
+  getStats(): EmailStats {
+    return this.manager.getStats();
+  }
+
+  /** The underlying manager, for features not wrapped by the module. */
+  getManager(): EmailManager {
+    return this.manager;
+  }
+
+  /** Connects every configured server that is not connected yet. */
+  async connect(): Promise<void> {
+    await this.manager.connectAll();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.manager.disconnectAll();
+  }
+
+  /** IMAP when configured, as `EmailManager` reads mail from it before POP3. */
+  private connectMailbox(): Promise<void> {
+    return this.manager.connect(this.config?.imap ? 'imap' : 'pop3');
+  }
+
+  private requireImap() {
+    const imap = this.manager.getImapClient();
+    if (!this.config?.imap || !imap) {
+      throw new Error('IMAP configuration not found');
+    }
+    return imap;
   }
 }
 
@@ -1,5 +1,4 @@
-import { ModuleInterface } from '../../types';
-import { WasmRuntime } from '../../core/runtime';
+import { ModuleInterface, RuntimeCore } from '../../types';
 
 export interface ProjectData {
   id: string;
@@ -14,11 +13,11 @@ export interface ProjectData {
 export class Project implements ModuleInterface {
   name = 'project';
   version = '0.1.0';
-  private runtime: WasmRuntime;
+  private runtime: RuntimeCore;
   private currentProject: ProjectData | null = null;
   private projects: Map<string, ProjectData> = new Map();
 
-  constructor(runtime: WasmRuntime) {
+  constructor(runtime: RuntimeCore) {
     this.runtime = runtime;
   }
 
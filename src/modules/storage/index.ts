@@ -1,13 +1,12 @@
-import { ModuleInterface } from '../../types';
-import { WasmRuntime } from '../../core/runtime';
+import { ModuleInterface, RuntimeCore } from '../../types';
 
 export class Storage implements ModuleInterface {
   name = 'storage';
   version = '0.1.0';
-  private runtime: WasmRuntime;
+  private runtime: RuntimeCore;
   private cache: Map<string, any> = new Map();
 
-  constructor(runtime: WasmRuntime) {
+  constructor(runtime: RuntimeCore) {
     this.runtime = runtime;
   }
 
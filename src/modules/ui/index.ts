@@ -1,5 +1,4 @@
-import { ModuleInterface } from '../../types';
-import { WasmRuntime } from '../../core/runtime';
+import { ModuleInterface, RuntimeCore } from '../../types';
 
 export interface NotificationOptions {
   type?: 'info' | 'success' | 'warning' | 'error';
@@ -21,10 +20,10 @@ export interface ModalOptions {
 export class Ui implements ModuleInterface {
   name = 'ui';
   version = '0.1.0';
-  private runtime: WasmRuntime;
+  private runtime: RuntimeCore;
   private notifications: Array<any> = [];
 
-  constructor(runtime: WasmRuntime) {
+  constructor(runtime: RuntimeCore) {
     this.runtime = runtime;
   }
 
@@ -1,3 +1,5 @@
+import type { EmailConfig, SendEmailOptions } from '../../packages/modules/email/src/types';
+
 export interface LogoConfig {
   path: string;
   width?: number;
@@ -22,10 +24,26 @@ export interface EnterpriseConfig {
     project?: boolean;
     auth?: boolean;
     sdk?: boolean;
+    email?: boolean;
   };
+  /** SMTP/IMAP/POP3 settings used when `modules.email` is enabled. */
+  email?: EmailConfig;
   runtime?: {
     wasmPath?: string;
     enableWasm?: boolean;
+    /** Caps the linear memory of each WASM instance, in MB. */
+    maxMemoryMB?: number;
+    /** Default budgets for every WASM call. */
+    limits?: CallLimits;
+    /** Runs matching calls on worker threads instead of the caller's thread. */
+    workers?: WorkerPoolConfig;
+    /**
+     * Records calls to a fixture file, or serves them back from one instead of
+     * running them. When replaying, calls the fixture has no entry for go to
+     * handlers the app registered with `registerHandler`; module defaults are
+     * not used, so those calls otherwise throw a `ReplayMissError`.
+     */
+    fixture?: RuntimeFixtureConfig;
   };
   framework?: 'react' | 'svelte' | 'nextjs' | 'auto';
   debug?: boolean;
@@ -42,7 +60,163 @@ export interface ModuleInterface {
 export interface RuntimeCore {
   initialize(): Promise<void>;
   call(method: string, ...args: any[]): Promise<any>;
+  invoke(method: string, args: any[], options?: RuntimeCallOptions): Promise<any>;
+  getStatus(): RuntimeStatus;
+  getMemoryUsage(): MemoryUsage;
+  /**
+   * Serves `method` from JS whenever it is not answered by WASM. Returns a
+   * function that removes the handler again.
+   */
+  registerHandler<M extends keyof RuntimeMethods>(
+    method: M,
+    handler: RuntimeHandler<M>,
+    options?: RegisterHandlerOptions
+  ): () => void;
+  registerHandler(
+    method: string,
+    handler: (...args: any[]) => unknown,
+    options?: RegisterHandlerOptions
+  ): () => void;
   destroy(): void;
 }
 
+/**
+ * Signatures of the runtime methods the SDK calls. Apps can add their own
+ * through declaration merging to get typed `registerHandler` calls.
+ */
+export interface RuntimeMethods {
+  ai_enhance(image: unknown): { enhanced: boolean; data: unknown };
+  ai_generate(prompt: string, options?: Record<string, unknown>): { text: string; usage?: unknown };
+  storage_save(
+    file: unknown,
+    options?: { path?: string; metadata?: unknown }
+  ): {
+    path: string;
+    hash?: string;
+  };
+  storage_load(path: string): { data: unknown; metadata?: unknown };
+  storage_delete(path: string): { deleted: boolean };
+  ui_notify(message: string, options?: Record<string, unknown>): { shown: boolean };
+  ui_modal(options: Record<string, unknown>): { opened: boolean };
+  project_create(project: { id: string; name: string }): Record<string, unknown>;
+  project_open(id: string): { opened?: boolean; project?: { id: string | number; name: string } };
+  project_save(project: { id: string }): { saved: boolean };
+  project_delete(id: string): { deleted: boolean };
+  auth_login(credentials: {
+    email: string;
+    password?: string;
+    provider?: string;
+    token?: string;
+  }): {
+    token: string;
+    user?: unknown;
+    refreshToken?: string;
+  };
+  auth_logout(token?: string): { loggedOut: boolean };
+  auth_register(user: { email: string; password?: string; name?: string; metadata?: unknown }): {
+    token: string;
+    user?: { id: string };
+    refreshToken?: string;
+  };
+  auth_refresh(refreshToken: string): { token: string; refreshToken?: string };
+  auth_update_profile(user: { id: string; email: string }): { updated: boolean };
+  email_send(options: SendEmailOptions): { messageId: string; accepted: string[] };
+  branding_get_logo(): { url: string | null };
+  branding_get_config(): { config: BrandingConfig | null };
+  branding_apply_theme(): { applied: boolean };
+}
+
+/** JS implementation of a runtime method; may return its result or a promise of it. */
+export type RuntimeHandler<M extends keyof RuntimeMethods> = (
+  ...args: Parameters<RuntimeMethods[M]>
+) => ReturnType<RuntimeMethods[M]> | Promise<ReturnType<RuntimeMethods[M]>>;
+
+export interface RegisterHandlerOptions {
+  /**
+   * Registers a default, as modules do for the methods they call. A default
+   * never replaces a handler registered without this flag.
+   */
+  default?: boolean;
+}
+
+/** Whether runtime calls reach a WASM module or the JS simulation, and why. */
+export interface RuntimeStatus {
+  mode: 'native' | 'simulated';
+  environment: 'node' | 'browser';
+  /** Resolved path or URL of the loaded module. */
+  source?: string;
+  /** Calling convention of the loaded module. */
+  abi?: 'json' | 'msgpack' | 'numeric';
+  /** True when the compiled module was reused from an earlier runtime. */
+  cached?: boolean;
+  /** Why the runtime is simulated: WASM disabled, not initialized, or the load error. */
+  reason?: string;
+  /** Size of the worker pool, when calls can run off the caller's thread. */
+  workers?: number;
+}
+
+/**
+ * Selects calls for the worker pool: an exact method name, a `*` glob such
+ * as `ai_*`, a regular expression, or a predicate over the call.
+ */
+export type WorkerRoute = string | RegExp | ((method: string, args: unknown[]) => boolean);
+
+export interface WorkerPoolConfig {
+  /** Number of workers; defaults to the available cores minus one. */
+  size?: number;
+  /** Calls sent to the pool; every call when omitted. */
+  routes?: WorkerRoute[];
+}
+
+export interface CallLimits {
+  /** Wall-clock budget; calls with one run on a worker so they can be stopped. */
+  timeoutMs?: number;
+  /** Fuel budget, charged by modules instrumented to import `env.gas(amount)`. */
+  fuel?: number;
+}
+
+/** Linear memory of the WASM instances, in bytes. */
+export interface MemoryUsage {
+  used: number;
+  /** The `maxMemoryMB` cap, or the current size when uncapped. */
+  total: number;
+  /** Growth since instantiation. */
+  wasmHeap?: number;
+  /** Largest size observed after a call. */
+  peak?: number;
+  /** Combined memory of the pool's workers, as of their last call. */
+  workers?: number;
+}
+
+export interface RuntimeCallOptions {
+  /** Rejects the call when aborted; a call running on a worker is stopped with its worker. */
+  signal?: AbortSignal;
+  /** Forces the call onto (`true`) or off (`false`) the worker pool, overriding the routes. */
+  worker?: boolean;
+  /** Budgets for this call, merged over `runtime.limits`. */
+  limits?: CallLimits;
+}
+
+export interface RuntimeFixtureConfig {
+  mode: 'record' | 'replay';
+  /** JSON fixture file. */
+  path: string;
+  /** Replay only: `strict` (default) matches method and arguments, `loose` the method alone. */
+  match?: 'strict' | 'loose';
+}
+
+/** One runtime call in a fixture; byte arrays and dates are tagged as `$bytes` and `$date`. */
+export interface RecordedCall {
+  method: string;
+  args: unknown[];
+  result?: unknown;
+  /** Set instead of `result` when the call failed. */
+  error?: { name: string; message: string; code?: string | number };
+}
+
+export interface RuntimeFixture {
+  version: 1;
+  calls: RecordedCall[];
+}
+
 export type FrameworkType = 'react' | 'svelte' | 'nextjs' | 'vanilla';
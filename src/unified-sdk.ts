@@ -3,7 +3,8 @@
  * Interface principale pour l'initialisation et l'utilisation du SDK
  */
 
-import { RustBridge, BridgeConfig } from './core/rust-bridge';
+import { RustBridge, BridgeConfig, InvokeOptions } from './core/rust-bridge';
+import { composeMiddlewares, InvokeContext, InvokeMiddleware } from './core/middleware';
 import { UnifiedRuntime } from '../packages/core/src/runtime/unified-runtime';
 import { ModuleLoader } from './core/loader';
 import { EnterpriseConfig } from './types';
@@ -30,25 +31,11 @@ export interface UnifiedSDKConfig {
   mode?: 'development' | 'production' | 'testing';
   /** Plugins à charger */
   plugins?: string[];
-  /** Middlewares globaux */
-  middlewares?: Array<{
-    name: string;
-    execute: (context: any, next: () => Promise<any>) => Promise<any>;
-  }>;
+  /** Middlewares globaux, le premier enveloppant tous les autres */
+  middlewares?: InvokeMiddleware[];
 }
 
-export interface InvokeContext {
-  /** Nom de la fonction appelée */
-  function: string;
-  /** Paramètres */
-  params: Record<string, any>;
-  /** Timestamp */
-  timestamp: number;
-  /** Session ID */
-  sessionId: string;
-  /** Métadonnées */
-  metadata?: Record<string, any>;
-}
+export type { InvokeContext, InvokeMiddleware } from './core/middleware';
 
 /**
  * SDK Unifié Enterprise - Point d'entrée principal
@@ -59,6 +46,7 @@ export class UnifiedEnterpriseSDK {
   private unifiedRuntime: UnifiedRuntime;
   private loader: ModuleLoader | null = null;
   private config: UnifiedSDKConfig;
+  private middlewares: InvokeMiddleware[];
   private isInitialized = false;
   private sessionId: string;
   private initTime: number = 0;
@@ -90,6 +78,8 @@ export class UnifiedEnterpriseSDK {
       ...config,
     };
 
+    this.middlewares = [...(this.config.middlewares || [])];
+
     // Initialiser les composants
     this.rustBridge = RustBridge.getInstance(this.config.bridge);
     this.unifiedRuntime = UnifiedRuntime.getInstance(this.config.runtime);
@@ -150,7 +140,7 @@ export class UnifiedEnterpriseSDK {
   async invoke(
     functionName: string,
     params: Record<string, any> = {},
-    options?: { timeout?: number; context?: Record<string, any> }
+    options?: Pick<InvokeOptions, 'timeout' | 'context' | 'signal' | 'worker'>
   ): Promise<any> {
     this.ensureInitialized();
 
@@ -160,28 +150,28 @@ export class UnifiedEnterpriseSDK {
       timestamp: Date.now(),
       sessionId: this.sessionId,
       metadata: options?.context,
+      options: { timeout: options?.timeout, signal: options?.signal, worker: options?.worker },
     };
 
-    try {
-      // Exécuter les middlewares avant l'appel
-      await this.executeMiddlewares('before', context);
-
-      // Invoquer la fonction via le bridge
-      const result = await this.rustBridge.invoke(functionName, params, {
-        timeout: options?.timeout,
+    // Les middlewares enveloppent l'appel au bridge et peuvent modifier le contexte
+    const pipeline = composeMiddlewares(this.middlewares, (ctx) =>
+      this.rustBridge.invoke(ctx.function, ctx.params, {
+        ...ctx.options,
         sync: false,
-        context: options?.context,
-      });
-
-      // Exécuter les middlewares après l'appel
-      await this.executeMiddlewares('after', { ...context, result });
+        context: ctx.metadata,
+      })
+    );
+    return pipeline(context);
+  }
 
-      return result;
-    } catch (error) {
-      // Exécuter les middlewares d'erreur
-      await this.executeMiddlewares('error', { ...context, error });
-      throw error;
-    }
+  /**
+   * Ajoute un middleware à la fin de la chaîne ; retourne de quoi le retirer
+   */
+  use(middleware: InvokeMiddleware): () => void {
+    this.middlewares.push(middleware);
+    return () => {
+      this.middlewares = this.middlewares.filter((entry) => entry !== middleware);
+    };
   }
 
   /**
@@ -334,24 +324,6 @@ export class UnifiedEnterpriseSDK {
     }
   }
 
-  /**
-   * Exécute les middlewares
-   */
-  private async executeMiddlewares(
-    phase: 'before' | 'after' | 'error',
-    context: any
-  ): Promise<void> {
-    if (!this.config.middlewares) return;
-
-    for (const middleware of this.config.middlewares) {
-      try {
-        await middleware.execute(context, async () => Promise.resolve());
-      } catch (error) {
-        console.warn(`⚠️ Middleware "${middleware.name}" failed in ${phase} phase:`, error);
-      }
-    }
-  }
-
   /**
    * Exécute les hooks d'initialisation
    */